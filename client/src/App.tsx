@@ -28,6 +28,12 @@ import RoundCreatePage from "@/pages/event-admin/round-create";
 import RoundEditPage from "@/pages/event-admin/round-edit";
 import RoundQuestionsPage from "@/pages/event-admin/round-questions";
 import RoundRulesPage from "@/pages/event-admin/round-rules";
+import RoundGradingPage from "@/pages/event-admin/round-grading";
+import RoundAttemptsPage from "@/pages/event-admin/round-attempts";
+import RoundProctoringPage from "@/pages/event-admin/round-proctoring";
+import RoundSimilarityPage from "@/pages/event-admin/round-similarity";
+import RoundViolationsPage from "@/pages/event-admin/round-violations";
+import SessionConflictsPage from "@/pages/event-admin/session-conflicts";
 import QuestionCreatePage from "@/pages/event-admin/question-create";
 import QuestionsBulkUploadPage from "@/pages/event-admin/questions-bulk-upload";
 import EventParticipantsPage from "@/pages/event-admin/event-participants";
@@ -47,8 +53,12 @@ import RegistrationCommitteeCreatePage from "@/pages/admin/registration-committe
 import RegistrationCommitteeDashboard from "@/pages/registration-committee/dashboard";
 import RegistrationCommitteeRegistrationsPage from "@/pages/registration-committee/registrations";
 import OnSpotRegistrationPage from "@/pages/registration-committee/on-spot-registration";
+import ReconciliationPage from "@/pages/registration-committee/reconciliation";
+import CollectionsPage from "@/pages/registration-committee/collections";
 import PublicRegistrationFormPage from "@/pages/public/registration-form";
 import SuperAdminOverridesPage from "@/pages/admin/super-admin-overrides";
+import ProctoringProfilesPage from "@/pages/admin/proctoring-profiles";
+import FeesPage from "@/pages/admin/fees";
 import EmailLogsPage from "@/pages/admin/email-logs";
 import AdminSettingsPage from "@/pages/admin/settings";
 
@@ -159,6 +169,12 @@ function Router() {
       <Route path="/admin/super-admin-overrides">
         <ProtectedRoute component={SuperAdminOverridesPage} allowedRoles={['super_admin']} />
       </Route>
+      <Route path="/admin/proctoring-profiles">
+        <ProtectedRoute component={ProctoringProfilesPage} allowedRoles={['super_admin']} />
+      </Route>
+      <Route path="/admin/fees">
+        <ProtectedRoute component={FeesPage} allowedRoles={['super_admin']} />
+      </Route>
       <Route path="/admin/email-logs">
         <ProtectedRoute component={EmailLogsPage} allowedRoles={['super_admin', 'event_admin']} />
       </Route>
@@ -175,6 +191,12 @@ function Router() {
       <Route path="/registration-committee/on-spot-registration">
         <ProtectedRoute component={OnSpotRegistrationPage} allowedRoles={['registration_committee']} />
       </Route>
+      <Route path="/registration-committee/reconciliation">
+        <ProtectedRoute component={ReconciliationPage} allowedRoles={['registration_committee']} />
+      </Route>
+      <Route path="/registration-committee/collections">
+        <ProtectedRoute component={CollectionsPage} allowedRoles={['registration_committee']} />
+      </Route>
 
       <Route path="/event-admin/dashboard">
         <ProtectedRoute component={EventAdminDashboard} allowedRoles={['event_admin']} />
@@ -206,6 +228,24 @@ function Router() {
       <Route path="/event-admin/rounds/:roundId/rules">
         <ProtectedRoute component={RoundRulesPage} allowedRoles={['event_admin']} />
       </Route>
+      <Route path="/event-admin/rounds/:roundId/grading">
+        <ProtectedRoute component={RoundGradingPage} allowedRoles={['event_admin']} />
+      </Route>
+      <Route path="/event-admin/rounds/:roundId/attempts">
+        <ProtectedRoute component={RoundAttemptsPage} allowedRoles={['event_admin']} />
+      </Route>
+      <Route path="/event-admin/rounds/:roundId/proctoring">
+        <ProtectedRoute component={RoundProctoringPage} allowedRoles={['event_admin']} />
+      </Route>
+      <Route path="/event-admin/rounds/:roundId/similarity">
+        <ProtectedRoute component={RoundSimilarityPage} allowedRoles={['event_admin']} />
+      </Route>
+      <Route path="/event-admin/rounds/:roundId/violations">
+        <ProtectedRoute component={RoundViolationsPage} allowedRoles={['event_admin']} />
+      </Route>
+      <Route path="/event-admin/events/:eventId/session-conflicts">
+        <ProtectedRoute component={SessionConflictsPage} allowedRoles={['event_admin']} />
+      </Route>
       <Route path="/event-admin/events/:eventId/participants">
         <ProtectedRoute component={EventParticipantsPage} allowedRoles={['event_admin']} />
       </Route>
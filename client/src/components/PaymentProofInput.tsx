@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Copy, ExternalLink, ImageUp, Trash2 } from 'lucide-react';
+import { formatRupees, readReceiptImage, upiPayLink, type FeeQuote } from '@/lib/payments';
+
+interface PaymentProofInputProps {
+  quote: FeeQuote;
+  upiId: string | null;
+  payeeName: string;
+  reference: string;
+  onReferenceChange: (value: string) => void;
+  receipt: string | null;
+  onReceiptChange: (value: string | null) => void;
+  errors: { reference?: string; receipt?: string };
+}
+
+// The fee for the picked events, where to pay it, and the proof the committee matches against the bank
+// statement: the UPI transaction ID and a screenshot of the payment.
+export default function PaymentProofInput({
+  quote,
+  upiId,
+  payeeName,
+  reference,
+  onReferenceChange,
+  receipt,
+  onReceiptChange,
+  errors,
+}: PaymentProofInputProps) {
+  const [readError, setReadError] = useState<string | null>(null);
+  const [reading, setReading] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReading(true);
+    setReadError(null);
+    try {
+      onReceiptChange(await readReceiptImage(file));
+    } catch (error) {
+      setReadError(error instanceof Error ? error.message : 'Could not read the receipt image');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const receiptError = readError || errors.receipt;
+
+  return (
+    <div className="space-y-4" data-testid="payment-proof">
+      <div className="flex items-baseline justify-between gap-2 rounded-md border p-4">
+        <div>
+          <p className="font-medium">Registration Fee</p>
+          {quote.combo && (
+            <p className="text-sm text-green-700" data-testid="text-fee-combo">
+              {quote.combo.name} applied · you save {formatRupees(quote.saving)}
+            </p>
+          )}
+        </div>
+        <span className="text-2xl font-bold" data-testid="text-fee-amount">{formatRupees(quote.amount)}</span>
+      </div>
+
+      {upiId && (
+        <div className="space-y-2">
+          <p className="text-sm">
+            Pay <span className="font-semibold">{formatRupees(quote.amount)}</span> by UPI to{' '}
+            <code className="rounded bg-muted px-1.5 py-0.5" data-testid="text-upi-id">{upiId}</code>
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button type="button" variant="outline" size="sm" asChild>
+              <a href={upiPayLink(upiId, payeeName, quote.amount, payeeName)} data-testid="link-upi-pay">
+                <ExternalLink className="h-4 w-4 mr-1" />
+                Open UPI App
+              </a>
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => navigator.clipboard.writeText(upiId)}
+              data-testid="button-copy-upi-id"
+            >
+              <Copy className="h-4 w-4 mr-1" />
+              Copy UPI ID
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="payment-reference">
+          UPI Transaction ID <span className="text-destructive">*</span>
+        </Label>
+        <Input
+          id="payment-reference"
+          value={reference}
+          onChange={(e) => onReferenceChange(e.target.value)}
+          maxLength={40}
+          placeholder="The 12-digit UPI reference number from your payment app"
+          data-testid="input-payment-reference"
+        />
+        {errors.reference && (
+          <p className="text-sm text-destructive" data-testid="error-payment-reference">{errors.reference}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>
+          Payment Screenshot <span className="text-destructive">*</span>
+        </Label>
+        {receipt ? (
+          <div className="flex items-start gap-3">
+            <img
+              src={receipt}
+              alt="Payment receipt"
+              className="max-h-48 rounded-md border object-contain"
+              data-testid="img-receipt-preview"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onReceiptChange(null)}
+              data-testid="button-remove-receipt"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <label className="flex cursor-pointer items-center justify-center gap-2 rounded-md border border-dashed p-6 text-sm text-muted-foreground hover:border-primary/50">
+            <input
+              type="file"
+              accept="image/png,image/jpeg,image/webp"
+              className="hidden"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+              data-testid="input-receipt"
+            />
+            <ImageUp className="h-5 w-5" />
+            {reading ? 'Reading image...' : 'Upload a screenshot showing the amount and transaction ID'}
+          </label>
+        )}
+        {receiptError && (
+          <p className="text-sm text-destructive" data-testid="error-receipt">{receiptError}</p>
+        )}
+      </div>
+    </div>
+  );
+}
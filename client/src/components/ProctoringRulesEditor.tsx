@@ -0,0 +1,207 @@
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { ProctoringProfile } from '@shared/schema';
+
+export type ProctoringRuleKey =
+  | 'forceFullscreen'
+  | 'noTabSwitch'
+  | 'noRefresh'
+  | 'disableShortcuts'
+  | 'autoSubmitOnViolation'
+  | 'maxTabSwitchWarnings';
+
+export type ProctoringRuleSource = 'round' | 'roundProfile' | 'event' | 'eventProfile' | 'default';
+
+// What the server's effective-rules endpoints return
+export interface ResolvedProctoringRules {
+  rules: Record<Exclude<ProctoringRuleKey, 'maxTabSwitchWarnings'>, boolean> & { maxTabSwitchWarnings: number };
+  additionalRules: string | null;
+  sources: Record<ProctoringRuleKey, ProctoringRuleSource> & { additionalRules: ProctoringRuleSource | null };
+}
+
+// A rules row's own settings: null means "inherit"
+export type ProctoringOverrides = { proctoringProfileId: string | null } & Record<ProctoringRuleKey, boolean | number | null>;
+
+export const PROCTORING_RULE_FIELDS: Array<{ key: ProctoringRuleKey; label: string; description: string }> = [
+  { key: 'forceFullscreen', label: 'Force Fullscreen Mode', description: 'Require participants to stay in fullscreen during the test' },
+  { key: 'noTabSwitch', label: 'Disable Tab Switching', description: 'Detect and log when participants switch browser tabs' },
+  { key: 'noRefresh', label: 'Block Page Refresh', description: 'Prevent participants from refreshing the test page' },
+  { key: 'disableShortcuts', label: 'Disable Keyboard Shortcuts', description: 'Block common keyboard shortcuts like copy, paste, print' },
+  { key: 'autoSubmitOnViolation', label: 'Auto-Submit on Violation', description: 'Automatically submit test when violation limit is exceeded' },
+  { key: 'maxTabSwitchWarnings', label: 'Maximum Warnings', description: 'Warnings before the violation limit is reached' },
+];
+
+export const RULE_SOURCE_LABELS: Record<ProctoringRuleSource, string> = {
+  round: 'round override',
+  roundProfile: 'round profile',
+  event: 'event rules',
+  eventProfile: 'event profile',
+  default: 'default',
+};
+
+export function overridesFromRules(rules: Partial<ProctoringOverrides> | undefined): ProctoringOverrides {
+  return {
+    proctoringProfileId: rules?.proctoringProfileId ?? null,
+    forceFullscreen: rules?.forceFullscreen ?? null,
+    noTabSwitch: rules?.noTabSwitch ?? null,
+    noRefresh: rules?.noRefresh ?? null,
+    disableShortcuts: rules?.disableShortcuts ?? null,
+    autoSubmitOnViolation: rules?.autoSubmitOnViolation ?? null,
+    maxTabSwitchWarnings: rules?.maxTabSwitchWarnings ?? null,
+  };
+}
+
+export function formatRuleValue(value: boolean | number | null | undefined) {
+  if (typeof value === 'number') return String(value);
+  return value ? 'On' : 'Off';
+}
+
+interface ProctoringRulesEditorProps {
+  value: ProctoringOverrides;
+  onChange: (value: ProctoringOverrides) => void;
+  profiles: ProctoringProfile[];
+  // What each setting would be with no profile and no overrides here
+  inherited?: ResolvedProctoringRules;
+  disabled?: boolean;
+}
+
+const NO_PROFILE = 'none';
+const INHERIT = 'inherit';
+
+// Pick a profile, then override single settings on top of it. Settings left on "Inherit" follow the
+// profile, or whatever this level inherits when there is no profile.
+export default function ProctoringRulesEditor({ value, onChange, profiles, inherited, disabled }: ProctoringRulesEditorProps) {
+  const profile = profiles.find((p) => p.id === value.proctoringProfileId);
+
+  const inheritedValue = (key: ProctoringRuleKey) => {
+    if (profile) return { value: profile[key], from: `profile "${profile.name}"` };
+    if (!inherited) return { value: undefined, from: '' };
+    return { value: inherited.rules[key], from: RULE_SOURCE_LABELS[inherited.sources[key]] };
+  };
+
+  const update = (key: keyof ProctoringOverrides, next: boolean | number | string | null) => {
+    onChange({ ...value, [key]: next });
+  };
+
+  // A newly picked profile starts with every setting inherited from it; overrides can be added back
+  const selectProfile = (profileId: string | null) => {
+    if (!profileId || profileId === value.proctoringProfileId) {
+      update('proctoringProfileId', profileId);
+      return;
+    }
+    const cleared = { ...value, proctoringProfileId: profileId };
+    for (const { key } of PROCTORING_RULE_FIELDS) cleared[key] = null;
+    onChange(cleared);
+  };
+
+  return (
+    <div className="space-y-4" data-testid="editor-proctoring-rules">
+      <div className="rounded-lg border p-4 space-y-2">
+        <p className="text-base font-medium">Proctoring Profile</p>
+        <Select
+          value={value.proctoringProfileId || NO_PROFILE}
+          onValueChange={(next) => selectProfile(next === NO_PROFILE ? null : next)}
+          disabled={disabled}
+        >
+          <SelectTrigger data-testid="select-proctoring-profile">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_PROFILE}>No profile</SelectItem>
+            {profiles.map((p) => (
+              <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-sm text-muted-foreground">
+          {profile?.description || 'Settings below marked "Inherit" follow the profile when one is chosen.'}
+        </p>
+      </div>
+
+      {PROCTORING_RULE_FIELDS.map(({ key, label, description }) => {
+        const own = value[key];
+        const fallback = inheritedValue(key);
+        const inheritLabel = fallback.value === undefined
+          ? 'Inherit'
+          : `Inherit (${formatRuleValue(fallback.value)} from ${fallback.from})`;
+
+        return (
+          <div key={key} className="flex flex-row items-center justify-between gap-4 rounded-lg border p-4" data-testid={`row-rule-${key}`}>
+            <div className="space-y-0.5">
+              <p className="text-base font-medium">{label}</p>
+              <p className="text-sm text-muted-foreground">{description}</p>
+            </div>
+            {key === 'maxTabSwitchWarnings' ? (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  max="10"
+                  className="w-24"
+                  placeholder={fallback.value === undefined ? 'Inherit' : String(fallback.value)}
+                  value={own === null ? '' : String(own)}
+                  onChange={(e) => update(key, e.target.value === '' ? null : parseInt(e.target.value))}
+                  disabled={disabled}
+                  data-testid="input-max-warnings"
+                />
+                {own !== null && (
+                  <Button type="button" variant="ghost" size="sm" onClick={() => update(key, null)} disabled={disabled}>
+                    Inherit
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <Select
+                value={own === null ? INHERIT : own ? 'on' : 'off'}
+                onValueChange={(next) => update(key, next === INHERIT ? null : next === 'on')}
+                disabled={disabled}
+              >
+                <SelectTrigger className="w-64" data-testid={`select-rule-${key}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={INHERIT}>{inheritLabel}</SelectItem>
+                  <SelectItem value="on">On</SelectItem>
+                  <SelectItem value="off">Off</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// The saved rules as participants get them, with where each setting comes from
+export function EffectiveRulesCard({ effective, profileNames }: {
+  effective: ResolvedProctoringRules;
+  profileNames: Partial<Record<ProctoringRuleSource, string>>;
+}) {
+  const sourceLabel = (source: ProctoringRuleSource) =>
+    profileNames[source] ? `${RULE_SOURCE_LABELS[source]} "${profileNames[source]}"` : RULE_SOURCE_LABELS[source];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Effective Rules</CardTitle>
+        <CardDescription>What participants get once profiles and overrides are applied (saved settings only)</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <dl className="grid grid-cols-2 gap-x-6 gap-y-2 text-sm" data-testid="list-effective-rules">
+          {PROCTORING_RULE_FIELDS.map(({ key, label }) => (
+            <div key={key} className="flex justify-between border-b py-1">
+              <dt className="text-gray-600">{label}</dt>
+              <dd>
+                <span className="font-medium">{formatRuleValue(effective.rules[key])}</span>
+                <span className="text-xs text-muted-foreground ml-2">{sourceLabel(effective.sources[key])}</span>
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,355 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import { FIELD_TYPE_LABELS, FIELD_ROLE_LABELS, ROLE_FIELD_TYPES, isChoiceField } from '@/lib/registrationFields';
+import {
+  REGISTRATION_FIELD_TYPES,
+  REGISTRATION_FIELD_ROLES,
+  type RegistrationFormField,
+  type RegistrationFieldCondition,
+  type RegistrationFieldRole,
+} from '@shared/schema';
+
+interface RegistrationFieldEditorProps {
+  field: RegistrationFormField;
+  // Fields above this one; only these can control whether it is shown
+  earlierFields: RegistrationFormField[];
+  // Roles other fields already hold
+  takenRoles: RegistrationFieldRole[];
+  onChange: (changes: Partial<RegistrationFormField>) => void;
+  onRemove: () => void;
+  onMove: (direction: -1 | 1) => void;
+  isFirst: boolean;
+  isLast: boolean;
+}
+
+const ALWAYS = 'always';
+const NO_ROLE = 'none';
+
+// Approval needs these, so their fields are always required and always shown
+const ACCOUNT_ROLES: RegistrationFieldRole[] = ['full_name', 'email'];
+
+const OPERATOR_LABELS: Record<RegistrationFieldCondition['operator'], string> = {
+  equals: 'is',
+  not_equals: 'is not',
+  is_filled: 'is answered',
+};
+
+// What min and max mean for each field type, if anything
+function boundsLabel(type: RegistrationFormField['type']): string | null {
+  switch (type) {
+    case 'number':
+      return 'value';
+    case 'checkbox_group':
+      return 'options ticked';
+    case 'text':
+    case 'textarea':
+    case 'email':
+    case 'tel':
+      return 'length';
+    default:
+      return null;
+  }
+}
+
+const parseBound = (value: string) => (value === '' || Number.isNaN(Number(value)) ? undefined : Number(value));
+
+// One field of a registration form in the form builder: type, options, validation and its show-if rule
+export default function RegistrationFieldEditor({
+  field,
+  earlierFields,
+  takenRoles,
+  onChange,
+  onRemove,
+  onMove,
+  isFirst,
+  isLast,
+}: RegistrationFieldEditorProps) {
+  const rules = field.validation || {};
+  const bounds = boundsLabel(field.type);
+  const textLike = ['text', 'textarea', 'email', 'tel'].includes(field.type);
+  const source = earlierFields.find((f) => f.id === field.showIf?.fieldId);
+  const accountRole = !!field.role && ACCOUNT_ROLES.includes(field.role);
+  const availableRoles = REGISTRATION_FIELD_ROLES.filter(
+    (role) => ROLE_FIELD_TYPES[role].includes(field.type) && !takenRoles.includes(role)
+  );
+
+  const changeType = (type: RegistrationFormField['type']) => {
+    const keepRole = field.role && ROLE_FIELD_TYPES[field.role].includes(type);
+    onChange({ type, validation: undefined, role: keepRole ? field.role : undefined });
+  };
+
+  const changeRole = (role: RegistrationFieldRole | undefined) => {
+    const forAccount = !!role && ACCOUNT_ROLES.includes(role);
+    onChange(forAccount ? { role, required: true, showIf: undefined } : { role });
+  };
+
+  const updateRules = (changes: Partial<NonNullable<RegistrationFormField['validation']>>) => {
+    onChange({ validation: { ...rules, ...changes } });
+  };
+
+  const updateCondition = (changes: Partial<RegistrationFieldCondition>) => {
+    if (!field.showIf) return;
+    onChange({ showIf: { ...field.showIf, ...changes } });
+  };
+
+  return (
+    <Card className="border-2" data-testid={`field-card-${field.id}`}>
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-start gap-3">
+          <div className="flex-1 space-y-3">
+            <div>
+              <label className="text-xs font-medium text-muted-foreground">Field Label *</label>
+              <Input
+                value={field.label}
+                onChange={(e) => onChange({ label: e.target.value })}
+                placeholder="e.g., Full Name"
+                data-testid={`input-label-${field.id}`}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-xs font-medium text-muted-foreground">Field Type</label>
+                <Select
+                  value={field.type}
+                  onValueChange={changeType}
+                >
+                  <SelectTrigger data-testid={`select-type-${field.id}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REGISTRATION_FIELD_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>{FIELD_TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <label className="text-xs font-medium text-muted-foreground">
+                  {field.type === 'consent' ? 'Checkbox Text (Optional)' : 'Placeholder (Optional)'}
+                </label>
+                <Input
+                  value={field.placeholder || ''}
+                  onChange={(e) => onChange({ placeholder: e.target.value })}
+                  placeholder={field.type === 'consent' ? 'I agree to the rules and code of conduct' : 'Enter placeholder...'}
+                  disabled={field.type === 'radio' || field.type === 'checkbox_group' || field.type === 'date'}
+                  data-testid={`input-placeholder-${field.id}`}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="text-xs font-medium text-muted-foreground">Holds the Participant's</label>
+              <Select
+                value={field.role || NO_ROLE}
+                onValueChange={(value) => changeRole(value === NO_ROLE ? undefined : (value as RegistrationFieldRole))}
+              >
+                <SelectTrigger data-testid={`select-role-${field.id}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ROLE}>Nothing special</SelectItem>
+                  {field.role && !availableRoles.includes(field.role) && (
+                    <SelectItem value={field.role}>{FIELD_ROLE_LABELS[field.role]}</SelectItem>
+                  )}
+                  {availableRoles.map((role) => (
+                    <SelectItem key={role} value={role}>{FIELD_ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                Approval uses this field for the participant's account, credentials and emails
+              </p>
+            </div>
+
+            <div>
+              <label className="text-xs font-medium text-muted-foreground">Help Text (Optional)</label>
+              <Input
+                value={field.helpText || ''}
+                onChange={(e) => onChange({ helpText: e.target.value })}
+                placeholder="Shown under the label"
+                data-testid={`input-help-${field.id}`}
+              />
+            </div>
+
+            {isChoiceField(field) && (
+              <div>
+                <label className="text-xs font-medium text-muted-foreground">Options (one per line) *</label>
+                <Textarea
+                  value={(field.options || []).join('\n')}
+                  onChange={(e) => onChange({ options: e.target.value.split('\n') })}
+                  placeholder={'First year\nSecond year\nThird year'}
+                  className="min-h-[90px]"
+                  data-testid={`input-options-${field.id}`}
+                />
+              </div>
+            )}
+
+            {(bounds || field.type === 'date' || textLike) && (
+              <div className="rounded-md border p-3 space-y-3">
+                <p className="text-xs font-medium text-muted-foreground">Validation (Optional)</p>
+                {bounds && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <Input
+                      type="number"
+                      value={rules.min ?? ''}
+                      onChange={(e) => updateRules({ min: parseBound(e.target.value) })}
+                      placeholder={`Minimum ${bounds}`}
+                      data-testid={`input-min-${field.id}`}
+                    />
+                    <Input
+                      type="number"
+                      value={rules.max ?? ''}
+                      onChange={(e) => updateRules({ max: parseBound(e.target.value) })}
+                      placeholder={`Maximum ${bounds}`}
+                      data-testid={`input-max-${field.id}`}
+                    />
+                  </div>
+                )}
+                {field.type === 'date' && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="text-xs text-muted-foreground">Earliest</label>
+                      <Input
+                        type="date"
+                        value={rules.minDate || ''}
+                        onChange={(e) => updateRules({ minDate: e.target.value || undefined })}
+                        data-testid={`input-min-date-${field.id}`}
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs text-muted-foreground">Latest</label>
+                      <Input
+                        type="date"
+                        value={rules.maxDate || ''}
+                        onChange={(e) => updateRules({ maxDate: e.target.value || undefined })}
+                        data-testid={`input-max-date-${field.id}`}
+                      />
+                    </div>
+                  </div>
+                )}
+                {textLike && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <Input
+                      value={rules.pattern || ''}
+                      onChange={(e) => updateRules({ pattern: e.target.value || undefined })}
+                      placeholder="Pattern, e.g. ^[0-9]{2}[A-Z]{2}[0-9]{3}$"
+                      className="font-mono text-sm"
+                      data-testid={`input-pattern-${field.id}`}
+                    />
+                    <Input
+                      value={rules.patternMessage || ''}
+                      onChange={(e) => updateRules({ patternMessage: e.target.value || undefined })}
+                      placeholder="Message when it does not match"
+                      disabled={!rules.pattern}
+                      data-testid={`input-pattern-message-${field.id}`}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {earlierFields.length > 0 && !accountRole && (
+              <div className="rounded-md border p-3 space-y-2">
+                <p className="text-xs font-medium text-muted-foreground">Show This Field</p>
+                <div className="grid grid-cols-3 gap-3">
+                  <Select
+                    value={field.showIf?.fieldId || ALWAYS}
+                    onValueChange={(value) =>
+                      onChange({ showIf: value === ALWAYS ? undefined : { fieldId: value, operator: 'is_filled' } })
+                    }
+                  >
+                    <SelectTrigger data-testid={`select-show-if-${field.id}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALWAYS}>Always</SelectItem>
+                      {earlierFields.map((f) => (
+                        <SelectItem key={f.id} value={f.id}>When {f.label || 'untitled field'}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {field.showIf && (
+                    <Select
+                      value={field.showIf.operator}
+                      onValueChange={(value: RegistrationFieldCondition['operator']) =>
+                        updateCondition({ operator: value, value: value === 'is_filled' ? undefined : field.showIf?.value })
+                      }
+                    >
+                      <SelectTrigger data-testid={`select-show-if-operator-${field.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(OPERATOR_LABELS).map(([operator, label]) => (
+                          <SelectItem key={operator} value={operator}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {field.showIf && field.showIf.operator !== 'is_filled' && (
+                    source && isChoiceField(source) ? (
+                      <Select value={field.showIf.value || ''} onValueChange={(value) => updateCondition({ value })}>
+                        <SelectTrigger data-testid={`select-show-if-value-${field.id}`}>
+                          <SelectValue placeholder="Pick an option" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(source.options || []).filter((o) => o.trim()).map((option) => (
+                            <SelectItem key={option} value={option}>{option}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Input
+                        value={field.showIf.value || ''}
+                        onChange={(e) => updateCondition({ value: e.target.value })}
+                        placeholder="Value"
+                        data-testid={`input-show-if-value-${field.id}`}
+                      />
+                    )
+                  )}
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`required-${field.id}`}
+                checked={field.required}
+                onCheckedChange={(checked) => onChange({ required: !!checked })}
+                disabled={accountRole}
+                data-testid={`checkbox-required-${field.id}`}
+              />
+              <label htmlFor={`required-${field.id}`} className="text-sm font-medium cursor-pointer">
+                Required field
+              </label>
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <Button variant="ghost" size="icon" onClick={() => onMove(-1)} disabled={isFirst} title="Move up">
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={() => onMove(1)} disabled={isLast} title="Move down">
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onRemove}
+              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+              data-testid={`button-delete-${field.id}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,127 @@
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CONSENT_VALUE } from '@/lib/registrationFields';
+import type { RegistrationFormField, RegistrationFieldValue } from '@shared/schema';
+
+interface RegistrationFieldInputProps {
+  field: RegistrationFormField;
+  value: RegistrationFieldValue | undefined;
+  onChange: (value: RegistrationFieldValue) => void;
+  error?: string | null;
+  disabled?: boolean;
+}
+
+// One registration form field as participants fill it in; the form builder's live preview uses it disabled
+export default function RegistrationFieldInput({ field, value, onChange, error, disabled }: RegistrationFieldInputProps) {
+  const text = typeof value === 'string' ? value : '';
+  const picked = Array.isArray(value) ? value : [];
+  const options = (field.options || []).filter((option) => option.trim());
+  const rules = field.validation;
+
+  const control = () => {
+    switch (field.type) {
+      case 'textarea':
+        return (
+          <Textarea
+            id={field.id}
+            placeholder={field.placeholder || ''}
+            value={text}
+            onChange={(e) => onChange(e.target.value)}
+            maxLength={rules?.max}
+            disabled={disabled}
+            className="max-w-xl min-h-[100px]"
+            data-testid={`input-${field.id}`}
+          />
+        );
+      case 'select':
+        return (
+          <Select value={text} onValueChange={onChange} disabled={disabled}>
+            <SelectTrigger id={field.id} className="max-w-xl" data-testid={`select-${field.id}`}>
+              <SelectValue placeholder={field.placeholder || 'Select an option'} />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'radio':
+        return (
+          <RadioGroup value={text} onValueChange={onChange} disabled={disabled} data-testid={`radio-${field.id}`}>
+            {options.map((option, index) => (
+              <div key={option} className="flex items-center gap-2">
+                <RadioGroupItem value={option} id={`${field.id}-${index}`} />
+                <Label htmlFor={`${field.id}-${index}`} className="font-normal cursor-pointer">{option}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+      case 'checkbox_group':
+        return (
+          <div className="space-y-2" data-testid={`checkboxes-${field.id}`}>
+            {options.map((option, index) => (
+              <div key={option} className="flex items-center gap-2">
+                <Checkbox
+                  id={`${field.id}-${index}`}
+                  checked={picked.includes(option)}
+                  onCheckedChange={(checked) =>
+                    onChange(checked ? [...picked, option] : picked.filter((p) => p !== option))
+                  }
+                  disabled={disabled}
+                />
+                <Label htmlFor={`${field.id}-${index}`} className="font-normal cursor-pointer">{option}</Label>
+              </div>
+            ))}
+          </div>
+        );
+      case 'consent':
+        return (
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id={field.id}
+              checked={text === CONSENT_VALUE}
+              onCheckedChange={(checked) => onChange(checked ? CONSENT_VALUE : '')}
+              disabled={disabled}
+              data-testid={`checkbox-${field.id}`}
+            />
+            <Label htmlFor={field.id} className="font-normal cursor-pointer leading-snug">
+              {field.placeholder || `I agree to ${field.label}`}
+            </Label>
+          </div>
+        );
+      default:
+        return (
+          <Input
+            id={field.id}
+            type={field.type}
+            placeholder={field.placeholder || ''}
+            value={text}
+            onChange={(e) => onChange(e.target.value)}
+            min={field.type === 'date' ? rules?.minDate : rules?.min}
+            max={field.type === 'date' ? rules?.maxDate : rules?.max}
+            disabled={disabled}
+            className="max-w-xl"
+            data-testid={`input-${field.id}`}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-2" data-testid={`field-${field.id}`}>
+      <Label htmlFor={field.id} className="text-sm font-medium">
+        {field.label} {field.required && <span className="text-destructive">*</span>}
+      </Label>
+      {field.helpText && <p className="text-xs text-muted-foreground">{field.helpText}</p>}
+      {control()}
+      {error && (
+        <p className="text-sm text-destructive" data-testid={`error-${field.id}`}>{error}</p>
+      )}
+    </div>
+  );
+}
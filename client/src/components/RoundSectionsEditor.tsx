@@ -0,0 +1,108 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, Trash2, ArrowUp, ArrowDown } from 'lucide-react';
+import type { RoundSection } from '@shared/schema';
+
+interface RoundSectionsEditorProps {
+  value: RoundSection[];
+  onChange: (sections: RoundSection[]) => void;
+  disabled?: boolean;
+}
+
+// Ordered, separately timed sections. Participants move through them in order and cannot go back.
+export default function RoundSectionsEditor({ value, onChange, disabled }: RoundSectionsEditorProps) {
+  const update = (index: number, changes: Partial<RoundSection>) => {
+    onChange(value.map((section, i) => (i === index ? { ...section, ...changes } : section)));
+  };
+
+  const move = (index: number, direction: -1 | 1) => {
+    const next = [...value];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    onChange(next);
+  };
+
+  const totalMinutes = value.reduce((sum, section) => sum + (section.durationMinutes || 0), 0);
+
+  return (
+    <div className="space-y-3" data-testid="editor-sections">
+      {value.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No sections. Participants can move freely between all questions for the whole duration.
+        </p>
+      ) : (
+        value.map((section, index) => (
+          <div key={section.id} className="flex items-center gap-2" data-testid={`row-section-${index}`}>
+            <span className="w-6 text-sm text-muted-foreground">{index + 1}.</span>
+            <Input
+              placeholder="Section name, e.g. Quantitative"
+              value={section.name}
+              onChange={(e) => update(index, { name: e.target.value })}
+              className={section.name.trim() ? '' : 'border-red-300'}
+              disabled={disabled}
+              data-testid={`input-section-name-${index}`}
+            />
+            <Input
+              type="number"
+              min="1"
+              value={section.durationMinutes || ''}
+              onChange={(e) => update(index, { durationMinutes: parseInt(e.target.value) || 0 })}
+              className={`w-28 ${section.durationMinutes > 0 ? '' : 'border-red-300'}`}
+              disabled={disabled}
+              data-testid={`input-section-duration-${index}`}
+            />
+            <span className="text-sm text-muted-foreground">min</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => move(index, -1)}
+              disabled={disabled || index === 0}
+              title="Move up"
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => move(index, 1)}
+              disabled={disabled || index === value.length - 1}
+              title="Move down"
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+              disabled={disabled}
+              title="Remove section"
+              data-testid={`button-remove-section-${index}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))
+      )}
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...value, { id: crypto.randomUUID(), name: '', durationMinutes: 10 }])}
+          disabled={disabled}
+          data-testid="button-add-section"
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Section
+        </Button>
+        {value.length > 0 && (
+          <span className="text-sm text-muted-foreground" data-testid="text-sections-total">
+            Total: {totalMinutes} minutes
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import type { AuditLog } from '@shared/schema';
+
+function formatChangeValue(value: unknown) {
+  if (value === null || value === undefined || value === '') return 'inherit';
+  if (typeof value === 'boolean') return value ? 'on' : 'off';
+  return String(value);
+}
+
+interface RulesChangeHistoryProps {
+  logs: AuditLog[];
+  // Profile ids in the changes are shown by name
+  profileNames?: Record<string, string>;
+}
+
+// Audit log entries for a rules row or profile, newest first
+export default function RulesChangeHistory({ logs, profileNames = {} }: RulesChangeHistoryProps) {
+  const describe = (key: string, value: unknown) =>
+    key === 'proctoringProfileId' && typeof value === 'string' ? profileNames[value] || 'deleted profile' : formatChangeValue(value);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Change History</CardTitle>
+        <CardDescription>Every saved change, who made it and when</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {logs.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-history">No changes recorded yet</p>
+        ) : (
+          <ul className="space-y-3">
+            {logs.map((log) => {
+              const changes = (log.changes || {}) as Record<string, { before: unknown; after: unknown }>;
+              return (
+                <li key={log.id} className="border-l-2 border-indigo-200 pl-3" data-testid={`history-${log.id}`}>
+                  <div className="text-sm">
+                    <span className="font-medium">{log.adminUsername}</span>
+                    <span className="text-muted-foreground"> · {new Date(log.timestamp).toLocaleString()} · {log.action.replace(/_/g, ' ')}</span>
+                  </div>
+                  <ul className="text-sm text-gray-700">
+                    {Object.entries(changes).map(([key, change]) => (
+                      <li key={key}>
+                        {key}: {describe(key, change?.before)} → {describe(key, change?.after)}
+                      </li>
+                    ))}
+                  </ul>
+                  {log.reason && <div className="text-xs text-muted-foreground">{log.reason}</div>}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,107 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Plus, Trash2, Users } from 'lucide-react';
+import { describeTeamSize, type TeamSizing } from '@/lib/teams';
+import type { TeamEntry, TeamMemberEntry } from '@shared/schema';
+
+interface TeamEntryInputProps {
+  event: TeamSizing;
+  value: TeamEntry;
+  onChange: (value: TeamEntry) => void;
+  error?: string | null;
+}
+
+// Team name and teammates for one team event. The person registering is the first member, so the
+// rows here are everyone else.
+export default function TeamEntryInput({ event, value, onChange, error }: TeamEntryInputProps) {
+  const maxTeammates = event.maxTeamSize - 1;
+  const minTeammates = Math.max(0, event.minTeamSize - 1);
+
+  const updateMember = (index: number, updates: Partial<TeamMemberEntry>) => {
+    onChange({ ...value, members: value.members.map((m, i) => (i === index ? { ...m, ...updates } : m)) });
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-4" data-testid={`team-${event.id}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 font-medium">
+          <Users className="h-4 w-4" />
+          {event.name}
+        </div>
+        <span className="text-xs text-muted-foreground">{describeTeamSize(event)}, including you</span>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`team-name-${event.id}`}>
+          Team Name <span className="text-destructive">*</span>
+        </Label>
+        <Input
+          id={`team-name-${event.id}`}
+          value={value.name}
+          onChange={(e) => onChange({ ...value, name: e.target.value })}
+          maxLength={60}
+          placeholder="Enter your team name"
+          data-testid={`input-team-name-${event.id}`}
+        />
+      </div>
+
+      {value.members.map((member, index) => (
+        <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-2 items-end">
+          <div className="space-y-1">
+            <Label className="text-xs">Teammate {index + 1} Name</Label>
+            <Input
+              value={member.fullName}
+              onChange={(e) => updateMember(index, { fullName: e.target.value })}
+              data-testid={`input-teammate-name-${event.id}-${index}`}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Email</Label>
+            <Input
+              type="email"
+              value={member.email}
+              onChange={(e) => updateMember(index, { email: e.target.value })}
+              data-testid={`input-teammate-email-${event.id}-${index}`}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Phone (optional)</Label>
+            <Input
+              type="tel"
+              value={member.phone || ''}
+              onChange={(e) => updateMember(index, { phone: e.target.value })}
+              data-testid={`input-teammate-phone-${event.id}-${index}`}
+            />
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            disabled={value.members.length <= minTeammates}
+            onClick={() => onChange({ ...value, members: value.members.filter((_, i) => i !== index) })}
+            data-testid={`button-remove-teammate-${event.id}-${index}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        disabled={value.members.length >= maxTeammates}
+        onClick={() => onChange({ ...value, members: [...value.members, { fullName: '', email: '', phone: '' }] })}
+        data-testid={`button-add-teammate-${event.id}`}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add Teammate
+      </Button>
+
+      {error && (
+        <p className="text-sm text-destructive" data-testid={`error-team-${event.id}`}>{error}</p>
+      )}
+    </div>
+  );
+}
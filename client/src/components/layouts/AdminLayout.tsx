@@ -12,7 +12,9 @@ import {
   FormInput,
   UserCheck,
   ShieldAlert,
+  ShieldCheck,
   Mail,
+  IndianRupee,
   Circle
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
@@ -29,7 +31,9 @@ const navigation = [
   { name: 'Registration Forms', href: '/admin/registration-forms', icon: FormInput },
   { name: 'Registration Committee', href: '/admin/registration-committee', icon: UserCheck },
   { name: 'Registrations', href: '/admin/registrations', icon: FileText },
+  { name: 'Fees & Combos', href: '/admin/fees', icon: IndianRupee },
   { name: 'Reports', href: '/admin/reports', icon: FileText },
+  { name: 'Proctoring Profiles', href: '/admin/proctoring-profiles', icon: ShieldCheck },
   { name: 'Email Logs', href: '/admin/email-logs', icon: Mail },
   { name: 'Super Admin Overrides', href: '/admin/super-admin-overrides', icon: ShieldAlert },
 ];
@@ -1,5 +1,5 @@
 import { Link, useLocation } from "wouter";
-import { ClipboardList, Home, LogOut, UserPlus, Circle } from "lucide-react";
+import { ClipboardList, Home, LogOut, UserPlus, Circle, FileCheck, IndianRupee } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/lib/auth";
@@ -63,6 +63,28 @@ export default function RegistrationCommitteeLayout({ children }: { children: Re
               On-Spot Registration
             </Button>
           </Link>
+
+          <Link href="/registration-committee/reconciliation">
+            <Button
+              variant={isActive("/registration-committee/reconciliation") ? "default" : "ghost"}
+              className="w-full justify-start"
+              data-testid="link-reconciliation"
+            >
+              <FileCheck className="mr-2 h-4 w-4" />
+              Payment Reconciliation
+            </Button>
+          </Link>
+
+          <Link href="/registration-committee/collections">
+            <Button
+              variant={isActive("/registration-committee/collections") ? "default" : "ghost"}
+              className="w-full justify-start"
+              data-testid="link-collections"
+            >
+              <IndianRupee className="mr-2 h-4 w-4" />
+              Collections
+            </Button>
+          </Link>
         </nav>
 
         <div className="mt-auto pt-6">
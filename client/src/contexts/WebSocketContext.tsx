@@ -2,6 +2,7 @@ import { createContext, useContext, useEffect, useRef, useState, ReactNode } fro
 import { io, Socket } from 'socket.io-client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/lib/auth';
+import { queryClient, handleSessionReplaced } from '@/lib/queryClient';
 
 interface WebSocketContextType {
   isConnected: boolean;
@@ -50,6 +51,22 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
 
     socket.on('connect_error', (error) => {
       console.error('WebSocket connection error:', error);
+      if (error.message === 'Session replaced') {
+        handleSessionReplaced();
+      }
+    });
+
+    socket.on('sessionReplaced', () => {
+      handleSessionReplaced();
+    });
+
+    socket.on('sessionConflict', (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/events', data.eventId, 'session-conflicts'] });
+      toast({
+        title: 'Login from another machine',
+        description: `${data.conflict?.participant?.fullName || 'A participant'} signed in on a second machine${data.conflict?.outcome === 'blocked' ? ' and was blocked' : ''}`,
+        variant: 'destructive',
+      });
     });
 
     socket.on('registrationUpdate', (data) => {
@@ -75,12 +92,52 @@ export function WebSocketProvider({ children }: { children: ReactNode }) {
     });
 
     socket.on('resultPublished', (data) => {
+      // Attempts are graded after submission, so an open results page picks up the score here
+      if (data.result?.id) {
+        queryClient.invalidateQueries({ queryKey: ['/api/attempts', data.result.id] });
+      }
       toast({
         title: 'Results Published',
         description: 'Your test results are now available',
       });
     });
 
+    socket.on('leaderboardUpdate', (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/rounds', data.roundId, 'leaderboard'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/events', data.eventId, 'leaderboard'] });
+    });
+
+    const attemptUpdateMessages: Record<string, string> = {
+      extended: 'You have been given extra time',
+      reopened: 'Your test has been reopened',
+      reset: 'Your test has been reset. You can start it again.',
+      resume_allowed: 'You can now continue your test on another machine',
+      paused: 'Your test has been paused by the proctor',
+      resumed: 'Your test has been resumed',
+      force_submitted: 'Your test has been submitted by the proctor',
+      disqualified: 'You have been disqualified from this event',
+    };
+
+    socket.on('attemptUpdate', (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/attempts', data.attemptId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/participants/my-attempts'] });
+      if (attemptUpdateMessages[data.action]) {
+        toast({
+          title: 'Test Updated',
+          description: attemptUpdateMessages[data.action],
+        });
+      }
+    });
+
+    socket.on('proctorWarning', (data) => {
+      toast({
+        title: 'Message from the proctor',
+        description: data.message,
+        variant: 'destructive',
+        duration: 15000,
+      });
+    });
+
     return () => {
       socket.disconnect();
     };
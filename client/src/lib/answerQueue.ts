@@ -0,0 +1,120 @@
+// Durable queue of answers the test page has not yet got the server to accept. Each question keeps
+// only its latest write; every write takes the next sequence number for the attempt, which the
+// server uses to ignore replays and anything older than what it already saved.
+
+import type { AnswerInputStats } from '@shared/schema';
+
+export interface QueuedAnswer {
+  attemptId: string;
+  questionId: string;
+  answer: string;
+  language?: string;
+  inputStats?: AnswerInputStats;
+  clientSeq: number;
+  queuedAt: string;
+}
+
+const DB_NAME = 'test-answers';
+const DB_VERSION = 1;
+const ANSWERS_STORE = 'answers';
+const SEQUENCES_STORE = 'sequences';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        const answers = db.createObjectStore(ANSWERS_STORE, { keyPath: ['attemptId', 'questionId'] });
+        answers.createIndex('attemptId', 'attemptId');
+        db.createObjectStore(SEQUENCES_STORE, { keyPath: 'attemptId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after private browsing blocked the first open
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function result<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Numbers the write and stores it, replacing any earlier unsent write for the same question
+export async function enqueueAnswer(write: Omit<QueuedAnswer, 'clientSeq' | 'queuedAt'>): Promise<QueuedAnswer> {
+  const db = await openDb();
+  const tx = db.transaction([ANSWERS_STORE, SEQUENCES_STORE], 'readwrite');
+  const sequences = tx.objectStore(SEQUENCES_STORE);
+
+  const current = await result<{ attemptId: string; lastSeq: number } | undefined>(sequences.get(write.attemptId));
+  const queued: QueuedAnswer = { ...write, clientSeq: (current?.lastSeq || 0) + 1, queuedAt: new Date().toISOString() };
+  sequences.put({ attemptId: write.attemptId, lastSeq: queued.clientSeq });
+  tx.objectStore(ANSWERS_STORE).put(queued);
+
+  await done(tx);
+  return queued;
+}
+
+// Oldest write first, so replaying keeps the order the participant answered in
+export async function getQueuedAnswers(attemptId: string): Promise<QueuedAnswer[]> {
+  const db = await openDb();
+  const tx = db.transaction(ANSWERS_STORE, 'readonly');
+  const queued = await result<QueuedAnswer[]>(tx.objectStore(ANSWERS_STORE).index('attemptId').getAll(attemptId));
+  return queued.sort((a, b) => a.clientSeq - b.clientSeq);
+}
+
+// Removes a write the server has acknowledged, unless a newer write for the question replaced it meanwhile
+export async function removeQueuedAnswer(entry: Pick<QueuedAnswer, 'attemptId' | 'questionId' | 'clientSeq'>): Promise<boolean> {
+  const db = await openDb();
+  const tx = db.transaction(ANSWERS_STORE, 'readwrite');
+  const store = tx.objectStore(ANSWERS_STORE);
+
+  const current = await result<QueuedAnswer | undefined>(store.get([entry.attemptId, entry.questionId]));
+  const removed = !!current && current.clientSeq === entry.clientSeq;
+  if (removed) store.delete([entry.attemptId, entry.questionId]);
+
+  await done(tx);
+  return removed;
+}
+
+// Continues numbering after the server's highest sequence, e.g. when a test resumes on another machine
+export async function ensureSequenceAtLeast(attemptId: string, seq: number): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(SEQUENCES_STORE, 'readwrite');
+  const sequences = tx.objectStore(SEQUENCES_STORE);
+
+  const current = await result<{ attemptId: string; lastSeq: number } | undefined>(sequences.get(attemptId));
+  if (!current || current.lastSeq < seq) sequences.put({ attemptId, lastSeq: seq });
+
+  await done(tx);
+}
+
+// Drops everything queued for an attempt the server no longer accepts answers for
+export async function clearAttemptQueue(attemptId: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([ANSWERS_STORE, SEQUENCES_STORE], 'readwrite');
+  const answers = tx.objectStore(ANSWERS_STORE);
+
+  const keys = await result(answers.index('attemptId').getAllKeys(attemptId));
+  keys.forEach((key) => answers.delete(key));
+  tx.objectStore(SEQUENCES_STORE).delete(attemptId);
+
+  await done(tx);
+}
@@ -1,5 +1,6 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { useLocation } from 'wouter';
+import { getClientId, getDeviceFingerprint } from './queryClient';
 
 interface User {
   id: string;
@@ -65,7 +66,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       headers: {
         'Content-Type': 'application/json'
       },
-      body: JSON.stringify({ username, password })
+      body: JSON.stringify({ username, password, clientId: getClientId(), deviceFingerprint: getDeviceFingerprint() })
     });
 
     if (!response.ok) {
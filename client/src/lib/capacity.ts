@@ -0,0 +1,18 @@
+// Seat counters the registration endpoints add to each event (see server/services/capacityService.ts)
+export interface EventSeats {
+  capacity: number | null;
+  seatsLeft: number | null; // null = unlimited
+  waitlistCount: number;
+}
+
+export function isFull(event: EventSeats) {
+  return event.seatsLeft === 0;
+}
+
+export function describeSeats(event: EventSeats): string | null {
+  if (event.seatsLeft === null) return null;
+  if (event.seatsLeft === 0) {
+    return event.waitlistCount > 0 ? `Full · ${event.waitlistCount} on the waitlist` : 'Full';
+  }
+  return `${event.seatsLeft} of ${event.capacity} seats left`;
+}
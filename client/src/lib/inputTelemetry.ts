@@ -0,0 +1,74 @@
+import type { AnswerInputStats } from '@shared/schema';
+
+// Running paste and typing totals for one answer. The test page sends them with every save; the
+// server keeps the larger of each counter, so they only need to grow from what was loaded.
+
+// A pause this long ends a typing burst
+export const BURST_PAUSE_MS = 2000;
+
+export interface TypingBurst {
+  lastAt: number;
+  chars: number;
+}
+
+export function emptyInputStats(): AnswerInputStats {
+  return {
+    pasteCount: 0,
+    pastedChars: 0,
+    largestPaste: 0,
+    typedChars: 0,
+    deletedChars: 0,
+    burstCount: 0,
+    longestBurstChars: 0,
+    firstInputAt: null,
+    lastInputAt: null,
+  };
+}
+
+function touch(stats: AnswerInputStats, now: number): AnswerInputStats {
+  const at = new Date(now).toISOString();
+  return { ...stats, firstInputAt: stats.firstInputAt || at, lastInputAt: at };
+}
+
+// Paste and drop both count as pasted content
+export function recordPaste(stats: AnswerInputStats | undefined, chars: number, now = Date.now()): AnswerInputStats {
+  const current = stats || emptyInputStats();
+  return touch(
+    {
+      ...current,
+      pasteCount: current.pasteCount + 1,
+      pastedChars: current.pastedChars + chars,
+      largestPaste: Math.max(current.largestPaste, chars),
+    },
+    now,
+  );
+}
+
+// Returns the burst to pass in with the next keystroke
+export function recordTyping(
+  stats: AnswerInputStats | undefined,
+  burst: TypingBurst | undefined,
+  chars: number,
+  now = Date.now(),
+): { stats: AnswerInputStats; burst: TypingBurst } {
+  const current = stats || emptyInputStats();
+  const continues = !!burst && now - burst.lastAt < BURST_PAUSE_MS;
+  const nextBurst = { lastAt: now, chars: (continues ? burst!.chars : 0) + chars };
+  return {
+    stats: touch(
+      {
+        ...current,
+        typedChars: current.typedChars + chars,
+        burstCount: current.burstCount + (continues ? 0 : 1),
+        longestBurstChars: Math.max(current.longestBurstChars, nextBurst.chars),
+      },
+      now,
+    ),
+    burst: nextBurst,
+  };
+}
+
+export function recordDeletion(stats: AnswerInputStats | undefined, chars: number, now = Date.now()): AnswerInputStats {
+  const current = stats || emptyInputStats();
+  return touch({ ...current, deletedChars: current.deletedChars + chars }, now);
+}
@@ -0,0 +1,139 @@
+import type { Event, FeeCombo } from '@shared/schema';
+
+// Fee quotes and payment checks as the server applies them (server/services/paymentService.ts), so the
+// registration form shows the amount the server will record and flags a bad reference before sending.
+
+export const MAX_FEE = 100000;
+
+const REFERENCE_PATTERN = /^[A-Z0-9]{6,35}$/;
+const RECEIPT_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const RECEIPT_MAX_SIDE = 1600;
+
+export type PricedEvent = Pick<Event, 'id' | 'name' | 'fee'>;
+export type PricedCombo = Pick<FeeCombo, 'id' | 'name' | 'eventIds' | 'amount'>;
+
+export interface FeeQuote {
+  amount: number;
+  combo: Pick<FeeCombo, 'id' | 'name'> | null;
+  saving: number; // Against paying each event's own fee
+}
+
+// What /api/payments/reconcile/preview returns for each bank statement credit
+export type MatchStatus = 'matched' | 'amount_mismatch' | 'already_verified' | 'duplicate' | 'unmatched';
+
+export interface ReconcileRegistrant {
+  id: string;
+  participantName: string;
+  participantEmail: string;
+  paymentStatus: string;
+  paymentReference: string | null;
+  feeAmount: number;
+  amountReceived: number | null;
+  hasReceipt: boolean;
+  submittedAt: string;
+}
+
+export interface StatementMatch {
+  row: { line: number; date: string; description: string; reference: string; amount: number };
+  registrationId: string | null;
+  status: MatchStatus;
+  registration: ReconcileRegistrant | null;
+}
+
+// What /api/payments/summary returns
+export interface CollectionLine {
+  label: string;
+  count: number;
+  expected: number;
+  received: number;
+}
+
+export interface CollectionsSummary {
+  expected: number;
+  received: number;
+  outstanding: number;
+  byStatus: CollectionLine[];
+  byEvent: CollectionLine[];
+}
+
+export const MATCH_STATUS_LABELS: Record<MatchStatus, string> = {
+  matched: 'Matched',
+  amount_mismatch: 'Amount differs',
+  already_verified: 'Already verified',
+  duplicate: 'Repeated credit',
+  unmatched: 'No registration',
+};
+
+export function formatRupees(amount: number) {
+  return `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+}
+
+// The cheapest price for the selected events: their own fees, or one combo covering some of them plus the rest
+export function calculateFee(selected: PricedEvent[], combos: PricedCombo[]): FeeQuote {
+  const total = (events: PricedEvent[]) => events.reduce((sum, event) => sum + event.fee, 0);
+  const selectedIds = selected.map((event) => event.id);
+  const full = total(selected);
+
+  let best: PricedCombo | null = null;
+  let amount = full;
+  for (const combo of combos) {
+    if (!combo.eventIds.every((id) => selectedIds.includes(id))) continue;
+    const price = combo.amount + total(selected.filter((event) => !combo.eventIds.includes(event.id)));
+    if (price < amount) {
+      best = combo;
+      amount = price;
+    }
+  }
+
+  return { amount, combo: best ? { id: best.id, name: best.name } : null, saving: full - amount };
+}
+
+export function normalizeReference(raw: string) {
+  return raw.replace(/[\s-]/g, '').toUpperCase();
+}
+
+export function checkReference(raw: string): string | null {
+  const value = normalizeReference(raw);
+  if (!value) return 'Enter the UPI transaction ID for your payment';
+  if (!REFERENCE_PATTERN.test(value)) return 'The UPI transaction ID should be 6 to 35 letters and digits';
+  return null;
+}
+
+// Opens the participant's UPI app with the payee and amount filled in
+export function upiPayLink(upiId: string, payeeName: string, amount: number, note: string) {
+  const params = new URLSearchParams({ pa: upiId, pn: payeeName, am: amount.toFixed(2), cu: 'INR', tn: note });
+  return `upi://pay?${params.toString()}`;
+}
+
+// Phone screenshots are large, so receipts are scaled down and re-encoded as JPEG before they are sent
+export function readReceiptImage(file: File): Promise<string> {
+  if (!RECEIPT_TYPES.includes(file.type)) {
+    return Promise.reject(new Error('Upload a PNG, JPEG or WebP image of your payment receipt'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = Math.min(1, RECEIPT_MAX_SIDE / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Could not read the receipt image'));
+        return;
+      }
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.8));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read the receipt image'));
+    };
+    image.src = url;
+  });
+}
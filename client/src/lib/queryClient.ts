@@ -1,8 +1,59 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// Identifies this browser so the server can keep an in-progress test on one machine
+export function getClientId(): string {
+  let clientId = localStorage.getItem('clientId');
+  if (!clientId) {
+    clientId = crypto.randomUUID();
+    localStorage.setItem('clientId', clientId);
+  }
+  return clientId;
+}
+
+let deviceFingerprint: string | null = null;
+
+// Describes this machine from its browser characteristics. Identical lab machines produce the same
+// value, so the server only shows it to admins reviewing a conflict; the client id decides.
+export function getDeviceFingerprint(): string {
+  if (deviceFingerprint) return deviceFingerprint;
+
+  const nav = navigator as Navigator & { deviceMemory?: number };
+  const traits = [
+    nav.userAgent,
+    nav.platform,
+    nav.language,
+    Intl.DateTimeFormat().resolvedOptions().timeZone,
+    `${screen.width}x${screen.height}`,
+    screen.colorDepth,
+    nav.hardwareConcurrency,
+    nav.deviceMemory,
+  ].join('|');
+
+  // FNV-1a, twice with different offsets for a 64-bit hex id
+  const hash = (seed: number) => {
+    let h = seed;
+    for (let i = 0; i < traits.length; i++) {
+      h ^= traits.charCodeAt(i);
+      h = Math.imul(h, 0x01000193);
+    }
+    return (h >>> 0).toString(16).padStart(8, '0');
+  };
+  deviceFingerprint = hash(0x811c9dc5) + hash(0x050c5d1f);
+  return deviceFingerprint;
+}
+
+// The account signed in on another machine; this browser's token no longer works
+export function handleSessionReplaced() {
+  localStorage.removeItem('token');
+  window.location.href = '/login?session=replaced';
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
+    if (res.status === 401 && text.includes('session_replaced')) {
+      handleSessionReplaced();
+    }
     throw new Error(`${res.status}: ${text}`);
   }
 }
@@ -16,6 +67,8 @@ export async function apiRequest(
   const headers: Record<string, string> = {
     ...(data ? { "Content-Type": "application/json" } : {}),
     ...(token ? { "Authorization": `Bearer ${token}` } : {}),
+    "X-Client-Id": getClientId(),
+    "X-Device-Fingerprint": getDeviceFingerprint(),
   };
 
   // GET and HEAD requests cannot have a body
@@ -41,6 +94,8 @@ export const getQueryFn: <T>(options: {
     const token = localStorage.getItem('token');
     const headers: Record<string, string> = {
       ...(token ? { "Authorization": `Bearer ${token}` } : {}),
+      "X-Client-Id": getClientId(),
+      "X-Device-Fingerprint": getDeviceFingerprint(),
     };
 
     const res = await fetch(queryKey.join("/") as string, {
@@ -0,0 +1,145 @@
+import type {
+  Registration,
+  RegistrationForm,
+  RegistrationFormField,
+  RegistrationFieldValue,
+  RegistrationFieldType,
+  RegistrationFieldRole,
+} from '@shared/schema';
+
+// Show-if rules and answer checks for registration forms, as the server applies them on submit
+// (server/services/registrationFormService.ts). Checking here lets the form point at the field to fix
+// before anything is sent.
+
+export const CONSENT_VALUE = 'yes';
+// Letters in any script, with spaces, dots, apostrophes and hyphens between them
+const NAME_PATTERN = new RegExp('^\\p{L}[\\p{L}\\s.\'-]*$', 'u');
+
+export const FIELD_TYPE_LABELS: Record<RegistrationFieldType, string> = {
+  text: 'Short Text',
+  textarea: 'Long Text',
+  email: 'Email',
+  tel: 'Phone',
+  number: 'Number',
+  date: 'Date',
+  select: 'Dropdown',
+  radio: 'Single Choice',
+  checkbox_group: 'Checkboxes',
+  consent: 'Consent',
+};
+
+export const FIELD_ROLE_LABELS: Record<RegistrationFieldRole, string> = {
+  full_name: 'Full Name',
+  email: 'Email',
+  phone: 'Phone',
+  college: 'College',
+  roll_number: 'Roll Number',
+};
+
+// Field types each role can be put on; the server rejects any other pairing
+export const ROLE_FIELD_TYPES: Record<RegistrationFieldRole, RegistrationFieldType[]> = {
+  full_name: ['text'],
+  email: ['email'],
+  phone: ['tel'],
+  college: ['text', 'select', 'radio'],
+  roll_number: ['text'],
+};
+
+// What /api/registrations returns for each registration, with the details read from the role fields
+// Lists leave out the receipt image; it is fetched on its own from /api/registrations/:id/receipt
+export type RegistrationWithDetails = Omit<Registration, 'receiptImage'> & {
+  hasReceipt: boolean;
+  participantName: string;
+  participantEmail: string;
+  participantPhone: string;
+  participantCollege: string | null;
+  participantRollNumber: string | null;
+  form: RegistrationForm | null;
+};
+
+export function isChoiceField(field: Pick<RegistrationFormField, 'type'>) {
+  return field.type === 'select' || field.type === 'radio' || field.type === 'checkbox_group';
+}
+
+export function isFilled(value: RegistrationFieldValue | undefined) {
+  return Array.isArray(value) ? value.length > 0 : !!value?.trim();
+}
+
+// A field is hidden when its rule fails or the field it looks at is itself hidden
+export function visibleFields(fields: RegistrationFormField[], data: Record<string, RegistrationFieldValue>) {
+  const visible: RegistrationFormField[] = [];
+  const shown = new Set<string>();
+  for (const field of fields) {
+    if (field.showIf) {
+      const answer = shown.has(field.showIf.fieldId) ? data[field.showIf.fieldId] : undefined;
+      const picked = Array.isArray(answer) ? answer : answer?.trim() ? [answer.trim()] : [];
+      const value = field.showIf.value || '';
+      const passes =
+        field.showIf.operator === 'is_filled' ? picked.length > 0
+        : field.showIf.operator === 'equals' ? picked.includes(value)
+        : !picked.includes(value);
+      if (!passes) continue;
+    }
+    shown.add(field.id);
+    visible.push(field);
+  }
+  return visible;
+}
+
+export function checkFieldValue(field: RegistrationFormField, value: RegistrationFieldValue | undefined): string | null {
+  if (!isFilled(value)) {
+    if (!field.required) return null;
+    return field.type === 'consent' ? `Please accept ${field.label}` : `${field.label} is required`;
+  }
+
+  const rules: NonNullable<RegistrationFormField['validation']> = field.validation || {};
+  if (Array.isArray(value)) {
+    if (rules.min !== undefined && value.length < rules.min) return `Pick at least ${rules.min} for ${field.label}`;
+    if (rules.max !== undefined && value.length > rules.max) return `Pick at most ${rules.max} for ${field.label}`;
+    return null;
+  }
+
+  const text = (value || '').trim();
+  if (isChoiceField(field) || field.type === 'consent') return null;
+  if (field.type === 'number') {
+    const number = Number(text);
+    if (!Number.isFinite(number)) return `${field.label} must be a number`;
+    if (rules.min !== undefined && number < rules.min) return `${field.label} must be at least ${rules.min}`;
+    if (rules.max !== undefined && number > rules.max) return `${field.label} must be at most ${rules.max}`;
+  } else if (field.type === 'date') {
+    if (rules.minDate && text < rules.minDate) return `${field.label} must be on or after ${rules.minDate}`;
+    if (rules.maxDate && text > rules.maxDate) return `${field.label} must be on or before ${rules.maxDate}`;
+  } else {
+    if (field.type === 'email' && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(text)) {
+      return `Please enter a valid email address for ${field.label}`;
+    }
+    if (field.type === 'tel' && !/^[6-9]\d{9}$/.test(text.replace(/[\s\-()]/g, ''))) {
+      return `Please enter a valid 10-digit mobile number for ${field.label}`;
+    }
+    if (rules.min !== undefined && text.length < rules.min) return `${field.label} must be at least ${rules.min} characters`;
+    if (rules.max !== undefined && text.length > rules.max) return `${field.label} must be at most ${rules.max} characters`;
+  }
+
+  if (field.role === 'full_name' && !NAME_PATTERN.test(text)) {
+    return `${field.label} can only contain letters, spaces, dots, apostrophes and hyphens`;
+  }
+  if (field.role === 'roll_number' && !/^[A-Za-z0-9/-]+$/.test(text)) {
+    return `${field.label} can only contain letters, numbers, / and -`;
+  }
+
+  if (rules.pattern) {
+    try {
+      if (!new RegExp(rules.pattern).test(text)) return rules.patternMessage || `${field.label} is not in the expected format`;
+    } catch {
+      // The server rejects forms with broken patterns; nothing useful to check here
+    }
+  }
+  return null;
+}
+
+// Submitted answers for display: checkbox groups as a list, consent as "Accepted"
+export function formatFieldValue(value: RegistrationFieldValue | undefined, field?: Pick<RegistrationFormField, 'type'>) {
+  if (Array.isArray(value)) return value.join(', ');
+  if (field?.type === 'consent' && value === CONSENT_VALUE) return 'Accepted';
+  return value || '';
+}
@@ -0,0 +1,80 @@
+import type { Event, Participant, Team, TeamEntry, TeamScoring } from '@shared/schema';
+
+// Team sizes and entry checks as the server applies them (server/services/teamService.ts), so the
+// registration forms can point at the team to fix before anything is sent.
+
+export const MAX_TEAM_SIZE = 10;
+
+export const TEAM_SCORING_LABELS: Record<TeamScoring, string> = {
+  shared: 'One attempt per team',
+  sum: 'Sum of member scores',
+  average: 'Average of member scores',
+};
+
+export type TeamSizing = Pick<Event, 'id' | 'name' | 'minTeamSize' | 'maxTeamSize'>;
+
+// What /api/events/:eventId/team-leaderboard returns for each team
+export interface TeamStanding {
+  teamId: string;
+  teamName: string;
+  members: Array<{ userId: string; userName: string; totalScore: number }>;
+  totalScore: number;
+  submittedAt: string | null;
+  rank: number;
+}
+
+// What /api/events/:eventId/teams returns
+export type TeamWithMembers = Team & {
+  members: Array<Participant & { fullName: string; email: string; phone: string | null; college: string | null }>;
+};
+
+export function isTeamEvent(event: Pick<Event, 'maxTeamSize'> | undefined | null) {
+  return !!event && event.maxTeamSize > 1;
+}
+
+export function describeTeamSize(event: Pick<Event, 'minTeamSize' | 'maxTeamSize'>) {
+  return event.minTeamSize === event.maxTeamSize
+    ? `Teams of ${event.maxTeamSize}`
+    : `Teams of ${event.minTeamSize}-${event.maxTeamSize}`;
+}
+
+// A blank entry with a row for each teammate the smallest team needs
+export function emptyTeamEntry(event: Pick<Event, 'minTeamSize'>): TeamEntry {
+  return {
+    name: '',
+    members: Array.from({ length: Math.max(0, event.minTeamSize - 1) }, () => ({ fullName: '', email: '', phone: '' })),
+  };
+}
+
+// Sizes count the registrant, who leads the team
+export function checkTeamEntry(event: TeamSizing, entry: TeamEntry | undefined, leaderEmail: string): string | null {
+  if (!entry?.name.trim()) return `Enter a team name for ${event.name}`;
+
+  const size = entry.members.length + 1;
+  if (size < event.minTeamSize || size > event.maxTeamSize) {
+    const range = event.minTeamSize === event.maxTeamSize
+      ? `exactly ${event.maxTeamSize}`
+      : `${event.minTeamSize} to ${event.maxTeamSize}`;
+    return `${event.name} teams need ${range} members including you`;
+  }
+
+  const emails = new Set([leaderEmail.trim().toLowerCase()]);
+  for (const member of entry.members) {
+    if (!member.fullName.trim() || !member.email.trim()) return `Enter every teammate's name and email for ${event.name}`;
+    const email = member.email.trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return `${member.email} is not a valid email address`;
+    if (emails.has(email)) return `${email} appears more than once in your ${event.name} team`;
+    emails.add(email);
+    const phone = (member.phone || '').replace(/[\s\-()]/g, '');
+    if (phone && !/^[6-9]\d{9}$/.test(phone)) return `${member.fullName}'s phone is not a valid 10-digit mobile number`;
+  }
+  return null;
+}
+
+// Trimmed for sending; an empty phone is left out
+export function cleanTeamEntry(entry: TeamEntry): TeamEntry {
+  return {
+    name: entry.name.trim(),
+    members: entry.members.map((m) => ({ fullName: m.fullName.trim(), email: m.email.trim(), phone: m.phone?.trim() || undefined })),
+  };
+}
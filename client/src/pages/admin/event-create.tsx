@@ -12,13 +12,24 @@ import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { insertEventSchema, type InsertEvent } from '@shared/schema';
 import { z } from 'zod';
+import { MAX_TEAM_SIZE } from '@/lib/teams';
+import { MAX_FEE } from '@/lib/payments';
 import { useAuth } from '@/lib/auth';
 import { ArrowLeft } from 'lucide-react';
 
-const formSchema = insertEventSchema.extend({
-  startDate: z.string().optional(),
-  endDate: z.string().optional(),
-});
+const formSchema = insertEventSchema
+  .extend({
+    startDate: z.string().optional(),
+    endDate: z.string().optional(),
+    minTeamSize: z.coerce.number().int().min(1).max(MAX_TEAM_SIZE),
+    maxTeamSize: z.coerce.number().int().min(1).max(MAX_TEAM_SIZE),
+    capacity: z.string().regex(/^\d*$/, 'Enter a whole number, or leave blank for no limit'),
+    fee: z.coerce.number().int('Fees are in whole rupees').min(0).max(MAX_FEE),
+  })
+  .refine((data) => data.minTeamSize <= data.maxTeamSize, {
+    message: 'Must be at least the minimum team size',
+    path: ['maxTeamSize'],
+  });
 
 type FormData = z.infer<typeof formSchema>;
 
@@ -38,6 +49,11 @@ export default function EventCreatePage() {
       createdBy: user?.id || '',
       startDate: '',
       endDate: '',
+      minTeamSize: 1,
+      maxTeamSize: 1,
+      teamScoring: 'shared',
+      capacity: '',
+      fee: 0,
     },
   });
 
@@ -52,6 +68,11 @@ export default function EventCreatePage() {
         createdBy: user?.id || '',
         startDate: data.startDate ? new Date(data.startDate) : null,
         endDate: data.endDate ? new Date(data.endDate) : null,
+        minTeamSize: data.minTeamSize,
+        maxTeamSize: data.maxTeamSize,
+        teamScoring: data.teamScoring,
+        capacity: data.capacity ? Number(data.capacity) : null,
+        fee: data.fee,
       };
 
       await apiRequest('POST', '/api/events', eventData);
@@ -181,6 +202,97 @@ export default function EventCreatePage() {
                   />
                 </div>
 
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="minTeamSize"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Min Team Size</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} max={MAX_TEAM_SIZE} {...field} data-testid="input-min-team-size" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="maxTeamSize"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Max Team Size</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} max={MAX_TEAM_SIZE} {...field} data-testid="input-max-team-size" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="teamScoring"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Team Scoring</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value} disabled={Number(form.watch('maxTeamSize')) <= 1}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-team-scoring">
+                              <SelectValue placeholder="Select scoring" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="shared">One attempt per team</SelectItem>
+                            <SelectItem value="sum">Sum of member scores</SelectItem>
+                            <SelectItem value="average">Average of member scores</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground -mt-4">
+                  Leave the maximum at 1 for an individual event. Above 1, participants register as teams and are ranked together.
+                </p>
+
+                <FormField
+                  control={form.control}
+                  name="capacity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Capacity</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} placeholder="No limit" {...field} data-testid="input-capacity" />
+                      </FormControl>
+                      <p className="text-xs text-muted-foreground">
+                        Seats for participants, teammates included. Once they are taken, new registrations join a waitlist
+                        and move up when a registration is declined or withdrawn.
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="fee"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Registration Fee (₹)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step={1} {...field} data-testid="input-fee" />
+                      </FormControl>
+                      <p className="text-xs text-muted-foreground">
+                        Leave at 0 for a free event. Combo prices for events taken together are set under Fees &amp; Combos.
+                      </p>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <div className="flex gap-4">
                   <Button
                     type="button"
@@ -0,0 +1,397 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Plus, Pencil, Trash2, IndianRupee } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import AdminLayout from '@/components/layouts/AdminLayout';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { formatRupees } from '@/lib/payments';
+import type { Event, FeeCombo, RegistrationForm } from '@shared/schema';
+
+interface ComboFormData {
+  name: string;
+  eventIds: string[];
+  amount: string;
+}
+
+const emptyCombo: ComboFormData = { name: '', eventIds: [], amount: '' };
+
+export default function FeesPage() {
+  const { toast } = useToast();
+  const [feeDrafts, setFeeDrafts] = useState<Record<string, string>>({});
+  const [upiId, setUpiId] = useState('');
+  const [editing, setEditing] = useState<FeeCombo | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<ComboFormData>(emptyCombo);
+  const [deleting, setDeleting] = useState<FeeCombo | null>(null);
+
+  const { data: events = [], isLoading: eventsLoading } = useQuery<Event[]>({
+    queryKey: ['/api/events'],
+  });
+
+  const { data: combos = [], isLoading: combosLoading } = useQuery<FeeCombo[]>({
+    queryKey: ['/api/fee-combos'],
+  });
+
+  const { data: activeForm } = useQuery<RegistrationForm>({
+    queryKey: ['/api/registration-forms/active'],
+    retry: false,
+  });
+
+  useEffect(() => {
+    setUpiId(activeForm?.upiId || '');
+  }, [activeForm]);
+
+  const eventName = (id: string) => events.find((event) => event.id === id)?.name || 'Deleted event';
+  const separatePrice = (eventIds: string[]) =>
+    events.filter((event) => eventIds.includes(event.id)).reduce((sum, event) => sum + event.fee, 0);
+
+  const feeMutation = useMutation({
+    mutationFn: async ({ id, fee }: { id: string; fee: number }) => apiRequest('PATCH', `/api/events/${id}`, { fee }),
+    onSuccess: (_, { id }) => {
+      toast({ title: 'Fee updated', description: 'Registrations already submitted keep the fee they were quoted' });
+      queryClient.invalidateQueries({ queryKey: ['/api/events'] });
+      setFeeDrafts((drafts) => {
+        const { [id]: _saved, ...rest } = drafts;
+        return rest;
+      });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Update failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const upiMutation = useMutation({
+    mutationFn: async () => apiRequest('PATCH', `/api/registration-forms/${activeForm!.id}`, { upiId }),
+    onSuccess: () => {
+      toast({ title: 'UPI ID saved', description: 'The registration form now asks participants to pay here' });
+      queryClient.invalidateQueries({ queryKey: ['/api/registration-forms/active'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/registration-forms/all'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Save failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ComboFormData) => {
+      const payload = { name: data.name, eventIds: data.eventIds, amount: Number(data.amount) };
+      return editing
+        ? apiRequest('PATCH', `/api/fee-combos/${editing.id}`, payload)
+        : apiRequest('POST', '/api/fee-combos', payload);
+    },
+    onSuccess: () => {
+      toast({ title: editing ? 'Combo updated' : 'Combo created' });
+      queryClient.invalidateQueries({ queryKey: ['/api/fee-combos'] });
+      setFormOpen(false);
+    },
+    onError: (error: any) => {
+      toast({ title: 'Save failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('DELETE', `/api/fee-combos/${id}`),
+    onSuccess: () => {
+      toast({ title: 'Combo deleted', description: 'New registrations pay each event\'s own fee' });
+      queryClient.invalidateQueries({ queryKey: ['/api/fee-combos'] });
+      setDeleting(null);
+    },
+    onError: (error: any) => {
+      toast({ title: 'Delete failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyCombo);
+    setFormOpen(true);
+  };
+
+  const openEdit = (combo: FeeCombo) => {
+    setEditing(combo);
+    setForm({ name: combo.name, eventIds: combo.eventIds, amount: combo.amount.toString() });
+    setFormOpen(true);
+  };
+
+  // A registration holds one event of each category, so picking an event replaces any other of its category
+  const toggleComboEvent = (event: Event, checked: boolean) => {
+    const others = form.eventIds.filter((id) => events.find((e) => e.id === id)?.category !== event.category);
+    setForm({ ...form, eventIds: checked ? [...others, event.id] : form.eventIds.filter((id) => id !== event.id) });
+  };
+
+  const comboReady = form.name.trim() && form.eventIds.length >= 2 && /^\d+$/.test(form.amount);
+
+  return (
+    <AdminLayout>
+      <div className="container mx-auto p-6 max-w-6xl space-y-6" data-testid="page-fees">
+        <div>
+          <h1 className="text-3xl font-bold" data-testid="heading-fees">Fees &amp; Combos</h1>
+          <p className="text-muted-foreground">
+            What participants pay when they register. Fees are in whole rupees and are fixed on each registration when it is submitted.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Payee UPI ID</CardTitle>
+            <CardDescription>Shown on the active registration form with a button that opens the participant's UPI app</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {activeForm ? (
+              <div className="flex gap-2 max-w-md">
+                <Input
+                  value={upiId}
+                  onChange={(e) => setUpiId(e.target.value)}
+                  placeholder="e.g., symposium@okaxis"
+                  data-testid="input-upi-id"
+                />
+                <Button
+                  onClick={() => upiMutation.mutate()}
+                  disabled={upiMutation.isPending || upiId === (activeForm.upiId || '')}
+                  data-testid="button-save-upi-id"
+                >
+                  Save
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground" data-testid="text-no-active-form">
+                There is no active registration form
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Event Fees</CardTitle>
+            <CardDescription>Leave an event at ₹0 to make it free</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {eventsLoading ? (
+              <div data-testid="loading-events">Loading events...</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead className="w-64">Fee (₹)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {events.map((event) => {
+                    const draft = feeDrafts[event.id] ?? event.fee.toString();
+                    const changed = draft !== event.fee.toString();
+                    return (
+                      <TableRow key={event.id} data-testid={`row-event-fee-${event.id}`}>
+                        <TableCell className="font-medium">{event.name}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{event.category === 'technical' ? 'Technical' : 'Non-Technical'}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Input
+                              type="number"
+                              min={0}
+                              step={1}
+                              className="w-32"
+                              value={draft}
+                              onChange={(e) => setFeeDrafts({ ...feeDrafts, [event.id]: e.target.value })}
+                              data-testid={`input-fee-${event.id}`}
+                            />
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={!changed || !/^\d+$/.test(draft) || feeMutation.isPending}
+                              onClick={() => feeMutation.mutate({ id: event.id, fee: Number(draft) })}
+                              data-testid={`button-save-fee-${event.id}`}
+                            >
+                              Save
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-semibold">Combos</h2>
+            <p className="text-muted-foreground">
+              A price for a technical and a non-technical event taken together. The cheapest combo a registration covers is applied.
+            </p>
+          </div>
+          <Button onClick={openCreate} data-testid="button-create-combo">
+            <Plus className="h-4 w-4 mr-2" />
+            New Combo
+          </Button>
+        </div>
+
+        {combosLoading ? (
+          <div data-testid="loading-combos">Loading combos...</div>
+        ) : combos.length > 0 ? (
+          <div className="grid gap-4 md:grid-cols-2" data-testid="list-combos">
+            {combos.map((combo) => {
+              const separate = separatePrice(combo.eventIds);
+              return (
+                <Card key={combo.id} data-testid={`card-combo-${combo.id}`}>
+                  <CardHeader>
+                    <div className="flex items-start justify-between">
+                      <div>
+                        <CardTitle className="text-xl">{combo.name}</CardTitle>
+                        <CardDescription>{combo.eventIds.map(eventName).join(' + ')}</CardDescription>
+                      </div>
+                      <div className="flex gap-2">
+                        <Button variant="outline" size="sm" onClick={() => openEdit(combo)} data-testid={`button-edit-combo-${combo.id}`}>
+                          <Pencil className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setDeleting(combo)} data-testid={`button-delete-combo-${combo.id}`}>
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="flex items-baseline gap-3">
+                    <span className="text-2xl font-bold" data-testid={`text-combo-amount-${combo.id}`}>{formatRupees(combo.amount)}</span>
+                    {combo.amount < separate ? (
+                      <span className="text-sm text-muted-foreground">
+                        <span className="line-through">{formatRupees(separate)}</span> separately
+                      </span>
+                    ) : (
+                      <span className="text-sm text-amber-600">Not cheaper than the events' own fees, so it is never applied</span>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <IndianRupee className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground" data-testid="text-no-combos">No combos yet. Each event is charged its own fee.</p>
+            </CardContent>
+          </Card>
+        )}
+
+        <Dialog open={formOpen} onOpenChange={setFormOpen}>
+          <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editing ? `Edit ${editing.name}` : 'New Combo'}</DialogTitle>
+              <DialogDescription>Pick one technical and one non-technical event</DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="combo-name">Name</Label>
+                <Input
+                  id="combo-name"
+                  placeholder="e.g., Tech + Fun Pass"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  data-testid="input-combo-name"
+                />
+              </div>
+
+              {(['technical', 'non_technical'] as const).map((category) => (
+                <div key={category} className="space-y-2">
+                  <Label>{category === 'technical' ? 'Technical Event' : 'Non-Technical Event'}</Label>
+                  <div className="space-y-2 rounded-lg border p-3">
+                    {events.filter((event) => event.category === category).map((event) => (
+                      <div key={event.id} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`combo-event-${event.id}`}
+                          checked={form.eventIds.includes(event.id)}
+                          onCheckedChange={(checked) => toggleComboEvent(event, checked === true)}
+                          data-testid={`checkbox-combo-event-${event.id}`}
+                        />
+                        <Label htmlFor={`combo-event-${event.id}`} className="font-normal">
+                          {event.name} <span className="text-muted-foreground">({formatRupees(event.fee)})</span>
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
+              <div className="space-y-2">
+                <Label htmlFor="combo-amount">Combo Price (₹)</Label>
+                <Input
+                  id="combo-amount"
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                  data-testid="input-combo-amount"
+                />
+                {form.eventIds.length >= 2 && (
+                  <p className="text-xs text-muted-foreground">
+                    {formatRupees(separatePrice(form.eventIds))} when paid separately
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setFormOpen(false)} data-testid="button-cancel-combo">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate(form)}
+                disabled={!comboReady || saveMutation.isPending}
+                data-testid="button-save-combo"
+              >
+                {saveMutation.isPending ? 'Saving...' : 'Save Combo'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Registrations already submitted keep the price they were quoted.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+                data-testid="button-confirm-delete-combo"
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </AdminLayout>
+  );
+}
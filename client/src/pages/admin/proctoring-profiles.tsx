@@ -0,0 +1,324 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Plus, Pencil, Trash2, History, ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import AdminLayout from '@/components/layouts/AdminLayout';
+import { PROCTORING_RULE_FIELDS, formatRuleValue } from '@/components/ProctoringRulesEditor';
+import RulesChangeHistory from '@/components/RulesChangeHistory';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { ProctoringProfile, AuditLog } from '@shared/schema';
+
+type ProfileFormData = Pick<
+  ProctoringProfile,
+  | 'name'
+  | 'description'
+  | 'forceFullscreen'
+  | 'noTabSwitch'
+  | 'noRefresh'
+  | 'disableShortcuts'
+  | 'autoSubmitOnViolation'
+  | 'maxTabSwitchWarnings'
+  | 'additionalRules'
+> & { reason?: string };
+
+const emptyProfile: ProfileFormData = {
+  name: '',
+  description: '',
+  forceFullscreen: true,
+  noTabSwitch: true,
+  noRefresh: true,
+  disableShortcuts: true,
+  autoSubmitOnViolation: true,
+  maxTabSwitchWarnings: 2,
+  additionalRules: '',
+};
+
+function ProfileHistory({ profileId }: { profileId: string }) {
+  const { data: logs = [], isLoading } = useQuery<AuditLog[]>({
+    queryKey: ['/api/proctoring-profiles', profileId, 'history'],
+  });
+
+  if (isLoading) return <div className="text-sm text-muted-foreground">Loading history...</div>;
+  return <RulesChangeHistory logs={logs} />;
+}
+
+export default function ProctoringProfilesPage() {
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<ProctoringProfile | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<ProfileFormData>(emptyProfile);
+  const [deleting, setDeleting] = useState<ProctoringProfile | null>(null);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+
+  const { data: profiles, isLoading } = useQuery<ProctoringProfile[]>({
+    queryKey: ['/api/proctoring-profiles'],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ProfileFormData) => {
+      return editing
+        ? apiRequest('PATCH', `/api/proctoring-profiles/${editing.id}`, data)
+        : apiRequest('POST', '/api/proctoring-profiles', data);
+    },
+    onSuccess: () => {
+      toast({
+        title: editing ? 'Profile updated' : 'Profile created',
+        description: 'Events and rounds using this profile follow its new settings',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/proctoring-profiles'] });
+      setFormOpen(false);
+    },
+    onError: (error: any) => {
+      toast({ title: 'Save failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('DELETE', `/api/proctoring-profiles/${id}`),
+    onSuccess: () => {
+      toast({ title: 'Profile deleted', description: 'Events and rounds that used it now fall back to their own rules' });
+      queryClient.invalidateQueries({ queryKey: ['/api/proctoring-profiles'] });
+      setDeleting(null);
+    },
+    onError: (error: any) => {
+      toast({ title: 'Delete failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(emptyProfile);
+    setFormOpen(true);
+  };
+
+  const openEdit = (profile: ProctoringProfile) => {
+    setEditing(profile);
+    setForm({
+      name: profile.name,
+      description: profile.description || '',
+      forceFullscreen: profile.forceFullscreen,
+      noTabSwitch: profile.noTabSwitch,
+      noRefresh: profile.noRefresh,
+      disableShortcuts: profile.disableShortcuts,
+      autoSubmitOnViolation: profile.autoSubmitOnViolation,
+      maxTabSwitchWarnings: profile.maxTabSwitchWarnings,
+      additionalRules: profile.additionalRules || '',
+      reason: '',
+    });
+    setFormOpen(true);
+  };
+
+  return (
+    <AdminLayout>
+      <div className="container mx-auto p-6 max-w-6xl" data-testid="page-proctoring-profiles">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-3xl font-bold" data-testid="heading-proctoring-profiles">Proctoring Profiles</h1>
+            <p className="text-muted-foreground">
+              Named rule sets that event admins can apply to an event or a round
+            </p>
+          </div>
+          <Button onClick={openCreate} data-testid="button-create-profile">
+            <Plus className="h-4 w-4 mr-2" />
+            New Profile
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div data-testid="loading-profiles">Loading profiles...</div>
+        ) : profiles && profiles.length > 0 ? (
+          <div className="grid gap-4" data-testid="list-profiles">
+            {profiles.map((profile) => (
+              <Card key={profile.id} data-testid={`card-profile-${profile.id}`}>
+                <CardHeader>
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <CardTitle className="text-xl">{profile.name}</CardTitle>
+                      {profile.description && <CardDescription>{profile.description}</CardDescription>}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setHistoryFor(historyFor === profile.id ? null : profile.id)}
+                        data-testid={`button-history-${profile.id}`}
+                      >
+                        <History className="h-4 w-4 mr-1" />
+                        History
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => openEdit(profile)} data-testid={`button-edit-${profile.id}`}>
+                        <Pencil className="h-4 w-4 mr-1" />
+                        Edit
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setDeleting(profile)} data-testid={`button-delete-${profile.id}`}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex flex-wrap gap-2">
+                    {PROCTORING_RULE_FIELDS.map(({ key, label }) => (
+                      <Badge key={key} variant={profile[key] === false ? 'secondary' : 'default'}>
+                        {label}: {formatRuleValue(profile[key])}
+                      </Badge>
+                    ))}
+                  </div>
+                  {profile.additionalRules && (
+                    <p className="text-sm text-gray-700 whitespace-pre-wrap">{profile.additionalRules}</p>
+                  )}
+                  {historyFor === profile.id && <ProfileHistory profileId={profile.id} />}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <ShieldCheck className="h-12 w-12 text-muted-foreground mb-4" />
+              <p className="text-muted-foreground mb-4" data-testid="text-no-profiles">No proctoring profiles yet</p>
+              <Button onClick={openCreate}>
+                <Plus className="h-4 w-4 mr-2" />
+                Create First Profile
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        <Dialog open={formOpen} onOpenChange={setFormOpen}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editing ? `Edit ${editing.name}` : 'New Proctoring Profile'}</DialogTitle>
+              <DialogDescription>
+                Settings an event or round does not override itself come from its profile
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="profile-name">Name</Label>
+                <Input
+                  id="profile-name"
+                  placeholder="e.g., Strict, Relaxed, Practice"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  data-testid="input-profile-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-description">Description</Label>
+                <Input
+                  id="profile-description"
+                  value={form.description || ''}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  data-testid="input-profile-description"
+                />
+              </div>
+
+              {PROCTORING_RULE_FIELDS.map(({ key, label, description }) => (
+                <div key={key} className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div>
+                    <p className="font-medium">{label}</p>
+                    <p className="text-sm text-muted-foreground">{description}</p>
+                  </div>
+                  {key === 'maxTabSwitchWarnings' ? (
+                    <Input
+                      type="number"
+                      min="0"
+                      max="10"
+                      className="w-24"
+                      value={form.maxTabSwitchWarnings}
+                      onChange={(e) => setForm({ ...form, maxTabSwitchWarnings: parseInt(e.target.value) || 0 })}
+                      data-testid="input-profile-max-warnings"
+                    />
+                  ) : (
+                    <Switch
+                      checked={form[key]}
+                      onCheckedChange={(checked) => setForm({ ...form, [key]: checked })}
+                      data-testid={`switch-profile-${key}`}
+                    />
+                  )}
+                </div>
+              ))}
+
+              <div className="space-y-2">
+                <Label htmlFor="profile-additional-rules">Additional Rules</Label>
+                <Textarea
+                  id="profile-additional-rules"
+                  className="min-h-[80px]"
+                  value={form.additionalRules || ''}
+                  onChange={(e) => setForm({ ...form, additionalRules: e.target.value })}
+                  data-testid="input-profile-additional-rules"
+                />
+              </div>
+
+              {editing && (
+                <div className="space-y-2">
+                  <Label htmlFor="profile-reason">Reason for change (optional)</Label>
+                  <Input
+                    id="profile-reason"
+                    value={form.reason || ''}
+                    onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                    data-testid="input-profile-reason"
+                  />
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setFormOpen(false)} data-testid="button-cancel-profile">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => saveMutation.mutate(form)}
+                disabled={!form.name.trim() || saveMutation.isPending}
+                data-testid="button-save-profile"
+              >
+                {saveMutation.isPending ? 'Saving...' : 'Save Profile'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                Events and rounds using this profile keep their own overrides and inherit everything else from
+                the level above.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+                data-testid="button-confirm-delete-profile"
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </AdminLayout>
+  );
+}
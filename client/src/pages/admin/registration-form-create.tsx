@@ -4,22 +4,37 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Checkbox } from "@/components/ui/checkbox";
 import { useLocation } from "wouter";
-import { Plus, Trash2, Check, Copy } from "lucide-react";
+import { Plus, Check, Copy } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import AdminLayout from "@/components/layouts/AdminLayout";
+import RegistrationFieldEditor from "@/components/RegistrationFieldEditor";
+import RegistrationFieldInput from "@/components/RegistrationFieldInput";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { FIELD_TYPE_LABELS, FIELD_ROLE_LABELS, isChoiceField, visibleFields } from "@/lib/registrationFields";
 import { nanoid } from "nanoid";
-import type { Event, RegistrationForm } from "@shared/schema";
-
-interface FormField {
-  id: string;
-  label: string;
-  type: 'text' | 'email' | 'tel' | 'number';
-  required: boolean;
-  placeholder?: string;
+import type { Event, RegistrationForm, RegistrationFormField, RegistrationFieldValue } from "@shared/schema";
+
+type FormField = RegistrationFormField;
+
+// Show-if rules may only look at fields above them; drop the ones a move or delete broke
+function keepValidConditions(fields: FormField[]): FormField[] {
+  return fields.map((field, index) =>
+    field.showIf && !fields.slice(0, index).some((f) => f.id === field.showIf!.fieldId)
+      ? { ...field, showIf: undefined }
+      : field
+  );
+}
+
+// Blank lines in option lists and empty optional text are not saved
+function cleanField(field: FormField): FormField {
+  return {
+    ...field,
+    label: field.label.trim(),
+    placeholder: field.placeholder?.trim() || undefined,
+    helpText: field.helpText?.trim() || undefined,
+    options: isChoiceField(field) ? (field.options || []).map((o) => o.trim()).filter(Boolean) : undefined,
+  };
 }
 
 export default function RegistrationFormCreatePage() {
@@ -27,11 +42,13 @@ export default function RegistrationFormCreatePage() {
   const [, setLocation] = useLocation();
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
+  const [upiId, setUpiId] = useState("");
   const [formFields, setFormFields] = useState<FormField[]>([
-    { id: nanoid(), label: 'Full Name', type: 'text', required: true, placeholder: 'Enter your full name' },
-    { id: nanoid(), label: 'Email', type: 'email', required: true, placeholder: 'your.email@example.com' },
+    { id: nanoid(), label: 'Full Name', type: 'text', required: true, placeholder: 'Enter your full name', role: 'full_name' },
+    { id: nanoid(), label: 'Email', type: 'email', required: true, placeholder: 'your.email@example.com', role: 'email' },
   ]);
   const [createdForm, setCreatedForm] = useState<RegistrationForm | null>(null);
+  const [previewData, setPreviewData] = useState<Record<string, RegistrationFieldValue>>({});
 
   const { data: events } = useQuery<Event[]>({
     queryKey: ['/api/events'],
@@ -42,7 +59,8 @@ export default function RegistrationFormCreatePage() {
       const response = await apiRequest('POST', '/api/registration-forms', { 
         title, 
         description, 
-        formFields 
+        upiId,
+        formFields: formFields.map(cleanField),
       });
       const form = await response.json();
       return form;
@@ -75,7 +93,13 @@ export default function RegistrationFormCreatePage() {
   };
 
   const removeField = (id: string) => {
-    setFormFields(formFields.filter(f => f.id !== id));
+    setFormFields(keepValidConditions(formFields.filter(f => f.id !== id)));
+  };
+
+  const moveField = (index: number, direction: -1 | 1) => {
+    const next = [...formFields];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    setFormFields(keepValidConditions(next));
   };
 
   const updateField = (id: string, updates: Partial<FormField>) => {
@@ -113,6 +137,26 @@ export default function RegistrationFormCreatePage() {
       return;
     }
 
+    const missingRole = (['full_name', 'email'] as const).find(role => !formFields.some(f => f.role === role));
+    if (missingRole) {
+      toast({
+        title: "Error",
+        description: `Mark one field as holding the participant's ${FIELD_ROLE_LABELS[missingRole].toLowerCase()}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const choiceWithoutOptions = formFields.find(f => isChoiceField(f) && cleanField(f).options!.length === 0);
+    if (choiceWithoutOptions) {
+      toast({
+        title: "Error",
+        description: `Add at least one option to "${choiceWithoutOptions.label}"`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     createFormMutation.mutate();
   };
 
@@ -188,8 +232,8 @@ export default function RegistrationFormCreatePage() {
                     <div key={field.id} className="p-3 bg-muted/50 rounded-md" data-testid={`field-${field.id}`}>
                       <div className="flex items-center justify-between">
                         <span className="font-medium">{field.label}</span>
-                        <span className="text-sm text-muted-foreground capitalize">
-                          {field.type} {field.required && '• Required'}
+                        <span className="text-sm text-muted-foreground">
+                          {FIELD_TYPE_LABELS[field.type]} {field.role && `• ${FIELD_ROLE_LABELS[field.role]}`} {field.required && '• Required'}
                         </span>
                       </div>
                       {field.placeholder && (
@@ -253,6 +297,19 @@ export default function RegistrationFormCreatePage() {
                     data-testid="input-description"
                   />
                 </div>
+
+                <div>
+                  <label className="text-sm font-medium mb-2 block">UPI ID for Fees (Optional)</label>
+                  <Input
+                    value={upiId}
+                    onChange={(e) => setUpiId(e.target.value)}
+                    placeholder="e.g., symposium@okaxis"
+                    data-testid="input-upi-id"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Participants pay event fees here and enter the UPI transaction ID with a screenshot of the receipt
+                  </p>
+                </div>
               </CardContent>
             </Card>
 
@@ -263,78 +320,17 @@ export default function RegistrationFormCreatePage() {
               </CardHeader>
               <CardContent className="space-y-4">
                 {formFields.map((field, index) => (
-                  <Card key={field.id} className="border-2" data-testid={`field-card-${field.id}`}>
-                    <CardContent className="pt-6 space-y-4">
-                      <div className="flex items-start gap-3">
-                        <div className="flex-1 space-y-3">
-                          <div>
-                            <label className="text-xs font-medium text-muted-foreground">Field Label *</label>
-                            <Input
-                              value={field.label}
-                              onChange={(e) => updateField(field.id, { label: e.target.value })}
-                              placeholder="e.g., Full Name"
-                              data-testid={`input-label-${field.id}`}
-                            />
-                          </div>
-
-                          <div className="grid grid-cols-2 gap-3">
-                            <div>
-                              <label className="text-xs font-medium text-muted-foreground">Field Type</label>
-                              <Select 
-                                value={field.type} 
-                                onValueChange={(value: any) => updateField(field.id, { type: value })}
-                              >
-                                <SelectTrigger data-testid={`select-type-${field.id}`}>
-                                  <SelectValue />
-                                </SelectTrigger>
-                                <SelectContent>
-                                  <SelectItem value="text">Text</SelectItem>
-                                  <SelectItem value="email">Email</SelectItem>
-                                  <SelectItem value="tel">Phone</SelectItem>
-                                  <SelectItem value="number">Number</SelectItem>
-                                </SelectContent>
-                              </Select>
-                            </div>
-
-                            <div>
-                              <label className="text-xs font-medium text-muted-foreground">Placeholder (Optional)</label>
-                              <Input
-                                value={field.placeholder || ''}
-                                onChange={(e) => updateField(field.id, { placeholder: e.target.value })}
-                                placeholder="Enter placeholder..."
-                                data-testid={`input-placeholder-${field.id}`}
-                              />
-                            </div>
-                          </div>
-
-                          <div className="flex items-center gap-2">
-                            <Checkbox
-                              id={`required-${field.id}`}
-                              checked={field.required}
-                              onCheckedChange={(checked) => updateField(field.id, { required: !!checked })}
-                              data-testid={`checkbox-required-${field.id}`}
-                            />
-                            <label 
-                              htmlFor={`required-${field.id}`}
-                              className="text-sm font-medium cursor-pointer"
-                            >
-                              Required field
-                            </label>
-                          </div>
-                        </div>
-
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => removeField(field.id)}
-                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                          data-testid={`button-delete-${field.id}`}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
-                    </CardContent>
-                  </Card>
+                  <RegistrationFieldEditor
+                    key={field.id}
+                    field={field}
+                    earlierFields={formFields.slice(0, index)}
+                    takenRoles={formFields.flatMap((f) => (f.id !== field.id && f.role ? [f.role] : []))}
+                    onChange={(updates) => updateField(field.id, updates)}
+                    onRemove={() => removeField(field.id)}
+                    onMove={(direction) => moveField(index, direction)}
+                    isFirst={index === 0}
+                    isLast={index === formFields.length - 1}
+                  />
                 ))}
 
                 <Button
@@ -397,16 +393,12 @@ export default function RegistrationFormCreatePage() {
 
                   <div className="space-y-3 pt-4">
                     {formFields.length > 0 ? (
-                      formFields.map((field) => (
-                        <div key={field.id} className="space-y-1" data-testid={`preview-field-${field.id}`}>
-                          <label className="text-sm font-medium block">
-                            {field.label || 'Field Label'} {field.required && <span className="text-destructive">*</span>}
-                          </label>
-                          <Input
-                            type={field.type}
-                            placeholder={field.placeholder || `Enter ${field.label || 'value'}...`}
-                            disabled
-                            className="bg-muted/50 border-2"
+                      visibleFields(formFields, previewData).map((field) => (
+                        <div key={field.id} data-testid={`preview-field-${field.id}`}>
+                          <RegistrationFieldInput
+                            field={{ ...field, label: field.label || 'Field Label' }}
+                            value={previewData[field.id]}
+                            onChange={(value) => setPreviewData({ ...previewData, [field.id]: value })}
                           />
                         </div>
                       ))
@@ -420,7 +412,7 @@ export default function RegistrationFormCreatePage() {
 
                   <div className="pt-4 border-t">
                     <p className="text-xs text-muted-foreground">
-                      ℹ️ This is a live preview. Changes appear instantly.
+                      ℹ️ This is a live preview. Changes appear instantly, and answering it shows or hides conditional fields.
                     </p>
                   </div>
                 </CardContent>
@@ -3,10 +3,11 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import AdminLayout from "@/components/layouts/AdminLayout";
-import type { Registration, Event } from "@shared/schema";
+import type { RegistrationWithDetails } from "@/lib/registrationFields";
+import type { Event } from "@shared/schema";
 
 export default function AdminRegistrationsPage() {
-  const { data: registrations, isLoading } = useQuery<Registration[]>({
+  const { data: registrations, isLoading } = useQuery<RegistrationWithDetails[]>({
     queryKey: ['/api/registrations'],
   });
 
@@ -54,13 +55,14 @@ export default function AdminRegistrationsPage() {
                   <TableRow>
                     <TableHead>Name</TableHead>
                     <TableHead>Email</TableHead>
+                    <TableHead>College</TableHead>
                     <TableHead>Selected Events</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Submitted</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {registrations.map((registration: any) => (
+                  {registrations.map((registration) => (
                     <TableRow key={registration.id} data-testid={`row-registration-${registration.id}`}>
                       <TableCell data-testid={`text-name-${registration.id}`}>
                         {registration.participantName || 'N/A'}
@@ -68,10 +70,16 @@ export default function AdminRegistrationsPage() {
                       <TableCell data-testid={`text-email-${registration.id}`}>
                         {registration.participantEmail || 'N/A'}
                       </TableCell>
+                      <TableCell data-testid={`text-college-${registration.id}`}>
+                        {registration.participantCollege || '—'}
+                        {registration.participantRollNumber && (
+                          <div className="text-xs text-muted-foreground">{registration.participantRollNumber}</div>
+                        )}
+                      </TableCell>
                       <TableCell data-testid={`text-events-${registration.id}`}>
                         <div className="flex flex-wrap gap-1">
                           {registration.selectedEvents && registration.selectedEvents.length > 0 ? (
-                            registration.selectedEvents.map((eventId: string) => (
+                            registration.selectedEvents.map((eventId) => (
                               <Badge key={eventId} variant="outline" className="text-xs">
                                 {getEventName(eventId)}
                               </Badge>
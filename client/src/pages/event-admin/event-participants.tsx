@@ -6,7 +6,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Badge } from '@/components/ui/badge';
 import { Download, Printer, ArrowLeft, FileDown } from 'lucide-react';
 import EventAdminLayout from '@/components/layouts/EventAdminLayout';
-import type { Event } from '@shared/schema';
+import { isTeamEvent, type TeamWithMembers } from '@/lib/teams';
+import type { Event, RegistrationStatus } from '@shared/schema';
 
 interface EventCredentialWithDetails {
   id: string;
@@ -22,7 +23,7 @@ interface EventCredentialWithDetails {
     fullName: string;
   };
   event: Event;
-  paymentStatus?: 'pending' | 'paid' | 'declined';
+  paymentStatus?: RegistrationStatus;
 }
 
 export default function EventParticipantsPage() {
@@ -39,6 +40,13 @@ export default function EventParticipantsPage() {
     enabled: !!eventId,
   });
   
+  const teamEvent = isTeamEvent(event);
+  const { data: teams = [] } = useQuery<TeamWithMembers[]>({
+    queryKey: ['/api/events', eventId, 'teams'],
+    enabled: !!eventId && teamEvent,
+  });
+  const getTeamName = (userId: string) => teams.find((t) => t.members.some((m) => m.userId === userId))?.name;
+
   const handleDownloadIdPass = (credentialId: string) => {
     window.open(`/api/event-credentials/${credentialId}/id-pass`, '_blank');
   };
@@ -169,7 +177,9 @@ export default function EventParticipantsPage() {
         
         <Card>
           <CardHeader>
-            <CardTitle>Participants ({credentials.length})</CardTitle>
+            <CardTitle>
+              Participants ({credentials.length}){teamEvent && ` in ${teams.length} Teams`}
+            </CardTitle>
           </CardHeader>
           <CardContent>
             {isLoading ? (
@@ -185,6 +195,7 @@ export default function EventParticipantsPage() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Participant Name</TableHead>
+                    {teamEvent && <TableHead>Team</TableHead>}
                     <TableHead>Event Username</TableHead>
                     <TableHead>Event Password</TableHead>
                     <TableHead>Payment Status</TableHead>
@@ -198,6 +209,11 @@ export default function EventParticipantsPage() {
                       <TableCell data-testid={`text-name-${cred.id}`}>
                         {cred.participant.fullName}
                       </TableCell>
+                      {teamEvent && (
+                        <TableCell data-testid={`text-team-${cred.id}`}>
+                          {getTeamName(cred.participantUserId) || <span className="text-muted-foreground">No team</span>}
+                        </TableCell>
+                      )}
                       <TableCell className="font-mono" data-testid={`text-username-${cred.id}`}>
                         {cred.eventUsername}
                       </TableCell>
@@ -16,7 +16,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { ArrowLeft, Plus, Edit, FileQuestion, Clock, Play, Square, RotateCcw, Eye } from 'lucide-react';
+import { ArrowLeft, Plus, Edit, FileQuestion, Clock, Play, Square, RotateCcw, Eye, ClipboardCheck, Users, ShieldAlert, Copy, Gavel } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import type { Round, Event } from '@shared/schema';
@@ -309,7 +309,12 @@ export default function EventRoundsPage() {
                       <TableCell className="font-medium" data-testid={`text-round-number-${round.id}`}>
                         Round {round.roundNumber}
                       </TableCell>
-                      <TableCell>{round.name}</TableCell>
+                      <TableCell>
+                        {round.name}
+                        {round.roundType === 'practice' && (
+                          <Badge variant="secondary" className="ml-2" data-testid={`badge-practice-${round.id}`}>Practice</Badge>
+                        )}
+                      </TableCell>
                       <TableCell>{round.duration} minutes</TableCell>
                       <TableCell>{getStatusBadge(round.status)}</TableCell>
                       <TableCell>
@@ -391,6 +396,51 @@ export default function EventRoundsPage() {
                           >
                             <FileQuestion className="h-4 w-4" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setLocation(`/event-admin/rounds/${round.id}/grading`)}
+                            data-testid={`button-grading-${round.id}`}
+                            title="Grade Answers"
+                          >
+                            <ClipboardCheck className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setLocation(`/event-admin/rounds/${round.id}/attempts`)}
+                            data-testid={`button-attempts-${round.id}`}
+                            title="Manage Attempts"
+                          >
+                            <Users className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setLocation(`/event-admin/rounds/${round.id}/proctoring`)}
+                            data-testid={`button-proctoring-${round.id}`}
+                            title="Live Proctoring"
+                          >
+                            <ShieldAlert className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setLocation(`/event-admin/rounds/${round.id}/similarity`)}
+                            data-testid={`button-similarity-${round.id}`}
+                            title="Similarity Report"
+                          >
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setLocation(`/event-admin/rounds/${round.id}/violations`)}
+                            data-testid={`button-violations-${round.id}`}
+                            title="Violation Review"
+                          >
+                            <Gavel className="h-4 w-4" />
+                          </Button>
                         </div>
                       </TableCell>
                     </TableRow>
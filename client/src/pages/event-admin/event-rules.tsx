@@ -1,5 +1,6 @@
 import { useParams, useLocation } from 'wouter';
 import { useQuery, useMutation } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -7,24 +8,28 @@ import EventAdminLayout from '@/components/layouts/EventAdminLayout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Switch } from '@/components/ui/switch';
-import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { ArrowLeft, Shield, AlertTriangle } from 'lucide-react';
-import type { EventRules, Event } from '@shared/schema';
+import ProctoringRulesEditor, {
+  EffectiveRulesCard,
+  overridesFromRules,
+  type ProctoringOverrides,
+  type ResolvedProctoringRules,
+} from '@/components/ProctoringRulesEditor';
+import RulesChangeHistory from '@/components/RulesChangeHistory';
+import type { EventRules, Event, ProctoringProfile, AuditLog } from '@shared/schema';
 
 const rulesFormSchema = z.object({
-  noRefresh: z.boolean(),
-  noTabSwitch: z.boolean(),
-  forceFullscreen: z.boolean(),
-  disableShortcuts: z.boolean(),
-  autoSubmitOnViolation: z.boolean(),
-  maxTabSwitchWarnings: z.number().min(0).max(10),
   additionalRules: z.string().optional(),
 });
 
+type EffectiveEventRules = ResolvedProctoringRules & {
+  inherited: ResolvedProctoringRules;
+  eventProfile: ProctoringProfile | null;
+};
+
 type RulesFormData = z.infer<typeof rulesFormSchema>;
 
 export default function EventRulesPage() {
@@ -42,31 +47,38 @@ export default function EventRulesPage() {
     enabled: !!eventId,
   });
 
+  const { data: profiles = [] } = useQuery<ProctoringProfile[]>({
+    queryKey: ['/api/proctoring-profiles'],
+  });
+
+  const { data: effective } = useQuery<EffectiveEventRules>({
+    queryKey: ['/api/events', eventId, 'effective-rules'],
+    enabled: !!eventId,
+  });
+
+  const { data: history = [] } = useQuery<AuditLog[]>({
+    queryKey: ['/api/events', eventId, 'rules', 'history'],
+    enabled: !!eventId,
+  });
+
+  const [proctoring, setProctoring] = useState<ProctoringOverrides>(overridesFromRules(undefined));
+  useEffect(() => {
+    if (rules) setProctoring(overridesFromRules(rules));
+  }, [rules]);
+
   const form = useForm<RulesFormData>({
     resolver: zodResolver(rulesFormSchema),
     defaultValues: {
-      noRefresh: true,
-      noTabSwitch: true,
-      forceFullscreen: true,
-      disableShortcuts: true,
-      autoSubmitOnViolation: true,
-      maxTabSwitchWarnings: 2,
       additionalRules: '',
     },
     values: rules ? {
-      noRefresh: rules.noRefresh,
-      noTabSwitch: rules.noTabSwitch,
-      forceFullscreen: rules.forceFullscreen,
-      disableShortcuts: rules.disableShortcuts,
-      autoSubmitOnViolation: rules.autoSubmitOnViolation,
-      maxTabSwitchWarnings: rules.maxTabSwitchWarnings,
       additionalRules: rules.additionalRules || '',
     } : undefined,
   });
 
   const updateRulesMutation = useMutation({
     mutationFn: async (data: RulesFormData) => {
-      return apiRequest('PATCH', `/api/events/${eventId}/rules`, data);
+      return apiRequest('PATCH', `/api/events/${eventId}/rules`, { ...data, ...proctoring });
     },
     onSuccess: () => {
       toast({
@@ -74,6 +86,7 @@ export default function EventRulesPage() {
         description: 'Event proctoring rules have been updated successfully',
       });
       queryClient.invalidateQueries({ queryKey: ['/api/events', eventId, 'rules'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/events', eventId, 'effective-rules'] });
     },
     onError: (error: any) => {
       toast({
@@ -120,8 +133,8 @@ export default function EventRulesPage() {
           </div>
         </div>
 
-        <div className="max-w-3xl">
-          <Card className="mb-6 border-yellow-200 bg-yellow-50">
+        <div className="max-w-3xl space-y-6">
+          <Card className="border-yellow-200 bg-yellow-50">
             <CardContent className="pt-6">
               <div className="flex gap-3">
                 <AlertTriangle className="h-5 w-5 text-yellow-600 flex-shrink-0 mt-0.5" />
@@ -146,148 +159,11 @@ export default function EventRulesPage() {
             <CardContent>
               <Form {...form}>
                 <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                  <FormField
-                    control={form.control}
-                    name="forceFullscreen"
-                    render={({ field }) => (
-                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                        <div className="space-y-0.5">
-                          <FormLabel className="text-base" data-testid="label-fullscreen">
-                            Force Fullscreen Mode
-                          </FormLabel>
-                          <FormDescription>
-                            Require participants to stay in fullscreen during the test
-                          </FormDescription>
-                        </div>
-                        <FormControl>
-                          <Switch
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                            data-testid="switch-fullscreen"
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="noTabSwitch"
-                    render={({ field }) => (
-                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                        <div className="space-y-0.5">
-                          <FormLabel className="text-base" data-testid="label-tab-switch">
-                            Disable Tab Switching
-                          </FormLabel>
-                          <FormDescription>
-                            Detect and log when participants switch browser tabs
-                          </FormDescription>
-                        </div>
-                        <FormControl>
-                          <Switch
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                            data-testid="switch-tab-switch"
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="noRefresh"
-                    render={({ field }) => (
-                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                        <div className="space-y-0.5">
-                          <FormLabel className="text-base" data-testid="label-no-refresh">
-                            Block Page Refresh
-                          </FormLabel>
-                          <FormDescription>
-                            Prevent participants from refreshing the test page
-                          </FormDescription>
-                        </div>
-                        <FormControl>
-                          <Switch
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                            data-testid="switch-no-refresh"
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="disableShortcuts"
-                    render={({ field }) => (
-                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                        <div className="space-y-0.5">
-                          <FormLabel className="text-base" data-testid="label-shortcuts">
-                            Disable Keyboard Shortcuts
-                          </FormLabel>
-                          <FormDescription>
-                            Block common keyboard shortcuts like copy, paste, print
-                          </FormDescription>
-                        </div>
-                        <FormControl>
-                          <Switch
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                            data-testid="switch-shortcuts"
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="autoSubmitOnViolation"
-                    render={({ field }) => (
-                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4 border-red-200 bg-red-50">
-                        <div className="space-y-0.5">
-                          <FormLabel className="text-base text-red-900" data-testid="label-auto-submit">
-                            Auto-Submit on Violation
-                          </FormLabel>
-                          <FormDescription className="text-red-700">
-                            Automatically submit test when violation limit is exceeded
-                          </FormDescription>
-                        </div>
-                        <FormControl>
-                          <Switch
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                            data-testid="switch-auto-submit"
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="maxTabSwitchWarnings"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel data-testid="label-max-warnings">Maximum Tab Switch Warnings</FormLabel>
-                        <FormDescription>
-                          Number of tab switch warnings before action is taken (if auto-submit is enabled)
-                        </FormDescription>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            min="0"
-                            max="10"
-                            {...field}
-                            onChange={(e) => field.onChange(parseInt(e.target.value))}
-                            data-testid="input-max-warnings"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
+                  <ProctoringRulesEditor
+                    value={proctoring}
+                    onChange={setProctoring}
+                    profiles={profiles}
+                    inherited={effective?.inherited}
                   />
 
                   <FormField
@@ -333,6 +209,18 @@ export default function EventRulesPage() {
               </Form>
             </CardContent>
           </Card>
+
+          {effective && (
+            <EffectiveRulesCard
+              effective={effective}
+              profileNames={{ eventProfile: effective.eventProfile?.name }}
+            />
+          )}
+
+          <RulesChangeHistory
+            logs={history}
+            profileNames={Object.fromEntries(profiles.map(p => [p.id, p.name]))}
+          />
         </div>
       </div>
     </EventAdminLayout>
@@ -6,7 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { Eye, Settings, Users, FileQuestion } from 'lucide-react';
+import { Eye, Settings, Users, FileQuestion, MonitorSmartphone } from 'lucide-react';
 import type { Event } from '@shared/schema';
 
 export default function EventAdminEventsPage() {
@@ -112,6 +112,15 @@ export default function EventAdminEventsPage() {
                           >
                             <Users className="h-4 w-4" />
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setLocation(`/event-admin/events/${event.id}/session-conflicts`)}
+                            data-testid={`button-session-conflicts-${event.id}`}
+                            title="Login Conflicts"
+                          >
+                            <MonitorSmartphone className="h-4 w-4" />
+                          </Button>
                         </div>
                       </TableCell>
                     </TableRow>
@@ -2,6 +2,7 @@ import { useParams, useLocation } from 'wouter';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import EventAdminLayout from '@/components/layouts/EventAdminLayout';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -9,23 +10,40 @@ import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { insertQuestionSchema } from '@shared/schema';
+import type { Round } from '@shared/schema';
 import { z } from 'zod';
 import { ArrowLeft, Plus, X } from 'lucide-react';
 
 const formSchema = insertQuestionSchema.omit({ 
   options: true, 
   correctAnswer: true,
+  correctAnswers: true,
   expectedOutput: true,
-  testCases: true 
+  testCases: true,
+  timeLimitMs: true,
+  memoryLimitMb: true,
+  negativeMarks: true,
+  partialCredit: true,
+  tag: true,
+  difficulty: true,
+  sectionId: true,
+  explanation: true,
 }).extend({
-  questionType: z.enum(['mcq', 'true_false', 'short_answer', 'coding']),
+  questionType: z.enum(['mcq', 'multiple_select', 'true_false', 'short_answer', 'coding']),
 });
 
 type FormData = z.infer<typeof formSchema>;
 
+interface TestCaseDraft {
+  input: string;
+  expectedOutput: string;
+  hidden: boolean;
+}
+
 export default function QuestionCreatePage() {
   const { roundId } = useParams();
   const [, setLocation] = useLocation();
@@ -33,6 +51,22 @@ export default function QuestionCreatePage() {
   const [questionType, setQuestionType] = useState<string>('mcq');
   const [mcqOptions, setMcqOptions] = useState<string[]>(['', '', '', '']);
   const [correctAnswer, setCorrectAnswer] = useState<string>('');
+  const [correctOptions, setCorrectOptions] = useState<string[]>([]);
+  const [testCases, setTestCases] = useState<TestCaseDraft[]>([{ input: '', expectedOutput: '', hidden: false }]);
+  const [timeLimitMs, setTimeLimitMs] = useState<number>(2000);
+  const [memoryLimitMb, setMemoryLimitMb] = useState<number>(256);
+  const [negativeMarksOverride, setNegativeMarksOverride] = useState<string>('');
+  const [partialCreditOverride, setPartialCreditOverride] = useState<string>('default');
+  const [tag, setTag] = useState<string>('');
+  const [difficulty, setDifficulty] = useState<string>('none');
+  const [sectionId, setSectionId] = useState<string>('');
+  const [explanation, setExplanation] = useState<string>('');
+
+  const { data: round } = useQuery<Round>({
+    queryKey: ['/api/rounds', roundId],
+    enabled: !!roundId,
+  });
+  const sections = round?.sections || [];
 
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
@@ -72,6 +106,30 @@ export default function QuestionCreatePage() {
         }
         questionData.options = validOptions;
         questionData.correctAnswer = correctAnswer;
+      } else if (questionType === 'multiple_select') {
+        const validOptions = mcqOptions.filter(opt => opt.trim() !== '');
+        const validCorrect = correctOptions.filter(opt => validOptions.includes(opt));
+        if (validOptions.length < 2) {
+          toast({
+            title: 'Invalid options',
+            description: 'Please provide at least 2 options',
+            variant: 'destructive',
+          });
+          return;
+        }
+        if (validCorrect.length === 0) {
+          toast({
+            title: 'Missing correct answers',
+            description: 'Please tick at least one correct option',
+            variant: 'destructive',
+          });
+          return;
+        }
+        questionData.options = validOptions;
+        questionData.correctAnswers = validCorrect;
+        if (partialCreditOverride !== 'default') {
+          questionData.partialCredit = partialCreditOverride === 'proportional';
+        }
       } else if (questionType === 'true_false') {
         questionData.options = ['True', 'False'];
         questionData.correctAnswer = correctAnswer || 'True';
@@ -79,6 +137,27 @@ export default function QuestionCreatePage() {
         questionData.correctAnswer = correctAnswer || null;
       } else if (questionType === 'coding') {
         questionData.expectedOutput = correctAnswer || null;
+        const validTestCases = testCases.filter(tc => tc.expectedOutput.trim() !== '');
+        questionData.testCases = validTestCases.length > 0 ? validTestCases : null;
+        questionData.timeLimitMs = timeLimitMs;
+        questionData.memoryLimitMb = memoryLimitMb;
+      }
+
+      if ((questionType === 'mcq' || questionType === 'true_false' || questionType === 'multiple_select') && negativeMarksOverride !== '') {
+        questionData.negativeMarks = parseInt(negativeMarksOverride);
+      }
+
+      if (tag.trim()) {
+        questionData.tag = tag.trim();
+      }
+      if (difficulty !== 'none') {
+        questionData.difficulty = difficulty;
+      }
+      if (sections.length > 0) {
+        questionData.sectionId = sectionId || sections[0].id;
+      }
+      if (explanation.trim()) {
+        questionData.explanation = explanation.trim();
       }
 
       await apiRequest('POST', `/api/rounds/${roundId}/questions`, questionData);
@@ -101,8 +180,18 @@ export default function QuestionCreatePage() {
 
   const updateMcqOption = (index: number, value: string) => {
     const newOptions = [...mcqOptions];
+    const previous = newOptions[index];
     newOptions[index] = value;
     setMcqOptions(newOptions);
+    if (correctOptions.includes(previous)) {
+      setCorrectOptions(correctOptions.map(opt => (opt === previous ? value : opt)));
+    }
+  };
+
+  const toggleCorrectOption = (option: string, checked: boolean) => {
+    setCorrectOptions(checked
+      ? [...correctOptions.filter(opt => opt !== option), option]
+      : correctOptions.filter(opt => opt !== option));
   };
 
   const addMcqOption = () => {
@@ -115,6 +204,18 @@ export default function QuestionCreatePage() {
     }
   };
 
+  const updateTestCase = (index: number, updates: Partial<TestCaseDraft>) => {
+    setTestCases(testCases.map((tc, i) => (i === index ? { ...tc, ...updates } : tc)));
+  };
+
+  const addTestCase = () => {
+    setTestCases([...testCases, { input: '', expectedOutput: '', hidden: true }]);
+  };
+
+  const removeTestCase = (index: number) => {
+    setTestCases(testCases.filter((_, i) => i !== index));
+  };
+
   return (
     <EventAdminLayout>
       <div className="p-8">
@@ -159,6 +260,7 @@ export default function QuestionCreatePage() {
                         </FormControl>
                         <SelectContent>
                           <SelectItem value="mcq">Multiple Choice (MCQ)</SelectItem>
+                          <SelectItem value="multiple_select">Multiple Select (Checkboxes)</SelectItem>
                           <SelectItem value="true_false">True/False</SelectItem>
                           <SelectItem value="short_answer">Short Answer</SelectItem>
                           <SelectItem value="coding">Coding Question</SelectItem>
@@ -213,6 +315,64 @@ export default function QuestionCreatePage() {
                   />
                 </div>
 
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <FormLabel>Tag</FormLabel>
+                    <Input
+                      placeholder="e.g., arrays, networking"
+                      value={tag}
+                      onChange={(e) => setTag(e.target.value)}
+                      data-testid="input-tag"
+                    />
+                    <p className="text-sm text-muted-foreground">Used to stratify random draws from the question pool</p>
+                  </div>
+                  <div className="space-y-2">
+                    <FormLabel>Difficulty</FormLabel>
+                    <Select value={difficulty} onValueChange={setDifficulty}>
+                      <SelectTrigger data-testid="select-difficulty">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Not set</SelectItem>
+                        <SelectItem value="easy">Easy</SelectItem>
+                        <SelectItem value="medium">Medium</SelectItem>
+                        <SelectItem value="hard">Hard</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <FormLabel>Explanation</FormLabel>
+                  <Textarea
+                    placeholder="Why the correct answer is correct (optional)"
+                    value={explanation}
+                    onChange={(e) => setExplanation(e.target.value)}
+                    data-testid="input-explanation"
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Shown to participants with the correct answer once they can see their results
+                  </p>
+                </div>
+
+                {sections.length > 0 && (
+                  <div className="space-y-2">
+                    <FormLabel>Section</FormLabel>
+                    <Select value={sectionId || sections[0].id} onValueChange={setSectionId}>
+                      <SelectTrigger data-testid="select-section">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {sections.map((section) => (
+                          <SelectItem key={section.id} value={section.id}>
+                            {section.name} ({section.durationMinutes} min)
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 <FormField
                   control={form.control}
                   name="questionText"
@@ -301,6 +461,84 @@ export default function QuestionCreatePage() {
                   </div>
                 )}
 
+                {questionType === 'multiple_select' && (
+                  <div className="space-y-4">
+                    <div className="flex justify-between items-center">
+                      <div>
+                        <FormLabel>Answer Options</FormLabel>
+                        <FormDescription>Tick every option that is correct</FormDescription>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={addMcqOption}
+                        data-testid="button-add-option"
+                      >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Option
+                      </Button>
+                    </div>
+                    {mcqOptions.map((option, index) => (
+                      <div key={index} className="flex gap-2 items-center">
+                        <Checkbox
+                          checked={option.trim() !== '' && correctOptions.includes(option)}
+                          disabled={option.trim() === ''}
+                          onCheckedChange={(checked) => toggleCorrectOption(option, checked === true)}
+                          data-testid={`checkbox-correct-option-${index}`}
+                        />
+                        <Input
+                          placeholder={`Option ${index + 1}`}
+                          value={option}
+                          onChange={(e) => updateMcqOption(index, e.target.value)}
+                          data-testid={`input-option-${index}`}
+                        />
+                        {mcqOptions.length > 2 && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeMcqOption(index)}
+                            data-testid={`button-remove-option-${index}`}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                    <div>
+                      <FormLabel>Scoring</FormLabel>
+                      <Select value={partialCreditOverride} onValueChange={setPartialCreditOverride}>
+                        <SelectTrigger data-testid="select-partial-credit">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="default">Use round setting</SelectItem>
+                          <SelectItem value="all_or_nothing">All or nothing</SelectItem>
+                          <SelectItem value="proportional">Partial credit (proportional)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+
+                {(questionType === 'mcq' || questionType === 'true_false' || questionType === 'multiple_select') && (
+                  <div>
+                    <FormLabel>Negative Marks (Optional)</FormLabel>
+                    <FormDescription className="mb-2">
+                      Marks deducted for a wrong answer. Leave empty to use the round's scoring rules, 0 to disable for this question.
+                    </FormDescription>
+                    <Input
+                      type="number"
+                      min="0"
+                      placeholder="Use round setting"
+                      value={negativeMarksOverride}
+                      onChange={(e) => setNegativeMarksOverride(e.target.value)}
+                      data-testid="input-negative-marks"
+                    />
+                  </div>
+                )}
+
                 {questionType === 'short_answer' && (
                   <div>
                     <FormLabel>Expected Answer (Optional)</FormLabel>
@@ -329,6 +567,94 @@ export default function QuestionCreatePage() {
                       className="min-h-[100px]"
                       data-testid="input-expected-output"
                     />
+
+                    <div className="grid grid-cols-2 gap-4 mt-4">
+                      <div>
+                        <FormLabel>Time Limit (ms)</FormLabel>
+                        <Input
+                          type="number"
+                          min="100"
+                          max="10000"
+                          value={timeLimitMs}
+                          onChange={(e) => setTimeLimitMs(parseInt(e.target.value) || 2000)}
+                          data-testid="input-time-limit"
+                        />
+                      </div>
+                      <div>
+                        <FormLabel>Memory Limit (MB)</FormLabel>
+                        <Input
+                          type="number"
+                          min="16"
+                          max="1024"
+                          value={memoryLimitMb}
+                          onChange={(e) => setMemoryLimitMb(parseInt(e.target.value) || 256)}
+                          data-testid="input-memory-limit"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="space-y-4 mt-4">
+                      <div className="flex justify-between items-center">
+                        <div>
+                          <FormLabel>Test Cases</FormLabel>
+                          <FormDescription>
+                            Input is sent on stdin; output is compared ignoring trailing whitespace. Points are split evenly across test cases.
+                          </FormDescription>
+                        </div>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={addTestCase}
+                          data-testid="button-add-test-case"
+                        >
+                          <Plus className="h-4 w-4 mr-1" />
+                          Add Test Case
+                        </Button>
+                      </div>
+                      {testCases.map((testCase, index) => (
+                        <div key={index} className="border rounded-lg p-3 space-y-2" data-testid={`test-case-${index}`}>
+                          <div className="flex justify-between items-center">
+                            <span className="text-sm font-medium">Test Case {index + 1}</span>
+                            <div className="flex items-center gap-3">
+                              <label className="flex items-center gap-2 text-sm">
+                                <Checkbox
+                                  checked={testCase.hidden}
+                                  onCheckedChange={(checked) => updateTestCase(index, { hidden: checked === true })}
+                                  data-testid={`checkbox-test-case-hidden-${index}`}
+                                />
+                                Hidden
+                              </label>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => removeTestCase(index)}
+                                data-testid={`button-remove-test-case-${index}`}
+                              >
+                                <X className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+                          <div className="grid grid-cols-2 gap-2">
+                            <Textarea
+                              placeholder="Input"
+                              value={testCase.input}
+                              onChange={(e) => updateTestCase(index, { input: e.target.value })}
+                              className="font-mono text-sm"
+                              data-testid={`input-test-case-input-${index}`}
+                            />
+                            <Textarea
+                              placeholder="Expected output"
+                              value={testCase.expectedOutput}
+                              onChange={(e) => updateTestCase(index, { expectedOutput: e.target.value })}
+                              className="font-mono text-sm"
+                              data-testid={`input-test-case-output-${index}`}
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
                   </div>
                 )}
 
@@ -20,6 +20,11 @@ interface ParsedQuestion {
   questionType: string;
   options?: string[];
   correctAnswer?: string;
+  correctAnswers?: string[];
+  tag?: string;
+  difficulty?: string;
+  section?: string;
+  explanation?: string;
 }
 
 export default function QuestionsBulkUploadPage() {
@@ -98,9 +103,14 @@ export default function QuestionsBulkUploadPage() {
             questionNumber: q.questionNumber,
             questionText: q.questionText,
             points: q.points || 1,
-            questionType: 'multiple_choice',
+            questionType: q.questionType || 'multiple_choice',
             options: q.options || [],
             correctAnswer: q.correctAnswer || '',
+            correctAnswers: Array.isArray(q.correctAnswers) ? q.correctAnswers : undefined,
+            tag: q.tag || undefined,
+            difficulty: q.difficulty || undefined,
+            section: q.section || undefined,
+            explanation: q.explanation || undefined,
           });
         });
       } else if (fileName.endsWith('.csv')) {
@@ -136,19 +146,30 @@ export default function QuestionsBulkUploadPage() {
 
           const options: string[] = [];
           let correctAnswer = '';
+          const questionType = values[8] || 'multiple_choice';
 
           if (values.length >= 8) {
             options.push(values[3], values[4], values[5], values[6]);
             correctAnswer = values[7];
           }
 
+          // Multi-select keys list every correct option separated by "|"
+          const correctAnswers = questionType === 'multiple_select' && correctAnswer
+            ? correctAnswer.split('|').map(v => v.trim()).filter(Boolean)
+            : undefined;
+
           questions.push({
             questionNumber,
             questionText,
             points,
-            questionType: 'multiple_choice',
+            questionType,
             options: options.length > 0 ? options : undefined,
-            correctAnswer: correctAnswer || undefined,
+            correctAnswer: correctAnswers ? undefined : correctAnswer || undefined,
+            correctAnswers,
+            tag: values[9] || undefined,
+            difficulty: values[10] || undefined,
+            section: values[11] || undefined,
+            explanation: values[12] || undefined,
           });
         }
       } else {
@@ -226,11 +247,14 @@ export default function QuestionsBulkUploadPage() {
                     <span className="font-medium">CSV Format</span>
                   </div>
                   <p className="text-sm text-gray-600 mb-2">
-                    questionNumber,questionText,points,option1,option2,option3,option4,correctAnswer
+                    questionNumber,questionText,points,option1,option2,option3,option4,correctAnswer[,questionType,tag,difficulty,section,explanation]
                   </p>
                   <p className="text-xs text-gray-500">
                     Example: 1,What is 2+2?,1,2,3,4,5,4
                   </p>
+                  <p className="text-xs text-gray-500">
+                    Multiple select: 2,Pick the primes,2,2,4,5,9,2|5,multiple_select
+                  </p>
                 </div>
 
                 <div className="p-4 border rounded-lg">
@@ -248,6 +272,16 @@ export default function QuestionsBulkUploadPage() {
   "points": 1,
   "options": ["2","3","4","5"],
   "correctAnswer": "4"
+}, {
+  "questionNumber": 2,
+  "questionText": "Pick the primes",
+  "questionType": "multiple_select",
+  "options": ["2","4","5","9"],
+  "correctAnswers": ["2","5"],
+  "tag": "number theory",
+  "difficulty": "easy",
+  "section": "Quant",
+  "explanation": "4 and 9 have other factors"
 }]`}
                   </pre>
                 </div>
@@ -312,7 +346,7 @@ export default function QuestionsBulkUploadPage() {
                               <span className="text-sm text-gray-400">None</span>
                             )}
                           </TableCell>
-                          <TableCell className="text-sm">{q.correctAnswer || '-'}</TableCell>
+                          <TableCell className="text-sm">{q.correctAnswers ? q.correctAnswers.join(', ') : q.correctAnswer || '-'}</TableCell>
                         </TableRow>
                       ))}
                     </TableBody>
@@ -0,0 +1,330 @@
+import { useParams } from 'wouter';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useState } from 'react';
+import EventAdminLayout from '@/components/layouts/EventAdminLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ArrowLeft, Users, TimerReset, RotateCcw, Trash2, MonitorSmartphone, Clock } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { Round, TestAttempt } from '@shared/schema';
+
+interface RosterEntry {
+  participantId: string;
+  userId: string;
+  fullName: string | null;
+  email: string | null;
+  extraTimeMinutes: number;
+  attempt: TestAttempt | null;
+  deadline: string | null;
+}
+
+type AccommodationAction = 'extend' | 'reopen' | 'reset' | 'allow-resume' | 'extra-time';
+
+const ACTIONS: Record<AccommodationAction, { title: string; description: string; minutesLabel?: string; confirm: string }> = {
+  extend: {
+    title: 'Extend Time',
+    description: 'Add minutes to this in-progress attempt. The participant sees the new deadline immediately.',
+    minutesLabel: 'Minutes to add',
+    confirm: 'Extend',
+  },
+  reopen: {
+    title: 'Reopen Attempt',
+    description: 'Reopen a submitted attempt. Saved answers are kept and the participant may continue from any machine.',
+    minutesLabel: 'Extra minutes',
+    confirm: 'Reopen',
+  },
+  reset: {
+    title: 'Reset Attempt',
+    description: 'Delete this attempt and all of its answers so the participant can start over. This cannot be undone.',
+    confirm: 'Reset',
+  },
+  'allow-resume': {
+    title: 'Allow Resume on Another Machine',
+    description: 'The next machine the participant opens the test on takes the attempt over.',
+    confirm: 'Allow Resume',
+  },
+  'extra-time': {
+    title: 'Standing Extra Time',
+    description: 'Extra minutes added to every attempt this participant starts in this event.',
+    minutesLabel: 'Extra minutes per attempt',
+    confirm: 'Save',
+  },
+};
+
+function statusBadge(attempt: TestAttempt | null) {
+  if (!attempt) return <Badge variant="outline">Not started</Badge>;
+  if (attempt.status === 'in_progress') return <Badge className="bg-blue-100 text-blue-800">In progress</Badge>;
+  if (attempt.status === 'auto_submitted') return <Badge className="bg-orange-100 text-orange-800">Auto-submitted</Badge>;
+  return <Badge className="bg-green-100 text-green-800">Submitted</Badge>;
+}
+
+export default function RoundAttemptsPage() {
+  const { roundId } = useParams();
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<{ entry: RosterEntry; action: AccommodationAction } | null>(null);
+  const [minutes, setMinutes] = useState('');
+  const [reason, setReason] = useState('');
+
+  const { data: round } = useQuery<Round>({
+    queryKey: ['/api/rounds', roundId],
+    enabled: !!roundId,
+  });
+
+  const { data: roster = [], isLoading } = useQuery<RosterEntry[]>({
+    queryKey: ['/api/rounds', roundId, 'attempts'],
+    enabled: !!roundId,
+  });
+
+  const openAction = (entry: RosterEntry, action: AccommodationAction) => {
+    setSelected({ entry, action });
+    setMinutes(action === 'extra-time' ? String(entry.extraTimeMinutes) : action === 'reopen' ? '0' : '');
+    setReason('');
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: async () => {
+      if (!selected) return;
+      const { entry, action } = selected;
+      const value = parseInt(minutes);
+      if (action === 'extra-time') {
+        return apiRequest('PATCH', `/api/rounds/${roundId}/participants/${entry.participantId}/extra-time`, {
+          extraTimeMinutes: value,
+          reason,
+        });
+      }
+      const body: Record<string, unknown> = { reason };
+      if (action === 'extend') body.minutes = value;
+      if (action === 'reopen') body.extraMinutes = value;
+      return apiRequest('POST', `/api/rounds/${roundId}/attempts/${entry.attempt!.id}/${action}`, body);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Saved',
+        description: `${ACTIONS[selected!.action].title} applied for ${selected!.entry.fullName || 'participant'}`,
+      });
+      setSelected(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/rounds', roundId, 'attempts'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/rounds', roundId, 'leaderboard'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Action failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const config = selected ? ACTIONS[selected.action] : null;
+  const minutesValid = !config?.minutesLabel || (minutes !== '' && parseInt(minutes) >= (selected?.action === 'extend' ? 1 : 0));
+
+  return (
+    <EventAdminLayout>
+      <div className="p-8">
+        <div className="mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => window.history.back()}
+            className="mb-4"
+            data-testid="button-back"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Rounds
+          </Button>
+          <div className="flex items-center gap-3">
+            <Users className="h-8 w-8 text-blue-600" />
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900" data-testid="heading-attempts">
+                Attempts{round ? `: ${round.name}` : ''}
+              </h1>
+              <p className="text-gray-600 mt-1">
+                Grant extra time, reopen or reset attempts, and let participants resume on another machine. Every change is audited.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Participants</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-12" data-testid="loading-attempts">Loading attempts...</div>
+            ) : roster.length === 0 ? (
+              <div className="text-center py-12 text-gray-600" data-testid="text-no-participants">No participants registered</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Participant</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Score</TableHead>
+                    <TableHead>Deadline</TableHead>
+                    <TableHead>Extra Time</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {roster.map((entry) => (
+                    <TableRow key={entry.participantId} data-testid={`row-participant-${entry.participantId}`}>
+                      <TableCell>
+                        <div className="font-medium">{entry.fullName || 'Unknown'}</div>
+                        <div className="text-sm text-gray-500">{entry.email}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {statusBadge(entry.attempt)}
+                          {entry.attempt?.resumeAllowedAt && (
+                            <Badge variant="outline" title="The next machine to open the test takes it over">Resume allowed</Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {entry.attempt && entry.attempt.status !== 'in_progress'
+                          ? `${entry.attempt.totalScore ?? 0} / ${entry.attempt.maxScore ?? 0}`
+                          : '-'}
+                      </TableCell>
+                      <TableCell>
+                        {entry.deadline ? new Date(entry.deadline).toLocaleTimeString() : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">
+                          {entry.extraTimeMinutes > 0 && <div>{entry.extraTimeMinutes} min standing</div>}
+                          {!!entry.attempt?.extraMinutes && <div>{entry.attempt.extraMinutes} min this attempt</div>}
+                          {entry.extraTimeMinutes === 0 && !entry.attempt?.extraMinutes && '-'}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openAction(entry, 'extra-time')}
+                            data-testid={`button-extra-time-${entry.participantId}`}
+                            title="Standing Extra Time"
+                          >
+                            <Clock className="h-4 w-4" />
+                          </Button>
+                          {entry.attempt?.status === 'in_progress' && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => openAction(entry, 'extend')}
+                                data-testid={`button-extend-${entry.participantId}`}
+                                title="Extend Time"
+                              >
+                                <TimerReset className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => openAction(entry, 'allow-resume')}
+                                data-testid={`button-allow-resume-${entry.participantId}`}
+                                title="Allow Resume on Another Machine"
+                              >
+                                <MonitorSmartphone className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                          {entry.attempt && entry.attempt.status !== 'in_progress' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openAction(entry, 'reopen')}
+                              disabled={round?.status !== 'in_progress'}
+                              data-testid={`button-reopen-${entry.participantId}`}
+                              title="Reopen Attempt"
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {entry.attempt && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openAction(entry, 'reset')}
+                              className="text-red-600 hover:text-red-700"
+                              data-testid={`button-reset-${entry.participantId}`}
+                              title="Reset Attempt"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{config?.title}</DialogTitle>
+              <DialogDescription>
+                {selected?.entry.fullName ? `${selected.entry.fullName}: ` : ''}{config?.description}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              {config?.minutesLabel && (
+                <div className="space-y-2">
+                  <Label htmlFor="accommodation-minutes">{config.minutesLabel}</Label>
+                  <Input
+                    id="accommodation-minutes"
+                    type="number"
+                    min={selected?.action === 'extend' ? 1 : 0}
+                    value={minutes}
+                    onChange={(e) => setMinutes(e.target.value)}
+                    data-testid="input-accommodation-minutes"
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="accommodation-reason">Reason</Label>
+                <Textarea
+                  id="accommodation-reason"
+                  placeholder="Why is this change needed? It is recorded in the audit log."
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  data-testid="input-accommodation-reason"
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setSelected(null)} data-testid="button-cancel-accommodation">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => actionMutation.mutate()}
+                disabled={actionMutation.isPending || !reason.trim() || !minutesValid}
+                variant={selected?.action === 'reset' ? 'destructive' : 'default'}
+                data-testid="button-confirm-accommodation"
+              >
+                {actionMutation.isPending ? 'Saving...' : config?.confirm}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </EventAdminLayout>
+  );
+}
@@ -14,6 +14,7 @@ import { apiRequest, queryClient } from '@/lib/queryClient';
 import { insertRoundSchema } from '@shared/schema';
 import { z } from 'zod';
 import { ArrowLeft } from 'lucide-react';
+import RoundSectionsEditor from '@/components/RoundSectionsEditor';
 
 const formSchema = insertRoundSchema.extend({
   startTime: z.string().min(1, 'Start time is required'),
@@ -35,12 +36,15 @@ export default function RoundCreatePage() {
       roundNumber: 1,
       duration: 60,
       status: 'upcoming',
+      roundType: 'standard',
       startTime: '',
+      sections: [],
     },
   });
 
   const startTime = form.watch('startTime');
   const duration = form.watch('duration');
+  const hasSections = (form.watch('sections') || []).length > 0;
 
   const calculatedEndTime = useMemo(() => {
     if (!startTime || !duration) return null;
@@ -137,6 +141,32 @@ export default function RoundCreatePage() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="roundType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Round Type</FormLabel>
+                      <Select value={field.value || 'standard'} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-round-type">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="standard">Standard</SelectItem>
+                          <SelectItem value="practice">Practice</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Practice rounds can be retaken any number of times, show answers right after submission and
+                        never count towards leaderboards or reports
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <div className="grid grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
@@ -171,16 +201,43 @@ export default function RoundCreatePage() {
                             min="1"
                             {...field}
                             onChange={(e) => field.onChange(parseInt(e.target.value))}
+                            disabled={hasSections}
                             data-testid="input-duration"
                           />
                         </FormControl>
-                        <FormDescription>Test duration</FormDescription>
+                        <FormDescription>{hasSections ? 'Sum of the section times' : 'Test duration'}</FormDescription>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
                 </div>
 
+                <FormField
+                  control={form.control}
+                  name="sections"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Sections</FormLabel>
+                      <FormControl>
+                        <RoundSectionsEditor
+                          value={field.value || []}
+                          onChange={(sections) => {
+                            field.onChange(sections);
+                            const totalMinutes: number = sections.reduce((sum: number, section) => sum + (section.durationMinutes || 0), 0);
+                            if (sections.length > 0) {
+                              form.setValue('duration', totalMinutes);
+                            }
+                          }}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Optional. Each section has its own timer and closes for good when its time runs out or the participant moves on.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="status"
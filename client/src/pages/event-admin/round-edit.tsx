@@ -16,6 +16,7 @@ import { insertRoundSchema } from '@shared/schema';
 import type { Round } from '@shared/schema';
 import { z } from 'zod';
 import { ArrowLeft } from 'lucide-react';
+import RoundSectionsEditor from '@/components/RoundSectionsEditor';
 
 const formSchema = insertRoundSchema.extend({
   startTime: z.string().min(1, 'Start time is required'),
@@ -42,12 +43,15 @@ export default function RoundEditPage() {
       roundNumber: round.roundNumber,
       duration: round.duration,
       status: round.status,
+      roundType: round.roundType,
       startTime: round.startTime ? new Date(round.startTime).toISOString().slice(0, 16) : '',
+      sections: round.sections || [],
     } : undefined,
   });
 
   const startTime = form.watch('startTime');
   const duration = form.watch('duration');
+  const hasSections = (form.watch('sections') || []).length > 0;
 
   const calculatedEndTime = useMemo(() => {
     if (!startTime || !duration) return null;
@@ -170,6 +174,32 @@ export default function RoundEditPage() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="roundType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Round Type</FormLabel>
+                      <Select value={field.value || 'standard'} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-round-type">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="standard">Standard</SelectItem>
+                          <SelectItem value="practice">Practice</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Practice rounds can be retaken any number of times, show answers right after submission and
+                        never count towards leaderboards or reports. It cannot be changed once the round has attempts
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <div className="grid grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
@@ -204,16 +234,43 @@ export default function RoundEditPage() {
                             min="1"
                             {...field}
                             onChange={(e) => field.onChange(parseInt(e.target.value))}
+                            disabled={hasSections}
                             data-testid="input-duration"
                           />
                         </FormControl>
-                        <FormDescription>Test duration</FormDescription>
+                        <FormDescription>{hasSections ? 'Sum of the section times' : 'Test duration'}</FormDescription>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
                 </div>
 
+                <FormField
+                  control={form.control}
+                  name="sections"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Sections</FormLabel>
+                      <FormControl>
+                        <RoundSectionsEditor
+                          value={field.value || []}
+                          onChange={(sections) => {
+                            field.onChange(sections);
+                            const totalMinutes: number = sections.reduce((sum: number, section) => sum + (section.durationMinutes || 0), 0);
+                            if (sections.length > 0) {
+                              form.setValue('duration', totalMinutes);
+                            }
+                          }}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Optional. Each section has its own timer and closes for good when its time runs out or the participant moves on.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="status"
@@ -0,0 +1,353 @@
+import { useParams } from 'wouter';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useState, useEffect } from 'react';
+import EventAdminLayout from '@/components/layouts/EventAdminLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { ArrowLeft, ClipboardCheck, CheckCircle, Clock, EyeOff, ClipboardPaste } from 'lucide-react';
+import type { TestCaseResult, AnswerInputStats } from '@shared/schema';
+
+interface GradingQuestion {
+  id: string;
+  questionNumber: number;
+  questionText: string;
+  questionType: string;
+  points: number;
+  total: number;
+  pending: number;
+  flagged: number;
+}
+
+interface InputAssessment {
+  flags: Array<'mostly_pasted' | 'instant'>;
+  answerChars: number;
+  pastedShare: number;
+  composeSeconds: number | null;
+}
+
+interface GradingItem {
+  answerId: string;
+  attemptId: string;
+  questionId: string;
+  questionNumber: number;
+  questionType: string;
+  maxPoints: number;
+  answer: string;
+  language: string | null;
+  testResults: TestCaseResult[] | null;
+  inputStats: AnswerInputStats | null;
+  inputAssessment: InputAssessment | null;
+  pointsAwarded: number | null;
+  isCorrect: boolean | null;
+  feedback: string | null;
+  gradedAt: string | null;
+  submittedAt: string | null;
+  participant: { label: string; fullName?: string; email?: string };
+}
+
+const INPUT_FLAG_LABELS: Record<InputAssessment['flags'][number], string> = {
+  mostly_pasted: 'Mostly pasted',
+  instant: 'Appeared instantly',
+};
+
+function formatDuration(seconds: number) {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+}
+
+interface GradingQueue {
+  round: { id: string; name: string; eventId: string };
+  questions: GradingQuestion[];
+  items: GradingItem[];
+}
+
+function GradingCard({ item, roundId, blind }: { item: GradingItem; roundId: string; blind: boolean }) {
+  const { toast } = useToast();
+  const [points, setPoints] = useState<string>(String(item.pointsAwarded ?? 0));
+  const [feedback, setFeedback] = useState<string>(item.feedback || '');
+
+  useEffect(() => {
+    setPoints(String(item.pointsAwarded ?? 0));
+    setFeedback(item.feedback || '');
+  }, [item.answerId, item.pointsAwarded, item.feedback]);
+
+  const gradeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PATCH', `/api/rounds/${roundId}/answers/${item.answerId}/grade`, {
+        pointsAwarded: parseInt(points),
+        feedback,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Answer graded',
+        description: `${points} / ${item.maxPoints} points saved`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/rounds', roundId, 'grading-queue'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/rounds', roundId, 'leaderboard'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Grading failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const testResults = item.testResults || [];
+
+  return (
+    <Card data-testid={`card-grading-${item.answerId}`}>
+      <CardHeader className="pb-3">
+        <div className="flex justify-between items-start">
+          <div>
+            <CardTitle className="text-base">
+              {blind ? item.participant.label : item.participant.fullName}
+            </CardTitle>
+            {!blind && (
+              <CardDescription>{item.participant.email}</CardDescription>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge variant="outline">Q{item.questionNumber}</Badge>
+            {item.language && <Badge variant="secondary">{item.language}</Badge>}
+            {item.inputAssessment?.flags.map((flag) => (
+              <Badge key={flag} className="bg-orange-100 text-orange-800" data-testid={`badge-${flag}-${item.answerId}`}>
+                <ClipboardPaste className="h-3 w-3 mr-1" />
+                {INPUT_FLAG_LABELS[flag]}
+              </Badge>
+            ))}
+            {item.gradedAt ? (
+              <Badge className="bg-green-100 text-green-800">
+                <CheckCircle className="h-3 w-3 mr-1" />
+                Graded
+              </Badge>
+            ) : (
+              <Badge className="bg-yellow-100 text-yellow-800">
+                <Clock className="h-3 w-3 mr-1" />
+                Pending
+              </Badge>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <pre className="bg-gray-50 border rounded p-3 text-sm whitespace-pre-wrap font-mono max-h-80 overflow-y-auto" data-testid={`text-answer-${item.answerId}`}>
+          {item.answer || '(empty answer)'}
+        </pre>
+
+        {item.inputStats && item.inputAssessment && (
+          <div className="text-sm text-gray-600" data-testid={`text-input-stats-${item.answerId}`}>
+            Input: {Math.round(item.inputAssessment.pastedShare * 100)}% pasted
+            {' · '}{item.inputStats.pasteCount} {item.inputStats.pasteCount === 1 ? 'paste' : 'pastes'}
+            {item.inputStats.largestPaste > 0 && ` (largest ${item.inputStats.largestPaste} chars)`}
+            {' · '}{item.inputStats.typedChars} chars typed in {item.inputStats.burstCount} {item.inputStats.burstCount === 1 ? 'burst' : 'bursts'}
+            {item.inputStats.longestBurstChars > 0 && ` (longest ${item.inputStats.longestBurstChars})`}
+            {item.inputAssessment.composeSeconds !== null && ` · written over ${formatDuration(item.inputAssessment.composeSeconds)}`}
+          </div>
+        )}
+
+        {testResults.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-sm text-gray-600">
+              Auto-grader: {testResults.filter(r => r.passed).length} / {testResults.length} test cases passed
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {testResults.map((result) => (
+                <Badge
+                  key={result.index}
+                  variant={result.passed ? 'default' : 'destructive'}
+                  title={result.stderr || undefined}
+                >
+                  #{result.index + 1}: {result.status.replace(/_/g, ' ')}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-4 gap-4 items-start">
+          <div className="space-y-2">
+            <Label htmlFor={`points-${item.answerId}`}>Points (max {item.maxPoints})</Label>
+            <Input
+              id={`points-${item.answerId}`}
+              type="number"
+              min="0"
+              max={item.maxPoints}
+              value={points}
+              onChange={(e) => setPoints(e.target.value)}
+              data-testid={`input-points-${item.answerId}`}
+            />
+          </div>
+          <div className="col-span-3 space-y-2">
+            <Label htmlFor={`feedback-${item.answerId}`}>Feedback</Label>
+            <Textarea
+              id={`feedback-${item.answerId}`}
+              placeholder="Optional feedback for the participant"
+              value={feedback}
+              onChange={(e) => setFeedback(e.target.value)}
+              data-testid={`input-feedback-${item.answerId}`}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button
+            onClick={() => gradeMutation.mutate()}
+            disabled={gradeMutation.isPending || points === '' || parseInt(points) < 0 || parseInt(points) > item.maxPoints}
+            data-testid={`button-save-grade-${item.answerId}`}
+          >
+            {gradeMutation.isPending ? 'Saving...' : 'Save Grade'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function RoundGradingPage() {
+  const { roundId } = useParams();
+  const [questionFilter, setQuestionFilter] = useState<string>('all');
+  const [statusFilter, setStatusFilter] = useState<string>('pending');
+  const [blind, setBlind] = useState<boolean>(true);
+
+  const { data: queue, isLoading } = useQuery<GradingQueue>({
+    queryKey: ['/api/rounds', roundId, 'grading-queue', { blind }],
+    queryFn: async () => {
+      const response = await fetch(`/api/rounds/${roundId}/grading-queue?blind=${blind}`, {
+        headers: {
+          Authorization: `Bearer ${localStorage.getItem('token')}`,
+        },
+      });
+      if (!response.ok) throw new Error('Failed to fetch grading queue');
+      return response.json();
+    },
+    enabled: !!roundId,
+  });
+
+  const items = (queue?.items || [])
+    .filter(item => questionFilter === 'all' || item.questionId === questionFilter)
+    .filter(item => {
+      if (statusFilter === 'pending') return !item.gradedAt;
+      if (statusFilter === 'graded') return !!item.gradedAt;
+      if (statusFilter === 'flagged') return (item.inputAssessment?.flags.length || 0) > 0;
+      return true;
+    });
+
+  const totalPending = queue?.questions.reduce((sum, q) => sum + q.pending, 0) || 0;
+
+  return (
+    <EventAdminLayout>
+      <div className="p-8">
+        <div className="mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => window.history.back()}
+            className="mb-4"
+            data-testid="button-back"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Rounds
+          </Button>
+          <div className="flex items-center gap-3">
+            <ClipboardCheck className="h-8 w-8 text-blue-600" />
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900" data-testid="heading-grading">
+                Grading{queue?.round ? `: ${queue.round.name}` : ''}
+              </h1>
+              <p className="text-gray-600 mt-1">
+                Review short answer and coding responses. {totalPending} answers pending.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-4 gap-6">
+          <Card className="col-span-1 h-fit">
+            <CardHeader>
+              <CardTitle>Questions</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Button
+                variant={questionFilter === 'all' ? 'default' : 'ghost'}
+                className="w-full justify-between"
+                onClick={() => setQuestionFilter('all')}
+                data-testid="button-question-all"
+              >
+                All questions
+                <Badge variant="secondary">{totalPending}</Badge>
+              </Button>
+              {queue?.questions.map((question) => (
+                <Button
+                  key={question.id}
+                  variant={questionFilter === question.id ? 'default' : 'ghost'}
+                  className="w-full justify-between"
+                  onClick={() => setQuestionFilter(question.id)}
+                  title={question.questionText}
+                  data-testid={`button-question-${question.id}`}
+                >
+                  Q{question.questionNumber} ({question.questionType.replace('_', ' ')})
+                  <span className="flex gap-1">
+                    {question.flagged > 0 && (
+                      <Badge className="bg-orange-100 text-orange-800" title="Pasted or instant answers">{question.flagged}</Badge>
+                    )}
+                    <Badge variant="secondary">{question.pending}/{question.total}</Badge>
+                  </span>
+                </Button>
+              ))}
+            </CardContent>
+          </Card>
+
+          <div className="col-span-3 space-y-4">
+            <div className="flex items-center justify-between">
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-48" data-testid="select-status-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="graded">Graded</SelectItem>
+                  <SelectItem value="flagged">Pasted or instant</SelectItem>
+                  <SelectItem value="all">All</SelectItem>
+                </SelectContent>
+              </Select>
+              <div className="flex items-center gap-2">
+                <EyeOff className="h-4 w-4 text-gray-500" />
+                <Label htmlFor="blind-mode">Blind grading</Label>
+                <Switch
+                  id="blind-mode"
+                  checked={blind}
+                  onCheckedChange={setBlind}
+                  data-testid="switch-blind"
+                />
+              </div>
+            </div>
+
+            {isLoading ? (
+              <div className="text-center py-12" data-testid="loading-grading">Loading answers...</div>
+            ) : items.length === 0 ? (
+              <Card>
+                <CardContent className="text-center py-12 text-gray-600" data-testid="text-no-answers">
+                  No answers to show
+                </CardContent>
+              </Card>
+            ) : (
+              items.map((item) => (
+                <GradingCard key={item.answerId} item={item} roundId={roundId!} blind={blind} />
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </EventAdminLayout>
+  );
+}
@@ -0,0 +1,540 @@
+import { useParams } from 'wouter';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useEffect, useMemo, useState } from 'react';
+import EventAdminLayout from '@/components/layouts/EventAdminLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ArrowLeft, ShieldAlert, MessageSquareWarning, Pause, Play, Send, Ban, Wifi, WifiOff, Activity } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useWebSocket } from '@/contexts/WebSocketContext';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { Round, ConnectivityEvent } from '@shared/schema';
+
+interface ViolationLog {
+  type: string;
+  timestamp: string;
+}
+
+interface ProctoredAttempt {
+  attemptId: string;
+  userId: string;
+  participantId: string | null;
+  participantStatus: string | null;
+  fullName: string | null;
+  email: string | null;
+  status: string;
+  startedAt: string;
+  submittedAt: string | null;
+  pausedAt: string | null;
+  lastSeenAt: string | null;
+  clockDriftMs: number | null;
+  connected: boolean;
+  violationCount: number;
+  violationLogs: ViolationLog[];
+  remainingMs: number;
+}
+
+interface ProctoringConsole {
+  round: Round;
+  rules: { maxTabSwitchWarnings: number; autoSubmitOnViolation: boolean };
+  attempts: ProctoredAttempt[];
+  serverTime: string;
+}
+
+interface ConnectivityTimeline {
+  attemptId: string;
+  fullName: string | null;
+  status: string;
+  startedAt: string;
+  submittedAt: string | null;
+  lastSeenAt: string | null;
+  clockDriftMs: number | null;
+  lastClientIp: string | null;
+  lastUserAgent: string | null;
+  connected: boolean;
+  gapThresholdSeconds: number;
+  events: ConnectivityEvent[];
+}
+
+interface ProctoringEvent {
+  roundId: string;
+  attemptId: string;
+  userId: string;
+  type: string;
+  detail?: any;
+  timestamp: string;
+}
+
+type ProctorAction = 'warn' | 'pause' | 'resume' | 'force-submit' | 'disqualify';
+
+const ACTIONS: Record<ProctorAction, { title: string; description: string; label: string; confirm: string; destructive?: boolean }> = {
+  warn: {
+    title: 'Warn Participant',
+    description: 'The message pops up on the participant\'s test screen.',
+    label: 'Message',
+    confirm: 'Send Warning',
+  },
+  pause: {
+    title: 'Pause Attempt',
+    description: 'The participant cannot answer and their clock stops until you resume the attempt.',
+    label: 'Reason',
+    confirm: 'Pause',
+  },
+  resume: {
+    title: 'Resume Attempt',
+    description: 'The participant gets the paused time back.',
+    label: 'Reason',
+    confirm: 'Resume',
+  },
+  'force-submit': {
+    title: 'Force Submit',
+    description: 'Grade and close this attempt now with the answers saved so far.',
+    label: 'Reason',
+    confirm: 'Force Submit',
+    destructive: true,
+  },
+  disqualify: {
+    title: 'Disqualify Participant',
+    description: 'Disqualify the participant from the event. An open test is submitted first.',
+    label: 'Reason',
+    confirm: 'Disqualify',
+    destructive: true,
+  },
+};
+
+const EVENT_LABELS: Record<string, string> = {
+  started: 'started the test',
+  submitted: 'submitted the test',
+  auto_submitted: 'was auto-submitted',
+  connected: 'connected',
+  disconnected: 'disconnected',
+  warned: 'was warned',
+  paused: 'was paused',
+  resumed: 'was resumed',
+  force_submitted: 'was force-submitted',
+  disqualified: 'was disqualified',
+};
+
+function describeEvent(event: ProctoringEvent): string {
+  if (event.type === 'violation') {
+    const action = event.detail?.action && event.detail.action !== 'none' ? ` (${event.detail.action.replace(/_/g, ' ')})` : '';
+    const seconds = event.detail?.seconds ? ` for ${event.detail.seconds}s` : '';
+    return `violation: ${String(event.detail?.violationType || 'unknown').replace(/_/g, ' ')}${seconds}${action}`;
+  }
+  const label = EVENT_LABELS[event.type] || event.type;
+  return event.detail?.by ? `${label} by ${event.detail.by}` : label;
+}
+
+function describeConnectivity(event: ConnectivityEvent): string {
+  if (event.type === 'gap') return `No heartbeat for ${event.seconds}s, until ${new Date(event.until!).toLocaleTimeString()}`;
+  if (event.type === 'client_changed') return `Network or browser changed: ${event.ip || 'unknown IP'}`;
+  return `${event.type === 'connected' ? 'Connected' : 'Disconnected'}${event.ip ? ` from ${event.ip}` : ''}`;
+}
+
+function formatRemaining(ms: number) {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  const mins = Math.floor(seconds / 60);
+  return `${mins}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+function formatAgo(timestamp: string | null, now: number) {
+  if (!timestamp) return 'never';
+  const seconds = Math.max(0, Math.floor((now - new Date(timestamp).getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s ago`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  return new Date(timestamp).toLocaleTimeString();
+}
+
+export default function RoundProctoringPage() {
+  const { roundId } = useParams();
+  const { toast } = useToast();
+  const { socket } = useWebSocket();
+  const [liveEvents, setLiveEvents] = useState<ProctoringEvent[]>([]);
+  const [selected, setSelected] = useState<{ attempt: ProctoredAttempt; action: ProctorAction } | null>(null);
+  const [text, setText] = useState('');
+  const [now, setNow] = useState(Date.now());
+  const [timelineAttemptId, setTimelineAttemptId] = useState<string | null>(null);
+
+  const { data, isLoading, dataUpdatedAt } = useQuery<ProctoringConsole>({
+    queryKey: ['/api/rounds', roundId, 'proctoring'],
+    enabled: !!roundId,
+    refetchInterval: 15000,
+  });
+
+  // Clocks tick locally between refetches
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!socket || !roundId) return;
+
+    const handleEvent = (event: ProctoringEvent) => {
+      if (event.roundId !== roundId) return;
+      setLiveEvents(prev => [event, ...prev].slice(0, 200));
+      queryClient.invalidateQueries({ queryKey: ['/api/rounds', roundId, 'proctoring'] });
+    };
+
+    socket.on('proctoringEvent', handleEvent);
+    return () => {
+      socket.off('proctoringEvent', handleEvent);
+    };
+  }, [socket, roundId]);
+
+  const { data: timeline, isLoading: timelineLoading } = useQuery<ConnectivityTimeline>({
+    queryKey: ['/api/rounds', roundId, 'attempts', timelineAttemptId, 'connectivity'],
+    enabled: !!roundId && !!timelineAttemptId,
+  });
+
+  const attempts = data?.attempts || [];
+  const names = useMemo(
+    () => new Map(attempts.map(attempt => [attempt.userId, attempt.fullName || attempt.email || 'Participant'])),
+    [attempts],
+  );
+
+  // What happened before the page was opened comes from the attempts themselves
+  const feed = useMemo(() => {
+    const history: ProctoringEvent[] = attempts.flatMap(attempt => {
+      const base = { roundId: roundId!, attemptId: attempt.attemptId, userId: attempt.userId };
+      return [
+        { ...base, type: 'started', timestamp: attempt.startedAt },
+        ...attempt.violationLogs.map(log => ({ ...base, type: 'violation', detail: { violationType: log.type }, timestamp: log.timestamp })),
+        ...(attempt.submittedAt ? [{ ...base, type: attempt.status, timestamp: attempt.submittedAt }] : []),
+      ];
+    });
+    const oldestLive = liveEvents.length > 0 ? new Date(liveEvents[liveEvents.length - 1].timestamp).getTime() : Infinity;
+    return [...liveEvents, ...history.filter(event => new Date(event.timestamp).getTime() < oldestLive)]
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      .slice(0, 200);
+  }, [attempts, liveEvents, roundId]);
+
+  const active = attempts.filter(attempt => attempt.status === 'in_progress');
+  const maxViolations = (data?.rules.maxTabSwitchWarnings ?? 2) + 1;
+
+  const openAction = (attempt: ProctoredAttempt, action: ProctorAction) => {
+    setSelected({ attempt, action });
+    setText('');
+  };
+
+  const actionMutation = useMutation({
+    mutationFn: async () => {
+      if (!selected) return;
+      const body = selected.action === 'warn' ? { message: text } : { reason: text };
+      return apiRequest('POST', `/api/rounds/${roundId}/attempts/${selected.attempt.attemptId}/${selected.action}`, body);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Done',
+        description: `${ACTIONS[selected!.action].title}: ${selected!.attempt.fullName || 'participant'}`,
+      });
+      setSelected(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/rounds', roundId, 'proctoring'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/rounds', roundId, 'attempts'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Action failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const config = selected ? ACTIONS[selected.action] : null;
+
+  return (
+    <EventAdminLayout>
+      <div className="p-8">
+        <div className="mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => window.history.back()}
+            className="mb-4"
+            data-testid="button-back"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Rounds
+          </Button>
+          <div className="flex items-center gap-3">
+            <ShieldAlert className="h-8 w-8 text-red-600" />
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900" data-testid="heading-proctoring">
+                Live Proctoring{data?.round ? `: ${data.round.name}` : ''}
+              </h1>
+              <p className="text-gray-600 mt-1">
+                {active.length} active · {active.filter(attempt => attempt.pausedAt).length} paused ·{' '}
+                {active.filter(attempt => !attempt.connected).length} offline ·{' '}
+                {attempts.length - active.length} submitted
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12" data-testid="loading-proctoring">Loading console...</div>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-3">
+            <div className="lg:col-span-2">
+              {attempts.length === 0 ? (
+                <Card>
+                  <CardContent className="text-center py-12 text-gray-600" data-testid="text-no-attempts">
+                    No one has started this round yet
+                  </CardContent>
+                </Card>
+              ) : (
+                <div className="grid gap-4 md:grid-cols-2">
+                  {attempts.map(attempt => {
+                    const inProgress = attempt.status === 'in_progress';
+                    const remaining = inProgress && !attempt.pausedAt
+                      ? attempt.remainingMs - (now - dataUpdatedAt)
+                      : attempt.remainingMs;
+                    return (
+                      <Card
+                        key={attempt.attemptId}
+                        className={attempt.violationCount >= maxViolations - 1 && inProgress ? 'border-red-300' : ''}
+                        data-testid={`card-attempt-${attempt.attemptId}`}
+                      >
+                        <CardHeader className="pb-2">
+                          <div className="flex items-start justify-between gap-2">
+                            <div>
+                              <CardTitle className="text-base">{attempt.fullName || 'Unknown'}</CardTitle>
+                              <div className="text-sm text-gray-500">{attempt.email}</div>
+                            </div>
+                            {inProgress ? (
+                              attempt.connected ? (
+                                <Wifi className="h-4 w-4 text-green-600" aria-label="Online" />
+                              ) : (
+                                <WifiOff className="h-4 w-4 text-red-600" aria-label="Offline" />
+                              )
+                            ) : null}
+                          </div>
+                        </CardHeader>
+                        <CardContent className="space-y-3">
+                          <div className="flex flex-wrap gap-2">
+                            {attempt.participantStatus === 'disqualified' && <Badge variant="destructive">Disqualified</Badge>}
+                            {inProgress && attempt.pausedAt && <Badge className="bg-yellow-100 text-yellow-800">Paused</Badge>}
+                            {inProgress && !attempt.pausedAt && <Badge className="bg-blue-100 text-blue-800">In progress</Badge>}
+                            {attempt.status === 'completed' && <Badge className="bg-green-100 text-green-800">Submitted</Badge>}
+                            {attempt.status === 'auto_submitted' && <Badge className="bg-orange-100 text-orange-800">Auto-submitted</Badge>}
+                          </div>
+                          <div className="grid grid-cols-3 gap-2 text-sm">
+                            <div>
+                              <div className="text-gray-500">Violations</div>
+                              <div
+                                className={`font-semibold ${attempt.violationCount > 0 ? 'text-red-600' : ''}`}
+                                data-testid={`text-violations-${attempt.attemptId}`}
+                              >
+                                {attempt.violationCount}/{maxViolations}
+                              </div>
+                            </div>
+                            <div>
+                              <div className="text-gray-500">Time left</div>
+                              <div className="font-semibold" data-testid={`text-remaining-${attempt.attemptId}`}>
+                                {inProgress ? formatRemaining(remaining) : '-'}
+                              </div>
+                            </div>
+                            <div>
+                              <div className="text-gray-500">Last seen</div>
+                              <div className="font-semibold">{attempt.connected && inProgress ? 'now' : formatAgo(attempt.lastSeenAt, now)}</div>
+                            </div>
+                          </div>
+                          <div className="flex flex-wrap gap-2">
+                            {inProgress && (
+                              <>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => openAction(attempt, 'warn')}
+                                  data-testid={`button-warn-${attempt.attemptId}`}
+                                >
+                                  <MessageSquareWarning className="mr-1 h-4 w-4" />
+                                  Warn
+                                </Button>
+                                {attempt.pausedAt ? (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => openAction(attempt, 'resume')}
+                                    data-testid={`button-resume-${attempt.attemptId}`}
+                                  >
+                                    <Play className="mr-1 h-4 w-4" />
+                                    Resume
+                                  </Button>
+                                ) : (
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() => openAction(attempt, 'pause')}
+                                    data-testid={`button-pause-${attempt.attemptId}`}
+                                  >
+                                    <Pause className="mr-1 h-4 w-4" />
+                                    Pause
+                                  </Button>
+                                )}
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => openAction(attempt, 'force-submit')}
+                                  data-testid={`button-force-submit-${attempt.attemptId}`}
+                                >
+                                  <Send className="mr-1 h-4 w-4" />
+                                  Submit
+                                </Button>
+                              </>
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setTimelineAttemptId(attempt.attemptId)}
+                              data-testid={`button-timeline-${attempt.attemptId}`}
+                            >
+                              <Activity className="mr-1 h-4 w-4" />
+                              Timeline
+                            </Button>
+                            {attempt.participantStatus !== 'disqualified' && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="text-red-600 hover:text-red-700"
+                                onClick={() => openAction(attempt, 'disqualify')}
+                                data-testid={`button-disqualify-${attempt.attemptId}`}
+                              >
+                                <Ban className="mr-1 h-4 w-4" />
+                                Disqualify
+                              </Button>
+                            )}
+                          </div>
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+
+            <Card className="h-fit">
+              <CardHeader>
+                <CardTitle>Live Feed</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {feed.length === 0 ? (
+                  <div className="text-sm text-gray-600" data-testid="text-empty-feed">Nothing has happened yet</div>
+                ) : (
+                  <div className="space-y-2 max-h-[70vh] overflow-y-auto" data-testid="list-proctoring-feed">
+                    {feed.map((event, index) => (
+                      <div
+                        key={`${event.attemptId}-${event.type}-${event.timestamp}-${index}`}
+                        className={`text-sm border-l-2 pl-3 ${event.type === 'violation' ? 'border-red-400' : 'border-gray-200'}`}
+                      >
+                        <div className="text-gray-500 text-xs">{new Date(event.timestamp).toLocaleTimeString()}</div>
+                        <div>
+                          <span className="font-medium">{names.get(event.userId) || 'Participant'}</span> {describeEvent(event)}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        <Dialog open={!!timelineAttemptId} onOpenChange={(open) => !open && setTimelineAttemptId(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Connectivity Timeline{timeline?.fullName ? `: ${timeline.fullName}` : ''}</DialogTitle>
+              <DialogDescription>
+                Heartbeats missing for more than {timeline?.gapThresholdSeconds ?? '...'} seconds are logged as a connection_lost violation.
+              </DialogDescription>
+            </DialogHeader>
+            {timelineLoading || !timeline ? (
+              <div className="text-center py-6" data-testid="loading-timeline">Loading timeline...</div>
+            ) : (
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <div><span className="text-gray-500">Status:</span> {timeline.connected ? 'Online' : 'Offline'}</div>
+                  <div><span className="text-gray-500">Last seen:</span> {formatAgo(timeline.lastSeenAt, now)}</div>
+                  <div>
+                    <span className="text-gray-500">Clock drift:</span>{' '}
+                    {timeline.clockDriftMs === null ? '-' : `${(timeline.clockDriftMs / 1000).toFixed(1)}s`}
+                  </div>
+                  <div><span className="text-gray-500">IP:</span> {timeline.lastClientIp || '-'}</div>
+                  <div className="col-span-2 truncate" title={timeline.lastUserAgent || ''}>
+                    <span className="text-gray-500">Browser:</span> {timeline.lastUserAgent || '-'}
+                  </div>
+                </div>
+                <div className="space-y-2 max-h-[50vh] overflow-y-auto" data-testid="list-connectivity">
+                  <div className="text-sm border-l-2 border-blue-300 pl-3">
+                    <div className="text-gray-500 text-xs">{new Date(timeline.startedAt).toLocaleTimeString()}</div>
+                    <div>Started the test</div>
+                  </div>
+                  {timeline.events.map((event, index) => (
+                    <div
+                      key={`${event.type}-${event.at}-${index}`}
+                      className={`text-sm border-l-2 pl-3 ${event.type === 'gap' ? 'border-red-400' : 'border-gray-200'}`}
+                    >
+                      <div className="text-gray-500 text-xs">{new Date(event.at).toLocaleTimeString()} · {event.transport || 'heartbeat'}</div>
+                      <div>{describeConnectivity(event)}</div>
+                    </div>
+                  ))}
+                  {timeline.submittedAt && (
+                    <div className="text-sm border-l-2 border-green-300 pl-3">
+                      <div className="text-gray-500 text-xs">{new Date(timeline.submittedAt).toLocaleTimeString()}</div>
+                      <div>Submitted</div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{config?.title}</DialogTitle>
+              <DialogDescription>
+                {selected?.attempt.fullName ? `${selected.attempt.fullName}: ` : ''}{config?.description}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="proctor-text">{config?.label}</Label>
+              <Textarea
+                id="proctor-text"
+                placeholder={selected?.action === 'warn' ? 'e.g. Keep your eyes on your own screen.' : 'Recorded in the audit log.'}
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                data-testid="input-proctor-text"
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setSelected(null)} data-testid="button-cancel-proctor-action">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => actionMutation.mutate()}
+                disabled={actionMutation.isPending || !text.trim()}
+                variant={config?.destructive ? 'destructive' : 'default'}
+                data-testid="button-confirm-proctor-action"
+              >
+                {actionMutation.isPending ? 'Saving...' : config?.confirm}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </EventAdminLayout>
+  );
+}
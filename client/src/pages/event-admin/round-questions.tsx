@@ -1,27 +1,124 @@
 import { useParams, useLocation } from 'wouter';
 import { useQuery, useMutation } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
 import EventAdminLayout from '@/components/layouts/EventAdminLayout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, Plus, Edit, FileQuestion, Trash2 } from 'lucide-react';
-import type { Question } from '@shared/schema';
+import { useWebSocket } from '@/contexts/WebSocketContext';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { ArrowLeft, Plus, Edit, FileQuestion, Trash2, RefreshCw } from 'lucide-react';
+import type { Question, Round, RoundRules } from '@shared/schema';
+
+// What the server reports over the socket while a re-grade runs in the background
+interface RegradeProgress {
+  roundId: string;
+  done: number;
+  total: number;
+  summary?: { attemptsRegraded: number; attemptsChanged: number; emailsSent: number };
+  error?: string;
+}
 
 export default function RoundQuestionsPage() {
   const { roundId } = useParams();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const [regradeDialogOpen, setRegradeDialogOpen] = useState(false);
+  const [regradeReason, setRegradeReason] = useState('');
+  const [resendEmails, setResendEmails] = useState(false);
+  const [regradeProgress, setRegradeProgress] = useState<{ done: number; total: number } | null>(null);
+  const { socket } = useWebSocket();
 
   const { data: questions, isLoading } = useQuery<Question[]>({
     queryKey: ['/api/rounds', roundId, 'questions'],
     enabled: !!roundId,
   });
 
+  const { data: rules } = useQuery<RoundRules>({
+    queryKey: ['/api/rounds', roundId, 'rules'],
+    enabled: !!roundId,
+  });
+
+  const { data: round } = useQuery<Round>({
+    queryKey: ['/api/rounds', roundId],
+    enabled: !!roundId,
+  });
+  const sections = round?.sections || [];
+  // Questions without a known section are served in the first one
+  const sectionName = (question: Question) =>
+    (sections.find((section) => section.id === question.sectionId) || sections[0])?.name;
+
+  const poolSize = rules?.questionPoolSize && questions && rules.questionPoolSize < questions.length
+    ? rules.questionPoolSize
+    : null;
+
+  const regradeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/rounds/${roundId}/regrade`, {
+        reason: regradeReason,
+        resendEmails,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setRegradeProgress({ done: 0, total: 0 });
+      setRegradeDialogOpen(false);
+      setRegradeReason('');
+      setResendEmails(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Re-grade failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (!socket || !roundId) return;
+
+    const handleProgress = (progress: RegradeProgress) => {
+      if (progress.roundId !== roundId) return;
+      if (progress.error) {
+        setRegradeProgress(null);
+        toast({ title: 'Re-grade failed', description: progress.error, variant: 'destructive' });
+      } else if (progress.summary) {
+        const summary = progress.summary;
+        setRegradeProgress(null);
+        toast({
+          title: 'Round re-graded',
+          description: `${summary.attemptsRegraded} attempts re-graded, ${summary.attemptsChanged} changed${summary.emailsSent > 0 ? `, ${summary.emailsSent} result emails re-sent` : ''}`,
+        });
+        queryClient.invalidateQueries({ queryKey: ['/api/rounds', roundId, 'leaderboard'] });
+      } else {
+        setRegradeProgress({ done: progress.done, total: progress.total });
+      }
+    };
+
+    socket.on('regradeProgress', handleProgress);
+    return () => {
+      socket.off('regradeProgress', handleProgress);
+    };
+  }, [socket, roundId, toast]);
+
   const getQuestionTypeBadge = (type: string) => {
     const colors: Record<string, string> = {
       mcq: 'bg-blue-100 text-blue-800',
+      multiple_select: 'bg-indigo-100 text-indigo-800',
       true_false: 'bg-green-100 text-green-800',
       short_answer: 'bg-yellow-100 text-yellow-800',
       coding: 'bg-purple-100 text-purple-800',
@@ -63,6 +160,17 @@ export default function RoundQuestionsPage() {
               <p className="text-gray-600 mt-1">Manage questions for this round</p>
             </div>
             <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setRegradeDialogOpen(true)}
+                disabled={!questions || questions.length === 0 || !!regradeProgress}
+                data-testid="button-regrade-round"
+              >
+                <RefreshCw className={`mr-2 h-4 w-4${regradeProgress ? ' animate-spin' : ''}`} />
+                {regradeProgress
+                  ? `Re-grading${regradeProgress.total > 0 ? ` ${regradeProgress.done}/${regradeProgress.total}` : '...'}`
+                  : 'Re-grade Round'}
+              </Button>
               <Button
                 variant="outline"
                 onClick={() => setLocation(`/event-admin/rounds/${roundId}/questions/bulk-upload`)}
@@ -85,6 +193,17 @@ export default function RoundQuestionsPage() {
         <Card>
           <CardHeader>
             <CardTitle>Round Questions</CardTitle>
+            {poolSize && (
+              <p className="text-sm text-gray-600" data-testid="text-pool-summary">
+                Question pool: each participant gets a random {poolSize} of {questions!.length} questions
+                {rules?.poolStratifyBy && rules.poolStratifyBy !== 'none' ? `, stratified by ${rules.poolStratifyBy}` : ''}
+              </p>
+            )}
+            {sections.length > 0 && (
+              <p className="text-sm text-gray-600" data-testid="text-sections-summary">
+                Sections: {sections.map((section) => `${section.name} (${section.durationMinutes} min, ${questions?.filter((q) => sectionName(q) === section.name).length || 0} questions)`).join(' → ')}
+              </p>
+            )}
           </CardHeader>
           <CardContent>
             {!questions || questions.length === 0 ? (
@@ -112,6 +231,8 @@ export default function RoundQuestionsPage() {
                     <TableHead>Q#</TableHead>
                     <TableHead>Type</TableHead>
                     <TableHead>Question</TableHead>
+                    {sections.length > 0 && <TableHead>Section</TableHead>}
+                    <TableHead>Tag / Difficulty</TableHead>
                     <TableHead>Points</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
@@ -126,6 +247,16 @@ export default function RoundQuestionsPage() {
                       <TableCell className="max-w-md truncate">
                         {question.questionText}
                       </TableCell>
+                      {sections.length > 0 && (
+                        <TableCell data-testid={`text-section-${question.id}`}>{sectionName(question)}</TableCell>
+                      )}
+                      <TableCell>
+                        <div className="flex gap-1">
+                          {question.tag && <Badge variant="outline">{question.tag}</Badge>}
+                          {question.difficulty && <Badge variant="secondary">{question.difficulty}</Badge>}
+                          {!question.tag && !question.difficulty && <span className="text-sm text-gray-400">-</span>}
+                        </div>
+                      </TableCell>
                       <TableCell>{question.points}</TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
@@ -147,6 +278,51 @@ export default function RoundQuestionsPage() {
             )}
           </CardContent>
         </Card>
+
+        <Dialog open={regradeDialogOpen} onOpenChange={setRegradeDialogOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Re-grade Round</DialogTitle>
+              <DialogDescription>
+                Recompute every submitted attempt against the current answer key. Manually graded answers keep their points.
+                It runs in the background; score and rank changes are recorded in the audit log when it finishes.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="regrade-reason">Reason</Label>
+                <Textarea
+                  id="regrade-reason"
+                  placeholder="e.g., Corrected the answer key for question 4"
+                  value={regradeReason}
+                  onChange={(e) => setRegradeReason(e.target.value)}
+                  data-testid="input-regrade-reason"
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="regrade-resend-emails"
+                  checked={resendEmails}
+                  onCheckedChange={(checked) => setResendEmails(checked === true)}
+                  data-testid="checkbox-resend-emails"
+                />
+                <Label htmlFor="regrade-resend-emails">Re-send result emails to participants whose score changed</Label>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setRegradeDialogOpen(false)} data-testid="button-cancel-regrade">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => regradeMutation.mutate()}
+                disabled={regradeMutation.isPending}
+                data-testid="button-confirm-regrade"
+              >
+                {regradeMutation.isPending ? 'Starting...' : 'Re-grade'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </div>
     </EventAdminLayout>
   );
@@ -1,5 +1,6 @@
 import { useParams, useLocation } from 'wouter';
 import { useQuery, useMutation } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -10,23 +11,38 @@ import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, For
 import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { ArrowLeft, Shield, AlertTriangle } from 'lucide-react';
-import type { RoundRules, Round } from '@shared/schema';
+import ProctoringRulesEditor, {
+  EffectiveRulesCard,
+  overridesFromRules,
+  type ProctoringOverrides,
+  type ResolvedProctoringRules,
+} from '@/components/ProctoringRulesEditor';
+import RulesChangeHistory from '@/components/RulesChangeHistory';
+import type { RoundRules, Round, ProctoringProfile, AuditLog } from '@shared/schema';
 
 const rulesFormSchema = z.object({
-  noRefresh: z.boolean(),
-  noTabSwitch: z.boolean(),
-  forceFullscreen: z.boolean(),
-  disableShortcuts: z.boolean(),
-  autoSubmitOnViolation: z.boolean(),
-  maxTabSwitchWarnings: z.number().min(0).max(10),
   additionalRules: z.string().optional(),
+  negativeMarking: z.boolean(),
+  negativeMarks: z.number().int().min(0).max(100),
+  multiSelectScoring: z.enum(['all_or_nothing', 'proportional']),
+  shuffleQuestions: z.boolean(),
+  shuffleOptions: z.boolean(),
+  questionPoolSize: z.number().int().min(1).nullable(),
+  poolStratifyBy: z.enum(['none', 'tag', 'difficulty']),
 });
 
 type RulesFormData = z.infer<typeof rulesFormSchema>;
 
+type EffectiveRoundRules = ResolvedProctoringRules & {
+  inherited: ResolvedProctoringRules;
+  roundProfile: ProctoringProfile | null;
+  eventProfile: ProctoringProfile | null;
+};
+
 export default function RoundRulesPage() {
   const { roundId } = useParams();
   const [, setLocation] = useLocation();
@@ -42,31 +58,52 @@ export default function RoundRulesPage() {
     enabled: !!roundId,
   });
 
+  const { data: profiles = [] } = useQuery<ProctoringProfile[]>({
+    queryKey: ['/api/proctoring-profiles'],
+  });
+
+  const { data: effective } = useQuery<EffectiveRoundRules>({
+    queryKey: ['/api/rounds', roundId, 'effective-rules'],
+    enabled: !!roundId,
+  });
+
+  const { data: history = [] } = useQuery<AuditLog[]>({
+    queryKey: ['/api/rounds', roundId, 'rules', 'history'],
+    enabled: !!roundId,
+  });
+
+  const [proctoring, setProctoring] = useState<ProctoringOverrides>(overridesFromRules(undefined));
+  useEffect(() => {
+    if (rules) setProctoring(overridesFromRules(rules));
+  }, [rules]);
+
   const form = useForm<RulesFormData>({
     resolver: zodResolver(rulesFormSchema),
     defaultValues: {
-      noRefresh: true,
-      noTabSwitch: true,
-      forceFullscreen: true,
-      disableShortcuts: true,
-      autoSubmitOnViolation: true,
-      maxTabSwitchWarnings: 2,
       additionalRules: '',
+      negativeMarking: false,
+      negativeMarks: 1,
+      multiSelectScoring: 'all_or_nothing',
+      shuffleQuestions: false,
+      shuffleOptions: false,
+      questionPoolSize: null,
+      poolStratifyBy: 'none',
     },
     values: rules ? {
-      noRefresh: rules.noRefresh,
-      noTabSwitch: rules.noTabSwitch,
-      forceFullscreen: rules.forceFullscreen,
-      disableShortcuts: rules.disableShortcuts,
-      autoSubmitOnViolation: rules.autoSubmitOnViolation,
-      maxTabSwitchWarnings: rules.maxTabSwitchWarnings,
       additionalRules: rules.additionalRules || '',
+      negativeMarking: rules.negativeMarking,
+      negativeMarks: rules.negativeMarks,
+      multiSelectScoring: rules.multiSelectScoring as 'all_or_nothing' | 'proportional',
+      shuffleQuestions: rules.shuffleQuestions,
+      shuffleOptions: rules.shuffleOptions,
+      questionPoolSize: rules.questionPoolSize,
+      poolStratifyBy: rules.poolStratifyBy as 'none' | 'tag' | 'difficulty',
     } : undefined,
   });
 
   const updateRulesMutation = useMutation({
     mutationFn: async (data: RulesFormData) => {
-      return apiRequest('PATCH', `/api/rounds/${roundId}/rules`, data);
+      return apiRequest('PATCH', `/api/rounds/${roundId}/rules`, { ...data, ...proctoring });
     },
     onSuccess: () => {
       toast({
@@ -74,6 +111,7 @@ export default function RoundRulesPage() {
         description: 'Round proctoring rules have been updated successfully',
       });
       queryClient.invalidateQueries({ queryKey: ['/api/rounds', roundId, 'rules'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/rounds', roundId, 'effective-rules'] });
     },
     onError: (error: any) => {
       toast({
@@ -120,8 +158,8 @@ export default function RoundRulesPage() {
           </div>
         </div>
 
-        <div className="max-w-3xl">
-          <Card className="mb-6 border-yellow-200 bg-yellow-50">
+        <div className="max-w-3xl space-y-6">
+          <Card className="border-yellow-200 bg-yellow-50">
             <CardContent className="pt-6">
               <div className="flex gap-3">
                 <AlertTriangle className="h-5 w-5 text-yellow-600 flex-shrink-0 mt-0.5" />
@@ -129,7 +167,8 @@ export default function RoundRulesPage() {
                   <p className="text-sm font-medium text-yellow-900">Important Notice</p>
                   <p className="text-sm text-yellow-800 mt-1">
                     These rules enforce test integrity by controlling participant behavior during this round.
-                    Changes will apply to all future test attempts for this round.
+                    Changes will apply to all future test attempts for this round. Settings left on
+                    "Inherit" follow the event's rules.
                   </p>
                 </div>
               </div>
@@ -146,148 +185,11 @@ export default function RoundRulesPage() {
             <CardContent>
               <Form {...form}>
                 <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-                  <FormField
-                    control={form.control}
-                    name="forceFullscreen"
-                    render={({ field }) => (
-                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                        <div className="space-y-0.5">
-                          <FormLabel className="text-base" data-testid="label-fullscreen">
-                            Force Fullscreen Mode
-                          </FormLabel>
-                          <FormDescription>
-                            Require participants to stay in fullscreen during the test
-                          </FormDescription>
-                        </div>
-                        <FormControl>
-                          <Switch
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                            data-testid="switch-fullscreen"
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="noTabSwitch"
-                    render={({ field }) => (
-                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                        <div className="space-y-0.5">
-                          <FormLabel className="text-base" data-testid="label-tab-switch">
-                            Disable Tab Switching
-                          </FormLabel>
-                          <FormDescription>
-                            Detect and log when participants switch browser tabs
-                          </FormDescription>
-                        </div>
-                        <FormControl>
-                          <Switch
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                            data-testid="switch-tab-switch"
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="noRefresh"
-                    render={({ field }) => (
-                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                        <div className="space-y-0.5">
-                          <FormLabel className="text-base" data-testid="label-no-refresh">
-                            Block Page Refresh
-                          </FormLabel>
-                          <FormDescription>
-                            Prevent participants from refreshing the test page
-                          </FormDescription>
-                        </div>
-                        <FormControl>
-                          <Switch
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                            data-testid="switch-no-refresh"
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="disableShortcuts"
-                    render={({ field }) => (
-                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                        <div className="space-y-0.5">
-                          <FormLabel className="text-base" data-testid="label-shortcuts">
-                            Disable Keyboard Shortcuts
-                          </FormLabel>
-                          <FormDescription>
-                            Block common keyboard shortcuts like copy, paste, print
-                          </FormDescription>
-                        </div>
-                        <FormControl>
-                          <Switch
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                            data-testid="switch-shortcuts"
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="autoSubmitOnViolation"
-                    render={({ field }) => (
-                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4 border-red-200 bg-red-50">
-                        <div className="space-y-0.5">
-                          <FormLabel className="text-base text-red-900" data-testid="label-auto-submit">
-                            Auto-Submit on Violation
-                          </FormLabel>
-                          <FormDescription className="text-red-700">
-                            Automatically submit test when violation limit is exceeded
-                          </FormDescription>
-                        </div>
-                        <FormControl>
-                          <Switch
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
-                            data-testid="switch-auto-submit"
-                          />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="maxTabSwitchWarnings"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel data-testid="label-max-warnings">Maximum Tab Switch Warnings</FormLabel>
-                        <FormDescription>
-                          Number of tab switch warnings before action is taken (if auto-submit is enabled)
-                        </FormDescription>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            min="0"
-                            max="10"
-                            {...field}
-                            onChange={(e) => field.onChange(parseInt(e.target.value))}
-                            data-testid="input-max-warnings"
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
+                  <ProctoringRulesEditor
+                    value={proctoring}
+                    onChange={setProctoring}
+                    profiles={profiles}
+                    inherited={effective?.inherited}
                   />
 
                   <FormField
@@ -297,7 +199,7 @@ export default function RoundRulesPage() {
                       <FormItem>
                         <FormLabel data-testid="label-additional-rules">Additional Rules</FormLabel>
                         <FormDescription>
-                          Optional: Add any additional instructions or rules for participants
+                          Optional: Add any additional instructions or rules for participants. Leave empty to use the event's.
                         </FormDescription>
                         <FormControl>
                           <Textarea
@@ -312,6 +214,189 @@ export default function RoundRulesPage() {
                     )}
                   />
 
+                  <div className="space-y-4 rounded-lg border p-4">
+                    <div>
+                      <p className="text-base font-medium">Scoring</p>
+                      <p className="text-sm text-muted-foreground">
+                        Skipped questions always score zero. Individual questions can override these settings.
+                      </p>
+                    </div>
+
+                    <FormField
+                      control={form.control}
+                      name="negativeMarking"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between">
+                          <div className="space-y-0.5">
+                            <FormLabel data-testid="label-negative-marking">Negative Marking</FormLabel>
+                            <FormDescription>
+                              Deduct marks for wrong multiple choice, true/false and multi-select answers
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              data-testid="switch-negative-marking"
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    {form.watch('negativeMarking') && (
+                      <FormField
+                        control={form.control}
+                        name="negativeMarks"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel data-testid="label-negative-marks">Marks Deducted per Wrong Answer</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min="0"
+                                {...field}
+                                onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                                data-testid="input-negative-marks"
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    <FormField
+                      control={form.control}
+                      name="multiSelectScoring"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel data-testid="label-multi-select-scoring">Multi-select Scoring</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-multi-select-scoring">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="all_or_nothing">All or nothing</SelectItem>
+                              <SelectItem value="proportional">Partial credit (proportional)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormDescription>
+                            Partial credit awards a share of the points per correct option, minus one share per wrong option
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <div className="space-y-4 rounded-lg border p-4">
+                    <div>
+                      <p className="text-base font-medium">Randomization</p>
+                      <p className="text-sm text-muted-foreground">
+                        Each participant gets their own order, which stays the same if they reload the test.
+                      </p>
+                    </div>
+
+                    <FormField
+                      control={form.control}
+                      name="shuffleQuestions"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between">
+                          <div className="space-y-0.5">
+                            <FormLabel data-testid="label-shuffle-questions">Shuffle Questions</FormLabel>
+                            <FormDescription>
+                              Present questions in a different order to each participant
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              data-testid="switch-shuffle-questions"
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="shuffleOptions"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between">
+                          <div className="space-y-0.5">
+                            <FormLabel data-testid="label-shuffle-options">Shuffle Options</FormLabel>
+                            <FormDescription>
+                              Shuffle multiple choice and multi-select options (true/false is left as is)
+                            </FormDescription>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                              data-testid="switch-shuffle-options"
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="questionPoolSize"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel data-testid="label-question-pool-size">Questions per Participant</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min="1"
+                              placeholder="All questions"
+                              value={field.value ?? ''}
+                              onChange={(e) => field.onChange(e.target.value === '' ? null : parseInt(e.target.value) || null)}
+                              data-testid="input-question-pool-size"
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Treat the round's questions as a pool and draw this many for each participant when they start. Leave empty to give everyone every question.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    {form.watch('questionPoolSize') && (
+                      <FormField
+                        control={form.control}
+                        name="poolStratifyBy"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel data-testid="label-pool-stratify-by">Stratify Draw By</FormLabel>
+                            <Select value={field.value} onValueChange={field.onChange}>
+                              <FormControl>
+                                <SelectTrigger data-testid="select-pool-stratify-by">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="none">No stratification</SelectItem>
+                                <SelectItem value="tag">Tag</SelectItem>
+                                <SelectItem value="difficulty">Difficulty</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>
+                              Each tag or difficulty keeps its share of the pool in every draw
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                  </div>
+
                   <div className="flex gap-3">
                     <Button
                       type="submit"
@@ -333,6 +418,18 @@ export default function RoundRulesPage() {
               </Form>
             </CardContent>
           </Card>
+
+          {effective && (
+            <EffectiveRulesCard
+              effective={effective}
+              profileNames={{ roundProfile: effective.roundProfile?.name, eventProfile: effective.eventProfile?.name }}
+            />
+          )}
+
+          <RulesChangeHistory
+            logs={history}
+            profileNames={Object.fromEntries(profiles.map(p => [p.id, p.name]))}
+          />
         </div>
       </div>
     </EventAdminLayout>
@@ -0,0 +1,354 @@
+import { useParams } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { useState } from 'react';
+import EventAdminLayout from '@/components/layouts/EventAdminLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ArrowLeft, Copy, Download } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+
+interface ClusterMember {
+  answerId: string;
+  attemptId: string;
+  userId: string;
+  fullName: string;
+  answer: string;
+  answeredAt: string;
+  submittedAt: string | null;
+  violationCount: number;
+}
+
+interface SimilarPair {
+  answerIds: [string, string];
+  userIds: [string, string];
+  similarity: number;
+  answeredApartSeconds: number;
+}
+
+interface SimilarityCluster {
+  id: string;
+  questionId: string;
+  questionNumber: number;
+  questionText: string;
+  questionType: string;
+  method: 'code_tokens' | 'text_ngrams';
+  members: ClusterMember[];
+  pairs: SimilarPair[];
+  maxSimilarity: number;
+  averageSimilarity: number;
+  answeredSpreadSeconds: number;
+  submittedSpreadSeconds: number | null;
+  closeTiming: boolean;
+  totalViolations: number;
+  risk: 'high' | 'medium' | 'low';
+}
+
+interface SimilarityReport {
+  round: { id: string; name: string; eventId: string };
+  generatedAt: string;
+  options: { codeThreshold: number; textThreshold: number; timingWindowSeconds: number };
+  answersCompared: number;
+  answersSkipped: number;
+  pairsCompared: number;
+  clusters: SimilarityCluster[];
+  participants: Array<{ userId: string; fullName: string; clusterCount: number; partnerNames: string[]; violationCount: number }>;
+}
+
+const RISK_STYLES: Record<SimilarityCluster['risk'], string> = {
+  high: 'bg-red-100 text-red-800',
+  medium: 'bg-orange-100 text-orange-800',
+  low: 'bg-gray-100 text-gray-800',
+};
+
+function percent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
+function formatSeconds(seconds: number) {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)} min`;
+  return `${(seconds / 3600).toFixed(1)} h`;
+}
+
+export default function RoundSimilarityPage() {
+  const { roundId } = useParams();
+  const { toast } = useToast();
+  const [codeThreshold, setCodeThreshold] = useState('80');
+  const [textThreshold, setTextThreshold] = useState('60');
+  const [applied, setApplied] = useState({ code: '80', text: '60' });
+  const [comparing, setComparing] = useState<{ cluster: SimilarityCluster; pair: SimilarPair } | null>(null);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const query = `codeThreshold=${Number(applied.code) / 100}&textThreshold=${Number(applied.text) / 100}`;
+  const { data: report, isLoading } = useQuery<SimilarityReport>({
+    queryKey: [`/api/rounds/${roundId}/similarity?${query}`],
+    enabled: !!roundId,
+  });
+
+  const handleDownload = async () => {
+    try {
+      setIsDownloading(true);
+      const response = await fetch(`/api/rounds/${roundId}/similarity/excel?${query}`, {
+        headers: {
+          'Authorization': `Bearer ${localStorage.getItem('token')}`,
+        },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Failed to generate report');
+      }
+
+      const contentDisposition = response.headers.get('Content-Disposition');
+      const filenameMatch = contentDisposition?.match(/filename="(.+)"/);
+      const filename = filenameMatch ? filenameMatch[1] : `similarity_${Date.now()}.xlsx`;
+
+      const blob = await response.blob();
+      const downloadUrl = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = downloadUrl;
+      a.download = filename;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(downloadUrl);
+      document.body.removeChild(a);
+    } catch (error) {
+      toast({
+        title: 'Download Failed',
+        description: error instanceof Error ? error.message : 'Failed to download report',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const memberOf = (cluster: SimilarityCluster, answerId: string) => cluster.members.find(m => m.answerId === answerId);
+  const left = comparing ? memberOf(comparing.cluster, comparing.pair.answerIds[0]) : undefined;
+  const right = comparing ? memberOf(comparing.cluster, comparing.pair.answerIds[1]) : undefined;
+
+  return (
+    <EventAdminLayout>
+      <div className="p-8">
+        <div className="mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => window.history.back()}
+            className="mb-4"
+            data-testid="button-back"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Rounds
+          </Button>
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <Copy className="h-8 w-8 text-purple-600" />
+              <div>
+                <h1 className="text-3xl font-bold text-gray-900" data-testid="heading-similarity">
+                  Similarity Report{report?.round ? `: ${report.round.name}` : ''}
+                </h1>
+                <p className="text-gray-600 mt-1">
+                  Submitted short answer and coding answers compared question by question
+                </p>
+              </div>
+            </div>
+            <Button onClick={handleDownload} disabled={isDownloading || !report} data-testid="button-download-similarity">
+              <Download className="mr-2 h-4 w-4" />
+              {isDownloading ? 'Generating...' : 'Download Excel'}
+            </Button>
+          </div>
+        </div>
+
+        <Card className="mb-6">
+          <CardContent className="pt-6">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="code-threshold">Code threshold (%)</Label>
+                <Input
+                  id="code-threshold"
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={codeThreshold}
+                  onChange={(e) => setCodeThreshold(e.target.value)}
+                  className="w-32"
+                  data-testid="input-code-threshold"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="text-threshold">Text threshold (%)</Label>
+                <Input
+                  id="text-threshold"
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={textThreshold}
+                  onChange={(e) => setTextThreshold(e.target.value)}
+                  className="w-32"
+                  data-testid="input-text-threshold"
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setApplied({ code: codeThreshold, text: textThreshold })}
+                data-testid="button-apply-thresholds"
+              >
+                Re-run Analysis
+              </Button>
+              {report && (
+                <div className="text-sm text-gray-600 ml-auto" data-testid="text-similarity-summary">
+                  {report.answersCompared} answers compared · {report.answersSkipped} too short to compare ·{' '}
+                  {report.clusters.length} clusters
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {isLoading || !report ? (
+          <div className="text-center py-12" data-testid="loading-similarity">Analysing answers...</div>
+        ) : report.clusters.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12 text-gray-600" data-testid="text-no-clusters">
+              No suspiciously similar answers at these thresholds
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-3">
+            <div className="lg:col-span-2 space-y-4">
+              {report.clusters.map((cluster, index) => (
+                <Card key={cluster.id} data-testid={`card-cluster-${index + 1}`}>
+                  <CardHeader className="pb-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <CardTitle className="text-base">
+                          Cluster {index + 1} · Q{cluster.questionNumber} ({cluster.questionType.replace('_', ' ')})
+                        </CardTitle>
+                        <p className="text-sm text-gray-500 line-clamp-2">{cluster.questionText}</p>
+                      </div>
+                      <Badge className={RISK_STYLES[cluster.risk]}>{cluster.risk} risk</Badge>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+                      <span>Up to {percent(cluster.maxSimilarity)} similar (avg {percent(cluster.averageSimilarity)})</span>
+                      <span className={cluster.closeTiming ? 'text-red-700' : ''}>
+                        Written within {formatSeconds(cluster.answeredSpreadSeconds)}
+                      </span>
+                      {cluster.submittedSpreadSeconds !== null && (
+                        <span>Submitted within {formatSeconds(cluster.submittedSpreadSeconds)}</span>
+                      )}
+                      <span className={cluster.totalViolations > 0 ? 'text-red-700' : ''}>
+                        {cluster.totalViolations} violations
+                      </span>
+                    </div>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Participant</TableHead>
+                          <TableHead>Last Changed</TableHead>
+                          <TableHead>Submitted</TableHead>
+                          <TableHead>Violations</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {cluster.members.map(member => (
+                          <TableRow key={member.answerId}>
+                            <TableCell className="font-medium">{member.fullName}</TableCell>
+                            <TableCell className="text-sm">{new Date(member.answeredAt).toLocaleTimeString()}</TableCell>
+                            <TableCell className="text-sm">
+                              {member.submittedAt ? new Date(member.submittedAt).toLocaleTimeString() : '-'}
+                            </TableCell>
+                            <TableCell>{member.violationCount}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                    <div className="flex flex-wrap gap-2">
+                      {cluster.pairs.map(pair => (
+                        <Button
+                          key={pair.answerIds.join('-')}
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setComparing({ cluster, pair })}
+                          data-testid={`button-compare-${pair.answerIds.join('-')}`}
+                        >
+                          {memberOf(cluster, pair.answerIds[0])?.fullName} vs {memberOf(cluster, pair.answerIds[1])?.fullName} ·{' '}
+                          {percent(pair.similarity)}
+                        </Button>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <Card className="h-fit">
+              <CardHeader>
+                <CardTitle className="text-base">Participants in Clusters</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3" data-testid="list-similarity-participants">
+                {report.participants.map(participant => (
+                  <div key={participant.userId} className="text-sm border-b pb-2 last:border-0">
+                    <div className="flex justify-between">
+                      <span className="font-medium">{participant.fullName}</span>
+                      <span className="text-gray-500">
+                        {participant.clusterCount} {participant.clusterCount === 1 ? 'cluster' : 'clusters'}
+                      </span>
+                    </div>
+                    <div className="text-gray-500">Similar to {participant.partnerNames.join(', ')}</div>
+                    {participant.violationCount > 0 && (
+                      <div className="text-red-700">{participant.violationCount} violations</div>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        <Dialog open={!!comparing} onOpenChange={(open) => !open && setComparing(null)}>
+          <DialogContent className="max-w-5xl">
+            <DialogHeader>
+              <DialogTitle>
+                {left?.fullName} vs {right?.fullName}
+              </DialogTitle>
+              <DialogDescription>
+                {comparing && (
+                  <>
+                    Q{comparing.cluster.questionNumber} · {percent(comparing.pair.similarity)} similar · last changed{' '}
+                    {formatSeconds(comparing.pair.answeredApartSeconds)} apart
+                  </>
+                )}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid grid-cols-2 gap-4">
+              {[left, right].map((member, index) => (
+                <div key={index} className="space-y-1">
+                  <div className="text-sm font-medium">{member?.fullName}</div>
+                  <pre
+                    className="bg-gray-50 border rounded p-3 text-xs whitespace-pre-wrap max-h-[60vh] overflow-y-auto"
+                    data-testid={`text-compare-answer-${index}`}
+                  >
+                    {member?.answer}
+                  </pre>
+                </div>
+              ))}
+            </div>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </EventAdminLayout>
+  );
+}
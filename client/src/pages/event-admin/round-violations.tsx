@@ -0,0 +1,380 @@
+import { useParams } from 'wouter';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useState } from 'react';
+import EventAdminLayout from '@/components/layouts/EventAdminLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ArrowLeft, Gavel, Ban } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+
+interface ViolationReview {
+  status: 'confirmed' | 'dismissed';
+  note: string;
+  penaltyPoints: number;
+  reviewedBy: string;
+  reviewedAt: string;
+}
+
+interface ViolationEntry {
+  index: number;
+  type: string;
+  timestamp: string;
+  counted: boolean;
+  review?: ViolationReview;
+}
+
+interface AttemptViolations {
+  attemptId: string;
+  userId: string;
+  participantId: string | null;
+  participantStatus: string | null;
+  fullName: string | null;
+  email: string | null;
+  status: string;
+  totalScore: number | null;
+  maxScore: number | null;
+  penaltyPoints: number;
+  violationCount: number;
+  pendingCount: number;
+  violations: ViolationEntry[];
+}
+
+interface ViolationsResponse {
+  round: { id: string; name: string; eventId: string };
+  attempts: AttemptViolations[];
+}
+
+type ReviewTarget = { attempt: AttemptViolations; violation: ViolationEntry; status: ViolationReview['status'] };
+
+function formatType(type: string) {
+  return type.replace(/_/g, ' ');
+}
+
+export default function RoundViolationsPage() {
+  const { roundId } = useParams();
+  const { toast } = useToast();
+  const [reviewTarget, setReviewTarget] = useState<ReviewTarget | null>(null);
+  const [note, setNote] = useState('');
+  const [penalty, setPenalty] = useState('0');
+  const [disqualifyTarget, setDisqualifyTarget] = useState<AttemptViolations | null>(null);
+  const [reason, setReason] = useState('');
+
+  const queryKey = ['/api/rounds', roundId, 'violations'];
+  const { data, isLoading } = useQuery<ViolationsResponse>({
+    queryKey,
+    enabled: !!roundId,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async () => {
+      if (!reviewTarget) return;
+      return apiRequest(
+        'PATCH',
+        `/api/rounds/${roundId}/attempts/${reviewTarget.attempt.attemptId}/violations/${reviewTarget.violation.index}`,
+        {
+          status: reviewTarget.status,
+          note,
+          penaltyPoints: reviewTarget.status === 'confirmed' ? Number(penalty) || 0 : 0,
+        },
+      );
+    },
+    onSuccess: () => {
+      toast({
+        title: reviewTarget?.status === 'confirmed' ? 'Violation confirmed' : 'Violation dismissed',
+        description: reviewTarget?.attempt.fullName || undefined,
+      });
+      setReviewTarget(null);
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Review failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const disqualifyMutation = useMutation({
+    mutationFn: async () => {
+      if (!disqualifyTarget?.participantId) return;
+      return apiRequest('PATCH', `/api/participants/${disqualifyTarget.participantId}/disqualify`, { reason });
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Participant disqualified',
+        description: disqualifyTarget?.fullName || undefined,
+      });
+      setDisqualifyTarget(null);
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Disqualification failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const openReview = (attempt: AttemptViolations, violation: ViolationEntry, status: ViolationReview['status']) => {
+    setReviewTarget({ attempt, violation, status });
+    setNote(violation.review?.note || '');
+    setPenalty(String(violation.review?.penaltyPoints || 0));
+  };
+
+  const attempts = data?.attempts || [];
+  const pendingTotal = attempts.reduce((sum, attempt) => sum + attempt.pendingCount, 0);
+  const penaltyValid = /^\d+$/.test(penalty);
+
+  return (
+    <EventAdminLayout>
+      <div className="p-8">
+        <div className="mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => window.history.back()}
+            className="mb-4"
+            data-testid="button-back"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+          <div className="flex items-center gap-3">
+            <Gavel className="h-8 w-8 text-red-600" />
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900" data-testid="heading-violation-review">
+                Violation Review
+              </h1>
+              <p className="text-gray-600 mt-1">
+                {data?.round.name || 'Round'} · {attempts.length} attempts with violations · {pendingTotal} awaiting review
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-8" data-testid="loading-violations">Loading violations...</div>
+        ) : attempts.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-8 text-gray-600" data-testid="text-no-violations">
+              No violations were logged in this round
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {attempts.map(attempt => (
+              <Card key={attempt.attemptId} data-testid={`card-attempt-${attempt.attemptId}`}>
+                <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                  <div>
+                    <CardTitle className="text-lg">{attempt.fullName || 'Unknown participant'}</CardTitle>
+                    <p className="text-sm text-gray-500">{attempt.email}</p>
+                    <div className="flex flex-wrap gap-2 mt-2 text-sm">
+                      <Badge variant="outline">{attempt.status.replace(/_/g, ' ')}</Badge>
+                      <Badge variant="outline">{attempt.violationCount} counted</Badge>
+                      {attempt.pendingCount > 0 && (
+                        <Badge className="bg-yellow-100 text-yellow-800">{attempt.pendingCount} pending</Badge>
+                      )}
+                      {attempt.penaltyPoints > 0 && (
+                        <Badge className="bg-red-100 text-red-800">−{attempt.penaltyPoints} pts</Badge>
+                      )}
+                      {attempt.totalScore !== null && (
+                        <span className="text-gray-600">Score {attempt.totalScore}/{attempt.maxScore ?? '—'}</span>
+                      )}
+                    </div>
+                  </div>
+                  {attempt.participantStatus === 'disqualified' ? (
+                    <Badge variant="destructive">Disqualified</Badge>
+                  ) : (
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      disabled={!attempt.participantId}
+                      onClick={() => { setDisqualifyTarget(attempt); setReason(''); }}
+                      data-testid={`button-disqualify-${attempt.attemptId}`}
+                    >
+                      <Ban className="mr-2 h-4 w-4" />
+                      Disqualify
+                    </Button>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Time</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Review</TableHead>
+                        <TableHead>Penalty</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {attempt.violations.map(violation => (
+                        <TableRow
+                          key={violation.index}
+                          data-testid={`row-violation-${attempt.attemptId}-${violation.index}`}
+                        >
+                          <TableCell className="text-sm">{new Date(violation.timestamp).toLocaleString()}</TableCell>
+                          <TableCell>
+                            <span className="capitalize">{formatType(violation.type)}</span>
+                            {!violation.counted && !violation.review && (
+                              <span className="text-xs text-gray-500 ml-2">(not counted)</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {violation.review ? (
+                              <div>
+                                <Badge
+                                  className={violation.review.status === 'confirmed' ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-800'}
+                                >
+                                  {violation.review.status === 'confirmed' ? 'Confirmed' : 'Dismissed'}
+                                </Badge>
+                                <div className="text-xs text-gray-500 mt-1">
+                                  {violation.review.note} · {violation.review.reviewedBy}
+                                </div>
+                              </div>
+                            ) : (
+                              <Badge className="bg-yellow-100 text-yellow-800">Pending</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>{violation.review?.penaltyPoints || 0}</TableCell>
+                          <TableCell>
+                            <div className="flex gap-2">
+                              <Button
+                                size="sm"
+                                variant={violation.review?.status === 'confirmed' ? 'secondary' : 'default'}
+                                onClick={() => openReview(attempt, violation, 'confirmed')}
+                                data-testid={`button-confirm-${attempt.attemptId}-${violation.index}`}
+                              >
+                                Confirm
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => openReview(attempt, violation, 'dismissed')}
+                                data-testid={`button-dismiss-${attempt.attemptId}-${violation.index}`}
+                              >
+                                Dismiss
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <Dialog open={!!reviewTarget} onOpenChange={(open) => !open && setReviewTarget(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {reviewTarget?.status === 'confirmed' ? 'Confirm Violation' : 'Dismiss Violation'}
+              </DialogTitle>
+              <DialogDescription>
+                {reviewTarget
+                  ? `${reviewTarget.attempt.fullName}: ${formatType(reviewTarget.violation.type)} at ${new Date(reviewTarget.violation.timestamp).toLocaleString()}. `
+                  : ''}
+                {reviewTarget?.status === 'confirmed'
+                  ? 'A penalty is taken off the attempt score.'
+                  : 'A dismissed violation no longer counts towards the limit.'}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="review-note">Note</Label>
+                <Textarea
+                  id="review-note"
+                  placeholder="Recorded in the audit log and exports."
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  data-testid="input-review-note"
+                />
+              </div>
+              {reviewTarget?.status === 'confirmed' && (
+                <div className="space-y-2">
+                  <Label htmlFor="review-penalty">Penalty (points)</Label>
+                  <Input
+                    id="review-penalty"
+                    type="number"
+                    min={0}
+                    step={1}
+                    value={penalty}
+                    onChange={(e) => setPenalty(e.target.value)}
+                    data-testid="input-review-penalty"
+                  />
+                </div>
+              )}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setReviewTarget(null)} data-testid="button-cancel-review">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => reviewMutation.mutate()}
+                disabled={
+                  reviewMutation.isPending || !note.trim() || (reviewTarget?.status === 'confirmed' && !penaltyValid)
+                }
+                data-testid="button-save-review"
+              >
+                {reviewMutation.isPending ? 'Saving...' : 'Save'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!disqualifyTarget} onOpenChange={(open) => !open && setDisqualifyTarget(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Disqualify Participant</DialogTitle>
+              <DialogDescription>
+                {disqualifyTarget?.fullName} is disqualified from the event. Any test still in progress is submitted.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="disqualify-reason">Reason</Label>
+              <Textarea
+                id="disqualify-reason"
+                placeholder="Recorded in the audit log."
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                data-testid="input-disqualify-reason"
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDisqualifyTarget(null)} data-testid="button-cancel-disqualify">
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => disqualifyMutation.mutate()}
+                disabled={disqualifyMutation.isPending || !reason.trim()}
+                data-testid="button-confirm-disqualify"
+              >
+                {disqualifyMutation.isPending ? 'Disqualifying...' : 'Disqualify'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </EventAdminLayout>
+  );
+}
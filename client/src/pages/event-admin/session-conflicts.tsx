@@ -0,0 +1,240 @@
+import { useParams } from 'wouter';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { useState } from 'react';
+import EventAdminLayout from '@/components/layouts/EventAdminLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ArrowLeft, MonitorSmartphone } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import type { SessionConflict } from '@shared/schema';
+
+type ConflictRow = SessionConflict & {
+  participant: { id: string; fullName: string; email: string };
+};
+
+type ConflictAction = 'approve' | 'dismiss';
+
+const ACTIONS: Record<ConflictAction, { title: string; description: string; confirm: string }> = {
+  approve: {
+    title: 'Approve Machine Switch',
+    description: 'The new machine can sign in once and takes over any test in progress. The old machine is signed out.',
+    confirm: 'Approve',
+  },
+  dismiss: {
+    title: 'Dismiss Conflict',
+    description: 'Nothing changes for the participant. The conflict is closed.',
+    confirm: 'Dismiss',
+  },
+};
+
+function shortId(id: string | null) {
+  return id ? id.slice(0, 8) : 'unknown';
+}
+
+export default function SessionConflictsPage() {
+  const { eventId } = useParams();
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<{ conflict: ConflictRow; action: ConflictAction } | null>(null);
+  const [reason, setReason] = useState('');
+
+  const { data: conflicts = [], isLoading } = useQuery<ConflictRow[]>({
+    queryKey: ['/api/events', eventId, 'session-conflicts'],
+    enabled: !!eventId,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async () => {
+      if (!selected) return;
+      return apiRequest('POST', `/api/events/${eventId}/session-conflicts/${selected.conflict.id}/${selected.action}`, { reason });
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Done',
+        description: `${ACTIONS[selected!.action].title}: ${selected!.conflict.participant.fullName}`,
+      });
+      setSelected(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/events', eventId, 'session-conflicts'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Action failed',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const openCount = conflicts.filter(conflict => conflict.status === 'open').length;
+  const config = selected ? ACTIONS[selected.action] : null;
+
+  return (
+    <EventAdminLayout>
+      <div className="p-8">
+        <div className="mb-6">
+          <Button
+            variant="ghost"
+            onClick={() => window.history.back()}
+            className="mb-4"
+            data-testid="button-back"
+          >
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back
+          </Button>
+          <div className="flex items-center gap-3">
+            <MonitorSmartphone className="h-8 w-8 text-orange-600" />
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900" data-testid="heading-session-conflicts">
+                Login Conflicts
+              </h1>
+              <p className="text-gray-600 mt-1">
+                Participant credentials used on a second machine · {openCount} open
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Conflicts</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8" data-testid="loading-conflicts">Loading conflicts...</div>
+            ) : conflicts.length === 0 ? (
+              <div className="text-center py-8 text-gray-600" data-testid="text-no-conflicts">
+                No participant has signed in from a second machine
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Participant</TableHead>
+                    <TableHead>Machines</TableHead>
+                    <TableHead>Outcome</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Last Seen</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {conflicts.map(conflict => (
+                    <TableRow key={conflict.id} data-testid={`row-conflict-${conflict.id}`}>
+                      <TableCell>
+                        <div className="font-medium">{conflict.participant.fullName}</div>
+                        <div className="text-sm text-gray-500">{conflict.participant.email}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div className="font-mono" title="Browser install">
+                          {shortId(conflict.previousClientId)} → {shortId(conflict.newClientId)}
+                        </div>
+                        {/* Identical lab machines share a fingerprint, so it only backs up the client ids */}
+                        <div className="font-mono text-xs text-gray-500" title="Device fingerprint">
+                          {conflict.previousFingerprint === conflict.newFingerprint
+                            ? `same hardware profile ${shortId(conflict.newFingerprint)}`
+                            : `${shortId(conflict.previousFingerprint)} → ${shortId(conflict.newFingerprint)}`}
+                        </div>
+                        <div className="text-gray-500 truncate max-w-[16rem]" title={conflict.userAgent || ''}>
+                          {conflict.ipAddress || 'unknown IP'}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {conflict.outcome === 'blocked' ? (
+                          <Badge variant="destructive">Blocked</Badge>
+                        ) : (
+                          <Badge className="bg-orange-100 text-orange-800">Replaced old session</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{conflict.occurrences}</TableCell>
+                      <TableCell className="text-sm">{new Date(conflict.updatedAt).toLocaleString()}</TableCell>
+                      <TableCell>
+                        {conflict.status === 'open' ? (
+                          <Badge className="bg-yellow-100 text-yellow-800">Open</Badge>
+                        ) : (
+                          <div>
+                            <Badge variant="outline">{conflict.status === 'approved' ? 'Approved' : 'Dismissed'}</Badge>
+                            {conflict.resolutionNote && (
+                              <div className="text-xs text-gray-500 mt-1">{conflict.resolutionNote}</div>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {conflict.status === 'open' && (
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              onClick={() => { setSelected({ conflict, action: 'approve' }); setReason(''); }}
+                              disabled={!conflict.newClientId}
+                              data-testid={`button-approve-${conflict.id}`}
+                            >
+                              Approve Switch
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => { setSelected({ conflict, action: 'dismiss' }); setReason(''); }}
+                              data-testid={`button-dismiss-${conflict.id}`}
+                            >
+                              Dismiss
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{config?.title}</DialogTitle>
+              <DialogDescription>
+                {selected ? `${selected.conflict.participant.fullName}: ` : ''}{config?.description}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="conflict-reason">Reason</Label>
+              <Textarea
+                id="conflict-reason"
+                placeholder="Recorded in the audit log."
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                data-testid="input-conflict-reason"
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setSelected(null)} data-testid="button-cancel-conflict-action">
+                Cancel
+              </Button>
+              <Button
+                onClick={() => actionMutation.mutate()}
+                disabled={actionMutation.isPending || !reason.trim()}
+                data-testid="button-confirm-conflict-action"
+              >
+                {actionMutation.isPending ? 'Saving...' : config?.confirm}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </EventAdminLayout>
+  );
+}
@@ -11,6 +11,7 @@ export default function Login() {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const sessionReplaced = new URLSearchParams(window.location.search).get('session') === 'replaced';
   const { login, user } = useAuth();
   const { toast } = useToast();
   const [, setLocation] = useLocation();
@@ -60,6 +61,11 @@ export default function Login() {
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {sessionReplaced && (
+            <div className="mb-4 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800" data-testid="text-session-replaced">
+              You were signed out because your account signed in on another machine.
+            </div>
+          )}
           <form onSubmit={handleSubmit} className="space-y-4" data-testid="form-login">
             <div className="space-y-2">
               <Label htmlFor="username">Username</Label>
@@ -6,7 +6,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Loader2, AlertCircle, CheckCircle } from 'lucide-react';
+import { Loader2, AlertCircle, CheckCircle, Dumbbell } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/lib/auth';
@@ -24,11 +24,12 @@ export default function ParticipantDashboard() {
 
   const { credential, event, eventRules, rounds } = credentialData || {};
   const testEnabled = credential?.testEnabled || false;
-  const activeRounds = rounds?.filter((r: any) => r.status === 'in_progress') || [];
+  const activeRounds = rounds?.filter((r: any) => r.status === 'in_progress' && r.roundType !== 'practice') || [];
   const hasActiveRounds = activeRounds.length > 0;
+  const practiceRounds = rounds?.filter((r: any) => r.status === 'in_progress' && r.roundType === 'practice') || [];
 
   const startTestMutation = useMutation({
-    mutationFn: async (roundId: string) => {
+    mutationFn: async ({ roundId, practice }: { roundId: string; practice?: boolean }) => {
       const checkResponse = await apiRequest('GET', `/api/participants/rounds/${roundId}/my-attempt`, {});
       if (!checkResponse.ok) {
         const error = await checkResponse.json();
@@ -36,7 +37,8 @@ export default function ParticipantDashboard() {
       }
       const checkData = await checkResponse.json();
       
-      if (checkData.attempt) {
+      // A finished practice attempt is followed by a fresh one
+      if (checkData.attempt && (!practice || checkData.attempt.status === 'in_progress')) {
         return checkData.attempt;
       }
       
@@ -94,7 +96,7 @@ export default function ParticipantDashboard() {
 
   const handleBeginTest = () => {
     if (canBeginTest && activeRounds[0]) {
-      startTestMutation.mutate(activeRounds[0].id);
+      startTestMutation.mutate({ roundId: activeRounds[0].id });
     }
   };
 
@@ -223,6 +225,36 @@ export default function ParticipantDashboard() {
             )}
           </CardContent>
         </Card>
+
+        {testEnabled && practiceRounds.length > 0 && (
+          <Card className="mb-6" data-testid="card-practice-rounds">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Dumbbell className="h-5 w-5 text-indigo-600" />
+                Practice
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-gray-600">
+                Try the test screen and its proctoring before the real round. Practice tests can be taken as many
+                times as you like, show the answers right after you submit and never count towards your results.
+              </p>
+              {practiceRounds.map((round: any) => (
+                <div key={round.id} className="flex items-center justify-between rounded-lg border p-3">
+                  <span className="text-sm font-medium">{round.name} ({round.duration} minutes)</span>
+                  <Button
+                    variant="outline"
+                    disabled={!agreed || startTestMutation.isPending}
+                    onClick={() => startTestMutation.mutate({ roundId: round.id, practice: true })}
+                    data-testid={`button-start-practice-${round.id}`}
+                  >
+                    Start Practice
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
       </div>
     </ParticipantLayout>
   );
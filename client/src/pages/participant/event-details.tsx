@@ -8,7 +8,8 @@ import { useToast } from '@/hooks/use-toast';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useAuth } from '@/lib/auth';
 import { ArrowLeft, Calendar, Clock, FileText, Shield, CheckCircle } from 'lucide-react';
-import type { Event, EventRules, Round } from '@shared/schema';
+import type { Event, Round } from '@shared/schema';
+import type { ResolvedProctoringRules } from '@/components/ProctoringRulesEditor';
 
 export default function ParticipantEventDetailsPage() {
   const { eventId } = useParams();
@@ -21,8 +22,8 @@ export default function ParticipantEventDetailsPage() {
     enabled: !!eventId,
   });
 
-  const { data: rules, isLoading: rulesLoading } = useQuery<EventRules>({
-    queryKey: ['/api/events', eventId, 'rules'],
+  const { data: effectiveRules, isLoading: rulesLoading } = useQuery<ResolvedProctoringRules>({
+    queryKey: ['/api/events', eventId, 'effective-rules'],
     enabled: !!eventId,
   });
 
@@ -52,6 +53,8 @@ export default function ParticipantEventDetailsPage() {
     },
   });
 
+  const rules = effectiveRules && { ...effectiveRules.rules, additionalRules: effectiveRules.additionalRules };
+
   if (eventLoading || rulesLoading || roundsLoading) {
     return (
       <ParticipantLayout>
@@ -173,6 +176,7 @@ export default function ParticipantEventDetailsPage() {
                                 <div className="text-sm font-medium">{round.duration} mins</div>
                               </div>
                               <Badge variant="outline">{round.status}</Badge>
+                              {round.roundType === 'practice' && <Badge variant="secondary">Practice</Badge>}
                             </div>
                           </div>
                           <div className="flex-shrink-0 ml-4">
@@ -190,7 +194,7 @@ export default function ParticipantEventDetailsPage() {
                                 disabled={startTestMutation.isPending}
                                 data-testid={`button-start-test-${round.id}`}
                               >
-                                {startTestMutation.isPending ? 'Starting...' : 'Take Test'}
+                                {startTestMutation.isPending ? 'Starting...' : round.roundType === 'practice' ? 'Practice' : 'Take Test'}
                               </Button>
                             )}
                             {round.status === 'completed' && (
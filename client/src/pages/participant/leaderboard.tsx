@@ -5,7 +5,8 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { ArrowLeft, Trophy, Medal, Award, Clock } from 'lucide-react';
+import { ArrowLeft, Trophy, Medal, Award, Clock, Users } from 'lucide-react';
+import type { TeamStanding } from '@/lib/teams';
 
 interface LeaderboardEntry {
   rank: number;
@@ -25,6 +26,12 @@ export default function LeaderboardPage() {
     enabled: !!(roundId || eventId),
   });
 
+  // Empty for individual events
+  const { data: teamStandings } = useQuery<TeamStanding[]>({
+    queryKey: ['/api/events', eventId, 'team-leaderboard'],
+    enabled: !roundId && !!eventId,
+  });
+
   if (isLoading) {
     return (
       <ParticipantLayout>
@@ -153,6 +160,55 @@ export default function LeaderboardPage() {
           </div>
         )}
 
+        {teamStandings && teamStandings.length > 0 && (
+          <Card className="mb-6" data-testid="card-team-standings">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Team Standings
+              </CardTitle>
+              <CardDescription>Ranked by team score, then by the team's last submission</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-20">Rank</TableHead>
+                    <TableHead>Team</TableHead>
+                    <TableHead>Members</TableHead>
+                    <TableHead className="text-right">Score</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {teamStandings.map((standing) => (
+                    <TableRow key={standing.teamId} data-testid={`row-team-${standing.rank}`}>
+                      <TableCell>
+                        <div className="flex items-center justify-center">
+                          <Badge
+                            variant="outline"
+                            className={`${getRankBadgeColor(standing.rank)} flex items-center gap-1 px-3 py-1`}
+                          >
+                            {getRankIcon(standing.rank)}
+                          </Badge>
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-medium" data-testid={`text-team-name-${standing.rank}`}>
+                        {standing.teamName}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {standing.members.map((m) => m.userName).join(', ')}
+                      </TableCell>
+                      <TableCell className="text-right font-semibold" data-testid={`text-team-score-${standing.rank}`}>
+                        {standing.totalScore}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Full Leaderboard Table */}
         <Card>
           <CardHeader>
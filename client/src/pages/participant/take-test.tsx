@@ -9,27 +9,104 @@ import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Progress } from '@/components/ui/progress';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
-import { apiRequest, queryClient } from '@/lib/queryClient';
-import { Clock, AlertTriangle, Send, ChevronLeft, ChevronRight } from 'lucide-react';
-import type { TestAttempt, Question, Answer, Round, RoundRules, Participant } from '@shared/schema';
+import { apiRequest, queryClient, getClientId, getDeviceFingerprint } from '@/lib/queryClient';
+import { useWebSocket } from '@/contexts/WebSocketContext';
+import { Clock, AlertTriangle, Send, ChevronLeft, ChevronRight, Check, CloudOff, Dumbbell } from 'lucide-react';
+import { enqueueAnswer, getQueuedAnswers, removeQueuedAnswer, ensureSequenceAtLeast, clearAttemptQueue, type QueuedAnswer } from '@/lib/answerQueue';
+import { recordPaste, recordTyping, recordDeletion, type TypingBurst } from '@/lib/inputTelemetry';
+import type { ResolvedProctoringRules } from '@/components/ProctoringRulesEditor';
+import type { TestAttempt, Question, Answer, Round, AnswerInputStats } from '@shared/schema';
 
 interface TestAttemptWithDetails extends TestAttempt {
   round: Round;
   questions: (Question & { questionText: string })[];
   answers: Answer[];
+  deadline: string | null;
+  sectionState: SectionState | null;
+  // The round's rules once profiles and event rules are applied
+  proctoringRules: ResolvedProctoringRules | null;
+}
+
+// The open section of a sectioned round, as worked out by the server
+interface SectionState {
+  index: number;
+  sectionId: string;
+  startedAt: string;
+  deadline: string;
+  finalDeadline: string;
+  isLast: boolean;
+}
+
+// The server's decision after logging a violation; the page only displays it
+interface Enforcement {
+  action: 'none' | 'warning' | 'final_warning' | 'auto_submit' | 'limit_exceeded';
+  counted: boolean;
+  violationCount: number;
+  maxWarnings: number;
+  warningsRemaining: number;
+}
+
+// How often the test page tells the server it is still open
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+// How often unsent answers are retried while the connection is down
+const ANSWER_RETRY_INTERVAL_MS = 10 * 1000;
+
+// pending: queued on this device, not yet accepted by the server. failed: the server refused it.
+type AnswerSyncState = 'pending' | 'failed';
+
+// HTTP status from an apiRequest error; null when the request never reached the server
+function getErrorStatus(error: any): number | null {
+  const status = parseInt(error?.message, 10);
+  return Number.isFinite(status) ? status : null;
+}
+
+const CODE_LANGUAGES = [
+  { value: 'python', label: 'Python 3' },
+  { value: 'c', label: 'C' },
+  { value: 'cpp', label: 'C++' },
+  { value: 'javascript', label: 'JavaScript (Node.js)' },
+  { value: 'java', label: 'Java (class Main)' },
+];
+
+// Mirrors how the grader feeds test input on stdin: arrays are one value per line
+function formatTestValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) {
+    return value.map((v) => (typeof v === 'string' ? v : JSON.stringify(v))).join('\n');
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// Multi-select answers are saved as a JSON array of the ticked options
+function parseSelections(value: string | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+function isAnswered(value: string | undefined): boolean {
+  return !!value && value !== '[]';
 }
 
 export default function TakeTestPage() {
   const { attemptId } = useParams();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const { socket } = useWebSocket();
   
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [codeLanguages, setCodeLanguages] = useState<Record<string, string>>({});
   const [timeRemaining, setTimeRemaining] = useState(0);
-  const [violationCount, setViolationCount] = useState(0);
+  const [enforcement, setEnforcement] = useState<Enforcement | null>(null);
   const [showViolationWarning, setShowViolationWarning] = useState(false);
   const [violationMessage, setViolationMessage] = useState('');
   const [hasStarted, setHasStarted] = useState(false);
@@ -37,13 +114,23 @@ export default function TakeTestPage() {
   const [showTimeWarning, setShowTimeWarning] = useState(false);
   const [timeWarningMessage, setTimeWarningMessage] = useState('');
   const [showSubmitConfirm, setShowSubmitConfirm] = useState(false);
+  const [showSectionConfirm, setShowSectionConfirm] = useState(false);
+  const [syncState, setSyncState] = useState<Record<string, AnswerSyncState>>({});
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
   
   // Ref to track test status for event handlers
   const testStatusRef = useRef<string>('in_progress');
+  // Questions edited on this page whose latest write the server has not accepted yet
+  const unsyncedRef = useRef(new Set<string>());
+  const flushPromiseRef = useRef<Promise<void> | null>(null);
+  const flushAgainRef = useRef(false);
+  // Paste and typing telemetry for text answers, sent along with each save
+  const inputStatsRef = useRef<Record<string, AnswerInputStats>>({});
+  const typingBurstRef = useRef<Record<string, TypingBurst>>({});
   const hasShown5MinWarning = useRef(false);
   const hasShown1MinWarning = useRef(false);
 
-  const { data: attempt, isLoading } = useQuery<TestAttemptWithDetails>({
+  const { data: attempt, isLoading, error: attemptError } = useQuery<TestAttemptWithDetails>({
     queryKey: ['/api/attempts', attemptId],
     enabled: !!attemptId,
   });
@@ -55,10 +142,7 @@ export default function TakeTestPage() {
     }
   }, [attempt?.status]);
 
-  const { data: rules } = useQuery<RoundRules>({
-    queryKey: ['/api/rounds', attempt?.roundId, 'rules'],
-    enabled: !!attempt?.roundId,
-  });
+  const rules = attempt?.proctoringRules?.rules;
 
   const { data: currentRound } = useQuery<Round>({
     queryKey: ['/api/rounds', attempt?.roundId],
@@ -75,34 +159,111 @@ export default function TakeTestPage() {
     refetchInterval: 5000,
   });
 
-  const { data: participant } = useQuery<Participant | null>({
-    queryKey: ['/api/participants/my-registrations', attempt?.userId, attempt?.round?.eventId],
-    queryFn: async () => {
-      if (!attempt?.userId || !attempt?.round?.eventId) return null;
-      const response = await fetch(`/api/participants/my-registrations`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('token')}`
+  const setAnswerSyncState = useCallback((questionId: string, state: AnswerSyncState | null) => {
+    if (state === 'pending') unsyncedRef.current.add(questionId);
+    else unsyncedRef.current.delete(questionId);
+    setSyncState(prev => {
+      const next = { ...prev };
+      if (state) next[questionId] = state;
+      else delete next[questionId];
+      return next;
+    });
+  }, []);
+
+  // Decides what to do with a queued answer the server did not accept. Returns false to keep it
+  // queued and retry later, true once it has been dropped.
+  const handleRejectedAnswer = useCallback(async (entry: QueuedAnswer, error: any): Promise<boolean> => {
+    const status = getErrorStatus(error);
+
+    // Offline, server trouble, paused or open elsewhere: keep it for the next try
+    if (status === null || status >= 500 || status === 401 || status === 409) {
+      if (error.message?.includes('another machine') || error.message?.includes('paused by the proctor')) {
+        queryClient.invalidateQueries({ queryKey: ['/api/attempts', attemptId] });
+      }
+      return false;
+    }
+
+    // The server stops accepting answers once the deadline has passed
+    if (error.message?.includes('Time is up') || error.message?.includes('not in progress')) {
+      await clearAttemptQueue(entry.attemptId).catch(console.error);
+      unsyncedRef.current.clear();
+      toast({
+        title: 'Time is up',
+        description: 'Your test has been submitted automatically',
+        variant: 'destructive',
+      });
+      testStatusRef.current = 'auto_submitted';
+      queryClient.invalidateQueries({ queryKey: ['/api/attempts', attemptId] });
+      setLocation(`/participant/results/${attemptId}`);
+      return true;
+    }
+
+    // The section's time ran out on the server first
+    if (error.message?.includes('section is closed')) {
+      toast({
+        title: 'Section closed',
+        description: 'Time for this section is up. Moving to the next section.',
+        variant: 'destructive',
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/attempts', attemptId] });
+    }
+
+    if (await removeQueuedAnswer(entry)) setAnswerSyncState(entry.questionId, 'failed');
+    return true;
+  }, [attemptId, toast, setLocation, setAnswerSyncState]);
+
+  // Sends queued answers oldest first and stops at the first one that has to wait, so a later
+  // write never reaches the server ahead of an earlier one
+  const sendQueuedAnswers = useCallback(async () => {
+    if (!attemptId) return;
+    do {
+      flushAgainRef.current = false;
+      while (true) {
+        const [entry] = await getQueuedAnswers(attemptId);
+        if (!entry) break;
+        try {
+          await apiRequest('POST', `/api/attempts/${attemptId}/answers`, {
+            questionId: entry.questionId,
+            answer: entry.answer,
+            language: entry.language,
+            clientSeq: entry.clientSeq,
+            inputStats: entry.inputStats,
+          });
+        } catch (error: any) {
+          if (!(await handleRejectedAnswer(entry, error))) return;
+          continue;
         }
+        // A newer write for the question may have been queued while this one was in flight
+        if (await removeQueuedAnswer(entry)) setAnswerSyncState(entry.questionId, null);
+      }
+    } while (flushAgainRef.current);
+  }, [attemptId, handleRejectedAnswer, setAnswerSyncState]);
+
+  const flushAnswers = useCallback((): Promise<void> => {
+    if (flushPromiseRef.current) {
+      flushAgainRef.current = true;
+      return flushPromiseRef.current;
+    }
+    const flush = sendQueuedAnswers()
+      .catch((error) => console.error('Answer sync error:', error))
+      .finally(() => {
+        flushPromiseRef.current = null;
       });
-      const participants: Participant[] = await response.json();
-      return participants.find((p: Participant) => p.eventId === attempt.round.eventId && p.userId === attempt.userId) || null;
-    },
-    enabled: !!attempt?.userId && !!attempt?.round?.eventId,
-  });
+    flushPromiseRef.current = flush;
+    return flush;
+  }, [sendQueuedAnswers]);
 
   // Mutations defined early to avoid TDZ issues
-  const disqualifyMutation = useMutation({
-    mutationFn: async () => {
-      if (!participant?.id) throw new Error('Participant not found');
-      return apiRequest('PATCH', `/api/participants/${participant.id}/disqualify`, {});
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/participants'] });
-    },
-  });
-
   const submitTestMutation = useMutation({
     mutationFn: async () => {
+      // Everything typed must reach the server before it grades the attempt
+      await flushAnswers();
+      const unsent = await getQueuedAnswers(attemptId!).catch(() => []);
+      if (unsent.length > 0) {
+        throw new Error(
+          `${unsent.length} ${unsent.length === 1 ? 'answer is' : 'answers are'} not saved to the server yet. Check your connection and try again.`,
+        );
+      }
       return apiRequest('POST', `/api/attempts/${attemptId}/submit`, {});
     },
     onSuccess: () => {
@@ -117,6 +278,13 @@ export default function TakeTestPage() {
       setLocation(`/participant/results/${attemptId}`);
     },
     onError: (error: any) => {
+      // Already closed by the server's deadline sweeper
+      if (error.message?.includes('already submitted')) {
+        testStatusRef.current = 'auto_submitted';
+        queryClient.invalidateQueries({ queryKey: ['/api/attempts', attemptId] });
+        setLocation(`/participant/results/${attemptId}`);
+        return;
+      }
       toast({
         title: 'Submission failed',
         description: error.message,
@@ -125,29 +293,156 @@ export default function TakeTestPage() {
     },
   });
 
-  // Initialize answers from existing data
+  // Closing a section is final; the server opens the next one with its own timer
+  const advanceSectionMutation = useMutation({
+    mutationFn: async (fromSection: number) => {
+      return apiRequest('POST', `/api/attempts/${attemptId}/sections/advance`, { fromSection });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/attempts', attemptId] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Could not move to the next section',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Initialize answers from existing data, with anything still queued on this device on top
   useEffect(() => {
-    if (attempt?.answers) {
-      const answerMap: Record<string, string> = {};
-      attempt.answers.forEach((ans) => {
-        answerMap[ans.questionId] = ans.answer;
+    if (!attempt?.answers) return;
+
+    const answerMap: Record<string, string> = {};
+    const languageMap: Record<string, string> = {};
+    attempt.answers.forEach((ans) => {
+      answerMap[ans.questionId] = ans.answer;
+      if (ans.language) {
+        languageMap[ans.questionId] = ans.language;
+      }
+      if (ans.inputStats && !inputStatsRef.current[ans.questionId]) {
+        inputStatsRef.current[ans.questionId] = ans.inputStats;
+      }
+    });
+
+    // Edits still on their way to the server win over the copy just fetched
+    const apply = (queued: QueuedAnswer[]) => {
+      queued.forEach((entry) => {
+        answerMap[entry.questionId] = entry.answer;
+        if (entry.language) languageMap[entry.questionId] = entry.language;
+        if (entry.inputStats && !unsyncedRef.current.has(entry.questionId)) {
+          inputStatsRef.current[entry.questionId] = entry.inputStats;
+        }
+        unsyncedRef.current.add(entry.questionId);
       });
-      setAnswers(answerMap);
-    }
-  }, [attempt]);
+      const keepLocal = <T,>(prev: Record<string, T>, next: Record<string, T>) => {
+        unsyncedRef.current.forEach((questionId) => {
+          if (prev[questionId] !== undefined) next[questionId] = prev[questionId];
+        });
+        return next;
+      };
+      setAnswers(prev => keepLocal(prev, answerMap));
+      setCodeLanguages(prev => keepLocal(prev, languageMap));
+      setSyncState(prev => {
+        const next = { ...prev };
+        queued.forEach((entry) => { next[entry.questionId] = 'pending'; });
+        return next;
+      });
+    };
+
+    let cancelled = false;
+    const highestSeq = Math.max(0, ...attempt.answers.map((ans) => ans.clientSeq || 0));
+    ensureSequenceAtLeast(attempt.id, highestSeq)
+      .then(() => getQueuedAnswers(attempt.id))
+      .then((queued) => {
+        if (cancelled) return;
+        apply(queued);
+        if (queued.length > 0) flushAnswers();
+      })
+      .catch((error) => {
+        console.error('Answer queue unavailable:', error);
+        if (!cancelled) apply([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attempt, flushAnswers]);
+
+  // Replay unsent answers when the connection comes back, and keep retrying while it is down
+  useEffect(() => {
+    if (!hasStarted) return;
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      flushAnswers();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    socket?.on('connect', handleOnline);
+    const timer = setInterval(() => {
+      if (unsyncedRef.current.size > 0) flushAnswers();
+    }, ANSWER_RETRY_INTERVAL_MS);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      socket?.off('connect', handleOnline);
+      clearInterval(timer);
+    };
+  }, [hasStarted, socket, flushAnswers]);
 
   // Initialize timer
   useEffect(() => {
     if (attempt?.round && attempt.startedAt) {
-      const duration = attempt.round.duration * 60; // Convert to seconds
-      const startTime = new Date(attempt.startedAt).getTime();
-      const now = Date.now();
-      const elapsed = Math.floor((now - startTime) / 1000);
-      const remaining = Math.max(0, duration - elapsed);
+      // The server deadline includes any extra time granted to this attempt. In a sectioned
+      // round the timer counts down the open section.
+      const deadline = attempt.sectionState
+        ? new Date(attempt.sectionState.deadline).getTime()
+        : attempt.deadline
+        ? new Date(attempt.deadline).getTime()
+        : new Date(attempt.startedAt).getTime() + (attempt.round.duration + (attempt.extraMinutes || 0)) * 60 * 1000;
+      // The clock stands still while a proctor has the attempt paused
+      const clock = attempt.pausedAt ? new Date(attempt.pausedAt).getTime() : Date.now();
+      const remaining = Math.max(0, Math.floor((deadline - clock) / 1000));
       setTimeRemaining(remaining);
     }
   }, [attempt]);
 
+  // Heartbeat over the socket, falling back to HTTP when the socket is down or does not answer
+  useEffect(() => {
+    if (!hasStarted || !attemptId || attempt?.status !== 'in_progress') return;
+
+    const sendOverHttp = (clientTime: string) => {
+      apiRequest('POST', `/api/attempts/${attemptId}/heartbeat`, { clientTime }).catch(console.error);
+    };
+
+    const beat = () => {
+      const clientTime = new Date().toISOString();
+      if (!socket?.connected) {
+        sendOverHttp(clientTime);
+        return;
+      }
+      socket.timeout(5000).emit('heartbeat', { attemptId, clientId: getClientId(), deviceFingerprint: getDeviceFingerprint(), clientTime }, (err: Error | null, response: any) => {
+        if (err || !response?.ok) sendOverHttp(clientTime);
+      });
+    };
+
+    beat();
+    const timer = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasStarted, attemptId, attempt?.status, socket]);
+
+  // A proctor submitted the test or disqualified the participant
+  useEffect(() => {
+    if (hasStarted && attempt && attempt.status !== 'in_progress') {
+      setLocation(`/participant/results/${attemptId}`);
+    }
+  }, [attempt, attemptId, hasStarted, setLocation]);
+
   // Auto-submit when round is ended by admin
   useEffect(() => {
     if (currentRound?.status === 'completed' && attempt?.status === 'in_progress' && hasStarted) {
@@ -162,9 +457,15 @@ export default function TakeTestPage() {
 
   // Timer countdown with warnings
   useEffect(() => {
-    if (!attempt || !hasStarted) return;
+    if (!attempt || !hasStarted || attempt.pausedAt) return;
 
     if (timeRemaining <= 0 && attempt.status === 'in_progress') {
+      if (attempt.sectionState && !attempt.sectionState.isLast) {
+        if (!advanceSectionMutation.isPending) {
+          advanceSectionMutation.mutate(attempt.sectionState.index);
+        }
+        return;
+      }
       submitTestMutation.mutate();
       return;
     }
@@ -176,7 +477,7 @@ export default function TakeTestPage() {
       setShowTimeWarning(true);
       toast({
         title: 'Time Warning',
-        description: '5 minutes remaining in your test',
+        description: attempt.sectionState ? '5 minutes remaining in this section' : '5 minutes remaining in your test',
         variant: 'default',
       });
       setTimeout(() => setShowTimeWarning(false), 5000);
@@ -189,7 +490,7 @@ export default function TakeTestPage() {
       setShowTimeWarning(true);
       toast({
         title: 'Time Warning',
-        description: '1 minute remaining in your test',
+        description: attempt.sectionState ? '1 minute remaining in this section' : '1 minute remaining in your test',
         variant: 'destructive',
       });
       setTimeout(() => setShowTimeWarning(false), 5000);
@@ -206,7 +507,17 @@ export default function TakeTestPage() {
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [timeRemaining, attempt, hasStarted, submitTestMutation, toast]);
+  }, [timeRemaining, attempt, hasStarted, submitTestMutation, advanceSectionMutation, toast]);
+
+  // A new section starts at its first question with fresh time warnings
+  const sectionIndex = attempt?.sectionState?.index;
+  useEffect(() => {
+    if (sectionIndex === undefined) return;
+    setCurrentQuestionIndex(0);
+    setShowSectionConfirm(false);
+    hasShown5MinWarning.current = false;
+    hasShown1MinWarning.current = false;
+  }, [sectionIndex]);
 
   // Handle fullscreen start - ALWAYS enforce fullscreen
   const handleBeginTest = async () => {
@@ -238,51 +549,44 @@ export default function TakeTestPage() {
     }
   };
 
-  const logViolation = useCallback((type: string) => {
+  const showViolation = (title: string, message: string) => {
+    setViolationMessage(message);
+    setShowViolationWarning(true);
+    toast({ title, description: message, variant: 'destructive' });
+    setTimeout(() => setShowViolationWarning(false), 5000);
+  };
+
+  const logViolation = useCallback(async (type: string) => {
     if (!attemptId) return;
 
-    apiRequest('POST', `/api/attempts/${attemptId}/violations`, { type }).catch(console.error);
+    let decision: Enforcement;
+    try {
+      const response = await apiRequest('POST', `/api/attempts/${attemptId}/violations`, { type });
+      decision = (await response.json()).enforcement;
+    } catch (error) {
+      console.error(error);
+      return;
+    }
 
-    setViolationCount(prev => {
-      const newCount = prev + 1;
-      
-      if (newCount === 1) {
-        // First violation - Show warning
-        setViolationMessage('⚠️ You are not allowed to use shortcuts or leave the test screen. Further attempts will eliminate you.');
-        setShowViolationWarning(true);
-        toast({
-          title: '⚠️ Warning #1',
-          description: 'You are not allowed to use shortcuts or leave the test screen. Further attempts will eliminate you.',
-          variant: 'destructive',
-        });
-        setTimeout(() => setShowViolationWarning(false), 5000);
-      } else if (newCount === 2) {
-        // Second violation - Final warning
-        setViolationMessage('⚠️ Final warning! Another attempt will eliminate you.');
-        setShowViolationWarning(true);
-        toast({
-          title: '⚠️ Warning #2 - FINAL WARNING',
-          description: 'Another attempt will eliminate you from this event.',
-          variant: 'destructive',
-        });
-        setTimeout(() => setShowViolationWarning(false), 5000);
-      } else if (newCount >= 3) {
-        // Third violation - Eliminate
-        setViolationMessage('❌ You have been eliminated for violating event rules.');
-        setShowViolationWarning(true);
-        toast({
-          title: '❌ ELIMINATED',
-          description: 'You have been eliminated for violating event rules. Your test will be auto-submitted.',
-          variant: 'destructive',
-        });
-        
-        disqualifyMutation.mutate();
-        setTimeout(() => submitTestMutation.mutate(), 2000);
-      }
-      
-      return newCount;
-    });
-  }, [attemptId, disqualifyMutation, submitTestMutation, toast]);
+    setEnforcement(decision);
+
+    if (decision.action === 'warning') {
+      showViolation(
+        `⚠️ Warning #${decision.violationCount}`,
+        `You are not allowed to use shortcuts or leave the test screen. ${decision.warningsRemaining} warning(s) left before your test is submitted.`,
+      );
+    } else if (decision.action === 'final_warning') {
+      showViolation('⚠️ FINAL WARNING', 'Another violation will submit your test automatically.');
+    } else if (decision.action === 'limit_exceeded') {
+      showViolation('⚠️ Violation recorded', 'You have exceeded the allowed violations. Every further violation is reported to the organisers.');
+    } else if (decision.action === 'auto_submit') {
+      testStatusRef.current = 'auto_submitted';
+      setShowFullscreenModal(false);
+      showViolation('❌ Test submitted', 'Your test has been submitted automatically for violating event rules.');
+      queryClient.invalidateQueries({ queryKey: ['/api/attempts', attemptId] });
+      setTimeout(() => setLocation(`/participant/results/${attemptId}`), 2000);
+    }
+  }, [attemptId, setLocation, toast]);
 
   // Fullscreen enforcement after test started - ALWAYS enforce
   useEffect(() => {
@@ -291,10 +595,7 @@ export default function TakeTestPage() {
     const handleFullscreenChange = () => {
       if (!document.fullscreenElement && testStatusRef.current === 'in_progress') {
         logViolation('fullscreen_exit');
-        // Don't allow re-entering if already eliminated (3+ violations)
-        if (violationCount < 3) {
-          setShowFullscreenModal(true);
-        }
+        setShowFullscreenModal(true);
       }
     };
 
@@ -303,7 +604,7 @@ export default function TakeTestPage() {
     return () => {
       document.removeEventListener('fullscreenchange', handleFullscreenChange);
     };
-  }, [hasStarted, logViolation, violationCount]);
+  }, [hasStarted, logViolation]);
 
   // Cleanup fullscreen only on unmount
   useEffect(() => {
@@ -471,21 +772,62 @@ export default function TakeTestPage() {
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
   }, [hasStarted, logViolation]);
 
-  const saveAnswerMutation = useMutation({
-    mutationFn: async ({ questionId, answer }: { questionId: string; answer: string }) => {
-      return apiRequest('POST', `/api/attempts/${attemptId}/answers`, { questionId, answer });
-    },
-  });
+  // Every edit goes through the on-device queue first, so nothing is lost while the network is down
+  const saveAnswer = (questionId: string, answer: string, language?: string) => {
+    setAnswerSyncState(questionId, 'pending');
+    const inputStats = inputStatsRef.current[questionId];
+    enqueueAnswer({ attemptId: attemptId!, questionId, answer, language, inputStats })
+      .then(() => flushAnswers())
+      .catch((error) => {
+        // No IndexedDB (some private windows): send it straight away without replay protection
+        console.error('Answer queue unavailable:', error);
+        apiRequest('POST', `/api/attempts/${attemptId}/answers`, { questionId, answer, language, inputStats })
+          .then(() => setAnswerSyncState(questionId, null))
+          .catch(() => setAnswerSyncState(questionId, 'failed'));
+      });
+  };
 
   const handleAnswerChange = (questionId: string, answer: string) => {
     setAnswers(prev => ({ ...prev, [questionId]: answer }));
-    saveAnswerMutation.mutate({ questionId, answer });
+    const question = attempt?.questions.find(q => q.id === questionId);
+    const language = question?.questionType === 'coding' ? codeLanguages[questionId] || 'python' : undefined;
+    saveAnswer(questionId, answer, language);
+  };
+
+  // Pasted and dropped text is counted by its own handlers; everything else that grows or shrinks
+  // the answer is typing or deleting
+  const handleTextInput = (questionId: string, e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const inputType = (e.nativeEvent as InputEvent).inputType || '';
+    if (inputType !== 'insertFromPaste' && inputType !== 'insertFromDrop') {
+      const delta = e.target.value.length - (answers[questionId] || '').length;
+      if (delta > 0) {
+        const typed = recordTyping(inputStatsRef.current[questionId], typingBurstRef.current[questionId], delta);
+        inputStatsRef.current[questionId] = typed.stats;
+        typingBurstRef.current[questionId] = typed.burst;
+      } else if (delta < 0) {
+        inputStatsRef.current[questionId] = recordDeletion(inputStatsRef.current[questionId], -delta);
+      }
+    }
+    handleAnswerChange(questionId, e.target.value);
+  };
+
+  const handlePastedText = (questionId: string, text: string) => {
+    if (!text) return;
+    inputStatsRef.current[questionId] = recordPaste(inputStatsRef.current[questionId], text.length);
+    delete typingBurstRef.current[questionId];
+  };
+
+  const handleLanguageChange = (questionId: string, language: string) => {
+    setCodeLanguages(prev => ({ ...prev, [questionId]: language }));
+    if (answers[questionId] !== undefined) {
+      saveAnswer(questionId, answers[questionId], language);
+    }
   };
 
   const handleSubmit = () => {
     if (!attempt?.questions) return;
 
-    const answeredCount = Object.keys(answers).length;
+    const answeredCount = Object.values(answers).filter(isAnswered).length;
     const totalQuestions = attempt.questions.length;
 
     if (answeredCount < totalQuestions) {
@@ -517,6 +859,27 @@ export default function TakeTestPage() {
     );
   }
 
+  // The attempt is bound to the browser that started it until an admin allows a resume
+  if (attemptError?.message?.includes('another machine')) {
+    return (
+      <ParticipantLayout>
+        <div className="p-8 max-w-xl mx-auto">
+          <Alert variant="destructive" data-testid="alert-attempt-in-use">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              This test is open on another machine. Ask an event admin to allow you to resume here, then reload this page.
+            </AlertDescription>
+          </Alert>
+          <div className="text-center mt-4">
+            <Button onClick={() => queryClient.invalidateQueries({ queryKey: ['/api/attempts', attemptId] })} data-testid="button-retry-attempt">
+              Try Again
+            </Button>
+          </div>
+        </div>
+      </ParticipantLayout>
+    );
+  }
+
   if (!attempt || attempt.status !== 'in_progress') {
     return (
       <ParticipantLayout>
@@ -532,8 +895,18 @@ export default function TakeTestPage() {
     );
   }
 
-  const currentQuestion = attempt.questions[currentQuestionIndex];
-  const progress = ((currentQuestionIndex + 1) / attempt.questions.length) * 100;
+  // Sectioned rounds only show the open section; closed sections are locked
+  const sections = attempt.round.sections || [];
+  const currentSection = attempt.sectionState ? sections[attempt.sectionState.index] : null;
+  const visibleQuestions = attempt.sectionState
+    ? attempt.questions.filter(q => q.sectionId === attempt.sectionState!.sectionId)
+    : attempt.questions;
+  const currentQuestion = visibleQuestions[Math.min(currentQuestionIndex, visibleQuestions.length - 1)];
+  const progress = visibleQuestions.length > 0 ? ((currentQuestionIndex + 1) / visibleQuestions.length) * 100 : 0;
+  const isLastInView = currentQuestionIndex >= visibleQuestions.length - 1;
+  const canAdvanceSection = !!attempt.sectionState && !attempt.sectionState.isLast;
+  const unsyncedCount = Object.values(syncState).filter(state => state === 'pending').length;
+  const currentSyncState = syncState[currentQuestion?.id];
 
   // Show begin test screen
   if (!hasStarted) {
@@ -548,13 +921,29 @@ export default function TakeTestPage() {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
+              {attempt.round.roundType === 'practice' && (
+                <Alert data-testid="alert-practice">
+                  <Dumbbell className="h-4 w-4" />
+                  <AlertDescription>
+                    This is a practice test. It runs exactly like the real round, including proctoring, but it does not
+                    count towards your results. You will see the answers and explanations as soon as you submit.
+                  </AlertDescription>
+                </Alert>
+              )}
               <Alert>
                 <AlertTriangle className="h-4 w-4" />
                 <AlertDescription>
                   <strong>Important Instructions:</strong>
                   <ul className="list-disc list-inside mt-2 space-y-1">
-                    <li>You have {attempt.round.duration} minutes to complete this test</li>
+                    <li>You have {attempt.round.duration + (attempt.extraMinutes || 0)} minutes to complete this test</li>
                     <li>Answer all {attempt.questions.length} questions</li>
+                    {sections.length > 0 && (
+                      <li>
+                        The test has {sections.length} timed sections:{' '}
+                        {sections.map(section => `${section.name} (${section.durationMinutes} min)`).join(', ')}.
+                        You cannot go back to a section once it is closed.
+                      </li>
+                    )}
                     <li className="text-red-600 font-medium">You MUST stay in fullscreen mode</li>
                     <li className="text-red-600 font-medium">Do NOT switch tabs or windows</li>
                     <li className="text-red-600 font-medium">Do NOT refresh the page</li>
@@ -566,11 +955,11 @@ export default function TakeTestPage() {
                 </AlertDescription>
               </Alert>
 
-              {rules?.additionalRules && (
+              {attempt?.proctoringRules?.additionalRules && (
                 <div className="p-4 bg-gray-50 rounded-lg">
                   <div className="font-medium mb-2">Additional Rules:</div>
                   <div className="text-sm text-gray-700 whitespace-pre-wrap">
-                    {rules.additionalRules}
+                    {attempt.proctoringRules.additionalRules}
                   </div>
                 </div>
               )}
@@ -627,6 +1016,25 @@ export default function TakeTestPage() {
         </div>
       )}
 
+      {attempt.pausedAt && (
+        <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center" data-testid="overlay-paused">
+          <Card className="max-w-md">
+            <CardHeader className="text-center">
+              <div className="mx-auto mb-4 h-12 w-12 rounded-full bg-yellow-100 flex items-center justify-center">
+                <Clock className="h-6 w-6 text-yellow-600" />
+              </div>
+              <CardTitle className="text-xl">Test Paused</CardTitle>
+              <CardDescription>
+                The proctor has paused your test. Your clock is stopped and you will get this time back.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-gray-600 text-center">Please stay on this screen until the test is resumed.</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {/* Submit Confirmation Modal - In Fullscreen */}
       {showSubmitConfirm && (
         <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center">
@@ -664,6 +1072,46 @@ export default function TakeTestPage() {
         </div>
       )}
 
+      {/* Next Section Confirmation Modal - In Fullscreen */}
+      {showSectionConfirm && attempt.sectionState && (
+        <div className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center">
+          <Card className="max-w-md">
+            <CardHeader className="text-center">
+              <div className="mx-auto mb-4 h-12 w-12 rounded-full bg-yellow-100 flex items-center justify-center">
+                <AlertTriangle className="h-6 w-6 text-yellow-600" />
+              </div>
+              <CardTitle className="text-xl">Close {currentSection?.name}?</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-gray-600 text-center">
+                You have answered {visibleQuestions.filter(q => isAnswered(answers[q.id])).length} out of {visibleQuestions.length} questions in this section.
+                Once you move on you cannot come back to it, and its remaining time is not carried over.
+              </p>
+              <div className="flex gap-3">
+                <Button
+                  onClick={() => setShowSectionConfirm(false)}
+                  variant="outline"
+                  className="flex-1"
+                  data-testid="button-cancel-next-section"
+                >
+                  Stay
+                </Button>
+                <Button
+                  onClick={() => {
+                    setShowSectionConfirm(false);
+                    advanceSectionMutation.mutate(attempt.sectionState!.index);
+                  }}
+                  className="flex-1"
+                  data-testid="button-confirm-next-section"
+                >
+                  Next Section
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       <div className="p-8 max-w-5xl mx-auto">
         {/* Header with timer and progress */}
         <div className="mb-6 flex justify-between items-center">
@@ -672,14 +1120,25 @@ export default function TakeTestPage() {
               {attempt.round.name}
             </h1>
             <p className="text-gray-600">
-              Question {currentQuestionIndex + 1} of {attempt.questions.length}
+              {currentSection && (
+                <span data-testid="text-current-section">
+                  Section {attempt.sectionState!.index + 1} of {sections.length}: {currentSection.name} ·{' '}
+                </span>
+              )}
+              Question {currentQuestionIndex + 1} of {visibleQuestions.length}
             </p>
           </div>
           <div className="flex items-center gap-4">
+            {(!isOnline || unsyncedCount > 0) && (
+              <Badge variant="outline" className="flex items-center gap-2 border-amber-300 text-amber-800" data-testid="badge-sync-status">
+                <CloudOff className="h-4 w-4" />
+                {!isOnline ? 'Offline' : 'Syncing'} · {unsyncedCount} unsaved
+              </Badge>
+            )}
             {rules?.autoSubmitOnViolation && (
               <Badge variant="outline" className="flex items-center gap-2">
                 <AlertTriangle className="h-4 w-4 text-yellow-600" />
-                Violations: {violationCount}/3
+                Violations: {enforcement?.violationCount ?? 0}/{(enforcement?.maxWarnings ?? rules.maxTabSwitchWarnings) + 1}
               </Badge>
             )}
             <div className={`flex items-center gap-2 px-4 py-2 rounded-lg ${
@@ -715,6 +1174,15 @@ export default function TakeTestPage() {
           </Alert>
         )}
 
+        {!isOnline && (
+          <Alert className="mb-6 bg-amber-50 border-amber-200" data-testid="alert-offline">
+            <CloudOff className="h-4 w-4 text-amber-600" />
+            <AlertDescription>
+              <strong>You are offline.</strong> Keep answering - your answers are kept on this device and sent as soon as the connection is back.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Progress Bar */}
         <div className="mb-6">
           <Progress value={progress} className="h-2" />
@@ -726,15 +1194,30 @@ export default function TakeTestPage() {
             <div className="flex justify-between items-start">
               <div>
                 <CardTitle className="text-xl" data-testid="heading-question">
-                  Question {currentQuestion.questionNumber}
+                  Question {currentQuestionIndex + 1}
                 </CardTitle>
                 <Badge variant="secondary" className="mt-2">
                   {currentQuestion.points} {currentQuestion.points === 1 ? 'point' : 'points'}
                 </Badge>
               </div>
-              <Badge>
-                {currentQuestion.questionType.replace('_', ' ')}
-              </Badge>
+              <div className="flex flex-col items-end gap-2">
+                <Badge>
+                  {currentQuestion.questionType.replace('_', ' ')}
+                </Badge>
+                {currentSyncState === 'pending' ? (
+                  <span className="flex items-center gap-1 text-xs text-amber-700" data-testid="text-answer-sync">
+                    <CloudOff className="h-3 w-3" /> Not synced yet
+                  </span>
+                ) : currentSyncState === 'failed' ? (
+                  <span className="flex items-center gap-1 text-xs text-red-700" data-testid="text-answer-sync">
+                    <AlertTriangle className="h-3 w-3" /> Not saved
+                  </span>
+                ) : isAnswered(answers[currentQuestion.id]) ? (
+                  <span className="flex items-center gap-1 text-xs text-green-700" data-testid="text-answer-sync">
+                    <Check className="h-3 w-3" /> Saved
+                  </span>
+                ) : null}
+              </div>
             </div>
           </CardHeader>
           <CardContent className="space-y-6">
@@ -743,7 +1226,7 @@ export default function TakeTestPage() {
             </div>
 
             {/* Multiple Choice */}
-            {currentQuestion.questionType === 'multiple_choice' && currentQuestion.options && (
+            {(currentQuestion.questionType === 'multiple_choice' || currentQuestion.questionType === 'mcq') && Array.isArray(currentQuestion.options) && (
               <RadioGroup
                 value={answers[currentQuestion.id] || ''}
                 onValueChange={(value) => handleAnswerChange(currentQuestion.id, value)}
@@ -759,6 +1242,34 @@ export default function TakeTestPage() {
               </RadioGroup>
             )}
 
+            {/* Multiple Select */}
+            {currentQuestion.questionType === 'multiple_select' && Array.isArray(currentQuestion.options) && (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-600">Select all that apply</p>
+                {currentQuestion.options.map((option: any, index: number) => {
+                  const selected = parseSelections(answers[currentQuestion.id]);
+                  return (
+                    <div key={index} className="flex items-center space-x-2 p-3 rounded border hover:bg-gray-50">
+                      <Checkbox
+                        id={`option-${index}`}
+                        checked={selected.includes(String(option))}
+                        onCheckedChange={(checked) => {
+                          const next = checked === true
+                            ? [...selected.filter(s => s !== String(option)), String(option)]
+                            : selected.filter(s => s !== String(option));
+                          handleAnswerChange(currentQuestion.id, JSON.stringify(next));
+                        }}
+                        data-testid={`checkbox-option-${index}`}
+                      />
+                      <Label htmlFor={`option-${index}`} className="flex-1 cursor-pointer">
+                        {String(option)}
+                      </Label>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
             {/* True/False */}
             {currentQuestion.questionType === 'true_false' && (
               <RadioGroup
@@ -776,6 +1287,39 @@ export default function TakeTestPage() {
               </RadioGroup>
             )}
 
+            {/* Coding language and sample test cases */}
+            {currentQuestion.questionType === 'coding' && (
+              <div className="space-y-3">
+                <div className="flex items-center gap-3">
+                  <Label htmlFor="code-language">Language</Label>
+                  <Select
+                    value={codeLanguages[currentQuestion.id] || 'python'}
+                    onValueChange={(value) => handleLanguageChange(currentQuestion.id, value)}
+                  >
+                    <SelectTrigger id="code-language" className="w-48" data-testid="select-language">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CODE_LANGUAGES.map((lang) => (
+                        <SelectItem key={lang.value} value={lang.value}>{lang.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {Array.isArray(currentQuestion.testCases) && currentQuestion.testCases.length > 0 && (
+                  <div className="rounded border bg-gray-50 p-3 text-sm space-y-2" data-testid="sample-test-cases">
+                    <p className="font-medium">Sample test cases (read from standard input, print to standard output)</p>
+                    {(currentQuestion.testCases as any[]).map((testCase, index) => (
+                      <div key={index} className="grid grid-cols-2 gap-2 font-mono text-xs">
+                        <pre className="bg-white border rounded p-2 whitespace-pre-wrap">{formatTestValue(testCase.input)}</pre>
+                        <pre className="bg-white border rounded p-2 whitespace-pre-wrap">{formatTestValue(testCase.expectedOutput ?? testCase.output)}</pre>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Short Answer or Coding */}
             {(currentQuestion.questionType === 'short_answer' || currentQuestion.questionType === 'coding') && (
               <Textarea
@@ -785,7 +1329,9 @@ export default function TakeTestPage() {
                     : 'Type your answer here...'
                 }
                 value={answers[currentQuestion.id] || ''}
-                onChange={(e) => handleAnswerChange(currentQuestion.id, e.target.value)}
+                onChange={(e) => handleTextInput(currentQuestion.id, e)}
+                onPaste={(e) => handlePastedText(currentQuestion.id, e.clipboardData.getData('text'))}
+                onDrop={(e) => handlePastedText(currentQuestion.id, e.dataTransfer.getData('text'))}
                 className="min-h-[200px] font-mono"
                 data-testid="input-answer"
               />
@@ -804,7 +1350,7 @@ export default function TakeTestPage() {
               </Button>
 
               <div className="flex gap-2">
-                {currentQuestionIndex < attempt.questions.length - 1 ? (
+                {!isLastInView ? (
                   <Button
                     onClick={() => setCurrentQuestionIndex(currentQuestionIndex + 1)}
                     data-testid="button-next"
@@ -812,6 +1358,15 @@ export default function TakeTestPage() {
                     Next
                     <ChevronRight className="ml-2 h-4 w-4" />
                   </Button>
+                ) : canAdvanceSection ? (
+                  <Button
+                    onClick={() => setShowSectionConfirm(true)}
+                    disabled={advanceSectionMutation.isPending}
+                    data-testid="button-next-section"
+                  >
+                    {advanceSectionMutation.isPending ? 'Closing section...' : 'Next Section'}
+                    <ChevronRight className="ml-2 h-4 w-4" />
+                  </Button>
                 ) : (
                   <Button
                     onClick={handleSubmit}
@@ -831,24 +1386,34 @@ export default function TakeTestPage() {
         {/* Question Navigator */}
         <Card className="mt-6">
           <CardHeader>
-            <CardTitle className="text-sm">Question Navigator</CardTitle>
+            <CardTitle className="text-sm">
+              Question Navigator{currentSection ? ` - ${currentSection.name}` : ''}
+            </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-10 gap-2">
-              {attempt.questions.map((q, index) => (
+              {visibleQuestions.map((q, index) => (
                 <button
                   key={q.id}
                   onClick={() => setCurrentQuestionIndex(index)}
-                  className={`p-2 rounded text-sm font-medium transition-colors ${
+                  className={`relative p-2 rounded text-sm font-medium transition-colors ${
                     index === currentQuestionIndex
                       ? 'bg-blue-600 text-white'
-                      : answers[q.id]
+                      : isAnswered(answers[q.id])
                       ? 'bg-green-100 text-green-900 hover:bg-green-200'
                       : 'bg-gray-100 text-gray-900 hover:bg-gray-200'
                   }`}
                   data-testid={`button-question-${index + 1}`}
                 >
                   {index + 1}
+                  {syncState[q.id] && (
+                    <span
+                      className={`absolute top-0.5 right-0.5 h-2 w-2 rounded-full ${
+                        syncState[q.id] === 'failed' ? 'bg-red-500' : 'bg-amber-500'
+                      }`}
+                      data-testid={`indicator-unsynced-${index + 1}`}
+                    />
+                  )}
                 </button>
               ))}
             </div>
@@ -865,6 +1430,10 @@ export default function TakeTestPage() {
                 <div className="w-4 h-4 bg-blue-600 rounded"></div>
                 <span>Current</span>
               </div>
+              <div className="flex items-center gap-2">
+                <div className="w-2 h-2 bg-amber-500 rounded-full"></div>
+                <span>Not synced</span>
+              </div>
             </div>
           </CardContent>
         </Card>
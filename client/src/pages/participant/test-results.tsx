@@ -1,11 +1,13 @@
 import { useParams, useLocation } from 'wouter';
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation } from '@tanstack/react-query';
 import ParticipantLayout from '@/components/layouts/ParticipantLayout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { ArrowLeft, CheckCircle, XCircle, Clock, AlertTriangle, Trophy } from 'lucide-react';
+import { ArrowLeft, CheckCircle, XCircle, Clock, AlertTriangle, Trophy, RotateCcw } from 'lucide-react';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
 import type { TestAttempt, Question, Answer, Round, Event } from '@shared/schema';
 
 interface TestAttemptWithDetails extends TestAttempt {
@@ -14,17 +16,56 @@ interface TestAttemptWithDetails extends TestAttempt {
   answers: Answer[];
   event?: Event;
   eventEnded?: boolean;
+  sectionScores?: SectionScore[] | null;
+}
+
+interface SectionScore {
+  sectionId: string;
+  name: string;
+  score: number;
+  maxScore: number;
+  answered: number;
+  questionCount: number;
+}
+
+// Multi-select answers are stored as a JSON array of the ticked options
+function formatAnswer(questionType: string, value: string): string {
+  if (questionType !== 'multiple_select') return value;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.join(', ') : value;
+  } catch {
+    return value;
+  }
 }
 
 export default function TestResultsPage() {
   const { attemptId } = useParams();
   const [, setLocation] = useLocation();
+  const { toast } = useToast();
 
   const { data: attempt, isLoading } = useQuery<TestAttemptWithDetails>({
     queryKey: ['/api/attempts', attemptId],
     enabled: !!attemptId,
   });
 
+  const practiceAgainMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/events/${attempt!.round.eventId}/rounds/${attempt!.roundId}/start`, {});
+      return response.json();
+    },
+    onSuccess: (next: TestAttempt) => {
+      setLocation(`/participant/test/${next.id}`);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Failed to start practice',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
   if (isLoading) {
     return (
       <ParticipantLayout>
@@ -93,6 +134,7 @@ export default function TestResultsPage() {
     );
   }
 
+  const isPractice = attempt.round.roundType === 'practice';
   const scorePercentage = attempt.maxScore ? (attempt.totalScore! / attempt.maxScore) * 100 : 0;
   const totalQuestions = attempt.questions.length;
   const answeredQuestions = attempt.answers.length;
@@ -129,6 +171,11 @@ export default function TestResultsPage() {
             Test Results
           </h1>
           <p className="text-gray-600 mt-1">{attempt.round.name}</p>
+          {isPractice && (
+            <Badge variant="secondary" className="mt-2" data-testid="badge-practice">
+              Practice attempt · not counted towards results
+            </Badge>
+          )}
         </div>
 
         {/* Score Overview */}
@@ -188,6 +235,31 @@ export default function TestResultsPage() {
           </Card>
         </div>
 
+        {/* Section Breakdown */}
+        {attempt.sectionScores && attempt.sectionScores.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Section Scores</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {attempt.sectionScores.map((section) => {
+                const percentage = section.maxScore > 0 ? Math.max(0, (section.score / section.maxScore) * 100) : 0;
+                return (
+                  <div key={section.sectionId} data-testid={`section-score-${section.sectionId}`}>
+                    <div className="flex justify-between items-center mb-1">
+                      <span className="font-medium">{section.name}</span>
+                      <span className="text-sm text-gray-600">
+                        {section.score} / {section.maxScore} · {section.answered} of {section.questionCount} answered
+                      </span>
+                    </div>
+                    <Progress value={percentage} className="h-2" />
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Test Information */}
         <Card className="mb-6">
           <CardHeader>
@@ -261,7 +333,11 @@ export default function TestResultsPage() {
             {attempt.questions.map((question, index) => {
               const answer = attempt.answers.find(a => a.questionId === question.id);
               const isCorrect = answer?.isCorrect;
-              const isAutoGraded = question.questionType === 'multiple_choice' || question.questionType === 'true_false';
+              const testResults = answer?.testResults || [];
+              const isAutoGraded = ['multiple_choice', 'mcq', 'true_false', 'multiple_select'].includes(question.questionType) || testResults.length > 0;
+              const correctAnswerText = Array.isArray(question.correctAnswers) && question.correctAnswers.length > 0
+                ? question.correctAnswers.join(', ')
+                : question.correctAnswer;
 
               return (
                 <div
@@ -304,15 +380,39 @@ export default function TestResultsPage() {
                     <div className="mt-3 pl-9">
                       <div className="text-sm">
                         <span className="text-gray-600">Your Answer: </span>
-                        <span className="font-medium">{answer.answer}</span>
+                        <span className="font-medium">{formatAnswer(question.questionType, answer.answer)}</span>
                       </div>
-                      {isAutoGraded && question.correctAnswer && (
+                      {isAutoGraded && correctAnswerText && (
                         <div className="text-sm mt-1">
                           <span className="text-gray-600">Correct Answer: </span>
-                          <span className="font-medium text-green-600">{question.correctAnswer}</span>
+                          <span className="font-medium text-green-600">{correctAnswerText}</span>
+                        </div>
+                      )}
+                      {testResults.length > 0 && (
+                        <div className="mt-2 space-y-1" data-testid={`test-results-${index + 1}`}>
+                          <div className="text-sm text-gray-600">
+                            Test cases passed: {testResults.filter(r => r.passed).length} / {testResults.length}
+                          </div>
+                          <div className="flex flex-wrap gap-2">
+                            {testResults.map((result) => (
+                              <Badge
+                                key={result.index}
+                                variant={result.passed ? 'default' : 'destructive'}
+                                title={result.stderr || undefined}
+                              >
+                                #{result.index + 1}{result.hidden ? ' (hidden)' : ''}: {result.status.replace(/_/g, ' ')}
+                              </Badge>
+                            ))}
+                          </div>
                         </div>
                       )}
-                      {!isAutoGraded && (
+                      {answer.feedback && (
+                        <div className="text-sm mt-1" data-testid={`text-feedback-${index + 1}`}>
+                          <span className="text-gray-600">Feedback: </span>
+                          <span>{answer.feedback}</span>
+                        </div>
+                      )}
+                      {!isAutoGraded && !answer.gradedAt && (
                         <div className="text-sm mt-1 text-gray-500 italic">
                           This answer requires manual grading
                         </div>
@@ -325,14 +425,20 @@ export default function TestResultsPage() {
                       <div className="text-sm text-gray-500 italic">
                         Not answered
                       </div>
-                      {isAutoGraded && question.correctAnswer && (
+                      {isAutoGraded && correctAnswerText && (
                         <div className="text-sm mt-1">
                           <span className="text-gray-600">Correct Answer: </span>
-                          <span className="font-medium text-green-600">{question.correctAnswer}</span>
+                          <span className="font-medium text-green-600">{correctAnswerText}</span>
                         </div>
                       )}
                     </div>
                   )}
+                  {question.explanation && (
+                    <div className="mt-2 pl-9 text-sm" data-testid={`text-explanation-${index + 1}`}>
+                      <span className="text-gray-600">Explanation: </span>
+                      <span className="whitespace-pre-wrap">{question.explanation}</span>
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -340,15 +446,27 @@ export default function TestResultsPage() {
         </Card>
 
         <div className="mt-6 flex justify-center gap-4">
-          <Button
-            onClick={() => setLocation(`/participant/rounds/${attempt.roundId}/leaderboard`)}
-            size="lg"
-            variant="default"
-            data-testid="button-leaderboard"
-          >
-            <Trophy className="mr-2 h-5 w-5" />
-            See Leaderboard
-          </Button>
+          {isPractice ? (
+            <Button
+              onClick={() => practiceAgainMutation.mutate()}
+              disabled={practiceAgainMutation.isPending}
+              size="lg"
+              data-testid="button-practice-again"
+            >
+              <RotateCcw className="mr-2 h-5 w-5" />
+              {practiceAgainMutation.isPending ? 'Starting...' : 'Practice Again'}
+            </Button>
+          ) : (
+            <Button
+              onClick={() => setLocation(`/participant/rounds/${attempt.roundId}/leaderboard`)}
+              size="lg"
+              variant="default"
+              data-testid="button-leaderboard"
+            >
+              <Trophy className="mr-2 h-5 w-5" />
+              See Leaderboard
+            </Button>
+          )}
           <Button
             onClick={() => setLocation('/participant/dashboard')}
             size="lg"
@@ -2,7 +2,6 @@ import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useRoute } from "wouter";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
@@ -10,9 +9,16 @@ import { Badge } from "@/components/ui/badge";
 import { CheckCircle, AlertCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import type { RegistrationForm, Event } from "@shared/schema";
+import { visibleFields, checkFieldValue } from "@/lib/registrationFields";
+import { checkTeamEntry, cleanTeamEntry, describeTeamSize, emptyTeamEntry, isTeamEvent } from "@/lib/teams";
+import { describeSeats, isFull, type EventSeats } from "@/lib/capacity";
+import { calculateFee, checkReference, formatRupees } from "@/lib/payments";
+import RegistrationFieldInput from "@/components/RegistrationFieldInput";
+import TeamEntryInput from "@/components/TeamEntryInput";
+import PaymentProofInput from "@/components/PaymentProofInput";
+import type { RegistrationForm, RegistrationFieldValue, Event, FeeCombo, TeamEntry } from "@shared/schema";
 
-interface EventWithRounds extends Event {
+interface EventWithRounds extends Event, EventSeats {
   rounds?: Array<{ startTime: Date; endTime: Date }>;
 }
 
@@ -20,10 +26,18 @@ export default function PublicRegistrationFormPage() {
   const { toast } = useToast();
   const [, params] = useRoute("/register/:slug");
   const slug = params?.slug || "";
-  const [formData, setFormData] = useState<Record<string, string>>({});
+  const [formData, setFormData] = useState<Record<string, RegistrationFieldValue>>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [selectedTech, setSelectedTech] = useState<string | null>(null);
   const [selectedNonTech, setSelectedNonTech] = useState<string | null>(null);
+  const [teams, setTeams] = useState<Record<string, TeamEntry>>({});
+  const [teamErrors, setTeamErrors] = useState<Record<string, string>>({});
   const [submitted, setSubmitted] = useState(false);
+  const [waitlistedFor, setWaitlistedFor] = useState<string[]>([]);
+  const [paymentReference, setPaymentReference] = useState("");
+  const [receiptImage, setReceiptImage] = useState<string | null>(null);
+  const [paymentErrors, setPaymentErrors] = useState<{ reference?: string; receipt?: string }>({});
+  const [paidAmount, setPaidAmount] = useState(0);
 
   const { data: form, isLoading: isLoadingForm } = useQuery<RegistrationForm>({
     queryKey: [`/api/registration-forms/${slug}`],
@@ -35,21 +49,47 @@ export default function PublicRegistrationFormPage() {
     enabled: !!form && form.isActive,
   });
 
+  const { data: combos } = useQuery<FeeCombo[]>({
+    queryKey: ['/api/fee-combos'],
+    enabled: !!form && form.isActive,
+  });
+
   const submitMutation = useMutation({
-    mutationFn: async (payload: { submittedData: Record<string, string>; selectedEvents: string[] }) => {
-      await apiRequest('POST', `/api/registration-forms/${slug}/submit`, payload);
+    mutationFn: async (payload: {
+      submittedData: Record<string, RegistrationFieldValue>;
+      selectedEvents: string[];
+      teams: Record<string, TeamEntry>;
+      paymentReference?: string;
+      receiptImage?: string | null;
+    }) => {
+      const res = await apiRequest('POST', `/api/registration-forms/${slug}/submit`, payload);
+      return await res.json() as { waitlistedFor?: string[]; feeAmount?: number };
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
+      const fullEvents = result.waitlistedFor || [];
+      setWaitlistedFor(fullEvents);
+      setPaidAmount(result.feeAmount || 0);
       setSubmitted(true);
       toast({
         title: "Success",
-        description: "Your registration has been submitted successfully",
+        description: fullEvents.length > 0
+          ? "Your registration has been added to the waitlist"
+          : "Your registration has been submitted successfully",
       });
     },
     onError: (error: Error) => {
+      // Field problems the server found come back as "400: { message, errors }"
+      let description = error.message;
+      try {
+        const body = JSON.parse(error.message.slice(error.message.indexOf(':') + 1));
+        if (body.errors) setFieldErrors(body.errors);
+        description = body.message || description;
+      } catch {
+        // Not a JSON body; show the message as it is
+      }
       toast({
         title: "Error",
-        description: error.message,
+        description,
         variant: "destructive",
       });
     },
@@ -57,6 +97,8 @@ export default function PublicRegistrationFormPage() {
 
   const technicalEvents = events?.filter(e => e.category === 'technical') || [];
   const nonTechnicalEvents = events?.filter(e => e.category === 'non_technical') || [];
+  const selectedTeamEvents = events?.filter(e => (e.id === selectedTech || e.id === selectedNonTech) && isTeamEvent(e)) || [];
+  const quote = calculateFee(events?.filter(e => e.id === selectedTech || e.id === selectedNonTech) || [], combos || []);
 
   const hasTimeOverlap = (event1Id: string, event2Id: string): boolean => {
     if (!events) return false;
@@ -99,41 +141,23 @@ export default function PublicRegistrationFormPage() {
     return `${startDate.toLocaleDateString()} ${startDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} - ${endDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
   };
 
-  const validateEmail = (email: string): boolean => {
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    return emailRegex.test(email);
-  };
-
-  const validatePhone = (phone: string): boolean => {
-    const phoneRegex = /^[6-9]\d{9}$/;
-    return phoneRegex.test(phone.replace(/[\s\-\(\)]/g, ''));
-  };
-
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!form) return;
 
-    const errors: string[] = [];
-    
-    form.formFields.forEach((field) => {
-      const value = formData[field.id]?.trim();
-      
-      if (field.required && !value) {
-        errors.push(`${field.label} is required`);
-        return;
-      }
-
-      if (value) {
-        if (field.type === 'email' && !validateEmail(value)) {
-          errors.push(`Please enter a valid email address for ${field.label}`);
-        }
-        
-        if (field.type === 'tel' && !validatePhone(value)) {
-          errors.push(`Please enter a valid 10-digit mobile number for ${field.label}`);
-        }
-      }
+    // Only the fields the participant can see are checked and sent
+    const shown = visibleFields(form.formFields, formData);
+    const nextFieldErrors: Record<string, string> = {};
+    const submittedData: Record<string, RegistrationFieldValue> = {};
+    shown.forEach((field) => {
+      const value = formData[field.id];
+      const error = checkFieldValue(field, value);
+      if (error) nextFieldErrors[field.id] = error;
+      if (value !== undefined) submittedData[field.id] = typeof value === 'string' ? value.trim() : value;
     });
+    setFieldErrors(nextFieldErrors);
+    const errors = Object.values(nextFieldErrors);
 
     const selectedEvents = [selectedTech, selectedNonTech].filter(Boolean) as string[];
     
@@ -141,6 +165,30 @@ export default function PublicRegistrationFormPage() {
       errors.push("Please select at least one event");
     }
 
+    // The participant filling in the form leads each team they enter
+    const emailField = form.formFields.find((field) => field.role === 'email');
+    const leaderEmail = emailField && typeof formData[emailField.id] === 'string' ? (formData[emailField.id] as string) : '';
+    const nextTeamErrors: Record<string, string> = {};
+    const submittedTeams: Record<string, TeamEntry> = {};
+    selectedTeamEvents.forEach((event) => {
+      const entry = teams[event.id] ?? emptyTeamEntry(event);
+      const error = checkTeamEntry(event, entry, leaderEmail);
+      if (error) nextTeamErrors[event.id] = error;
+      submittedTeams[event.id] = cleanTeamEntry(entry);
+    });
+    setTeamErrors(nextTeamErrors);
+    errors.push(...Object.values(nextTeamErrors));
+
+    // The server prices the registration itself; proof is only asked for when there is something to pay
+    const nextPaymentErrors: { reference?: string; receipt?: string } = {};
+    if (quote.amount > 0) {
+      const referenceError = checkReference(paymentReference);
+      if (referenceError) nextPaymentErrors.reference = referenceError;
+      if (!receiptImage) nextPaymentErrors.receipt = "Upload a screenshot of your payment";
+    }
+    setPaymentErrors(nextPaymentErrors);
+    errors.push(...Object.values(nextPaymentErrors));
+
     if (errors.length > 0) {
       toast({
         title: "Validation Error",
@@ -150,11 +198,22 @@ export default function PublicRegistrationFormPage() {
       return;
     }
 
-    submitMutation.mutate({ submittedData: formData, selectedEvents });
+    submitMutation.mutate({
+      submittedData,
+      selectedEvents,
+      teams: submittedTeams,
+      ...(quote.amount > 0 ? { paymentReference, receiptImage } : {}),
+    });
   };
 
-  const handleChange = (fieldId: string, value: string) => {
+  const handleChange = (fieldId: string, value: RegistrationFieldValue) => {
     setFormData((prev) => ({ ...prev, [fieldId]: value }));
+    setFieldErrors(({ [fieldId]: _, ...rest }) => rest);
+  };
+
+  const handleTeamChange = (eventId: string, entry: TeamEntry) => {
+    setTeams((prev) => ({ ...prev, [eventId]: entry }));
+    setTeamErrors(({ [eventId]: _, ...rest }) => rest);
   };
 
   if (isLoadingForm) {
@@ -204,13 +263,23 @@ export default function PublicRegistrationFormPage() {
         <Card className="max-w-lg">
           <CardContent className="p-8 text-center">
             <CheckCircle className="h-20 w-20 text-green-600 mx-auto mb-4" data-testid="success-icon" />
-            <h2 className="text-3xl font-bold mb-3" data-testid="success-title">Registration Submitted!</h2>
+            <h2 className="text-3xl font-bold mb-3" data-testid="success-title">
+              {waitlistedFor.length > 0 ? "You're on the Waitlist" : "Registration Submitted!"}
+            </h2>
             <p className="text-muted-foreground mb-4" data-testid="success-message">
-              Thank you for registering. Your application is now pending approval from the registration committee.
+              {waitlistedFor.length > 0
+                ? `Thank you for registering. ${waitlistedFor.join(", ")} ${waitlistedFor.length > 1 ? "are" : "is"} full right now, so your registration is on the waitlist.`
+                : "Thank you for registering. Your application is now pending approval from the registration committee."}
             </p>
             <div className="bg-muted/50 rounded-lg p-4 text-sm text-left">
               <p className="font-semibold mb-2">What happens next?</p>
               <ul className="space-y-1 text-muted-foreground">
+                {waitlistedFor.length > 0 && (
+                  <li>• You will be emailed if a seat opens up and your registration moves off the waitlist</li>
+                )}
+                {paidAmount > 0 && (
+                  <li>• Your payment of {formatRupees(paidAmount)} will be checked against the bank statement</li>
+                )}
                 <li>• Your registration will be reviewed by the registration committee</li>
                 <li>• Login credentials will be provided to you after approval</li>
                 <li>• Please contact the organizing team for updates on your registration status</li>
@@ -243,22 +312,14 @@ export default function PublicRegistrationFormPage() {
               <CardDescription>Please fill in your details below</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
-              {form.formFields.map((field) => (
-                <div key={field.id} className="space-y-2" data-testid={`field-${field.id}`}>
-                  <Label htmlFor={field.id} className="text-sm font-medium">
-                    {field.label} {field.required && <span className="text-destructive">*</span>}
-                  </Label>
-                  <Input
-                    id={field.id}
-                    type={field.type}
-                    placeholder={field.placeholder || ''}
-                    value={formData[field.id] || ""}
-                    onChange={(e) => handleChange(field.id, e.target.value)}
-                    required={field.required}
-                    data-testid={`input-${field.id}`}
-                    className="max-w-xl"
-                  />
-                </div>
+              {visibleFields(form.formFields, formData).map((field) => (
+                <RegistrationFieldInput
+                  key={field.id}
+                  field={field}
+                  value={formData[field.id]}
+                  onChange={(value) => handleChange(field.id, value)}
+                  error={fieldErrors[field.id]}
+                />
               ))}
             </CardContent>
           </Card>
@@ -307,16 +368,36 @@ export default function PublicRegistrationFormPage() {
                                   className="mt-1"
                                 />
                                 <div className="flex-1">
-                                  <Label
-                                    htmlFor={`tech-${event.id}`}
-                                    className={`font-semibold text-base ${disabled ? 'cursor-not-allowed' : 'cursor-pointer'}`}
-                                  >
-                                    {event.name}
-                                  </Label>
+                                  <div className="flex items-start justify-between gap-2">
+                                    <Label
+                                      htmlFor={`tech-${event.id}`}
+                                      className={`font-semibold text-base ${disabled ? 'cursor-not-allowed' : 'cursor-pointer'}`}
+                                    >
+                                      {event.name}
+                                    </Label>
+                                    <span className="text-sm font-semibold whitespace-nowrap" data-testid={`text-fee-${event.id}`}>
+                                      {event.fee > 0 ? formatRupees(event.fee) : "Free"}
+                                    </span>
+                                  </div>
                                   {event.description && (
                                     <p className="text-sm text-muted-foreground mt-1">{event.description}</p>
                                   )}
                                   <p className="text-xs text-muted-foreground mt-2">📅 {formatEventTime(event)}</p>
+                                  {isTeamEvent(event) && (
+                                    <Badge variant="outline" className="mt-2">Team event · {describeTeamSize(event)}</Badge>
+                                  )}
+                                  {describeSeats(event) && (
+                                    <Badge
+                                      variant={isFull(event) ? "destructive" : "secondary"}
+                                      className={isTeamEvent(event) ? "mt-2 ml-2" : "mt-2"}
+                                      data-testid={`badge-seats-${event.id}`}
+                                    >
+                                      {describeSeats(event)}
+                                    </Badge>
+                                  )}
+                                  {isFull(event) && (
+                                    <p className="text-xs text-muted-foreground mt-2">You can still register and join the waitlist.</p>
+                                  )}
                                   {disabled && (
                                     <p className="text-xs text-destructive mt-2">⚠️ Time conflict with selected event</p>
                                   )}
@@ -359,16 +440,36 @@ export default function PublicRegistrationFormPage() {
                                   className="mt-1"
                                 />
                                 <div className="flex-1">
-                                  <Label
-                                    htmlFor={`nontech-${event.id}`}
-                                    className={`font-semibold text-base ${disabled ? 'cursor-not-allowed' : 'cursor-pointer'}`}
-                                  >
-                                    {event.name}
-                                  </Label>
+                                  <div className="flex items-start justify-between gap-2">
+                                    <Label
+                                      htmlFor={`nontech-${event.id}`}
+                                      className={`font-semibold text-base ${disabled ? 'cursor-not-allowed' : 'cursor-pointer'}`}
+                                    >
+                                      {event.name}
+                                    </Label>
+                                    <span className="text-sm font-semibold whitespace-nowrap" data-testid={`text-fee-${event.id}`}>
+                                      {event.fee > 0 ? formatRupees(event.fee) : "Free"}
+                                    </span>
+                                  </div>
                                   {event.description && (
                                     <p className="text-sm text-muted-foreground mt-1">{event.description}</p>
                                   )}
                                   <p className="text-xs text-muted-foreground mt-2">📅 {formatEventTime(event)}</p>
+                                  {isTeamEvent(event) && (
+                                    <Badge variant="outline" className="mt-2">Team event · {describeTeamSize(event)}</Badge>
+                                  )}
+                                  {describeSeats(event) && (
+                                    <Badge
+                                      variant={isFull(event) ? "destructive" : "secondary"}
+                                      className={isTeamEvent(event) ? "mt-2 ml-2" : "mt-2"}
+                                      data-testid={`badge-seats-${event.id}`}
+                                    >
+                                      {describeSeats(event)}
+                                    </Badge>
+                                  )}
+                                  {isFull(event) && (
+                                    <p className="text-xs text-muted-foreground mt-2">You can still register and join the waitlist.</p>
+                                  )}
                                   {disabled && (
                                     <p className="text-xs text-destructive mt-2">⚠️ Time conflict with selected event</p>
                                   )}
@@ -391,6 +492,57 @@ export default function PublicRegistrationFormPage() {
             </Card>
           )}
 
+          {selectedTeamEvents.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-xl">Team Details</CardTitle>
+                <CardDescription>
+                  You lead the team for each team event you picked. Your teammates get their own login details once your registration is approved.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {selectedTeamEvents.map((event) => (
+                  <TeamEntryInput
+                    key={event.id}
+                    event={event}
+                    value={teams[event.id] ?? emptyTeamEntry(event)}
+                    onChange={(entry) => handleTeamChange(event.id, entry)}
+                    error={teamErrors[event.id]}
+                  />
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {quote.amount > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-xl">Payment</CardTitle>
+                <CardDescription>
+                  Pay the fee before submitting. The registration committee checks your transaction ID against the bank statement before approving.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <PaymentProofInput
+                  quote={quote}
+                  upiId={form.upiId}
+                  payeeName={form.title}
+                  reference={paymentReference}
+                  onReferenceChange={(value) => {
+                    setPaymentReference(value);
+                    setPaymentErrors(({ reference: _, ...rest }) => rest);
+                  }}
+                  receipt={receiptImage}
+                  onReceiptChange={(value) => {
+                    setReceiptImage(value);
+                    setPaymentErrors(({ receipt: _, ...rest }) => rest);
+                  }}
+                  errors={paymentErrors}
+                />
+              </CardContent>
+            </Card>
+          )}
+
           <div className="flex justify-end gap-3">
             <Button
               type="submit"
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { CheckCircle, Clock, Download, IndianRupee } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import RegistrationCommitteeLayout from "@/components/layouts/RegistrationCommitteeLayout";
+import { apiRequest } from "@/lib/queryClient";
+import { formatRupees, type CollectionLine, type CollectionsSummary } from "@/lib/payments";
+
+function CollectionTable({ lines, label, testId }: { lines: CollectionLine[]; label: string; testId: string }) {
+  return (
+    <Table data-testid={testId}>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead className="text-right">Registrations</TableHead>
+          <TableHead className="text-right">Expected</TableHead>
+          <TableHead className="text-right">Received</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {lines.map((line) => (
+          <TableRow key={line.label}>
+            <TableCell className="font-medium">{line.label}</TableCell>
+            <TableCell className="text-right">{line.count}</TableCell>
+            <TableCell className="text-right">{formatRupees(line.expected)}</TableCell>
+            <TableCell className="text-right">{formatRupees(line.received)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function CollectionsPage() {
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState(false);
+
+  const { data: summary, isLoading } = useQuery<CollectionsSummary>({
+    queryKey: ['/api/payments/summary'],
+  });
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const response = await apiRequest("GET", "/api/payments/summary/export");
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `collections-${new Date().toISOString().split('T')[0]}.xlsx`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to export collections",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <RegistrationCommitteeLayout>
+      <div className="container mx-auto p-6 max-w-6xl" data-testid="page-collections">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <h1 className="text-3xl font-bold" data-testid="heading-collections">Collections</h1>
+            <p className="text-muted-foreground">Registration fees expected and received</p>
+          </div>
+          <Button variant="outline" onClick={handleExport} disabled={exporting} data-testid="button-export-collections">
+            <Download className="h-4 w-4 mr-2" />
+            {exporting ? "Exporting..." : "Export Excel"}
+          </Button>
+        </div>
+
+        {isLoading || !summary ? (
+          <div data-testid="loading-collections">Loading collections...</div>
+        ) : (
+          <>
+            <div className="grid gap-6 md:grid-cols-3 mb-6">
+              <Card data-testid="card-expected">
+                <CardHeader className="flex flex-row items-center justify-between pb-2">
+                  <CardTitle className="text-sm font-medium">Expected</CardTitle>
+                  <IndianRupee className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold" data-testid="stat-expected">{formatRupees(summary.expected)}</div>
+                  <p className="text-xs text-muted-foreground">Pending, waitlisted and approved registrations</p>
+                </CardContent>
+              </Card>
+
+              <Card data-testid="card-received">
+                <CardHeader className="flex flex-row items-center justify-between pb-2">
+                  <CardTitle className="text-sm font-medium">Received</CardTitle>
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold text-green-600" data-testid="stat-received">{formatRupees(summary.received)}</div>
+                  <p className="text-xs text-muted-foreground">Matched on a bank statement</p>
+                </CardContent>
+              </Card>
+
+              <Card data-testid="card-outstanding">
+                <CardHeader className="flex flex-row items-center justify-between pb-2">
+                  <CardTitle className="text-sm font-medium">Outstanding</CardTitle>
+                  <Clock className="h-4 w-4 text-yellow-600" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold text-yellow-600" data-testid="stat-outstanding">{formatRupees(summary.outstanding)}</div>
+                  <p className="text-xs text-muted-foreground">Expected but not yet verified</p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>By Status</CardTitle>
+                  <CardDescription>Declined and withdrawn registrations show any money received before they left</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <CollectionTable lines={summary.byStatus} label="Status" testId="table-by-status" />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>By Event</CardTitle>
+                  <CardDescription>Combo payments are shared across their events in proportion to each event's fee</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <CollectionTable lines={summary.byEvent} label="Event" testId="table-by-event" />
+                </CardContent>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </RegistrationCommitteeLayout>
+  );
+}
@@ -7,12 +7,13 @@ import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import RegistrationCommitteeLayout from "@/components/layouts/RegistrationCommitteeLayout";
-import type { Registration, Event } from "@shared/schema";
+import type { RegistrationWithDetails } from "@/lib/registrationFields";
+import type { Event } from "@shared/schema";
 
 export default function RegistrationCommitteeDashboard() {
   const { toast } = useToast();
   
-  const { data: registrations } = useQuery<Registration[]>({
+  const { data: registrations } = useQuery<RegistrationWithDetails[]>({
     queryKey: ['/api/registrations'],
   });
 
@@ -23,6 +24,7 @@ export default function RegistrationCommitteeDashboard() {
   const totalRegistrations = registrations?.length || 0;
   const pendingRegistrations = registrations?.filter(r => r.paymentStatus === 'pending').length || 0;
   const approvedRegistrations = registrations?.filter(r => r.paymentStatus === 'paid').length || 0;
+  const waitlistedRegistrations = registrations?.filter(r => r.paymentStatus === 'waitlisted').length || 0;
 
   const approvedList = registrations?.filter(r => r.paymentStatus === 'paid') || [];
 
@@ -31,26 +33,6 @@ export default function RegistrationCommitteeDashboard() {
     return event?.name || eventId;
   };
 
-  const getFieldValue = (submittedData: Record<string, string>, fieldLabel: string): string => {
-    const entries = Object.entries(submittedData);
-    
-    if (fieldLabel.toLowerCase().includes('name')) {
-      const nameEntry = entries.find(([k, v]) => 
-        v && typeof v === 'string' && v.includes(' ') && !v.includes('@')
-      );
-      return nameEntry ? nameEntry[1] : 'N/A';
-    }
-    
-    if (fieldLabel.toLowerCase().includes('email')) {
-      const emailEntry = entries.find(([k, v]) => 
-        v && typeof v === 'string' && v.includes('@')
-      );
-      return emailEntry ? emailEntry[1] : 'N/A';
-    }
-    
-    return 'N/A';
-  };
-
   const downloadPDF = () => {
     if (approvedList.length === 0) {
       toast({
@@ -62,10 +44,9 @@ export default function RegistrationCommitteeDashboard() {
     }
 
     const content = approvedList.map((reg, index) => {
-      const name = getFieldValue(reg.submittedData, 'name');
-      const email = getFieldValue(reg.submittedData, 'email');
+      const college = [reg.participantCollege, reg.participantRollNumber].filter(Boolean).join(', ');
       const eventNames = reg.selectedEvents?.map(id => getEventName(id)).join(', ') || 'None';
-      return `${index + 1}. ${name} - ${email} - Events: ${eventNames}`;
+      return `${index + 1}. ${reg.participantName} - ${reg.participantEmail}${college ? ` - ${college}` : ''} - Events: ${eventNames}`;
     }).join('\n');
 
     const fullContent = `APPROVED PARTICIPANTS LIST\n\nTotal Approved: ${approvedList.length}\n\n${content}`;
@@ -112,6 +93,11 @@ export default function RegistrationCommitteeDashboard() {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold text-yellow-600" data-testid="stat-pending">{pendingRegistrations}</div>
+              {waitlistedRegistrations > 0 && (
+                <p className="text-xs text-muted-foreground" data-testid="stat-waitlisted">
+                  + {waitlistedRegistrations} on the waitlist
+                </p>
+              )}
             </CardContent>
           </Card>
 
@@ -172,10 +158,10 @@ export default function RegistrationCommitteeDashboard() {
                     <TableRow key={registration.id} data-testid={`row-approved-${registration.id}`}>
                       <TableCell>{index + 1}</TableCell>
                       <TableCell data-testid={`text-name-${registration.id}`}>
-                        {getFieldValue(registration.submittedData, 'name')}
+                        {registration.participantName}
                       </TableCell>
                       <TableCell data-testid={`text-email-${registration.id}`}>
-                        {getFieldValue(registration.submittedData, 'email')}
+                        {registration.participantEmail}
                       </TableCell>
                       <TableCell data-testid={`text-events-${registration.id}`}>
                         <div className="flex flex-wrap gap-1">
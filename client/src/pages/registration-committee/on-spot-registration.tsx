@@ -15,7 +15,10 @@ import { Copy, CheckCircle, Trash2, Pencil, UserPlus, Download } from "lucide-re
 import { useToast } from "@/hooks/use-toast";
 import RegistrationCommitteeLayout from "@/components/layouts/RegistrationCommitteeLayout";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Event, User, EventCredential } from "@shared/schema";
+import { checkTeamEntry, cleanTeamEntry, describeTeamSize, emptyTeamEntry, isTeamEvent } from "@/lib/teams";
+import { describeSeats, isFull, type EventSeats } from "@/lib/capacity";
+import TeamEntryInput from "@/components/TeamEntryInput";
+import type { Event, User, EventCredential, TeamEntry } from "@shared/schema";
 
 const onSpotFormSchema = z.object({
   fullName: z.string().min(1, "Full name is required"),
@@ -35,8 +38,11 @@ export default function OnSpotRegistrationPage() {
   const [credentials, setCredentials] = useState<{
     participant: { id: string; fullName: string; email: string; phone?: string | null };
     mainCredentials: { username: string; password: string; email: string };
-    eventCredentials: Array<{ eventId: string; eventName: string; eventUsername: string; eventPassword: string }>;
+    eventCredentials: Array<{ eventId: string; eventName: string; teamName: string | null; eventUsername: string; eventPassword: string }>;
+    teamMembers: Array<{ eventId: string; eventName: string; teamName: string; fullName: string; email: string; eventUsername: string; eventPassword: string }>;
   } | null>(null);
+  const [teams, setTeams] = useState<Record<string, TeamEntry>>({});
+  const [teamErrors, setTeamErrors] = useState<Record<string, string>>({});
   const [showCredentials, setShowCredentials] = useState(false);
   const [editingParticipant, setEditingParticipant] = useState<OnSpotParticipant | null>(null);
   const [deletingParticipant, setDeletingParticipant] = useState<OnSpotParticipant | null>(null);
@@ -65,12 +71,20 @@ export default function OnSpotRegistrationPage() {
     queryKey: ['/api/events'],
   });
 
+  // Seat counters; only events on the active registration form have them
+  const { data: seatEvents } = useQuery<Record<'technical' | 'non_technical', Array<{ id: string } & EventSeats>>>({
+    queryKey: ['/api/events/for-registration-grouped'],
+    retry: false,
+  });
+  const seatsFor = (eventId: string) =>
+    [...(seatEvents?.technical || []), ...(seatEvents?.non_technical || [])].find((e) => e.id === eventId);
+
   const { data: participants, isLoading } = useQuery<OnSpotParticipant[]>({
     queryKey: ['/api/registration-committee/participants'],
   });
 
   const createMutation = useMutation({
-    mutationFn: async (data: OnSpotFormData) => {
+    mutationFn: async (data: OnSpotFormData & { teams: Record<string, TeamEntry> }) => {
       const response = await apiRequest('POST', '/api/registration-committee/participants', data);
       const result = await response.json();
       return result;
@@ -79,7 +93,9 @@ export default function OnSpotRegistrationPage() {
       setCredentials(data);
       setShowCredentials(true);
       form.reset();
+      setTeams({});
       queryClient.invalidateQueries({ queryKey: ['/api/registration-committee/participants'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/events/for-registration-grouped'] });
       toast({
         title: "Success",
         description: "Participant registered successfully",
@@ -125,6 +141,7 @@ export default function OnSpotRegistrationPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/registration-committee/participants'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/events/for-registration-grouped'] });
       setDeletingParticipant(null);
       toast({
         title: "Success",
@@ -151,6 +168,7 @@ export default function OnSpotRegistrationPage() {
   const selectedNonTechnicalCount = selectedEvents?.filter(id => 
     nonTechnicalEvents.some(e => e.id === id)
   ).length || 0;
+  const selectedTeamEvents = activeEvents.filter(e => selectedEvents?.includes(e.id) && isTeamEvent(e));
 
   const copyAllCredentials = () => {
     if (credentials) {
@@ -162,6 +180,13 @@ export default function OnSpotRegistrationPage() {
           text += `\n${event.eventName}:\nEvent Username: ${event.eventUsername}\nEvent Password: ${event.eventPassword}\n`;
         });
       }
+
+      if (credentials.teamMembers && credentials.teamMembers.length > 0) {
+        text += `\nTeammates:\n`;
+        credentials.teamMembers.forEach((member) => {
+          text += `\n${member.fullName} (${member.email}) - ${member.eventName}, team ${member.teamName}:\nEvent Username: ${member.eventUsername}\nEvent Password: ${member.eventPassword}\n`;
+        });
+      }
       
       navigator.clipboard.writeText(text);
       toast({
@@ -180,7 +205,32 @@ export default function OnSpotRegistrationPage() {
   };
 
   const onSubmit = (data: OnSpotFormData) => {
-    createMutation.mutate(data);
+    // The participant being registered leads each team they enter
+    const nextTeamErrors: Record<string, string> = {};
+    const submittedTeams: Record<string, TeamEntry> = {};
+    selectedTeamEvents.forEach((event) => {
+      const entry = teams[event.id] ?? emptyTeamEntry(event);
+      const error = checkTeamEntry(event, entry, data.email);
+      if (error) nextTeamErrors[event.id] = error;
+      submittedTeams[event.id] = cleanTeamEntry(entry);
+    });
+    setTeamErrors(nextTeamErrors);
+
+    if (Object.keys(nextTeamErrors).length > 0) {
+      toast({
+        title: "Error",
+        description: Object.values(nextTeamErrors).join(", "),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createMutation.mutate({ ...data, teams: submittedTeams });
+  };
+
+  const handleTeamChange = (eventId: string, entry: TeamEntry) => {
+    setTeams((prev) => ({ ...prev, [eventId]: entry }));
+    setTeamErrors(({ [eventId]: _, ...rest }) => rest);
   };
 
   const handleEdit = (participant: OnSpotParticipant) => {
@@ -355,6 +405,7 @@ export default function OnSpotRegistrationPage() {
                                   control={form.control}
                                   name="selectedEvents"
                                   render={({ field }) => {
+                                    const seats = seatsFor(event.id);
                                     return (
                                       <FormItem
                                         key={event.id}
@@ -363,7 +414,7 @@ export default function OnSpotRegistrationPage() {
                                         <FormControl>
                                           <Checkbox
                                             checked={field.value?.includes(event.id)}
-                                            disabled={!field.value?.includes(event.id) && selectedTechnicalCount >= 1}
+                                            disabled={!field.value?.includes(event.id) && (selectedTechnicalCount >= 1 || (!!seats && isFull(seats)))}
                                             onCheckedChange={(checked) => {
                                               return checked
                                                 ? field.onChange([...field.value, event.id])
@@ -376,6 +427,17 @@ export default function OnSpotRegistrationPage() {
                                         </FormControl>
                                         <FormLabel className="font-normal cursor-pointer">
                                           {event.name}
+                                          {isTeamEvent(event) && (
+                                            <span className="text-xs text-muted-foreground ml-1">({describeTeamSize(event)})</span>
+                                          )}
+                                          {seats && describeSeats(seats) && (
+                                            <span
+                                              className={`text-xs ml-1 ${isFull(seats) ? 'text-destructive' : 'text-muted-foreground'}`}
+                                              data-testid={`text-seats-${event.id}`}
+                                            >
+                                              · {describeSeats(seats)}
+                                            </span>
+                                          )}
                                         </FormLabel>
                                       </FormItem>
                                     );
@@ -393,6 +455,7 @@ export default function OnSpotRegistrationPage() {
                                   control={form.control}
                                   name="selectedEvents"
                                   render={({ field }) => {
+                                    const seats = seatsFor(event.id);
                                     return (
                                       <FormItem
                                         key={event.id}
@@ -401,7 +464,7 @@ export default function OnSpotRegistrationPage() {
                                         <FormControl>
                                           <Checkbox
                                             checked={field.value?.includes(event.id)}
-                                            disabled={!field.value?.includes(event.id) && selectedNonTechnicalCount >= 1}
+                                            disabled={!field.value?.includes(event.id) && (selectedNonTechnicalCount >= 1 || (!!seats && isFull(seats)))}
                                             onCheckedChange={(checked) => {
                                               return checked
                                                 ? field.onChange([...field.value, event.id])
@@ -414,6 +477,17 @@ export default function OnSpotRegistrationPage() {
                                         </FormControl>
                                         <FormLabel className="font-normal cursor-pointer">
                                           {event.name}
+                                          {isTeamEvent(event) && (
+                                            <span className="text-xs text-muted-foreground ml-1">({describeTeamSize(event)})</span>
+                                          )}
+                                          {seats && describeSeats(seats) && (
+                                            <span
+                                              className={`text-xs ml-1 ${isFull(seats) ? 'text-destructive' : 'text-muted-foreground'}`}
+                                              data-testid={`text-seats-${event.id}`}
+                                            >
+                                              · {describeSeats(seats)}
+                                            </span>
+                                          )}
                                         </FormLabel>
                                       </FormItem>
                                     );
@@ -428,6 +502,21 @@ export default function OnSpotRegistrationPage() {
                     )}
                   />
 
+                  {selectedTeamEvents.length > 0 && (
+                    <div className="space-y-3" data-testid="team-details">
+                      <h3 className="font-medium text-sm">Team Details</h3>
+                      {selectedTeamEvents.map((event) => (
+                        <TeamEntryInput
+                          key={event.id}
+                          event={event}
+                          value={teams[event.id] ?? emptyTeamEntry(event)}
+                          onChange={(entry) => handleTeamChange(event.id, entry)}
+                          error={teamErrors[event.id]}
+                        />
+                      ))}
+                    </div>
+                  )}
+
                   <Button 
                     type="submit" 
                     disabled={createMutation.isPending}
@@ -626,6 +715,9 @@ export default function OnSpotRegistrationPage() {
                             <TableRow key={event.eventId} data-testid={`row-event-cred-${event.eventId}`}>
                               <TableCell className="font-medium" data-testid={`text-event-name-${event.eventId}`}>
                                 {event.eventName}
+                                {event.teamName && (
+                                  <div className="text-xs text-muted-foreground font-normal">Team {event.teamName}</div>
+                                )}
                               </TableCell>
                               <TableCell>
                                 <code className="text-sm bg-gray-100 px-2 py-1 rounded" data-testid={`text-event-username-${event.eventId}`}>
@@ -667,6 +759,47 @@ export default function OnSpotRegistrationPage() {
                   </div>
                 )}
 
+                {credentials.teamMembers && credentials.teamMembers.length > 0 && (
+                  <div>
+                    <h3 className="font-semibold mb-2">Teammates</h3>
+                    <p className="text-sm text-muted-foreground mb-2">
+                      Each teammate has also been emailed their own event credentials.
+                    </p>
+                    <div className="border rounded-md">
+                      <Table data-testid="table-teammate-credentials">
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Teammate</TableHead>
+                            <TableHead>Event / Team</TableHead>
+                            <TableHead>Username</TableHead>
+                            <TableHead>Password</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {credentials.teamMembers.map((member) => (
+                            <TableRow key={`${member.eventId}-${member.email}`} data-testid={`row-teammate-${member.eventId}-${member.email}`}>
+                              <TableCell>
+                                <div className="font-medium">{member.fullName}</div>
+                                <div className="text-xs text-muted-foreground">{member.email}</div>
+                              </TableCell>
+                              <TableCell>
+                                <div>{member.eventName}</div>
+                                <div className="text-xs text-muted-foreground">Team {member.teamName}</div>
+                              </TableCell>
+                              <TableCell>
+                                <code className="text-sm bg-gray-100 px-2 py-1 rounded">{member.eventUsername}</code>
+                              </TableCell>
+                              <TableCell>
+                                <code className="text-sm bg-gray-100 px-2 py-1 rounded">{member.eventPassword}</code>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+                )}
+
                 <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
                   <p className="text-sm text-yellow-800">
                     ⚠️ Important: These credentials will only be shown once. Make sure to save and share them with the participant.
@@ -0,0 +1,285 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { CheckCircle, FileUp } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import RegistrationCommitteeLayout from "@/components/layouts/RegistrationCommitteeLayout";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  formatRupees,
+  MATCH_STATUS_LABELS,
+  type MatchStatus,
+  type ReconcileRegistrant,
+  type StatementMatch,
+} from "@/lib/payments";
+
+interface ReconcilePreview {
+  matches: StatementMatch[];
+  unpaid: ReconcileRegistrant[];
+}
+
+// Matches can be confirmed; a differing amount only once someone has checked it
+const CONFIRMABLE: MatchStatus[] = ["matched", "amount_mismatch"];
+
+const getStatusColor = (status: MatchStatus) => {
+  switch (status) {
+    case "matched":
+      return "default";
+    case "amount_mismatch":
+      return "destructive";
+    case "unmatched":
+      return "outline";
+    default:
+      return "secondary";
+  }
+};
+
+export default function ReconciliationPage() {
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [preview, setPreview] = useState<ReconcilePreview | null>(null);
+  const [selected, setSelected] = useState<number[]>([]);
+
+  const previewMutation = useMutation({
+    mutationFn: async (csv: string) => {
+      const response = await apiRequest("POST", "/api/payments/reconcile/preview", { csv });
+      return (await response.json()) as ReconcilePreview;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+      setSelected(data.matches.filter((match) => match.status === "matched").map((match) => match.row.line));
+    },
+    onError: (error: Error) => {
+      setPreview(null);
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async () => {
+      const matches = (preview?.matches || [])
+        .filter((match) => match.registrationId && selected.includes(match.row.line))
+        .map((match) => ({ registrationId: match.registrationId, amount: match.row.amount }));
+      const response = await apiRequest("POST", "/api/payments/reconcile/confirm", { matches });
+      return (await response.json()) as { verified: number; skipped: number };
+    },
+    onSuccess: (data) => {
+      setPreview(null);
+      setSelected([]);
+      setFileName(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/registrations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/payments/summary'] });
+      toast({
+        title: "Payments verified",
+        description: data.skipped > 0
+          ? `${data.verified} payment(s) recorded; ${data.skipped} had already been verified`
+          : `${data.verified} payment(s) recorded`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    previewMutation.mutate(await file.text());
+  };
+
+  const toggle = (line: number, checked: boolean) => {
+    setSelected(checked ? [...selected, line] : selected.filter((l) => l !== line));
+  };
+
+  const matchedCount = preview?.matches.filter((match) => match.status === "matched").length || 0;
+  const selectedTotal = (preview?.matches || [])
+    .filter((match) => selected.includes(match.row.line))
+    .reduce((sum, match) => sum + match.row.amount, 0);
+
+  return (
+    <RegistrationCommitteeLayout>
+      <div className="container mx-auto p-6 max-w-7xl" data-testid="page-reconciliation">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold" data-testid="heading-reconciliation">Payment Reconciliation</h1>
+          <p className="text-muted-foreground">
+            Match a bank statement against the UPI transaction IDs participants gave when they registered
+          </p>
+        </div>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Bank Statement</CardTitle>
+            <CardDescription>
+              Upload the statement as a CSV file from your bank's website. Only credits are read; nothing is recorded until you confirm.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex items-center gap-4">
+            <label className="cursor-pointer">
+              <Input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+                data-testid="input-statement"
+              />
+              <span className="inline-flex items-center rounded-md border px-4 py-2 text-sm font-medium hover:bg-muted">
+                <FileUp className="h-4 w-4 mr-2" />
+                Choose CSV
+              </span>
+            </label>
+            {previewMutation.isPending ? (
+              <span className="text-sm text-muted-foreground" data-testid="text-reading-statement">Reading statement...</span>
+            ) : fileName && (
+              <span className="text-sm text-muted-foreground" data-testid="text-statement-name">{fileName}</span>
+            )}
+          </CardContent>
+        </Card>
+
+        {preview && (
+          <>
+            <Card className="mb-6">
+              <CardHeader className="flex flex-row items-start justify-between">
+                <div>
+                  <CardTitle>Statement Credits</CardTitle>
+                  <CardDescription data-testid="text-match-summary">
+                    {preview.matches.length} credit(s) read, {matchedCount} matched to a registration
+                  </CardDescription>
+                </div>
+                <Button
+                  onClick={() => confirmMutation.mutate()}
+                  disabled={selected.length === 0 || confirmMutation.isPending}
+                  data-testid="button-confirm-payments"
+                >
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  {confirmMutation.isPending
+                    ? "Recording..."
+                    : `Verify ${selected.length} Payment(s) · ${formatRupees(selectedTotal)}`}
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {preview.matches.length > 0 ? (
+                  <Table data-testid="table-matches">
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10" />
+                        <TableHead>Date</TableHead>
+                        <TableHead>Narration</TableHead>
+                        <TableHead>Amount</TableHead>
+                        <TableHead>Registration</TableHead>
+                        <TableHead>Result</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.matches.map((match) => (
+                        <TableRow key={match.row.line} data-testid={`row-match-${match.row.line}`}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selected.includes(match.row.line)}
+                              disabled={!CONFIRMABLE.includes(match.status)}
+                              onCheckedChange={(checked) => toggle(match.row.line, checked === true)}
+                              data-testid={`checkbox-match-${match.row.line}`}
+                            />
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">{match.row.date}</TableCell>
+                          <TableCell className="max-w-xs">
+                            <div className="truncate text-sm" title={match.row.description}>{match.row.description}</div>
+                            {match.row.reference && (
+                              <code className="text-xs text-muted-foreground">{match.row.reference}</code>
+                            )}
+                          </TableCell>
+                          <TableCell className="font-medium">{formatRupees(match.row.amount)}</TableCell>
+                          <TableCell>
+                            {match.registration ? (
+                              <div>
+                                <div className="font-medium">{match.registration.participantName}</div>
+                                <div className="text-xs text-muted-foreground">
+                                  {match.registration.participantEmail} · fee {formatRupees(match.registration.feeAmount)}
+                                </div>
+                              </div>
+                            ) : (
+                              <span className="text-muted-foreground text-sm">—</span>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={getStatusColor(match.status)} data-testid={`badge-match-${match.row.line}`}>
+                              {MATCH_STATUS_LABELS[match.status]}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <div className="text-center py-8 text-muted-foreground" data-testid="text-no-credits">
+                    No credits found in this statement
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Not Found on the Statement</CardTitle>
+                <CardDescription>
+                  Registrations still owing a fee whose transaction ID is not on this statement
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {preview.unpaid.length > 0 ? (
+                  <Table data-testid="table-unpaid">
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Email</TableHead>
+                        <TableHead>UPI Transaction ID</TableHead>
+                        <TableHead>Fee</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Submitted</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.unpaid.map((registration) => (
+                        <TableRow key={registration.id} data-testid={`row-unpaid-${registration.id}`}>
+                          <TableCell>{registration.participantName}</TableCell>
+                          <TableCell>{registration.participantEmail}</TableCell>
+                          <TableCell>
+                            <code className="text-sm">{registration.paymentReference || "Not given"}</code>
+                          </TableCell>
+                          <TableCell>{formatRupees(registration.feeAmount)}</TableCell>
+                          <TableCell>
+                            <Badge variant="secondary">{registration.paymentStatus}</Badge>
+                          </TableCell>
+                          <TableCell>{new Date(registration.submittedAt).toLocaleDateString()}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <div className="text-center py-8 text-muted-foreground" data-testid="text-no-unpaid">
+                    Every registration with a fee is accounted for
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </RegistrationCommitteeLayout>
+  );
+}
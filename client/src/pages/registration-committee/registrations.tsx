@@ -5,22 +5,27 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
-import { Copy, CheckCircle } from "lucide-react";
+import { Copy, CheckCircle, Receipt } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import RegistrationCommitteeLayout from "@/components/layouts/RegistrationCommitteeLayout";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Registration, Event } from "@shared/schema";
+import { formatFieldValue, type RegistrationWithDetails } from "@/lib/registrationFields";
+import { formatRupees } from "@/lib/payments";
+import type { Event } from "@shared/schema";
 
 export default function RegistrationCommitteeRegistrationsPage() {
   const { toast } = useToast();
-  const [selectedRegistration, setSelectedRegistration] = useState<Registration | null>(null);
+  const [selectedRegistration, setSelectedRegistration] = useState<RegistrationWithDetails | null>(null);
   const [credentials, setCredentials] = useState<{
     main: { username: string; password: string; email: string };
     events: Array<{ eventId: string; eventName: string; eventUsername: string; eventPassword: string }>;
+    teamMembers: Array<{ eventId: string; eventName: string; teamName: string; fullName: string; email: string; eventUsername: string; eventPassword: string }>;
   } | null>(null);
   const [showCredentials, setShowCredentials] = useState(false);
+  const [statusChange, setStatusChange] = useState<{ registration: RegistrationWithDetails; action: 'decline' | 'withdraw' } | null>(null);
+  const [receipt, setReceipt] = useState<{ registration: RegistrationWithDetails; url: string } | null>(null);
 
-  const { data: registrations, isLoading } = useQuery<Registration[]>({
+  const { data: registrations, isLoading } = useQuery<RegistrationWithDetails[]>({
     queryKey: ['/api/registrations'],
   });
 
@@ -38,10 +43,12 @@ export default function RegistrationCommitteeRegistrationsPage() {
       setCredentials({
         main: data.mainCredentials,
         events: data.eventCredentials || [],
+        teamMembers: data.teamMembers || [],
       });
       setShowCredentials(true);
       setSelectedRegistration(null);
       queryClient.invalidateQueries({ queryKey: ['/api/registrations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/payments/summary'] });
       toast({
         title: "Success",
         description: "Registration approved successfully",
@@ -56,6 +63,50 @@ export default function RegistrationCommitteeRegistrationsPage() {
     },
   });
 
+  // Declining or withdrawing frees the registration's seats, so the waitlist may move up
+  const statusMutation = useMutation({
+    mutationFn: async ({ registrationId, action }: { registrationId: string; action: 'decline' | 'withdraw' }) => {
+      const response = await apiRequest('PATCH', `/api/registrations/${registrationId}/${action}`);
+      return response.json();
+    },
+    onSuccess: (_data, { action }) => {
+      setStatusChange(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/registrations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/payments/summary'] });
+      toast({
+        title: "Success",
+        description: action === 'decline' ? "Registration declined" : "Registration withdrawn",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // The receipt endpoint needs the auth header, so the image is fetched here rather than by an <img> tag
+  const viewReceipt = async (registration: RegistrationWithDetails) => {
+    try {
+      const response = await apiRequest('GET', `/api/registrations/${registration.id}/receipt`);
+      const blob = await response.blob();
+      setReceipt({ registration, url: window.URL.createObjectURL(blob) });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load the receipt",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const closeReceipt = () => {
+    if (receipt) window.URL.revokeObjectURL(receipt.url);
+    setReceipt(null);
+  };
+
   const getEventName = (eventId: string) => {
     const event = events?.find(e => e.id === eventId);
     return event?.name || eventId;
@@ -74,34 +125,6 @@ export default function RegistrationCommitteeRegistrationsPage() {
     }
   };
 
-  const getFieldValue = (submittedData: Record<string, string>, fieldLabel: string): string => {
-    for (const [key, value] of Object.entries(submittedData)) {
-      const lowerLabel = fieldLabel.toLowerCase();
-      const lowerValue = value?.toString().toLowerCase() || '';
-      
-      if (key.toLowerCase().includes(lowerLabel)) {
-        return value;
-      }
-    }
-    
-    const entries = Object.entries(submittedData);
-    if (fieldLabel.toLowerCase().includes('name')) {
-      const nameEntry = entries.find(([k, v]) => 
-        v && typeof v === 'string' && v.includes(' ') && !v.includes('@')
-      );
-      return nameEntry ? nameEntry[1] : 'N/A';
-    }
-    
-    if (fieldLabel.toLowerCase().includes('email')) {
-      const emailEntry = entries.find(([k, v]) => 
-        v && typeof v === 'string' && v.includes('@')
-      );
-      return emailEntry ? emailEntry[1] : 'N/A';
-    }
-    
-    return 'N/A';
-  };
-
   const copyAllCredentials = () => {
     if (credentials) {
       let text = `Main Account Credentials:\nUsername: ${credentials.main.username}\nPassword: ${credentials.main.password}\nEmail: ${credentials.main.email}\n\n`;
@@ -112,6 +135,13 @@ export default function RegistrationCommitteeRegistrationsPage() {
           text += `\n${event.eventName}:\nEvent Username: ${event.eventUsername}\nEvent Password: ${event.eventPassword}\n`;
         });
       }
+
+      if (credentials.teamMembers.length > 0) {
+        text += `\nTeammates:\n`;
+        credentials.teamMembers.forEach((member) => {
+          text += `\n${member.fullName} (${member.email}) - ${member.eventName}, team ${member.teamName}:\nEvent Username: ${member.eventUsername}\nEvent Password: ${member.eventPassword}\n`;
+        });
+      }
       
       navigator.clipboard.writeText(text);
       toast({
@@ -144,13 +174,14 @@ export default function RegistrationCommitteeRegistrationsPage() {
                     <TableHead>Name</TableHead>
                     <TableHead>Email</TableHead>
                     <TableHead>Selected Events</TableHead>
+                    <TableHead>Fee</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Submitted</TableHead>
                     <TableHead>Actions</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {registrations.map((registration: any) => (
+                  {registrations.map((registration) => (
                     <TableRow key={registration.id} data-testid={`row-registration-${registration.id}`}>
                       <TableCell data-testid={`text-name-${registration.id}`}>
                         {registration.participantName || 'N/A'}
@@ -161,7 +192,7 @@ export default function RegistrationCommitteeRegistrationsPage() {
                       <TableCell data-testid={`text-events-${registration.id}`}>
                         <div className="flex flex-wrap gap-1">
                           {registration.selectedEvents && registration.selectedEvents.length > 0 ? (
-                            registration.selectedEvents.map((eventId: string) => (
+                            registration.selectedEvents.map((eventId) => (
                               <Badge key={eventId} variant="outline" className="text-xs">
                                 {getEventName(eventId)}
                               </Badge>
@@ -171,6 +202,24 @@ export default function RegistrationCommitteeRegistrationsPage() {
                           )}
                         </div>
                       </TableCell>
+                      <TableCell data-testid={`text-fee-${registration.id}`}>
+                        {registration.feeAmount > 0 ? (
+                          <div className="space-y-1">
+                            <div className="font-medium">{formatRupees(registration.feeAmount)}</div>
+                            {registration.paymentReference && (
+                              <code className="text-xs text-muted-foreground">{registration.paymentReference}</code>
+                            )}
+                            {registration.paymentVerifiedAt && (
+                              <div className="flex items-center text-xs text-green-700" data-testid={`text-payment-verified-${registration.id}`}>
+                                <CheckCircle className="h-3 w-3 mr-1" />
+                                {formatRupees(registration.amountReceived ?? 0)} received
+                              </div>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground text-sm">Free</span>
+                        )}
+                      </TableCell>
                       <TableCell>
                         <Badge variant={getStatusColor(registration.paymentStatus)} data-testid={`badge-status-${registration.id}`}>
                           {registration.paymentStatus}
@@ -180,15 +229,47 @@ export default function RegistrationCommitteeRegistrationsPage() {
                         {new Date(registration.submittedAt).toLocaleDateString()}
                       </TableCell>
                       <TableCell>
-                        {registration.paymentStatus === 'pending' && (
-                          <Button
-                            size="sm"
-                            onClick={() => setSelectedRegistration(registration)}
-                            data-testid={`button-approve-${registration.id}`}
-                          >
-                            Approve
-                          </Button>
-                        )}
+                        <div className="flex gap-2">
+                          {registration.hasReceipt && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => viewReceipt(registration)}
+                              data-testid={`button-receipt-${registration.id}`}
+                            >
+                              <Receipt className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {registration.paymentStatus === 'pending' && (
+                            <Button
+                              size="sm"
+                              onClick={() => setSelectedRegistration(registration)}
+                              data-testid={`button-approve-${registration.id}`}
+                            >
+                              Approve
+                            </Button>
+                          )}
+                          {(registration.paymentStatus === 'pending' || registration.paymentStatus === 'waitlisted') && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setStatusChange({ registration, action: 'decline' })}
+                              data-testid={`button-decline-${registration.id}`}
+                            >
+                              Decline
+                            </Button>
+                          )}
+                          {registration.paymentStatus !== 'declined' && registration.paymentStatus !== 'withdrawn' && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setStatusChange({ registration, action: 'withdraw' })}
+                              data-testid={`button-withdraw-${registration.id}`}
+                            >
+                              Withdraw
+                            </Button>
+                          )}
+                        </div>
                       </TableCell>
                     </TableRow>
                   ))}
@@ -214,11 +295,22 @@ export default function RegistrationCommitteeRegistrationsPage() {
               <div className="space-y-3" data-testid="registration-details">
                 <div className="space-y-2">
                   <h3 className="font-semibold text-base">Submitted Information:</h3>
-                  {Object.entries(selectedRegistration.submittedData).map(([key, value]) => (
-                    <div key={key} className="text-sm">
-                      <span className="font-medium">{value}</span>
-                    </div>
-                  ))}
+                  {selectedRegistration.form ? (
+                    selectedRegistration.form.formFields
+                      .filter((field) => selectedRegistration.submittedData[field.id] !== undefined)
+                      .map((field) => (
+                        <div key={field.id} className="text-sm" data-testid={`detail-${field.id}`}>
+                          <span className="text-muted-foreground">{field.label}: </span>
+                          <span className="font-medium">{formatFieldValue(selectedRegistration.submittedData[field.id], field)}</span>
+                        </div>
+                      ))
+                  ) : (
+                    Object.entries(selectedRegistration.submittedData).map(([key, value]) => (
+                      <div key={key} className="text-sm">
+                        <span className="font-medium">{formatFieldValue(value)}</span>
+                      </div>
+                    ))
+                  )}
                 </div>
                 <div>
                   <span className="font-medium">Selected Events: </span>
@@ -234,12 +326,63 @@ export default function RegistrationCommitteeRegistrationsPage() {
                     )}
                   </div>
                 </div>
+                {selectedRegistration.teams && Object.keys(selectedRegistration.teams).length > 0 && (
+                  <div className="space-y-2" data-testid="registration-teams">
+                    <h3 className="font-semibold text-base">Teams:</h3>
+                    {Object.entries(selectedRegistration.teams).map(([eventId, team]) => (
+                      <div key={eventId} className="text-sm" data-testid={`team-${eventId}`}>
+                        <span className="text-muted-foreground">{getEventName(eventId)}: </span>
+                        <span className="font-medium">{team.name}</span>
+                        <span className="text-muted-foreground">
+                          {' '}with {team.members.length > 0 ? team.members.map((m) => `${m.fullName} (${m.email})`).join(', ') : 'no teammates'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                {selectedRegistration.feeAmount > 0 && (
+                  <div className="space-y-1 text-sm" data-testid="registration-payment">
+                    <h3 className="font-semibold text-base">Payment:</h3>
+                    <div>
+                      <span className="text-muted-foreground">Fee: </span>
+                      <span className="font-medium">{formatRupees(selectedRegistration.feeAmount)}</span>
+                    </div>
+                    <div>
+                      <span className="text-muted-foreground">UPI Transaction ID: </span>
+                      <code>{selectedRegistration.paymentReference || 'Not given'}</code>
+                    </div>
+                    {selectedRegistration.paymentVerifiedAt ? (
+                      <div className="text-green-700">
+                        {formatRupees(selectedRegistration.amountReceived ?? 0)} matched on the bank statement
+                      </div>
+                    ) : (
+                      <div className="text-amber-700">Not yet matched on a bank statement</div>
+                    )}
+                    {selectedRegistration.hasReceipt && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => viewReceipt(selectedRegistration)}
+                        data-testid="button-approve-view-receipt"
+                      >
+                        <Receipt className="h-4 w-4 mr-2" />
+                        View Receipt
+                      </Button>
+                    )}
+                  </div>
+                )}
                 <div className="bg-muted/50 p-3 rounded-md text-sm">
                   <p className="font-medium mb-1">What will happen:</p>
                   <ul className="space-y-1 text-muted-foreground">
-                    <li>• Participant account will be created</li>
+                    <li>• Participant account will be created for {selectedRegistration.participantName} ({selectedRegistration.participantEmail})</li>
                     <li>• User will be registered for all {selectedRegistration.selectedEvents?.length || 0} selected event(s)</li>
-                    <li>• Login credentials will be generated</li>
+                    {selectedRegistration.feeAmount > 0 && !selectedRegistration.paymentVerifiedAt && (
+                      <li>• The {formatRupees(selectedRegistration.feeAmount)} fee stays outstanding until it is matched on a bank statement</li>
+                    )}
+                    <li>• Login credentials will be generated and emailed to {selectedRegistration.participantEmail}</li>
+                    {selectedRegistration.teams && Object.keys(selectedRegistration.teams).length > 0 && (
+                      <li>• Teammates will be added to their teams and emailed their own event credentials</li>
+                    )}
                   </ul>
                 </div>
               </div>
@@ -316,6 +459,44 @@ export default function RegistrationCommitteeRegistrationsPage() {
                   </div>
                 )}
 
+                {credentials.teamMembers.length > 0 && (
+                  <div data-testid="teammate-credentials">
+                    <h3 className="font-semibold mb-2">Teammates</h3>
+                    <div className="border rounded-md">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Teammate</TableHead>
+                            <TableHead>Event / Team</TableHead>
+                            <TableHead>Username</TableHead>
+                            <TableHead>Password</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {credentials.teamMembers.map((member) => (
+                            <TableRow key={`${member.eventId}-${member.email}`}>
+                              <TableCell>
+                                <div className="font-medium">{member.fullName}</div>
+                                <div className="text-xs text-muted-foreground">{member.email}</div>
+                              </TableCell>
+                              <TableCell>
+                                <div>{member.eventName}</div>
+                                <div className="text-xs text-muted-foreground">Team {member.teamName}</div>
+                              </TableCell>
+                              <TableCell>
+                                <code className="text-sm bg-gray-100 px-2 py-1 rounded">{member.eventUsername}</code>
+                              </TableCell>
+                              <TableCell>
+                                <code className="text-sm bg-gray-100 px-2 py-1 rounded">{member.eventPassword}</code>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+                )}
+
                 <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
                   <p className="text-sm text-yellow-800">
                     ⚠️ Important: These credentials will only be shown once. Make sure to save and share them with the participant.
@@ -337,6 +518,55 @@ export default function RegistrationCommitteeRegistrationsPage() {
             </DialogFooter>
           </DialogContent>
         </Dialog>
+
+        <Dialog open={!!receipt} onOpenChange={(open) => !open && closeReceipt()}>
+          <DialogContent className="max-w-2xl" data-testid="dialog-receipt">
+            <DialogHeader>
+              <DialogTitle>Payment Receipt</DialogTitle>
+              <DialogDescription>
+                {receipt?.registration.participantName} · {formatRupees(receipt?.registration.feeAmount ?? 0)} · UPI transaction ID{' '}
+                {receipt?.registration.paymentReference}
+              </DialogDescription>
+            </DialogHeader>
+            {receipt && (
+              <img
+                src={receipt.url}
+                alt={`Payment receipt from ${receipt.registration.participantName}`}
+                className="max-h-[70vh] w-full object-contain rounded-md border"
+                data-testid="img-receipt"
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!statusChange} onOpenChange={(open) => !open && setStatusChange(null)}>
+          <DialogContent data-testid="dialog-status-change">
+            <DialogHeader>
+              <DialogTitle>{statusChange?.action === 'decline' ? 'Decline Registration' : 'Withdraw Registration'}</DialogTitle>
+              <DialogDescription>
+                {statusChange?.action === 'decline'
+                  ? `Decline ${statusChange.registration.participantName}'s registration?`
+                  : statusChange?.registration.paymentStatus === 'paid'
+                    ? `Withdraw ${statusChange.registration.participantName} from ${statusChange.registration.selectedEvents.map(getEventName).join(', ')}? Their event credentials and any teams they lead are removed.`
+                    : `Withdraw ${statusChange?.registration.participantName}'s registration?`}
+                {statusChange?.registration.paymentStatus !== 'waitlisted' && ' Their seats go to the next registrations on the waitlist.'}
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setStatusChange(null)} data-testid="button-cancel-status-change">
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => statusChange && statusMutation.mutate({ registrationId: statusChange.registration.id, action: statusChange.action })}
+                disabled={statusMutation.isPending}
+                data-testid="button-confirm-status-change"
+              >
+                {statusMutation.isPending ? 'Saving...' : statusChange?.action === 'decline' ? 'Decline' : 'Withdraw'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </div>
     </RegistrationCommitteeLayout>
   );
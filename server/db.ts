@@ -1,5 +1,6 @@
-import { drizzle } from 'drizzle-orm/neon-http';
-import { neon } from '@neondatabase/serverless';
+import { drizzle } from 'drizzle-orm/neon-serverless';
+import { Pool, neonConfig } from '@neondatabase/serverless';
+import ws from 'ws';
 import * as schema from '@shared/schema';
 import "dotenv/config";
 
@@ -7,5 +8,8 @@ if (!process.env.DATABASE_URL) {
   throw new Error('DATABASE_URL must be set. Ensure the database is provisioned.');
 }
 
-const sql = neon(process.env.DATABASE_URL);
-export const db = drizzle(sql, { schema });
+// A pooled WebSocket connection rather than one-shot HTTP queries, so seat checks can lock rows in a transaction
+neonConfig.webSocketConstructor = ws;
+
+const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+export const db = drizzle({ client: pool, schema });
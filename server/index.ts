@@ -2,6 +2,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { setupWebSocket, setIO } from "./websocket";
+import { AttemptService } from "./services/attemptService";
 
 const app = express();
 
@@ -10,11 +11,12 @@ declare module 'http' {
     rawBody: unknown
   }
 }
-app.use(express.json({
-  verify: (req, _res, buf) => {
-    req.rawBody = buf;
-  }
-}));
+const keepRawBody = (req: Request, _res: Response, buf: Buffer) => {
+  req.rawBody = buf;
+};
+// Only the registration form takes a payment receipt image, so only it gets the larger body limit
+app.use("/api/registration-forms/:slug/submit", express.json({ limit: "2mb", verify: keepRawBody }));
+app.use(express.json({ verify: keepRawBody }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -83,5 +85,8 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+
+    // Auto-submit attempts whose deadline passed without the browser submitting
+    AttemptService.startSweeper();
   });
 })();
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
 import { storage } from "../storage";
+import { SessionService, SESSION_REPLACED_MESSAGE } from "../services/sessionService";
 
 const JWT_SECRET = process.env.JWT_SECRET || "symposium-secret-key-change-in-production";
 
@@ -23,13 +24,21 @@ export async function requireAuth(req: AuthRequest, res: Response, next: NextFun
       return res.status(401).json({ message: "Authentication required" });
     }
 
-    const decoded = jwt.verify(token, JWT_SECRET) as { id: string; username: string; role: string; eventId?: string };
+    const decoded = jwt.verify(token, JWT_SECRET) as { id: string; username: string; role: string; eventId?: string; sid?: string };
     const user = await storage.getUser(decoded.id);
     
     if (!user) {
       return res.status(401).json({ message: "User not found" });
     }
 
+    // Event credentials allow one signed-in machine; an older session is refused
+    if (decoded.eventId && user.role === "participant") {
+      const credential = await storage.getEventCredentialByUserAndEvent(user.id, decoded.eventId);
+      if (!SessionService.isCurrentSession(credential, decoded.sid)) {
+        return res.status(401).json({ message: SESSION_REPLACED_MESSAGE, code: "session_replaced" });
+      }
+    }
+
     req.user = {
       id: user.id,
       username: user.username,
@@ -0,0 +1,99 @@
+import { eq, or, sql, getTableName, type SQL } from 'drizzle-orm';
+import { db } from './db';
+import { DEFAULT_PROCTORING_RULES, PROCTORING_RULE_KEYS } from './services/proctoringService';
+import { dataMigrations, eventRules, roundRules } from '@shared/schema';
+
+// Data fixes `drizzle-kit push` cannot make itself, such as removing rows a new unique index would refuse.
+// `npm run db:push` runs them before pushing the schema; each runs once, in order, and is recorded in
+// data_migrations. On a fresh database the tables do not exist yet, so a migration checks for its table first.
+interface DataMigration {
+  id: string;
+  run: () => Promise<void>;
+}
+
+async function tableExists(name: string): Promise<boolean> {
+  const result = await db.execute(sql`select to_regclass(${`public.${name}`}) is not null as "exists"`);
+  return result.rows[0]?.exists === true;
+}
+
+// Rules rows written before proctoring profiles stored every default explicitly, which hid any profile
+// attached later. The columns lose their NOT NULL and defaults first, as the push would, then settings
+// equal to the old defaults become null (inherit); anything an admin changed stays an override.
+async function clearDefaultProctoringOverrides(table: typeof eventRules | typeof roundRules) {
+  const name = getTableName(table);
+  if (!(await tableExists(name))) return;
+
+  const alters = PROCTORING_RULE_KEYS.map((key) => {
+    const column = sql.identifier(table[key].name);
+    return sql`ALTER COLUMN ${column} DROP NOT NULL, ALTER COLUMN ${column} DROP DEFAULT`;
+  });
+  await db.execute(sql`ALTER TABLE ${sql.identifier(name)} ${sql.join(alters, sql`, `)}`);
+
+  const set: Record<string, SQL> = {};
+  for (const key of PROCTORING_RULE_KEYS) {
+    set[key] = sql`nullif(${table[key]}, ${DEFAULT_PROCTORING_RULES[key]})`;
+  }
+  const matches = PROCTORING_RULE_KEYS.map((key) => eq(table[key], DEFAULT_PROCTORING_RULES[key]));
+  await db.update(table).set(set).where(or(...matches));
+}
+
+const migrations: DataMigration[] = [
+  {
+    // Duplicate answers written before answers_attempt_question_unique; the latest write of each is kept
+    id: '0001_dedupe_answers',
+    run: async () => {
+      if (!(await tableExists('answers'))) return;
+      await db.execute(sql`
+        DELETE FROM answers a USING answers b
+        WHERE a.attempt_id = b.attempt_id AND a.question_id = b.question_id
+          AND (coalesce(a.client_seq, 0), a.answered_at, a.id) < (coalesce(b.client_seq, 0), b.answered_at, b.id)
+      `);
+    },
+  },
+  {
+    // Rounds created before every round got a rules row
+    id: '0002_backfill_round_rules',
+    run: async () => {
+      if (!(await tableExists('round_rules'))) return;
+      await db.execute(sql`
+        INSERT INTO round_rules (round_id)
+        SELECT r.id FROM rounds r
+        WHERE NOT EXISTS (SELECT 1 FROM round_rules rr WHERE rr.round_id = r.id)
+      `);
+    },
+  },
+  {
+    id: '0003_clear_default_proctoring_overrides',
+    run: async () => {
+      await clearDefaultProctoringOverrides(eventRules);
+      await clearDefaultProctoringOverrides(roundRules);
+    },
+  },
+];
+
+async function migrate() {
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS data_migrations (
+      id varchar PRIMARY KEY,
+      applied_at timestamp NOT NULL DEFAULT now()
+    )
+  `);
+  const applied = new Set((await db.select({ id: dataMigrations.id }).from(dataMigrations)).map(m => m.id));
+
+  for (const migration of migrations) {
+    if (applied.has(migration.id)) continue;
+    console.log(`Running data migration ${migration.id}...`);
+    await migration.run();
+    await db.insert(dataMigrations).values({ id: migration.id });
+  }
+}
+
+migrate()
+  .then(() => {
+    console.log('Data migrations finished.');
+    process.exit(0);
+  })
+  .catch((err) => {
+    console.error('Data migration failed:', err);
+    process.exit(1);
+  });
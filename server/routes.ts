@@ -21,6 +21,40 @@ import {
 } from "./middleware/auth"
 import { emailService } from "./services/emailService"
 import { WebSocketService } from "./services/websocketService"
+import { CodeExecutionService, SUPPORTED_LANGUAGES } from "./services/codeExecutionService"
+import { ScoringService } from "./services/scoringService"
+import { AttemptService } from "./services/attemptService"
+import { RandomizationService, POOL_STRATIFY_OPTIONS } from "./services/randomizationService"
+import { SectionService } from "./services/sectionService"
+import {
+  ProctoringService,
+  PROCTORING_RULE_KEYS,
+  type ViolationLog,
+  type ViolationReview,
+} from "./services/proctoringService"
+import { HeartbeatService } from "./services/heartbeatService"
+import { SessionService, LOGIN_BLOCKED_MESSAGE } from "./services/sessionService"
+import { AnswerSyncService } from "./services/answerSyncService"
+import { InputTelemetryService } from "./services/inputTelemetryService"
+import { SimilarityService, type SimilarityOptions } from "./services/similarityService"
+import { RegistrationFormService } from "./services/registrationFormService"
+import { TeamService } from "./services/teamService"
+import { CapacityService } from "./services/capacityService"
+import { PaymentService, MAX_FEE, type RegistrationPayment } from "./services/paymentService"
+import {
+  roundSectionSchema,
+  insertFeeComboSchema,
+  type Event,
+  type FeeCombo,
+  type InsertFeeCombo,
+  type Round,
+  type RoundSection,
+  type Team,
+  type TeamEntry,
+  type TeamMemberEntry,
+  type TestAttempt,
+  type User,
+} from "@shared/schema"
 
 const JWT_SECRET = process.env.JWT_SECRET || "symposium-secret-key-change-in-production"
 
@@ -103,6 +137,194 @@ async function validateEventSelection(eventIds: string[]): Promise<{ valid: bool
   return { valid: true }
 }
 
+// Teammates named on a registration are signed up along with the registrant, so every teammate must
+// be new: an email that already has an account would put its owner on a team they never agreed to.
+// A taken email or team name stops the registration before any account is made.
+async function checkTeamEntries(teams: Record<string, TeamEntry>): Promise<string | null> {
+  for (const eventId of Object.keys(teams)) {
+    const entry = teams[eventId]
+    const event = await storage.getEventById(eventId)
+    if (!event) {
+      return "One or more selected events not found"
+    }
+
+    if (await storage.getTeamByEventAndName(eventId, entry.name)) {
+      return `${event.name}: the team name "${entry.name}" is already taken`
+    }
+
+    for (const member of entry.members) {
+      if (await storage.getUserByEmail(member.email)) {
+        return `${event.name}: ${member.email} already has an account and cannot be signed up as a teammate by someone else`
+      }
+    }
+  }
+  return null
+}
+
+const DUPLICATE_PAYMENT_REFERENCE = "This UPI transaction ID has already been used for another registration"
+
+// Postgres reports a unique index conflict as 23505 along with the index it hit
+function isUniqueViolation(error: unknown, index: string) {
+  const { code, constraint } = (error ?? {}) as { code?: string; constraint?: string }
+  return code === "23505" && constraint === index
+}
+
+// Creates accounts for the teammates on a team entry; checkTeamEntries has made sure none exist yet
+async function createMemberAccounts(members: TeamMemberEntry[], createdBy: string | null) {
+  const accounts: User[] = []
+  for (const member of members) {
+    accounts.push(await storage.createUser({
+      username: `${member.email.split("@")[0]}_${nanoid(6)}`.toLowerCase(),
+      password: await bcrypt.hash(generateSecurePassword(), 10),
+      email: member.email,
+      fullName: member.fullName,
+      phone: member.phone || null,
+      role: "participant",
+      createdBy,
+    }))
+  }
+  return accounts
+}
+
+// Event credentials for teammates already in the event with their team, returned to be emailed
+async function issueMemberCredentials(event: Event, team: Team, accounts: User[]) {
+  const credentials = []
+
+  for (const account of accounts) {
+    const count = await storage.getEventCredentialCountForEvent(event.id)
+    const { username: eventUsername, password: eventPassword } = generateHumanReadableCredentials(
+      account.fullName,
+      event.name,
+      count + 1,
+    )
+    await storage.createEventCredential(account.id, event.id, eventUsername, eventPassword)
+
+    credentials.push({
+      eventId: event.id,
+      eventName: event.name,
+      teamName: team.name,
+      fullName: account.fullName as string,
+      email: account.email as string,
+      eventUsername,
+      eventPassword,
+    })
+  }
+
+  return credentials
+}
+
+// Creates accounts for the teammates, adds them to a team the registrant already leads, and returns each
+// teammate's event credentials to be emailed
+async function enrollTeamMembers(event: Event, team: Team, members: TeamMemberEntry[], createdBy: string | null) {
+  const accounts = await createMemberAccounts(members, createdBy)
+  for (const account of accounts) {
+    await storage.createParticipant(account.id, event.id, team.id)
+  }
+  return issueMemberCredentials(event, team, accounts)
+}
+
+// A just-closed attempt is graded in the background, so the score it holds is not the result yet; the
+// participant gets the graded attempt with resultPublished once grading finishes
+function withoutPendingScore(attempt: TestAttempt) {
+  const { totalScore, ...closed } = attempt
+  return closed
+}
+
+// Why a shared-scoring team member cannot start a round their team has already started
+async function describeTeamAttempt(teamAttempt: TestAttempt) {
+  const teammate = await storage.getUser(teamAttempt.userId)
+  const doing = teamAttempt.status === "in_progress" ? "is already taking" : "has already submitted"
+  return `${teammate?.fullName || "A teammate"} ${doing} this round for your team`
+}
+
+// Moves waitlisted registrations back to pending, oldest first, while their events have seats, and tells
+// each registrant. Run whenever seats may have opened up.
+async function promoteFromWaitlist() {
+  const waitlist = await storage.getWaitlistedRegistrations()
+  if (waitlist.length === 0) return
+
+  const eventIds = Array.from(new Set(waitlist.flatMap((registration) => registration.selectedEvents as string[])))
+  const events = await storage.getEventsByIds(eventIds)
+  const counts = await storage.getEventSeatCounts(events)
+
+  for (const registration of CapacityService.pickPromotions(events, counts, waitlist)) {
+    const promoted = await storage.promoteRegistration(registration.id)
+    if (!promoted) continue
+
+    const selected = events.filter((event) => promoted.selectedEvents.includes(event.id))
+    for (const event of selected) {
+      WebSocketService.notifyRegistrationUpdate(event.id, { ...PaymentService.withoutReceipt(promoted), eventName: event.name })
+    }
+
+    const details = RegistrationFormService.getParticipantDetails(registration.form?.formFields || [], promoted.submittedData)
+    if (!details.email) continue
+    emailService.sendWaitlistPromoted(
+      details.email,
+      details.fullName || "Participant",
+      selected.map((event) => event.name),
+    ).catch(err => {
+      console.error(`Failed to send waitlist email for registration ${promoted.id}:`, err)
+    })
+  }
+}
+
+// Combos come from the fees page as { name, eventIds, amount }; an update keeps whatever it leaves out.
+// A registration holds at most one event of each category, so a combo's events must be too.
+async function parseFeeCombo(body: any, current?: FeeCombo): Promise<{ combo?: InsertFeeCombo; error?: string }> {
+  const parsed = insertFeeComboSchema.safeParse({
+    name: body.name ?? current?.name,
+    eventIds: body.eventIds ?? current?.eventIds,
+    amount: body.amount ?? current?.amount,
+  })
+  if (!parsed.success) {
+    return { error: "A combo needs a name, at least two events and a price in whole rupees" }
+  }
+
+  const fee = PaymentService.parseFee(parsed.data.amount)
+  if (fee.error) return { error: fee.error }
+
+  const eventIds = Array.from(new Set(parsed.data.eventIds))
+  const events = await storage.getEventsByIds(eventIds)
+  if (events.length !== eventIds.length) {
+    return { error: "One or more combo events not found" }
+  }
+  if (new Set(events.map((event) => event.category)).size !== events.length) {
+    return { error: "A combo can include only one technical and one non-technical event, as a registration can" }
+  }
+
+  return { combo: { ...parsed.data, eventIds } }
+}
+
+// Collected from every registration, including declined and withdrawn ones that had already paid
+async function getCollectionsSummary() {
+  const [registrations, events] = await Promise.all([storage.getRegistrations(), storage.getEvents()])
+  return { registrations, summary: PaymentService.summarize(registrations, events) }
+}
+
+// Participants only see event standings once every scored round is published and their own attempts
+// have run their course
+async function eventResultsHidden(user: NonNullable<AuthRequest["user"]>, eventId: string): Promise<boolean> {
+  if (user.role === "super_admin" || user.role === "event_admin") {
+    return false
+  }
+
+  const rounds = await storage.getScoredRoundsByEvent(eventId)
+  if (!rounds.every((round) => round.resultsPublished)) {
+    return true
+  }
+
+  for (const round of rounds) {
+    const userAttempt = await storage.getTestAttemptByUserAndRound(user.id, round.id)
+    if (userAttempt && userAttempt.startedAt && round.duration) {
+      const attemptDurationElapsed = Date.now() > new Date(userAttempt.startedAt).getTime() + (round.duration * 60 * 1000)
+      if (!attemptDurationElapsed) {
+        return true
+      }
+    }
+  }
+  return false
+}
+
 async function logSuperAdminAction(
   adminId: string,
   adminUsername: string,
@@ -127,6 +349,113 @@ async function logSuperAdminAction(
   })
 }
 
+const QUESTION_DIFFICULTIES = ["easy", "medium", "hard"]
+
+// Practice rounds run the full test flow but allow any number of attempts, show answers straight
+// after submission and are left out of leaderboards, reports and participant status
+const ROUND_TYPES = ["standard", "practice"]
+const isPracticeRound = (round: Round | null | undefined) => round?.roundType === "practice"
+
+// Multi-select questions need options and a non-empty list of correct options drawn from them
+function validateMultiSelectKey(questionType: string, options: unknown, correctAnswers: unknown): string | null {
+  if (questionType !== "multiple_select") return null
+
+  if (!Array.isArray(options) || options.length < 2) {
+    return "Multi-select questions need at least 2 options"
+  }
+  if (!Array.isArray(correctAnswers) || correctAnswers.length === 0) {
+    return "Multi-select questions need at least one correct option"
+  }
+  const optionSet = new Set(options.map((o) => String(o)))
+  const unknown = correctAnswers.filter((a) => !optionSet.has(String(a)))
+  if (unknown.length > 0) {
+    return `Correct options not found in options: ${unknown.join(", ")}`
+  }
+  return null
+}
+
+// Proctoring settings from a rules or profile form. On event and round rules null clears the
+// override so the setting is inherited; profiles must set every value they are given.
+function parseProctoringSettings(
+  body: Record<string, unknown>,
+  allowNull: boolean,
+): { settings: Record<string, boolean | number | null>; error?: string } {
+  const settings: Record<string, boolean | number | null> = {}
+  for (const key of PROCTORING_RULE_KEYS) {
+    const value = body[key]
+    if (value === undefined) continue
+    if (value === null) {
+      if (!allowNull) return { settings, error: `${key} cannot be empty` }
+      settings[key] = null
+    } else if (key === "maxTabSwitchWarnings") {
+      if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value > 10) {
+        return { settings, error: "Maximum warnings must be a whole number from 0 to 10" }
+      }
+      settings[key] = value
+    } else {
+      if (typeof value !== "boolean") return { settings, error: `${key} must be true or false` }
+      settings[key] = value
+    }
+  }
+  return { settings }
+}
+
+// Switching a rules row to another profile starts it from that profile: every proctoring override
+// the request does not set again is cleared, so stale values cannot hide the profile
+function clearOverridesForNewProfile(before: { proctoringProfileId: string | null } | undefined, proctoringProfileId: unknown) {
+  const cleared: Record<string, null> = {}
+  if (!proctoringProfileId || proctoringProfileId === before?.proctoringProfileId) return cleared
+  for (const key of PROCTORING_RULE_KEYS) cleared[key] = null
+  return cleared
+}
+
+// { field: { before, after } } for every field the update changed, for the audit log
+function diffFields(before: Record<string, any> | null | undefined, updates: Record<string, any>) {
+  const changes: Record<string, { before: unknown; after: unknown }> = {}
+  for (const [key, value] of Object.entries(updates)) {
+    const previous = before?.[key] ?? null
+    if (previous !== (value ?? null)) changes[key] = { before: previous, after: value ?? null }
+  }
+  return changes
+}
+
+// Sections come from the round form as [{ id?, name, durationMinutes }]; new sections get an id here.
+// An empty list turns sections off.
+function parseRoundSections(value: unknown): { sections: RoundSection[] | null; error?: string } {
+  if (value === null || (Array.isArray(value) && value.length === 0)) return { sections: null }
+  if (!Array.isArray(value)) return { sections: null, error: "Sections must be an array" }
+
+  const parsed = roundSectionSchema
+    .array()
+    .safeParse(value.map((section: any) => ({ ...section, id: section?.id || crypto.randomUUID() })))
+  if (!parsed.success) {
+    return { sections: null, error: "Each section needs a name and a duration of at least 1 minute" }
+  }
+
+  const names = new Set(parsed.data.map((section) => section.name.toLowerCase()))
+  const ids = new Set(parsed.data.map((section) => section.id))
+  if (names.size !== parsed.data.length || ids.size !== parsed.data.length) {
+    return { sections: null, error: "Section names must be unique" }
+  }
+
+  return { sections: parsed.data }
+}
+
+// Questions name their section by id (question form) or by name (bulk upload)
+function resolveQuestionSection(round: Round, sectionId: unknown, sectionName?: unknown): { sectionId: string | null; error?: string } {
+  const sections = SectionService.getSections(round)
+  if (!sectionId && !sectionName) return { sectionId: null }
+  if (sections.length === 0) return { sectionId: null, error: "This round has no sections" }
+
+  const section = sectionId
+    ? sections.find((s) => s.id === sectionId)
+    : sections.find((s) => s.name.toLowerCase() === String(sectionName).trim().toLowerCase())
+  if (!section) {
+    return { sectionId: null, error: `Section must be one of: ${sections.map((s) => s.name).join(", ")}` }
+  }
+  return { sectionId: section.id }
+}
+
 const getClientIp = (req: Request) => {
   return (
     req.headers["x-forwarded-for"]?.toString().split(",")[0] ||
@@ -136,6 +465,70 @@ const getClientIp = (req: Request) => {
   )
 }
 
+// Browser id the test page sends so an in-progress attempt stays on one machine
+const getClientId = (req: Request) => req.headers["x-client-id"]?.toString().slice(0, 64) || null
+
+// Hash of the machine's browser characteristics. Identical lab machines share it, so it is only
+// kept as evidence for admins; the client id decides which machine is which
+const getDeviceFingerprint = (req: Request) => req.headers["x-device-fingerprint"]?.toString().slice(0, 128) || null
+
+const getClientIdentity = (req: Request) => ({ clientId: getClientId(req), deviceFingerprint: getDeviceFingerprint(req) })
+
+// A participant's attempts that are still running in the event's rounds
+async function getInProgressAttemptsForEvent(userId: string, eventId: string) {
+  const attempts = (await storage.getTestAttemptsByUser(userId)).filter((a) => a.status === "in_progress")
+  if (attempts.length === 0) return []
+  const roundIds = new Set((await storage.getRoundsByEvent(eventId)).map((r) => r.id))
+  return attempts.filter((a) => roundIds.has(a.roundId))
+}
+
+// The rules a round's tests run under, after profiles and overrides are applied
+async function getRoundProctoringRules(round: Round) {
+  return ProctoringService.resolveRules(await storage.getProctoringLayers(round.eventId, round.id)).rules
+}
+
+// Similarity analysis of a round's submitted short answer and coding answers, with question
+// details attached for the report page and the Excel sheet
+async function buildSimilarityReport(round: Round, options: SimilarityOptions) {
+  const rules = await getRoundProctoringRules(round)
+  const rows = await storage.getGradingQueue(round.id)
+
+  const analysis = SimilarityService.analyze(
+    rows.map(({ answer, question, attempt, user }) => ({
+      answerId: answer.id,
+      attemptId: attempt.id,
+      userId: user.id,
+      fullName: user.fullName,
+      questionId: question.id,
+      questionType: question.questionType,
+      answer: answer.answer,
+      answeredAt: answer.answeredAt,
+      submittedAt: attempt.submittedAt,
+      violationCount: ProctoringService.countViolations(attempt.violationLogs as ViolationLog[], rules),
+    })),
+    options,
+  )
+
+  const questions = new Map(rows.map(({ question }) => [question.id, question]))
+  return {
+    round: { id: round.id, name: round.name, eventId: round.eventId },
+    generatedAt: new Date(),
+    ...analysis,
+    clusters: analysis.clusters.map((cluster) => {
+      const question = questions.get(cluster.questionId)!
+      return {
+        ...cluster,
+        questionNumber: question.questionNumber,
+        questionText: question.questionText,
+        questionType: question.questionType,
+      }
+    }),
+  }
+}
+
+const ATTEMPT_IN_USE_MESSAGE = "This test is open on another machine. Ask an event admin to allow resuming here."
+const ATTEMPT_PAUSED_MESSAGE = "Your test has been paused by the proctor. Please wait for it to be resumed."
+
 export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/users", requireAuth, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
     try {
@@ -185,7 +578,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete("/api/users/:id", requireAuth, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
     try {
+      const entries = await storage.getParticipantsByUser(req.params.id)
       await storage.deleteUser(req.params.id)
+      if (entries.length > 0) {
+        promoteFromWaitlist().catch(err => console.error("Waitlist promotion error:", err))
+      }
       res.json({ message: "User deleted successfully" })
     } catch (error) {
       console.error("Delete user error:", error)
@@ -252,7 +649,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         email,
         fullName,
         role,
-      } as any)
+      })
 
       const token = jwt.sign({ id: user.id, username: user.username, role: user.role }, JWT_SECRET, { expiresIn: "7d" })
 
@@ -293,8 +690,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(401).json({ message: "Invalid credentials" })
         }
 
+        // One machine at a time per event credential
+        const clientId =
+          (typeof req.body.clientId === "string" ? req.body.clientId.slice(0, 64) : null) ||
+          getClientId(req)
+        const deviceFingerprint =
+          (typeof req.body.deviceFingerprint === "string" ? req.body.deviceFingerprint.slice(0, 128) : null) ||
+          getDeviceFingerprint(req)
+        const inProgressAttempts = await getInProgressAttemptsForEvent(user.id, eventCredential.eventId)
+        const decision = SessionService.decideLogin(eventCredential, clientId, inProgressAttempts.length > 0)
+
+        if (SessionService.isConflict(decision)) {
+          const outcome = decision === "block" ? "blocked" : "replaced"
+          const existing = await storage.getOpenSessionConflict(eventCredential.id, clientId)
+          const conflict = existing
+            ? await storage.updateSessionConflict(existing.id, {
+                occurrences: existing.occurrences + 1,
+                outcome,
+                newFingerprint: deviceFingerprint,
+                ipAddress: getClientIp(req),
+                userAgent: req.headers["user-agent"]?.toString() || null,
+              })
+            : await storage.createSessionConflict({
+                credentialId: eventCredential.id,
+                eventId: eventCredential.eventId,
+                participantUserId: user.id,
+                previousClientId: eventCredential.activeClientId,
+                newClientId: clientId,
+                previousFingerprint: eventCredential.activeDeviceFingerprint,
+                newFingerprint: deviceFingerprint,
+                ipAddress: getClientIp(req),
+                userAgent: req.headers["user-agent"]?.toString() || null,
+                outcome,
+              })
+          WebSocketService.notifySessionConflict(eventCredential.eventId, { ...conflict, participant: { id: user.id, fullName: user.fullName } })
+
+          if (decision === "block") {
+            return res.status(409).json({ message: LOGIN_BLOCKED_MESSAGE, code: "login_blocked" })
+          }
+        }
+
+        const sessionId = crypto.randomUUID()
+        await storage.updateEventCredentialSession(eventCredential.id, {
+          activeSessionId: sessionId,
+          activeClientId: clientId,
+          activeDeviceFingerprint: deviceFingerprint,
+          sessionStartedAt: new Date(),
+          ...(decision === "approved_switch" ? { approvedClientId: null } : {}),
+        })
+
+        if (decision === "replace" || decision === "approved_switch") {
+          WebSocketService.notifySessionReplaced(user.id)
+        }
+
         const token = jwt.sign(
-          { id: user.id, username: user.username, role: user.role, eventId: eventCredential.eventId },
+          { id: user.id, username: user.username, role: user.role, eventId: eventCredential.eventId, sid: sessionId },
           JWT_SECRET,
           { expiresIn: "7d" },
         )
@@ -372,7 +822,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ message: "Event credential not found" })
         }
 
-        const { credential, event, rounds, eventRules, activeRoundRules } = data
+        const { credential, event, rounds } = data
+        // Participants see the rules in force, not the overrides they were assembled from
+        const eventRules = ProctoringService.resolveRules({
+          ...(await storage.getProctoringLayers(event.id)),
+          round: null,
+          roundProfile: null,
+        })
+        const activeRound = rounds.find((round: Round) => round.status === "active")
+        const activeRoundRules = activeRound
+          ? ProctoringService.resolveRules(await storage.getProctoringLayers(event.id, activeRound.id))
+          : null
 
         res.json({
           credential: {
@@ -395,26 +855,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
             startTime: round.startTime,
             endTime: round.endTime,
             status: round.status,
+            roundType: round.roundType,
           })),
-          eventRules: {
-            noRefresh: eventRules?.noRefresh,
-            noTabSwitch: eventRules?.noTabSwitch,
-            forceFullscreen: eventRules?.forceFullscreen,
-            disableShortcuts: eventRules?.disableShortcuts,
-            autoSubmitOnViolation: eventRules?.autoSubmitOnViolation,
-            maxTabSwitchWarnings: eventRules?.maxTabSwitchWarnings,
-            additionalRules: eventRules?.additionalRules,
-          },
+          eventRules: { ...eventRules.rules, additionalRules: eventRules.additionalRules },
           roundRules: activeRoundRules
-            ? {
-                noRefresh: activeRoundRules.noRefresh,
-                noTabSwitch: activeRoundRules.noTabSwitch,
-                forceFullscreen: activeRoundRules.forceFullscreen,
-                disableShortcuts: activeRoundRules.disableShortcuts,
-                autoSubmitOnViolation: activeRoundRules.autoSubmitOnViolation,
-                maxTabSwitchWarnings: activeRoundRules.maxTabSwitchWarnings,
-                additionalRules: activeRoundRules.additionalRules,
-              }
+            ? { ...activeRoundRules.rules, additionalRules: activeRoundRules.additionalRules }
             : null,
         })
       } catch (error) {
@@ -424,19 +869,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   )
 
-  app.patch("/api/participants/:participantId/disqualify", requireAuth, async (req: AuthRequest, res: Response) => {
+  // Disqualification decided on review (e.g. after adjudicating violations); the proctoring console has its own route
+  app.patch("/api/participants/:participantId/disqualify", requireAuth, requireEventAdmin, async (req: AuthRequest, res: Response) => {
     try {
       const { participantId } = req.params
+      const { reason } = req.body
 
-      const participant = await storage.updateParticipantStatus(participantId, "disqualified")
+      if (!reason || typeof reason !== "string" || !reason.trim()) {
+        return res.status(400).json({ message: "Reason is required" })
+      }
 
+      const participant = await storage.getParticipant(participantId)
       if (!participant) {
         return res.status(404).json({ message: "Participant not found" })
       }
 
+      if (req.user!.role === "event_admin") {
+        const admins = await storage.getEventAdminsByEvent(participant.eventId)
+        if (!admins.some((admin) => admin.id === req.user!.id)) {
+          return res.status(403).json({ message: "You are not assigned to this event" })
+        }
+      }
+
+      if (participant.status === "disqualified") {
+        return res.status(400).json({ message: "Participant is already disqualified" })
+      }
+
+      // Tests still open are closed and graded so the record is complete
+      const openAttempts = await getInProgressAttemptsForEvent(participant.userId, participant.eventId)
+      const closedAttempts = []
+      for (const attempt of openAttempts) {
+        if (attempt.pausedAt) {
+          await storage.updateTestAttempt(attempt.id, { pausedAt: null })
+        }
+        const closed = await AttemptService.finalizeAttempt(attempt, "auto_submitted")
+        closedAttempts.push(closed ? withoutPendingScore(closed) : attempt)
+      }
+
+      const updatedParticipant = await storage.updateParticipantStatus(participantId, "disqualified")
+
+      await logSuperAdminAction(
+        req.user!.id,
+        req.user!.username,
+        "disqualify_participant",
+        "participant",
+        participantId,
+        null,
+        {
+          userId: participant.userId,
+          eventId: participant.eventId,
+          status: { before: participant.status, after: "disqualified" },
+          closedAttemptIds: closedAttempts.map((a) => a.id),
+        },
+        reason.trim(),
+        getClientIp(req),
+      )
+
+      for (const attempt of closedAttempts) {
+        WebSocketService.notifyAttemptUpdate(attempt.userId, attempt.id, "disqualified", attempt)
+        WebSocketService.notifyProctoringEvent(participant.eventId, attempt.roundId, attempt, "disqualified", {
+          by: req.user!.username,
+          reason: reason.trim(),
+        })
+      }
+
       res.json({
         message: "Participant disqualified successfully",
-        participant,
+        participant: updatedParticipant,
+        closedAttempts,
       })
     } catch (error) {
       console.error("Disqualify participant error:", error)
@@ -486,6 +986,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const allEvents = await storage.getEvents()
 
       const allowedEvents = allEvents.filter((event) => activeForm.allowedCategories.includes(event.category))
+      const seatCounts = await storage.getEventSeatCounts(allowedEvents)
 
       const eventsWithRounds = await Promise.all(
         allowedEvents.map(async (event) => {
@@ -495,6 +996,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
             name: event.name,
             description: event.description,
             category: event.category,
+            minTeamSize: event.minTeamSize,
+            maxTeamSize: event.maxTeamSize,
+            fee: event.fee,
+            ...CapacityService.summarize(event, seatCounts[event.id]),
             rounds: rounds.map((r) => ({
               id: r.id,
               name: r.name,
@@ -520,6 +1025,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const allEvents = await storage.getEvents()
       const allowedEvents = allEvents.filter((event) => activeForm.allowedCategories.includes(event.category))
+      const seatCounts = await storage.getEventSeatCounts(allowedEvents)
 
       const eventsWithRounds = await Promise.all(
         allowedEvents.map(async (event) => {
@@ -529,6 +1035,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
             name: event.name,
             description: event.description,
             category: event.category,
+            minTeamSize: event.minTeamSize,
+            maxTeamSize: event.maxTeamSize,
+            fee: event.fee,
+            ...CapacityService.summarize(event, seatCounts[event.id]),
             rounds: rounds.map((r) => ({
               id: r.id,
               name: r.name,
@@ -582,11 +1092,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "An event with this name already exists" })
       }
 
+      const teamSettings = TeamService.parseSettings(req.body, { minTeamSize: 1, maxTeamSize: 1, teamScoring: "shared" })
+      if (teamSettings.error) {
+        return res.status(400).json({ message: teamSettings.error })
+      }
+
+      const capacity = CapacityService.parseCapacity(req.body.capacity ?? null)
+      if (capacity.error) {
+        return res.status(400).json({ message: capacity.error })
+      }
+
+      const fee = PaymentService.parseFee(req.body.fee ?? 0)
+      if (fee.error) {
+        return res.status(400).json({ message: fee.error })
+      }
+
       const event = await storage.createEvent({
         name,
         description,
         type,
         category: category ?? "technical",
+        ...teamSettings.value,
+        capacity: capacity.value,
+        fee: fee.value,
         startDate: startDate ? new Date(startDate) : null,
         endDate: endDate ? new Date(endDate) : null,
         status: status || "draft",
@@ -596,14 +1124,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Dev log: what was stored
       try { console.log(`Event created: id=${event.id} category=${event.category} name=${event.name}`) } catch (e) {}
 
+      // Proctoring settings start unset so they come from the defaults or a profile chosen later
       await storage.createEventRules({
         eventId: event.id,
-        noRefresh: true,
-        noTabSwitch: true,
-        forceFullscreen: true,
-        disableShortcuts: true,
-        autoSubmitOnViolation: true,
-        maxTabSwitchWarnings: 2,
         additionalRules: null,
       })
 
@@ -632,6 +1155,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const updateData: any = {}
+      if (["minTeamSize", "maxTeamSize", "teamScoring"].some((key) => req.body[key] !== undefined)) {
+        const current = await storage.getEvent(req.params.id)
+        if (!current) {
+          return res.status(404).json({ message: "Event not found" })
+        }
+        const teamSettings = TeamService.parseSettings(req.body, current)
+        if (teamSettings.error) {
+          return res.status(400).json({ message: teamSettings.error })
+        }
+        if (!TeamService.isTeamEvent(teamSettings.value) && (await storage.getTeamsByEvent(current.id)).length > 0) {
+          return res.status(400).json({ message: "Teams have already registered, so this event has to stay a team event" })
+        }
+        Object.assign(updateData, teamSettings.value)
+      }
+      if (req.body.capacity !== undefined) {
+        const capacity = CapacityService.parseCapacity(req.body.capacity)
+        if (capacity.error) {
+          return res.status(400).json({ message: capacity.error })
+        }
+        updateData.capacity = capacity.value
+      }
+      // Registrations already submitted keep the fee they were quoted
+      if (req.body.fee !== undefined) {
+        const fee = PaymentService.parseFee(req.body.fee)
+        if (fee.error) {
+          return res.status(400).json({ message: fee.error })
+        }
+        updateData.fee = fee.value
+      }
       if (name !== undefined) updateData.name = name
       if (description !== undefined) updateData.description = description
       if (type !== undefined) updateData.type = type
@@ -646,6 +1198,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Event not found" })
       }
 
+      // A raised or removed limit makes room for the waitlist
+      if (updateData.capacity !== undefined) {
+        promoteFromWaitlist().catch(err => console.error("Waitlist promotion error:", err))
+      }
+
       res.json(event)
     } catch (error) {
       console.error("Update event error:", error)
@@ -728,32 +1285,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   })
 
-  app.patch("/api/events/:eventId/rules", requireAuth, requireEventAccess, async (req: AuthRequest, res: Response) => {
+  app.patch("/api/events/:eventId/rules", requireAuth, requireEventAdmin, requireEventAccess, async (req: AuthRequest, res: Response) => {
     try {
-      const {
-        noRefresh,
-        noTabSwitch,
-        forceFullscreen,
-        disableShortcuts,
-        autoSubmitOnViolation,
-        maxTabSwitchWarnings,
-        additionalRules,
-      } = req.body
+      const { additionalRules, proctoringProfileId } = req.body
 
-      const updateData: any = {}
-      if (noRefresh !== undefined) updateData.noRefresh = noRefresh
-      if (noTabSwitch !== undefined) updateData.noTabSwitch = noTabSwitch
-      if (forceFullscreen !== undefined) updateData.forceFullscreen = forceFullscreen
-      if (disableShortcuts !== undefined) updateData.disableShortcuts = disableShortcuts
-      if (autoSubmitOnViolation !== undefined) updateData.autoSubmitOnViolation = autoSubmitOnViolation
-      if (maxTabSwitchWarnings !== undefined) updateData.maxTabSwitchWarnings = maxTabSwitchWarnings
+      const { settings, error } = parseProctoringSettings(req.body, true)
+      if (error) {
+        return res.status(400).json({ message: error })
+      }
+
+      if (proctoringProfileId && !(await storage.getProctoringProfile(proctoringProfileId))) {
+        return res.status(400).json({ message: "Proctoring profile not found" })
+      }
+
+      const before = await storage.getEventRules(req.params.eventId)
+      const updateData: any = { ...clearOverridesForNewProfile(before, proctoringProfileId), ...settings }
       if (additionalRules !== undefined) updateData.additionalRules = additionalRules
+      if (proctoringProfileId !== undefined) updateData.proctoringProfileId = proctoringProfileId || null
 
       const rules = await storage.updateEventRules(req.params.eventId, updateData)
       if (!rules) {
         return res.status(404).json({ message: "Event rules not found" })
       }
 
+      const changes = diffFields(before, updateData)
+      if (Object.keys(changes).length > 0) {
+        const event = await storage.getEvent(req.params.eventId)
+        await logSuperAdminAction(
+          req.user!.id,
+          req.user!.username,
+          "update_event_rules",
+          "event_rules",
+          req.params.eventId,
+          event?.name || null,
+          changes,
+          typeof req.body.reason === "string" && req.body.reason.trim() ? req.body.reason.trim() : null,
+          getClientIp(req),
+        )
+      }
+
       res.json(rules)
     } catch (error) {
       console.error("Update event rules error:", error)
@@ -761,6 +1331,184 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   })
 
+  app.get("/api/events/:eventId/effective-rules", requireAuth, requireEventAccess, async (req: AuthRequest, res: Response) => {
+    try {
+      const layers = await storage.getProctoringLayers(req.params.eventId)
+      res.json({
+        ...ProctoringService.resolveRules({ event: layers.event, eventProfile: layers.eventProfile }),
+        inherited: ProctoringService.resolveRules({}),
+        eventProfile: layers.eventProfile,
+      })
+    } catch (error) {
+      console.error("Get effective event rules error:", error)
+      res.status(500).json({ message: "Internal server error" })
+    }
+  })
+
+  app.get(
+    "/api/events/:eventId/rules/history",
+    requireAuth,
+    requireEventAdminOrSuperAdmin,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        res.json(await storage.getAuditLogsByTarget("event_rules", req.params.eventId))
+      } catch (error) {
+        console.error("Get event rules history error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  // Profiles are listed for event admins choosing one; only super admins define them
+  app.get("/api/proctoring-profiles", requireAuth, requireEventAdmin, async (req: AuthRequest, res: Response) => {
+    try {
+      res.json(await storage.getProctoringProfiles())
+    } catch (error) {
+      console.error("Get proctoring profiles error:", error)
+      res.status(500).json({ message: "Internal server error" })
+    }
+  })
+
+  app.post("/api/proctoring-profiles", requireAuth, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+    try {
+      const { name, description, additionalRules } = req.body
+
+      if (!name || typeof name !== "string" || !name.trim()) {
+        return res.status(400).json({ message: "Name is required" })
+      }
+
+      const { settings, error } = parseProctoringSettings(req.body, false)
+      if (error) {
+        return res.status(400).json({ message: error })
+      }
+
+      if (await storage.getProctoringProfileByName(name.trim())) {
+        return res.status(400).json({ message: "A profile with this name already exists" })
+      }
+
+      const profile = await storage.createProctoringProfile({
+        ...ProctoringService.resolveRules({}).rules,
+        ...settings,
+        name: name.trim(),
+        description: description || null,
+        additionalRules: additionalRules || null,
+        createdBy: req.user!.id,
+      })
+
+      await logSuperAdminAction(
+        req.user!.id,
+        req.user!.username,
+        "create_proctoring_profile",
+        "proctoring_profile",
+        profile.id,
+        profile.name,
+        diffFields(null, { ...profile, id: undefined, createdBy: undefined, createdAt: undefined, updatedAt: undefined }),
+        null,
+        getClientIp(req),
+      )
+
+      res.status(201).json(profile)
+    } catch (error) {
+      console.error("Create proctoring profile error:", error)
+      res.status(500).json({ message: "Internal server error" })
+    }
+  })
+
+  app.patch("/api/proctoring-profiles/:profileId", requireAuth, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+    try {
+      const { name, description, additionalRules, reason } = req.body
+
+      const profile = await storage.getProctoringProfile(req.params.profileId)
+      if (!profile) {
+        return res.status(404).json({ message: "Proctoring profile not found" })
+      }
+
+      const { settings, error } = parseProctoringSettings(req.body, false)
+      if (error) {
+        return res.status(400).json({ message: error })
+      }
+
+      const updateData: any = { ...settings }
+      if (name !== undefined) {
+        if (typeof name !== "string" || !name.trim()) {
+          return res.status(400).json({ message: "Name is required" })
+        }
+        const existing = await storage.getProctoringProfileByName(name.trim())
+        if (existing && existing.id !== profile.id) {
+          return res.status(400).json({ message: "A profile with this name already exists" })
+        }
+        updateData.name = name.trim()
+      }
+      if (description !== undefined) updateData.description = description || null
+      if (additionalRules !== undefined) updateData.additionalRules = additionalRules || null
+
+      const updated = await storage.updateProctoringProfile(profile.id, updateData)
+
+      const changes = diffFields(profile, updateData)
+      if (Object.keys(changes).length > 0) {
+        await logSuperAdminAction(
+          req.user!.id,
+          req.user!.username,
+          "update_proctoring_profile",
+          "proctoring_profile",
+          profile.id,
+          updated?.name || profile.name,
+          changes,
+          typeof reason === "string" && reason.trim() ? reason.trim() : null,
+          getClientIp(req),
+        )
+      }
+
+      res.json(updated)
+    } catch (error) {
+      console.error("Update proctoring profile error:", error)
+      res.status(500).json({ message: "Internal server error" })
+    }
+  })
+
+  // Events and rounds that used the profile fall back to their own settings and the defaults
+  app.delete("/api/proctoring-profiles/:profileId", requireAuth, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+    try {
+      const profile = await storage.getProctoringProfile(req.params.profileId)
+      if (!profile) {
+        return res.status(404).json({ message: "Proctoring profile not found" })
+      }
+
+      await storage.deleteProctoringProfile(profile.id)
+
+      await logSuperAdminAction(
+        req.user!.id,
+        req.user!.username,
+        "delete_proctoring_profile",
+        "proctoring_profile",
+        profile.id,
+        profile.name,
+        null,
+        typeof req.body?.reason === "string" && req.body.reason.trim() ? req.body.reason.trim() : null,
+        getClientIp(req),
+      )
+
+      res.json({ message: "Proctoring profile deleted" })
+    } catch (error) {
+      console.error("Delete proctoring profile error:", error)
+      res.status(500).json({ message: "Internal server error" })
+    }
+  })
+
+  app.get(
+    "/api/proctoring-profiles/:profileId/history",
+    requireAuth,
+    requireSuperAdmin,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        res.json(await storage.getAuditLogsByTarget("proctoring_profile", req.params.profileId))
+      } catch (error) {
+        console.error("Get proctoring profile history error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
   app.get("/api/events/:eventId/rounds", requireAuth, requireEventAccess, async (req: AuthRequest, res: Response) => {
     try {
       const rounds = await storage.getRoundsByEvent(req.params.eventId)
@@ -778,9 +1526,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     requireEventAccess,
     async (req: AuthRequest, res: Response) => {
       try {
-        const { name, description, roundNumber, duration, startTime, endTime, status } = req.body
+        const { name, description, roundNumber, duration, startTime, endTime, status, roundType } = req.body
+
+        const { sections, error: sectionsError } = parseRoundSections(req.body.sections ?? null)
+        if (sectionsError) {
+          return res.status(400).json({ message: sectionsError })
+        }
+
+        if (roundType !== undefined && !ROUND_TYPES.includes(roundType)) {
+          return res.status(400).json({ message: `Round type must be one of: ${ROUND_TYPES.join(", ")}` })
+        }
 
-        if (!name || roundNumber === undefined || !duration) {
+        if (!name || roundNumber === undefined || (!duration && !sections)) {
           return res.status(400).json({ message: "Name, round number, and duration are required" })
         }
 
@@ -789,20 +1546,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
           name,
           description: description || null,
           roundNumber,
-          duration,
+          // A sectioned round lasts as long as its sections put together
+          duration: sections ? SectionService.getTotalMinutes(sections) : duration,
+          sections,
           startTime: startTime ? new Date(startTime) : null,
           endTime: endTime ? new Date(endTime) : null,
           status: status || "not_started",
+          roundType: roundType || "standard",
         })
 
         await storage.createRoundRules({
           roundId: round.id,
-          noRefresh: true,
-          noTabSwitch: true,
-          forceFullscreen: true,
-          disableShortcuts: true,
-          autoSubmitOnViolation: true,
-          maxTabSwitchWarnings: 2,
           additionalRules: null,
         })
 
@@ -861,14 +1615,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
         if (endTime !== undefined) updateData.endTime = new Date(endTime)
         if (status !== undefined) updateData.status = status
 
-        const round = await storage.updateRound(req.params.roundId, updateData)
-        if (!round) {
-          return res.status(404).json({ message: "Round not found" })
+        if (req.body.roundType !== undefined) {
+          if (!ROUND_TYPES.includes(req.body.roundType)) {
+            return res.status(400).json({ message: `Round type must be one of: ${ROUND_TYPES.join(", ")}` })
+          }
+
+          // Switching would move existing attempts in or out of the results
+          const existing = await storage.getRound(req.params.roundId)
+          if (existing && existing.roundType !== req.body.roundType && (await storage.getTestAttemptsByRound(existing.id)).length > 0) {
+            return res.status(400).json({ message: "Round type cannot be changed once the round has attempts" })
+          }
+          updateData.roundType = req.body.roundType
         }
 
-        res.json(round)
-      } catch (error) {
-        console.error("Update round error:", error)
+        if (req.body.sections !== undefined) {
+          const { sections, error: sectionsError } = parseRoundSections(req.body.sections)
+          if (sectionsError) {
+            return res.status(400).json({ message: sectionsError })
+          }
+
+          const existing = await storage.getRound(req.params.roundId)
+          const changed = JSON.stringify(existing?.sections ?? null) !== JSON.stringify(sections)
+          if (changed && existing?.status === "in_progress") {
+            return res.status(400).json({ message: "Sections cannot be changed while the round is in progress" })
+          }
+
+          updateData.sections = sections
+          if (sections) {
+            updateData.duration = SectionService.getTotalMinutes(sections)
+          }
+        }
+
+        const round = await storage.updateRound(req.params.roundId, updateData)
+        if (!round) {
+          return res.status(404).json({ message: "Round not found" })
+        }
+
+        res.json(round)
+      } catch (error) {
+        console.error("Update round error:", error)
         res.status(500).json({ message: "Internal server error" })
       }
     },
@@ -960,6 +1745,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Notify via WebSocket
         WebSocketService.notifyRoundStatus(round.eventId, req.params.roundId, "completed", updatedRound)
 
+        // Close out attempts still open when the round ends. Grading runs participants' code,
+        // so the sweep carries on after the response
+        AttemptService.autoSubmitExpired(req.params.roundId)
+          .then(autoSubmitted => {
+            if (autoSubmitted > 0) {
+              console.log(`Auto-submitted ${autoSubmitted} attempt(s) on ending round ${req.params.roundId}`)
+            }
+          })
+          .catch(err => console.error("End round auto-submit error:", err))
+
         res.json(updatedRound)
       } catch (error) {
         console.error("End round error:", error)
@@ -1046,12 +1841,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         rules = await storage.createRoundRules({
           roundId: req.params.roundId,
-          noRefresh: true,
-          noTabSwitch: true,
-          forceFullscreen: true,
-          disableShortcuts: true,
-          autoSubmitOnViolation: true,
-          maxTabSwitchWarnings: 2,
           additionalRules: null,
         })
       }
@@ -1071,29 +1860,79 @@ export async function registerRoutes(app: Express): Promise<Server> {
     async (req: AuthRequest, res: Response) => {
       try {
         const {
-          noRefresh,
-          noTabSwitch,
-          forceFullscreen,
-          disableShortcuts,
-          autoSubmitOnViolation,
-          maxTabSwitchWarnings,
           additionalRules,
+          proctoringProfileId,
+          negativeMarking,
+          negativeMarks,
+          multiSelectScoring,
+          shuffleQuestions,
+          shuffleOptions,
+          questionPoolSize,
+          poolStratifyBy,
         } = req.body
 
-        const updateData: any = {}
-        if (noRefresh !== undefined) updateData.noRefresh = noRefresh
-        if (noTabSwitch !== undefined) updateData.noTabSwitch = noTabSwitch
-        if (forceFullscreen !== undefined) updateData.forceFullscreen = forceFullscreen
-        if (disableShortcuts !== undefined) updateData.disableShortcuts = disableShortcuts
-        if (autoSubmitOnViolation !== undefined) updateData.autoSubmitOnViolation = autoSubmitOnViolation
-        if (maxTabSwitchWarnings !== undefined) updateData.maxTabSwitchWarnings = maxTabSwitchWarnings
+        if (negativeMarks !== undefined && (!Number.isInteger(negativeMarks) || negativeMarks < 0)) {
+          return res.status(400).json({ message: "Negative marks must be a non-negative whole number" })
+        }
+
+        if (multiSelectScoring !== undefined && !["all_or_nothing", "proportional"].includes(multiSelectScoring)) {
+          return res.status(400).json({ message: "Multi-select scoring must be all_or_nothing or proportional" })
+        }
+
+        if (
+          questionPoolSize !== undefined &&
+          questionPoolSize !== null &&
+          (!Number.isInteger(questionPoolSize) || questionPoolSize < 1)
+        ) {
+          return res.status(400).json({ message: "Questions per attempt must be a positive whole number" })
+        }
+
+        if (poolStratifyBy !== undefined && !(POOL_STRATIFY_OPTIONS as readonly string[]).includes(poolStratifyBy)) {
+          return res.status(400).json({ message: `Pool stratification must be one of: ${POOL_STRATIFY_OPTIONS.join(", ")}` })
+        }
+
+        const { settings, error } = parseProctoringSettings(req.body, true)
+        if (error) {
+          return res.status(400).json({ message: error })
+        }
+
+        if (proctoringProfileId && !(await storage.getProctoringProfile(proctoringProfileId))) {
+          return res.status(400).json({ message: "Proctoring profile not found" })
+        }
+
+        const before = await storage.getRoundRules(req.params.roundId)
+        const updateData: any = { ...clearOverridesForNewProfile(before, proctoringProfileId), ...settings }
         if (additionalRules !== undefined) updateData.additionalRules = additionalRules
+        if (proctoringProfileId !== undefined) updateData.proctoringProfileId = proctoringProfileId || null
+        if (negativeMarking !== undefined) updateData.negativeMarking = negativeMarking
+        if (negativeMarks !== undefined) updateData.negativeMarks = negativeMarks
+        if (multiSelectScoring !== undefined) updateData.multiSelectScoring = multiSelectScoring
+        if (shuffleQuestions !== undefined) updateData.shuffleQuestions = shuffleQuestions
+        if (shuffleOptions !== undefined) updateData.shuffleOptions = shuffleOptions
+        if (questionPoolSize !== undefined) updateData.questionPoolSize = questionPoolSize
+        if (poolStratifyBy !== undefined) updateData.poolStratifyBy = poolStratifyBy
 
         const rules = await storage.updateRoundRules(req.params.roundId, updateData)
         if (!rules) {
           return res.status(404).json({ message: "Round rules not found" })
         }
 
+        const changes = diffFields(before, updateData)
+        if (Object.keys(changes).length > 0) {
+          const round = await storage.getRound(req.params.roundId)
+          await logSuperAdminAction(
+            req.user!.id,
+            req.user!.username,
+            "update_round_rules",
+            "round_rules",
+            req.params.roundId,
+            round?.name || null,
+            changes,
+            typeof req.body.reason === "string" && req.body.reason.trim() ? req.body.reason.trim() : null,
+            getClientIp(req),
+          )
+        }
+
         res.json(rules)
       } catch (error) {
         console.error("Update round rules error:", error)
@@ -1102,6 +1941,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   )
 
+  // The rules a round runs under, where each setting comes from, and what the round would inherit
+  // from its profile and event if it had no overrides of its own
+  app.get("/api/rounds/:roundId/effective-rules", requireAuth, requireRoundAccess, async (req: AuthRequest, res: Response) => {
+    try {
+      const round = await storage.getRound(req.params.roundId)
+      if (!round) {
+        return res.status(404).json({ message: "Round not found" })
+      }
+
+      const layers = await storage.getProctoringLayers(round.eventId, round.id)
+      res.json({
+        ...ProctoringService.resolveRules(layers),
+        inherited: ProctoringService.resolveRules({ event: layers.event, eventProfile: layers.eventProfile }),
+        roundProfile: layers.roundProfile,
+        eventProfile: layers.eventProfile,
+      })
+    } catch (error) {
+      console.error("Get effective round rules error:", error)
+      res.status(500).json({ message: "Internal server error" })
+    }
+  })
+
+  app.get(
+    "/api/rounds/:roundId/rules/history",
+    requireAuth,
+    requireEventAdmin,
+    requireRoundAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        res.json(await storage.getAuditLogsByTarget("round_rules", req.params.roundId))
+      } catch (error) {
+        console.error("Get round rules history error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
   app.get(
     "/api/rounds/:roundId/questions",
     requireAuth,
@@ -1131,14 +2007,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
           points,
           options,
           correctAnswer,
+          correctAnswers,
           expectedOutput,
           testCases,
+          timeLimitMs,
+          memoryLimitMb,
+          negativeMarks,
+          partialCredit,
+          tag,
+          difficulty,
+          sectionId,
+          explanation,
         } = req.body
 
         if (!questionType || !questionText || questionNumber === undefined) {
           return res.status(400).json({ message: "Question type, text, and number are required" })
         }
 
+        if (testCases !== undefined && testCases !== null && !Array.isArray(testCases)) {
+          return res.status(400).json({ message: "Test cases must be an array" })
+        }
+
+        const multiSelectError = validateMultiSelectKey(questionType, options, correctAnswers)
+        if (multiSelectError) {
+          return res.status(400).json({ message: multiSelectError })
+        }
+
+        if (difficulty && !QUESTION_DIFFICULTIES.includes(difficulty)) {
+          return res.status(400).json({ message: `Difficulty must be one of: ${QUESTION_DIFFICULTIES.join(", ")}` })
+        }
+
+        const round = await storage.getRound(req.params.roundId)
+        if (!round) {
+          return res.status(404).json({ message: "Round not found" })
+        }
+
+        const section = resolveQuestionSection(round, sectionId)
+        if (section.error) {
+          return res.status(400).json({ message: section.error })
+        }
+
         const question = await storage.createQuestion({
           roundId: req.params.roundId,
           questionType,
@@ -1147,8 +2055,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
           points: points || 1,
           options: options || null,
           correctAnswer: correctAnswer || null,
+          correctAnswers: correctAnswers || null,
           expectedOutput: expectedOutput || null,
           testCases: testCases || null,
+          timeLimitMs: timeLimitMs || null,
+          memoryLimitMb: memoryLimitMb || null,
+          negativeMarks: negativeMarks ?? null,
+          partialCredit: partialCredit ?? null,
+          tag: tag || null,
+          difficulty: difficulty || null,
+          sectionId: section.sectionId,
+          explanation: explanation || null,
         })
 
         res.status(201).json(question)
@@ -1172,6 +2089,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(400).json({ message: "Questions array is required and must not be empty" })
         }
 
+        const round = await storage.getRound(req.params.roundId)
+        if (!round) {
+          return res.status(404).json({ message: "Round not found" })
+        }
+
         const errors: string[] = []
         const createdQuestions = []
 
@@ -1183,6 +2105,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
             continue
           }
 
+          const multiSelectError = validateMultiSelectKey(q.questionType, q.options, q.correctAnswers)
+          if (multiSelectError) {
+            errors.push(`Question ${i + 1}: ${multiSelectError}`)
+            continue
+          }
+
+          if (q.difficulty && !QUESTION_DIFFICULTIES.includes(q.difficulty)) {
+            errors.push(`Question ${i + 1}: Difficulty must be one of: ${QUESTION_DIFFICULTIES.join(", ")}`)
+            continue
+          }
+
+          const section = resolveQuestionSection(round, q.sectionId, q.section)
+          if (section.error) {
+            errors.push(`Question ${i + 1}: ${section.error}`)
+            continue
+          }
+
           try {
             const question = await storage.createQuestion({
               roundId: req.params.roundId,
@@ -1192,8 +2131,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
               points: q.points || 1,
               options: q.options || null,
               correctAnswer: q.correctAnswer || null,
+              correctAnswers: q.correctAnswers || null,
               expectedOutput: q.expectedOutput || null,
               testCases: q.testCases || null,
+              timeLimitMs: q.timeLimitMs || null,
+              memoryLimitMb: q.memoryLimitMb || null,
+              negativeMarks: q.negativeMarks ?? null,
+              partialCredit: q.partialCredit ?? null,
+              tag: q.tag || null,
+              difficulty: q.difficulty || null,
+              sectionId: section.sectionId,
+              explanation: q.explanation || null,
             })
             createdQuestions.push(question)
           } catch (error: any) {
@@ -1224,13 +2172,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     requireParticipant,
     async (req: AuthRequest, res: Response) => {
       try {
-        const participant = await storage.registerParticipant({
-          eventId: req.params.eventId,
-          userId: req.user!.id,
-          status: "registered",
-        })
+        const event = await storage.getEvent(req.params.eventId)
+        if (!event) {
+          return res.status(404).json({ message: "Event not found" })
+        }
+
+        const entered = await storage.enterEvents([event], [{ eventId: event.id, userIds: [req.user!.id], teamName: null }])
+        if (entered.fullEvents.length > 0) {
+          return res.status(400).json({ message: `No seats left in ${event.name}` })
+        }
 
-        res.status(201).json(participant)
+        res.status(201).json(entered.participants[0])
       } catch (error) {
         console.error("Register participant error:", error)
         res.status(500).json({ message: "Internal server error" })
@@ -1253,6 +2205,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   )
 
+  app.get(
+    "/api/events/:eventId/teams",
+    requireAuth,
+    requireEventAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const teams = await storage.getTeamsByEvent(req.params.eventId)
+        const teamsWithMembers = await Promise.all(
+          teams.map(async (team) => ({
+            ...team,
+            members: (await storage.getTeamMembers(team.id)).map(({ user, ...participant }) => ({
+              ...participant,
+              fullName: user.fullName,
+              email: user.email,
+              phone: user.phone,
+              college: user.college,
+            })),
+          })),
+        )
+        res.json(teamsWithMembers)
+      } catch (error) {
+        console.error("Get teams error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
   app.get(
     "/api/participants/my-registrations",
     requireAuth,
@@ -1314,32 +2293,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const { roundId } = req.params
         const userId = req.user!.id
 
-        // Check if user already has an attempt for this round
-        const existingAttempt = await storage.getTestAttemptByUserAndRound(userId, roundId)
-        if (existingAttempt) {
-          return res.status(400).json({ message: "You already have an attempt for this round" })
-        }
-
         // Get round to calculate max score
         const round = await storage.getRound(roundId)
         if (!round) {
           return res.status(404).json({ message: "Round not found" })
         }
 
-        // Get questions to calculate max score
+        // Practice rounds can be retaken as often as the participant likes, one attempt at a time
+        const existingAttempt = await storage.getTestAttemptByUserAndRound(userId, roundId)
+        if (existingAttempt && (!isPracticeRound(round) || existingAttempt.status === "in_progress")) {
+          return res.status(400).json({ message: "You already have an attempt for this round" })
+        }
+
+        // Standing accommodations carry over to every attempt the participant starts
+        const participant = await storage.getParticipantByUserAndEvent(userId, round.eventId)
+
+        // With shared team scoring the first member to start sits the round for the whole team.
+        // Practice rounds stay individual.
+        let sharedTeamId: string | null = null
+        if (participant?.teamId && !isPracticeRound(round)) {
+          const event = await storage.getEvent(round.eventId)
+          if (event?.teamScoring === "shared") {
+            sharedTeamId = participant.teamId
+            const teamAttempt = await storage.getTeamAttemptByRound(participant.teamId, roundId)
+            if (teamAttempt) {
+              return res.status(409).json({ message: await describeTeamAttempt(teamAttempt) })
+            }
+          }
+        }
+
+        // Draw this participant's questions from the round's pool and freeze them on the attempt
         const questions = await storage.getQuestionsByRound(roundId)
-        const maxScore = questions.reduce((sum, q) => sum + q.points, 0)
+        const rules = await storage.getRoundRules(roundId)
+        const drawnQuestions = RandomizationService.drawQuestions(questions, crypto.randomUUID(), rules)
+        const maxScore = drawnQuestions.reduce((sum, q) => sum + q.points, 0)
 
-        const attempt = await storage.createTestAttempt({
+        const newAttempt = {
           roundId,
           userId,
+          teamId: participant?.teamId || null,
+          questionIds: rules?.questionPoolSize ? drawnQuestions.map((q) => q.id) : null,
+          extraMinutes: participant?.extraTimeMinutes || 0,
+          clientId: getClientId(req),
+          deviceFingerprint: getDeviceFingerprint(req),
           status: "in_progress",
           tabSwitchCount: 0,
           refreshAttemptCount: 0,
           violationLogs: [],
           totalScore: 0,
           maxScore,
-        })
+        }
+
+        // Two teammates starting at once meet on the unique (shared team, round) index
+        let attempt
+        if (sharedTeamId) {
+          attempt = await storage.createSharedTeamAttempt({ ...newAttempt, sharedTeamId })
+          if (!attempt) {
+            const teamAttempt = await storage.getTeamAttemptByRound(sharedTeamId, roundId)
+            return res.status(409).json({ message: teamAttempt ? await describeTeamAttempt(teamAttempt) : "A teammate is already taking this round for your team" })
+          }
+        } else {
+          attempt = await storage.createTestAttempt(newAttempt)
+        }
+
+        WebSocketService.notifyProctoringEvent(round.eventId, roundId, attempt, "started")
 
         res.status(201).json(attempt)
       } catch (error) {
@@ -1384,10 +2401,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Access denied" })
       }
 
+      if (req.user!.role === "participant" && !(await AttemptService.claimForClient(attempt, getClientIdentity(req)))) {
+        return res.status(409).json({ message: ATTEMPT_IN_USE_MESSAGE })
+      }
+
       // Get round and questions
       const round = await storage.getRound(attempt.roundId)
-      const questions = await storage.getQuestionsByRound(attempt.roundId)
+      const rules = await storage.getRoundRules(attempt.roundId)
+      // Serve questions in this attempt's own shuffled order when the round asks for it.
+      // Sectioned rounds keep each section's questions together, in section order.
+      const sections = round ? SectionService.getSections(round) : []
+      const questions = SectionService.orderBySection(
+        RandomizationService.orderForAttempt(await AttemptService.getAttemptQuestions(attempt), attempt.id, rules),
+        sections,
+      ).map((q) => (sections.length > 0 ? { ...q, sectionId: sections[SectionService.getQuestionSectionIndex(q, sections)].id } : q))
       const answers = await storage.getAnswersByAttempt(attempt.id)
+      const proctoringRules = round
+        ? ProctoringService.resolveRules(await storage.getProctoringLayers(round.eventId, round.id))
+        : null
+      // The clock stands still while a proctor has the attempt paused
+      const clock = attempt.pausedAt ? new Date(attempt.pausedAt) : new Date()
+      const sectionState = round && attempt.status === "in_progress" ? SectionService.getSectionState(attempt, round, clock) : null
       
       // Get event to check if it has ended
       const event = round ? await storage.getEvent(round.eventId) : null
@@ -1399,14 +2433,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Calculate if the participant's attempt duration has elapsed
       // Use attempt.startedAt (when participant started) not round.startedAt (when admin started round)
-      let attemptDurationElapsed = false
-      if (attempt.startedAt && round?.duration) {
-        const attemptEndTime = new Date(attempt.startedAt).getTime() + (round.duration * 60 * 1000)
-        attemptDurationElapsed = Date.now() > attemptEndTime
-      }
+      const deadline = round ? AttemptService.getDeadline(attempt, round, clock) : null
+      const attemptDurationElapsed = deadline ? Date.now() > deadline.getTime() : false
       
       const resultsPublished = round?.resultsPublished ?? false
-      const eventEnded = resultsPublished && attemptDurationElapsed
+      // Practice attempts show their answers as soon as they are submitted
+      const eventEnded = isPracticeRound(round)
+        ? attempt.status !== "in_progress"
+        : resultsPublished && attemptDurationElapsed
       
       const isAdmin = req.user!.role === "super_admin" || req.user!.role === "event_admin"
 
@@ -1418,6 +2452,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         answers,
         event,
         eventEnded,
+        deadline,
+        sectionState,
+        proctoringRules,
+        sectionScores: sections.length > 0 ? SectionService.scoreBySection(sections, questions, answers) : null,
       }
 
       if (!eventEnded && !isAdmin && req.user!.role === "participant") {
@@ -1432,14 +2470,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
           questions: questions.map((q: any) => ({
             ...q,
             correctAnswer: null, // Hide correct answers
+            correctAnswers: null,
+            explanation: null,
+            testCases: Array.isArray(q.testCases) ? q.testCases.filter((tc: any) => !tc?.hidden) : q.testCases, // Hide hidden test cases
           })),
           answers: answers.map((a: any) => ({
             ...a,
             isCorrect: null, // Hide correctness
             pointsAwarded: null, // Hide points
+            testResults: null, // Hide test case outcomes
+            feedback: null, // Hide grader feedback
           })),
           event,
           eventEnded,
+          deadline,
+          sectionState,
+          proctoringRules,
+          sectionScores: null,
         }
       }
 
@@ -1457,12 +2504,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     async (req: AuthRequest, res: Response) => {
       try {
         const { attemptId } = req.params
-        const { questionId, answer } = req.body
+        const { questionId, answer, language } = req.body
+        const clientSeq = AnswerSyncService.parseClientSeq(req.body.clientSeq)
+        const inputStats = InputTelemetryService.parse(req.body.inputStats)
 
         if (!questionId || answer === undefined) {
           return res.status(400).json({ message: "Question ID and answer are required" })
         }
 
+        if (Number.isNaN(clientSeq)) {
+          return res.status(400).json({ message: "clientSeq must be a positive integer" })
+        }
+
+        if (language !== undefined && language !== null && !CodeExecutionService.isSupportedLanguage(language)) {
+          return res.status(400).json({ message: `Unsupported language. Use one of: ${SUPPORTED_LANGUAGES.join(", ")}` })
+        }
+
         const attempt = await storage.getTestAttempt(attemptId)
         if (!attempt) {
           return res.status(404).json({ message: "Test attempt not found" })
@@ -1476,24 +2533,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(400).json({ message: "Test is not in progress" })
         }
 
+        if (!(await AttemptService.claimForClient(attempt, getClientIdentity(req)))) {
+          return res.status(409).json({ message: ATTEMPT_IN_USE_MESSAGE })
+        }
+
+        if (attempt.pausedAt) {
+          return res.status(409).json({ message: ATTEMPT_PAUSED_MESSAGE })
+        }
+
+        const round = await storage.getRound(attempt.roundId)
+        if (!round) {
+          return res.status(404).json({ message: "Round not found" })
+        }
+
+        if (AttemptService.isExpired(attempt, round)) {
+          return res.status(400).json({
+            message: "Time is up for this test",
+            deadline: AttemptService.getDeadline(attempt, round),
+          })
+        }
+
+        // Attempts drawn from a pool may only answer the questions they were given
+        if (Array.isArray(attempt.questionIds) && !attempt.questionIds.includes(questionId)) {
+          return res.status(400).json({ message: "Question is not part of this test" })
+        }
+
+        // In a sectioned round only the open section accepts answers
+        const writableSection = AttemptService.getWritableSection(attempt, round)
+        if (writableSection) {
+          const question = await storage.getQuestion(questionId)
+          if (!question || question.roundId !== round.id) {
+            return res.status(400).json({ message: "Question is not part of this test" })
+          }
+          const questionSection = SectionService.getQuestionSectionIndex(question, SectionService.getSections(round))
+          if (questionSection < writableSection.index) {
+            return res.status(400).json({ message: "This section is closed", sectionState: writableSection })
+          }
+          if (questionSection > writableSection.index) {
+            return res.status(400).json({ message: "This section has not started yet", sectionState: writableSection })
+          }
+        }
+
         // Check if answer already exists
         const existingAnswers = await storage.getAnswersByAttempt(attemptId)
         const existingAnswer = existingAnswers.find((a) => a.questionId === questionId)
 
+        // Replayed and out-of-order writes are acknowledged without changing the saved answer
+        const decision = AnswerSyncService.decideWrite(existingAnswer, clientSeq)
+        if (existingAnswer && (decision === "duplicate" || decision === "stale")) {
+          return res.json({ ...existingAnswer, applied: false })
+        }
+
         let savedAnswer
         if (existingAnswer) {
-          savedAnswer = await storage.updateAnswer(existingAnswer.id, { answer })
+          const updateData: any = { answer }
+          if (language !== undefined) updateData.language = language
+          if (inputStats) updateData.inputStats = InputTelemetryService.merge(existingAnswer.inputStats, inputStats)
+          savedAnswer = await storage.applyAnswerWrite(existingAnswer.id, updateData, clientSeq)
+          if (!savedAnswer) {
+            return res.json({ ...(await storage.getAnswer(existingAnswer.id)), applied: false })
+          }
         } else {
-          savedAnswer = await storage.createAnswer({
+          savedAnswer = await storage.insertAnswerWrite({
             attemptId,
             questionId,
             answer,
+            language: language || null,
             isCorrect: false,
             pointsAwarded: 0,
+            clientSeq: clientSeq ?? null,
+            inputStats,
           })
+          if (!savedAnswer) {
+            const current = (await storage.getAnswersByAttempt(attemptId)).find((a) => a.questionId === questionId)
+            return res.json({ ...current, applied: false })
+          }
         }
 
-        res.json(savedAnswer)
+        res.json({ ...savedAnswer, applied: true })
       } catch (error) {
         console.error("Save answer error:", error)
         res.status(500).json({ message: "Internal server error" })
@@ -1510,6 +2627,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const { attemptId } = req.params
         const { type } = req.body // 'tab_switch', 'refresh', 'shortcut'
 
+        if (!type || typeof type !== "string") {
+          return res.status(400).json({ message: "Violation type is required" })
+        }
+
         const attempt = await storage.getTestAttempt(attemptId)
         if (!attempt) {
           return res.status(404).json({ message: "Test attempt not found" })
@@ -1523,23 +2644,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(400).json({ message: "Test is not in progress" })
         }
 
-        const violationLogs = (attempt.violationLogs as any[]) || []
-        violationLogs.push({
-          type,
-          timestamp: new Date().toISOString(),
-        })
+        if (!(await AttemptService.claimForClient(attempt, getClientIdentity(req)))) {
+          return res.status(409).json({ message: ATTEMPT_IN_USE_MESSAGE })
+        }
 
-        const updates: any = { violationLogs }
+        const round = await storage.getRound(attempt.roundId)
+        if (!round) {
+          return res.status(404).json({ message: "Round not found" })
+        }
 
-        if (type === "tab_switch") {
-          updates.tabSwitchCount = (attempt.tabSwitchCount || 0) + 1
-        } else if (type === "refresh") {
-          updates.refreshAttemptCount = (attempt.refreshAttemptCount || 0) + 1
+        const counter = type === "tab_switch" ? "tabSwitchCount" : type === "refresh" ? "refreshAttemptCount" : undefined
+        let updatedAttempt = await storage.appendViolationLogs(
+          attemptId,
+          [{ type, timestamp: new Date().toISOString() }],
+          { lastSeenAt: new Date() },
+          counter,
+        )
+        if (!updatedAttempt) {
+          return res.status(404).json({ message: "Test attempt not found" })
         }
 
-        const updatedAttempt = await storage.updateTestAttempt(attemptId, updates)
+        // Enforcement is decided here so a modified client cannot skip it. It counts the stored
+        // log, which includes violations recorded by concurrent requests
+        const rules = await getRoundProctoringRules(round)
+        const enforcement = ProctoringService.evaluate((updatedAttempt.violationLogs as ViolationLog[]) || [], type, rules)
 
-        res.json(updatedAttempt)
+        WebSocketService.notifyProctoringEvent(round.eventId, round.id, attempt, "violation", {
+          violationType: type,
+          action: enforcement.action,
+          violationCount: enforcement.violationCount,
+        })
+
+        if (enforcement.action === "auto_submit") {
+          const closed = await AttemptService.finalizeAttempt(updatedAttempt, "auto_submitted")
+          if (closed) {
+            return res.json({ ...withoutPendingScore(closed), enforcement })
+          }
+        }
+
+        res.json({ ...updatedAttempt, enforcement })
       } catch (error) {
         console.error("Log violation error:", error)
         res.status(500).json({ message: "Internal server error" })
@@ -1547,15 +2690,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     },
   )
 
+  // HTTP fallback for the test page's socket heartbeat
   app.post(
-    "/api/attempts/:attemptId/submit",
+    "/api/attempts/:attemptId/heartbeat",
     requireAuth,
     requireParticipant,
     async (req: AuthRequest, res: Response) => {
       try {
-        const { attemptId } = req.params
-
-        const attempt = await storage.getTestAttempt(attemptId)
+        const attempt = await storage.getTestAttempt(req.params.attemptId)
         if (!attempt) {
           return res.status(404).json({ message: "Test attempt not found" })
         }
@@ -1565,120 +2707,172 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         if (attempt.status !== "in_progress") {
-          return res.status(400).json({ message: "Test is already submitted" })
+          return res.status(400).json({ message: "Test is not in progress" })
         }
 
-        // Get questions and answers to calculate score
-        const questions = await storage.getQuestionsByRound(attempt.roundId)
-        const answers = await storage.getAnswersByAttempt(attemptId)
+        if (!(await AttemptService.claimForClient(attempt, getClientIdentity(req)))) {
+          return res.status(409).json({ message: ATTEMPT_IN_USE_MESSAGE })
+        }
+
+        await AttemptService.recordHeartbeat(attempt, {
+          at: new Date(),
+          clientTime: req.body?.clientTime,
+          ip: getClientIp(req),
+          userAgent: req.headers["user-agent"] || null,
+          transport: "http",
+        })
+
+        res.json({ ok: true, serverTime: new Date() })
+      } catch (error) {
+        console.error("Heartbeat error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
 
-        let totalScore = 0
+  app.post(
+    "/api/attempts/:attemptId/sections/advance",
+    requireAuth,
+    requireParticipant,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { attemptId } = req.params
+        const { fromSection } = req.body
 
-        // Grade answers
-        for (const answer of answers) {
-          const question = questions.find((q) => q.id === answer.questionId)
-          if (!question) continue
+        if (!Number.isInteger(fromSection)) {
+          return res.status(400).json({ message: "fromSection is required" })
+        }
 
-          let isCorrect = false
-          let pointsAwarded = 0
+        const attempt = await storage.getTestAttempt(attemptId)
+        if (!attempt) {
+          return res.status(404).json({ message: "Test attempt not found" })
+        }
 
-          // Auto-grade multiple choice and true/false
-          if (question.questionType === "multiple_choice" || question.questionType === "true_false") {
-            isCorrect = answer.answer.toLowerCase() === (question.correctAnswer || "").toLowerCase()
-            pointsAwarded = isCorrect ? question.points : 0
-          }
-          // For short answer and coding, require manual grading (set to 0 for now)
-          else {
-            isCorrect = false
-            pointsAwarded = 0
-          }
+        if (attempt.userId !== req.user!.id) {
+          return res.status(403).json({ message: "Access denied" })
+        }
 
-          totalScore += pointsAwarded
+        if (attempt.status !== "in_progress") {
+          return res.status(400).json({ message: "Test is not in progress" })
+        }
 
-          // Update answer with grading
-          await storage.updateAnswer(answer.id, {
-            isCorrect,
-            pointsAwarded,
-          })
+        if (!(await AttemptService.claimForClient(attempt, getClientIdentity(req)))) {
+          return res.status(409).json({ message: ATTEMPT_IN_USE_MESSAGE })
         }
 
-        // Update attempt as completed
-        const updatedAttempt = await storage.updateTestAttempt(attemptId, {
-          status: "completed",
-          submittedAt: new Date(),
-          completedAt: new Date(),
-          totalScore,
-        })
+        if (attempt.pausedAt) {
+          return res.status(409).json({ message: ATTEMPT_PAUSED_MESSAGE })
+        }
 
-        // Notify participant via WebSocket
         const round = await storage.getRound(attempt.roundId)
-        if (round) {
-          WebSocketService.notifyResultPublished(attempt.userId, round.eventId, updatedAttempt)
+        if (!round) {
+          return res.status(404).json({ message: "Round not found" })
         }
 
-        // Send result published email to participant
-        if (round && req.user?.email && req.user?.fullName) {
-          const event = await storage.getEventById(round.eventId)
-          
-          if (event) {
-            // Get participant's rank from leaderboard
-            const leaderboard = await storage.getRoundLeaderboard(attempt.roundId)
-            const participantRank = leaderboard.findIndex(entry => entry.userId === attempt.userId) + 1
-            
-            // Send email (non-blocking)
-            emailService.sendResultPublished(
-              req.user.email,
-              req.user.fullName,
-              event.name,
-              totalScore,
-              participantRank || 0
-            ).catch(err => {
-              console.error('Error sending result published email:', err)
-            })
-          }
+        if (!SectionService.isSectioned(round)) {
+          return res.status(400).json({ message: "This test has no sections" })
         }
 
-        res.json(updatedAttempt)
+        const current = SectionService.getSectionState(attempt, round)
+        if (current?.isLast && current.index === fromSection) {
+          return res.status(400).json({ message: "This is the last section. Submit the test instead." })
+        }
+
+        const updatedAttempt = await AttemptService.advanceSection(attempt, round, fromSection)
+
+        res.json({
+          sectionState: SectionService.getSectionState(updatedAttempt, round),
+          deadline: AttemptService.getDeadline(updatedAttempt, round),
+        })
       } catch (error) {
-        console.error("Submit test error:", error)
+        console.error("Advance section error:", error)
         res.status(500).json({ message: "Internal server error" })
       }
     },
   )
 
-  app.get("/api/participants/my-attempts", requireAuth, requireParticipant, async (req: AuthRequest, res: Response) => {
-    try {
-      const attempts = await storage.getTestAttemptsByUser(req.user!.id)
-      
-      const attemptsWithRounds = await Promise.all(
-        attempts.map(async (attempt) => {
-          const round = await storage.getRound(attempt.roundId)
-          
-          const attemptDurationElapsed = attempt.startedAt && round?.duration
-            ? Date.now() > new Date(attempt.startedAt).getTime() + (round.duration * 60 * 1000)
-            : false
-          
-          const resultsPublished = round?.resultsPublished ?? false
-          const canViewResults = resultsPublished && attemptDurationElapsed
-          
-          if (!canViewResults && attempt.status === 'completed') {
-            return {
-              ...attempt,
-              totalScore: null,
-              maxScore: null,
-              round
-            }
-          }
-          
-          return { ...attempt, round }
-        })
-      )
-      
-      res.json(attemptsWithRounds)
-    } catch (error) {
-      console.error("Get my attempts error:", error)
-      res.status(500).json({ message: "Internal server error" })
-    }
+  app.post(
+    "/api/attempts/:attemptId/submit",
+    requireAuth,
+    requireParticipant,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { attemptId } = req.params
+
+        const attempt = await storage.getTestAttempt(attemptId)
+        if (!attempt) {
+          return res.status(404).json({ message: "Test attempt not found" })
+        }
+
+        if (attempt.userId !== req.user!.id) {
+          return res.status(403).json({ message: "Access denied" })
+        }
+
+        if (attempt.status !== "in_progress") {
+          return res.status(400).json({ message: "Test is already submitted" })
+        }
+
+        if (!(await AttemptService.claimForClient(attempt, getClientIdentity(req)))) {
+          return res.status(409).json({ message: ATTEMPT_IN_USE_MESSAGE })
+        }
+
+        if (attempt.pausedAt) {
+          return res.status(409).json({ message: ATTEMPT_PAUSED_MESSAGE })
+        }
+
+        const round = await storage.getRound(attempt.roundId)
+        if (!round) {
+          return res.status(404).json({ message: "Round not found" })
+        }
+
+        // Submissions that only arrive once time is up count as auto-submitted
+        const status = AttemptService.isExpired(attempt, round) ? "auto_submitted" : "completed"
+        const updatedAttempt = await AttemptService.finalizeAttempt(attempt, status)
+        if (!updatedAttempt) {
+          return res.status(400).json({ message: "Test is already submitted" })
+        }
+
+        res.json(withoutPendingScore(updatedAttempt))
+      } catch (error) {
+        console.error("Submit test error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  app.get("/api/participants/my-attempts", requireAuth, requireParticipant, async (req: AuthRequest, res: Response) => {
+    try {
+      const attempts = await storage.getTestAttemptsByUser(req.user!.id)
+      
+      const attemptsWithRounds = await Promise.all(
+        attempts.map(async (attempt) => {
+          const round = await storage.getRound(attempt.roundId)
+          
+          const attemptDurationElapsed = attempt.startedAt && round?.duration
+            ? Date.now() > new Date(attempt.startedAt).getTime() + (round.duration * 60 * 1000)
+            : false
+          
+          const resultsPublished = round?.resultsPublished ?? false
+          const canViewResults = isPracticeRound(round) || (resultsPublished && attemptDurationElapsed)
+          
+          if (!canViewResults && attempt.status !== 'in_progress') {
+            return {
+              ...attempt,
+              totalScore: null,
+              maxScore: null,
+              round
+            }
+          }
+          
+          return { ...attempt, round }
+        })
+      )
+      
+      res.json(attemptsWithRounds)
+    } catch (error) {
+      console.error("Get my attempts error:", error)
+      res.status(500).json({ message: "Internal server error" })
+    }
   })
 
   // Leaderboard Routes
@@ -1690,6 +2884,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!round) {
         return res.status(404).json({ message: "Round not found" })
       }
+
+      if (isPracticeRound(round)) {
+        return res.json([])
+      }
       
       const isAdmin = req.user!.role === "super_admin" || req.user!.role === "event_admin"
       
@@ -1720,28 +2918,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/events/:eventId/leaderboard", requireAuth, async (req: AuthRequest, res: Response) => {
     try {
       const { eventId } = req.params
-      const rounds = await storage.getRoundsByEvent(eventId)
-      
-      const isAdmin = req.user!.role === "super_admin" || req.user!.role === "event_admin"
-      
-      if (!isAdmin) {
-        const allResultsPublished = rounds.every(round => round.resultsPublished)
-        
-        if (!allResultsPublished) {
-          return res.json([])
-        }
-        
-        if (req.user!.id) {
-          for (const round of rounds) {
-            const userAttempt = await storage.getTestAttemptByUserAndRound(req.user!.id, round.id)
-            if (userAttempt && userAttempt.startedAt && round.duration) {
-              const attemptDurationElapsed = Date.now() > new Date(userAttempt.startedAt).getTime() + (round.duration * 60 * 1000)
-              if (!attemptDurationElapsed) {
-                return res.json([])
-              }
-            }
-          }
-        }
+
+      if (await eventResultsHidden(req.user!, eventId)) {
+        return res.json([])
       }
       
       const leaderboard = await storage.getEventLeaderboard(eventId)
@@ -1752,113 +2931,1474 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   })
 
-  app.get("/api/reports", requireAuth, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+  app.get("/api/events/:eventId/team-leaderboard", requireAuth, async (req: AuthRequest, res: Response) => {
     try {
-      const reports = await storage.getReports()
-      res.json(reports)
+      const { eventId } = req.params
+
+      if (await eventResultsHidden(req.user!, eventId)) {
+        return res.json([])
+      }
+
+      const leaderboard = await storage.getTeamLeaderboard(eventId)
+      res.json(leaderboard)
     } catch (error) {
-      console.error("Get reports error:", error)
+      console.error("Get team leaderboard error:", error)
       res.status(500).json({ message: "Internal server error" })
     }
   })
 
-  app.post("/api/reports/generate/event", requireAuth, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
-    try {
-      const { eventId } = req.body
+  app.get(
+    "/api/rounds/:roundId/grading-queue",
+    requireAuth,
+    requireEventAdmin,
+    requireRoundAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { roundId } = req.params
+        const questionId = typeof req.query.questionId === "string" ? req.query.questionId : undefined
+        const status = typeof req.query.status === "string" ? req.query.status : "all"
+        const blind = req.query.blind === "true"
 
-      if (!eventId) {
-        return res.status(400).json({ message: "Event ID is required" })
+        const round = await storage.getRound(roundId)
+        if (!round) {
+          return res.status(404).json({ message: "Round not found" })
+        }
+
+        const manualQuestions = (await storage.getQuestionsByRound(roundId)).filter(
+          (q) => q.questionType === "short_answer" || q.questionType === "coding",
+        )
+        const rows = await storage.getGradingQueue(roundId)
+
+        const questionSummary = manualQuestions
+          .sort((a, b) => a.questionNumber - b.questionNumber)
+          .map((q) => {
+            const questionRows = rows.filter((row) => row.question.id === q.id)
+            return {
+              id: q.id,
+              questionNumber: q.questionNumber,
+              questionText: q.questionText,
+              questionType: q.questionType,
+              points: q.points,
+              total: questionRows.length,
+              pending: questionRows.filter((row) => !row.answer.gradedAt).length,
+              flagged: questionRows.filter(
+                (row) => (InputTelemetryService.assess(row.answer.inputStats, row.answer.answer)?.flags.length || 0) > 0,
+              ).length,
+            }
+          })
+
+        const items = rows
+          .filter((row) => !questionId || row.question.id === questionId)
+          .map((row) => ({ ...row, inputAssessment: InputTelemetryService.assess(row.answer.inputStats, row.answer.answer) }))
+          .filter((row) => {
+            if (status === "pending") return !row.answer.gradedAt
+            if (status === "graded") return !!row.answer.gradedAt
+            if (status === "flagged") return (row.inputAssessment?.flags.length || 0) > 0
+            return true
+          })
+          .map((row) => {
+            // Blind mode shows a stable pseudonym derived from the attempt instead of the participant
+            const label = `Participant ${crypto.createHash("sha256").update(row.attempt.id).digest("hex").slice(0, 6).toUpperCase()}`
+            return {
+              answerId: row.answer.id,
+              attemptId: row.attempt.id,
+              questionId: row.question.id,
+              questionNumber: row.question.questionNumber,
+              questionType: row.question.questionType,
+              maxPoints: row.question.points,
+              answer: row.answer.answer,
+              language: row.answer.language,
+              testResults: row.answer.testResults,
+              inputStats: row.answer.inputStats,
+              inputAssessment: row.inputAssessment,
+              pointsAwarded: row.answer.pointsAwarded,
+              isCorrect: row.answer.isCorrect,
+              feedback: row.answer.feedback,
+              gradedAt: row.answer.gradedAt,
+              submittedAt: row.attempt.submittedAt,
+              participant: blind
+                ? { label }
+                : { label, fullName: row.user.fullName, email: row.user.email },
+            }
+          })
+
+        res.json({
+          round: { id: round.id, name: round.name, eventId: round.eventId },
+          questions: questionSummary,
+          items,
+        })
+      } catch (error) {
+        console.error("Get grading queue error:", error)
+        res.status(500).json({ message: "Internal server error" })
       }
+    },
+  )
 
-      const report = await storage.generateEventReport(eventId, req.user!.id)
-      res.status(201).json(report)
-    } catch (error) {
-      console.error("Generate event report error:", error)
-      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" })
-    }
-  })
+  app.patch(
+    "/api/rounds/:roundId/answers/:answerId/grade",
+    requireAuth,
+    requireEventAdmin,
+    requireRoundAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { roundId, answerId } = req.params
+        const { pointsAwarded, feedback } = req.body
+
+        const answer = await storage.getAnswer(answerId)
+        if (!answer) {
+          return res.status(404).json({ message: "Answer not found" })
+        }
+
+        const attempt = await storage.getTestAttempt(answer.attemptId)
+        if (!attempt || attempt.roundId !== roundId) {
+          return res.status(404).json({ message: "Answer not found in this round" })
+        }
+
+        if (attempt.status === "in_progress") {
+          return res.status(400).json({ message: "Cannot grade an attempt that is still in progress" })
+        }
+
+        const question = await storage.getQuestion(answer.questionId)
+        if (!question) {
+          return res.status(404).json({ message: "Question not found" })
+        }
+
+        const points = Number(pointsAwarded)
+        if (!Number.isInteger(points) || points < 0 || points > question.points) {
+          return res.status(400).json({ message: `Points must be a whole number between 0 and ${question.points}` })
+        }
+
+        const gradedAnswer = await storage.updateAnswer(answerId, {
+          pointsAwarded: points,
+          isCorrect: points === question.points,
+          feedback: typeof feedback === "string" && feedback.trim() ? feedback.trim() : null,
+          gradedBy: req.user!.id,
+          gradedAt: new Date(),
+        })
+
+        const updatedAttempt = await storage.recalculateAttemptScore(attempt.id)
 
+        const round = await storage.getRound(roundId)
+        if (round) {
+          WebSocketService.notifyLeaderboardUpdate(round.eventId, roundId, "manual_grading")
+        }
+
+        res.json({ answer: gradedAnswer, attempt: updatedAttempt })
+      } catch (error) {
+        console.error("Grade answer error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  // Re-grade every submitted attempt of a round after an answer key correction
   app.post(
-    "/api/reports/generate/symposium",
+    "/api/rounds/:roundId/regrade",
     requireAuth,
-    requireSuperAdmin,
+    requireEventAdmin,
+    requireRoundAccess,
     async (req: AuthRequest, res: Response) => {
       try {
-        const report = await storage.generateSymposiumReport(req.user!.id)
-        res.status(201).json(report)
+        const { roundId } = req.params
+        const { resendEmails, reason } = req.body
+
+        const round = await storage.getRound(roundId)
+        if (!round) {
+          return res.status(404).json({ message: "Round not found" })
+        }
+
+        if (AttemptService.isRegrading(roundId)) {
+          return res.status(409).json({ message: "This round is already being re-graded" })
+        }
+
+        // Coding answers are run again, so the re-grade runs in the background and reports over the socket
+        const adminId = req.user!.id
+        const adminUsername = req.user!.username
+        const ip = getClientIp(req)
+        let total = 0
+        AttemptService.regradeRound(roundId, {
+          resendEmails: resendEmails === true,
+          onProgress: (done, count) => {
+            total = count
+            WebSocketService.notifyRegradeProgress(round.eventId, roundId, { done, total })
+          },
+        })
+          .then(async summary => {
+            await logSuperAdminAction(
+              adminId,
+              adminUsername,
+              "regrade_round",
+              "round",
+              roundId,
+              round.name,
+              {
+                before: summary.changes.map((c) => ({ attemptId: c.attemptId, userId: c.userId, totalScore: c.scoreBefore, rank: c.rankBefore })),
+                after: summary.changes.map((c) => ({ attemptId: c.attemptId, userId: c.userId, totalScore: c.scoreAfter, rank: c.rankAfter })),
+                answers: summary.changes.flatMap((c) => c.answers.map((a) => ({ attemptId: c.attemptId, ...a }))),
+                attemptsRegraded: summary.attemptsRegraded,
+                emailsSent: summary.emailsSent,
+              },
+              reason || null,
+              ip,
+            )
+            WebSocketService.notifyRegradeProgress(round.eventId, roundId, {
+              done: summary.attemptsRegraded,
+              total: summary.attemptsRegraded,
+              summary: {
+                attemptsRegraded: summary.attemptsRegraded,
+                attemptsChanged: summary.attemptsChanged,
+                emailsSent: summary.emailsSent,
+              },
+            })
+          })
+          .catch(err => {
+            console.error("Regrade round error:", err)
+            WebSocketService.notifyRegradeProgress(round.eventId, roundId, { done: 0, total, error: "The re-grade stopped before it finished" })
+          })
+
+        res.status(202).json({ message: "Re-grade started", roundId })
       } catch (error) {
-        console.error("Generate symposium report error:", error)
+        console.error("Regrade round error:", error)
         res.status(500).json({ message: "Internal server error" })
       }
     },
   )
 
-  app.get("/api/reports/:id/download", requireAuth, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
-    try {
-      const { id } = req.params
-      const report = await storage.getReport(id)
+  // Attempt accommodations: the per-round roster plus extra time, reopen, reset and supervised resume.
+  // Every change needs a reason and is written to the audit log.
+  app.get(
+    "/api/rounds/:roundId/attempts",
+    requireAuth,
+    requireEventAdmin,
+    requireRoundAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const round = await storage.getRound(req.params.roundId)
+        if (!round) {
+          return res.status(404).json({ message: "Round not found" })
+        }
 
-      if (!report) {
-        return res.status(404).json({ message: "Report not found" })
-      }
+        const participants = await storage.getParticipantsByEvent(round.eventId)
+        const attempts = await storage.getLatestTestAttemptsByRound(round.id)
 
-      res.setHeader("Content-Type", "application/json")
-      res.setHeader(
-        "Content-Disposition",
-        `attachment; filename="${report.title.replace(/[^a-z0-9]/gi, "_")}_${id}.json"`,
-      )
-      res.json(report.reportData)
-    } catch (error) {
-      console.error("Download report error:", error)
-      res.status(500).json({ message: "Internal server error" })
-    }
-  })
+        const roster = await Promise.all(
+          participants.map(async (participant) => {
+            const user = await storage.getUser(participant.userId)
+            const attempt = attempts.find((a) => a.userId === participant.userId) || null
+            return {
+              participantId: participant.id,
+              userId: participant.userId,
+              fullName: user?.fullName || null,
+              email: user?.email || null,
+              extraTimeMinutes: participant.extraTimeMinutes,
+              attempt,
+              deadline: attempt ? AttemptService.getDeadline(attempt, round) : null,
+            }
+          }),
+        )
+
+        res.json(roster)
+      } catch (error) {
+        console.error("Get round attempts error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
 
   app.post(
-    "/api/admin/backfill-round-rules",
+    "/api/rounds/:roundId/attempts/:attemptId/extend",
     requireAuth,
-    requireSuperAdmin,
+    requireEventAdmin,
+    requireRoundAccess,
     async (req: AuthRequest, res: Response) => {
       try {
-        const events = await storage.getEvents()
-        let processedCount = 0
-        let createdCount = 0
+        const { roundId, attemptId } = req.params
+        const { minutes, reason } = req.body
 
-        for (const event of events) {
-          const rounds = await storage.getRoundsByEvent(event.id)
+        if (!Number.isInteger(minutes) || minutes <= 0) {
+          return res.status(400).json({ message: "Minutes must be a positive whole number" })
+        }
+        if (!reason || typeof reason !== "string" || !reason.trim()) {
+          return res.status(400).json({ message: "Reason is required" })
+        }
 
-          for (const round of rounds) {
-            processedCount++
-            const existingRules = await storage.getRoundRules(round.id)
-
-            if (!existingRules) {
-              await storage.createRoundRules({
-                roundId: round.id,
-                noRefresh: true,
-                noTabSwitch: true,
-                forceFullscreen: true,
-                disableShortcuts: true,
-                autoSubmitOnViolation: true,
-                maxTabSwitchWarnings: 2,
-                additionalRules: null,
-              })
-              createdCount++
-            }
-          }
+        const round = await storage.getRound(roundId)
+        const attempt = await storage.getTestAttempt(attemptId)
+        if (!round || !attempt || attempt.roundId !== roundId) {
+          return res.status(404).json({ message: "Test attempt not found" })
         }
 
-        res.json({
-          message: "Backfill completed successfully",
-          processedRounds: processedCount,
-          createdRules: createdCount,
-        })
+        if (attempt.status !== "in_progress") {
+          return res.status(400).json({ message: "Only an in-progress attempt can be given more time. Reopen it instead." })
+        }
+
+        const updatedAttempt = await storage.extendTestAttempt(attemptId, minutes)
+        if (!updatedAttempt) {
+          return res.status(400).json({ message: "Only an in-progress attempt can be given more time. Reopen it instead." })
+        }
+
+        await logSuperAdminAction(
+          req.user!.id,
+          req.user!.username,
+          "extend_attempt_time",
+          "test_attempt",
+          attemptId,
+          round.name,
+          { userId: attempt.userId, extraMinutes: { before: updatedAttempt.extraMinutes - minutes, after: updatedAttempt.extraMinutes } },
+          reason.trim(),
+          getClientIp(req),
+        )
+
+        WebSocketService.notifyAttemptUpdate(attempt.userId, attemptId, "extended", updatedAttempt)
+
+        res.json({ ...updatedAttempt, deadline: AttemptService.getDeadline(updatedAttempt, round) })
       } catch (error) {
-        console.error("Backfill round rules error:", error)
+        console.error("Extend attempt error:", error)
         res.status(500).json({ message: "Internal server error" })
       }
     },
   )
 
+  app.post(
+    "/api/rounds/:roundId/attempts/:attemptId/reopen",
+    requireAuth,
+    requireEventAdmin,
+    requireRoundAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { roundId, attemptId } = req.params
+        const { extraMinutes, reason } = req.body
+
+        if (extraMinutes !== undefined && (!Number.isInteger(extraMinutes) || extraMinutes < 0)) {
+          return res.status(400).json({ message: "Extra minutes must be a whole number of 0 or more" })
+        }
+        if (!reason || typeof reason !== "string" || !reason.trim()) {
+          return res.status(400).json({ message: "Reason is required" })
+        }
+
+        const round = await storage.getRound(roundId)
+        const attempt = await storage.getTestAttempt(attemptId)
+        if (!round || !attempt || attempt.roundId !== roundId) {
+          return res.status(404).json({ message: "Test attempt not found" })
+        }
+
+        if (attempt.status === "in_progress") {
+          return res.status(400).json({ message: "Test attempt is already in progress" })
+        }
+        if (round.status !== "in_progress") {
+          return res.status(400).json({ message: "Attempts can only be reopened while the round is in progress" })
+        }
+
+        const newExtraMinutes = attempt.extraMinutes + (extraMinutes || 0)
+        // A sectioned attempt resumes in the section it was closed in, with that section's full time
+        const closedSection = SectionService.getSectionState(attempt, round, attempt.submittedAt || new Date())
+        const sectionFields = closedSection ? { currentSection: closedSection.index, sectionStartedAt: new Date() } : {}
+        const deadline = AttemptService.getDeadline({ ...attempt, ...sectionFields, extraMinutes: newExtraMinutes }, round)
+        if (deadline.getTime() <= Date.now()) {
+          return res.status(400).json({ message: "Add enough extra minutes for the reopened attempt to end in the future" })
+        }
+
+        // Saved answers are kept; the participant may continue from any machine once
+        const updatedAttempt = await storage.updateTestAttempt(attemptId, {
+          status: "in_progress",
+          extraMinutes: newExtraMinutes,
+          ...sectionFields,
+          submittedAt: null,
+          completedAt: null,
+          resumeAllowedAt: new Date(),
+        })
+
+        await logSuperAdminAction(
+          req.user!.id,
+          req.user!.username,
+          "reopen_attempt",
+          "test_attempt",
+          attemptId,
+          round.name,
+          {
+            userId: attempt.userId,
+            status: { before: attempt.status, after: "in_progress" },
+            totalScore: attempt.totalScore,
+            extraMinutes: { before: attempt.extraMinutes, after: newExtraMinutes },
+          },
+          reason.trim(),
+          getClientIp(req),
+        )
+
+        WebSocketService.notifyAttemptUpdate(attempt.userId, attemptId, "reopened", updatedAttempt)
+        WebSocketService.notifyLeaderboardUpdate(round.eventId, roundId, "reopen")
+
+        res.json({ ...updatedAttempt, deadline })
+      } catch (error) {
+        console.error("Reopen attempt error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  app.post(
+    "/api/rounds/:roundId/attempts/:attemptId/reset",
+    requireAuth,
+    requireEventAdmin,
+    requireRoundAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { roundId, attemptId } = req.params
+        const { reason } = req.body
+
+        if (!reason || typeof reason !== "string" || !reason.trim()) {
+          return res.status(400).json({ message: "Reason is required" })
+        }
+
+        const round = await storage.getRound(roundId)
+        const attempt = await storage.getTestAttempt(attemptId)
+        if (!round || !attempt || attempt.roundId !== roundId) {
+          return res.status(404).json({ message: "Test attempt not found" })
+        }
+
+        const answers = await storage.getAnswersByAttempt(attemptId)
+
+        // Deleting the attempt removes its answers too, so the participant starts over
+        await storage.deleteTestAttempt(attemptId)
+
+        await logSuperAdminAction(
+          req.user!.id,
+          req.user!.username,
+          "reset_attempt",
+          "test_attempt",
+          attemptId,
+          round.name,
+          {
+            userId: attempt.userId,
+            status: attempt.status,
+            totalScore: attempt.totalScore,
+            answersDeleted: answers.length,
+            violationLogs: attempt.violationLogs,
+          },
+          reason.trim(),
+          getClientIp(req),
+        )
+
+        WebSocketService.notifyAttemptUpdate(attempt.userId, attemptId, "reset")
+        if (attempt.status !== "in_progress") {
+          WebSocketService.notifyLeaderboardUpdate(round.eventId, roundId, "reset")
+        }
+
+        res.json({ message: "Test attempt reset" })
+      } catch (error) {
+        console.error("Reset attempt error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  app.post(
+    "/api/rounds/:roundId/attempts/:attemptId/allow-resume",
+    requireAuth,
+    requireEventAdmin,
+    requireRoundAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { roundId, attemptId } = req.params
+        const { reason } = req.body
+
+        if (!reason || typeof reason !== "string" || !reason.trim()) {
+          return res.status(400).json({ message: "Reason is required" })
+        }
+
+        const round = await storage.getRound(roundId)
+        const attempt = await storage.getTestAttempt(attemptId)
+        if (!round || !attempt || attempt.roundId !== roundId) {
+          return res.status(404).json({ message: "Test attempt not found" })
+        }
+
+        if (attempt.status !== "in_progress") {
+          return res.status(400).json({ message: "Test is not in progress" })
+        }
+
+        // The next machine to open the attempt takes it over
+        const updatedAttempt = await storage.updateTestAttempt(attemptId, { resumeAllowedAt: new Date() })
+
+        await logSuperAdminAction(
+          req.user!.id,
+          req.user!.username,
+          "allow_attempt_resume",
+          "test_attempt",
+          attemptId,
+          round.name,
+          { userId: attempt.userId, previousClientId: attempt.clientId },
+          reason.trim(),
+          getClientIp(req),
+        )
+
+        WebSocketService.notifyAttemptUpdate(attempt.userId, attemptId, "resume_allowed", updatedAttempt)
+
+        res.json(updatedAttempt)
+      } catch (error) {
+        console.error("Allow attempt resume error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  app.get(
+    "/api/events/:eventId/session-conflicts",
+    requireAuth,
+    requireEventAdminOrSuperAdmin,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const conflicts = await storage.getSessionConflictsByEvent(req.params.eventId)
+        res.json(
+          conflicts.map(({ participant, ...conflict }) => ({
+            ...conflict,
+            participant: { id: participant.id, fullName: participant.fullName, email: participant.email },
+          })),
+        )
+      } catch (error) {
+        console.error("Get session conflicts error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  app.post(
+    "/api/events/:eventId/session-conflicts/:conflictId/approve",
+    requireAuth,
+    requireEventAdminOrSuperAdmin,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { eventId, conflictId } = req.params
+        const { reason } = req.body
+
+        if (!reason || typeof reason !== "string" || !reason.trim()) {
+          return res.status(400).json({ message: "Reason is required" })
+        }
+
+        const conflict = await storage.getSessionConflict(conflictId)
+        if (!conflict || conflict.eventId !== eventId) {
+          return res.status(404).json({ message: "Session conflict not found" })
+        }
+        if (conflict.status !== "open") {
+          return res.status(400).json({ message: "Session conflict is already resolved" })
+        }
+        if (!conflict.newClientId) {
+          return res.status(400).json({ message: "The new machine sent no client id and cannot be approved" })
+        }
+
+        // The approved machine can sign in once and take over any test in progress
+        await storage.updateEventCredentialSession(conflict.credentialId, { approvedClientId: conflict.newClientId })
+        const inProgressAttempts = await getInProgressAttemptsForEvent(conflict.participantUserId, eventId)
+        for (const attempt of inProgressAttempts) {
+          const updatedAttempt = await storage.updateTestAttempt(attempt.id, { resumeAllowedAt: new Date() })
+          WebSocketService.notifyAttemptUpdate(attempt.userId, attempt.id, "resume_allowed", updatedAttempt)
+        }
+
+        const updatedConflict = await storage.updateSessionConflict(conflictId, {
+          status: "approved",
+          resolvedBy: req.user!.id,
+          resolvedAt: new Date(),
+          resolutionNote: reason.trim(),
+        })
+
+        await logSuperAdminAction(
+          req.user!.id,
+          req.user!.username,
+          "approve_machine_switch",
+          "event_credential",
+          conflict.credentialId,
+          null,
+          {
+            userId: conflict.participantUserId,
+            previousClientId: conflict.previousClientId,
+            newClientId: conflict.newClientId,
+            previousFingerprint: conflict.previousFingerprint,
+            newFingerprint: conflict.newFingerprint,
+            attemptIds: inProgressAttempts.map((a) => a.id),
+          },
+          reason.trim(),
+          getClientIp(req),
+        )
+
+        res.json(updatedConflict)
+      } catch (error) {
+        console.error("Approve machine switch error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  app.post(
+    "/api/events/:eventId/session-conflicts/:conflictId/dismiss",
+    requireAuth,
+    requireEventAdminOrSuperAdmin,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { eventId, conflictId } = req.params
+        const { reason } = req.body
+
+        if (!reason || typeof reason !== "string" || !reason.trim()) {
+          return res.status(400).json({ message: "Reason is required" })
+        }
+
+        const conflict = await storage.getSessionConflict(conflictId)
+        if (!conflict || conflict.eventId !== eventId) {
+          return res.status(404).json({ message: "Session conflict not found" })
+        }
+        if (conflict.status !== "open") {
+          return res.status(400).json({ message: "Session conflict is already resolved" })
+        }
+
+        const updatedConflict = await storage.updateSessionConflict(conflictId, {
+          status: "dismissed",
+          resolvedBy: req.user!.id,
+          resolvedAt: new Date(),
+          resolutionNote: reason.trim(),
+        })
+
+        await logSuperAdminAction(
+          req.user!.id,
+          req.user!.username,
+          "dismiss_session_conflict",
+          "event_credential",
+          conflict.credentialId,
+          null,
+          { userId: conflict.participantUserId, newClientId: conflict.newClientId, newFingerprint: conflict.newFingerprint, outcome: conflict.outcome },
+          reason.trim(),
+          getClientIp(req),
+        )
+
+        res.json(updatedConflict)
+      } catch (error) {
+        console.error("Dismiss session conflict error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  app.patch(
+    "/api/rounds/:roundId/participants/:participantId/extra-time",
+    requireAuth,
+    requireEventAdmin,
+    requireRoundAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { roundId, participantId } = req.params
+        const { extraTimeMinutes, reason } = req.body
+
+        if (!Number.isInteger(extraTimeMinutes) || extraTimeMinutes < 0) {
+          return res.status(400).json({ message: "Extra time must be a whole number of minutes, 0 or more" })
+        }
+        if (!reason || typeof reason !== "string" || !reason.trim()) {
+          return res.status(400).json({ message: "Reason is required" })
+        }
+
+        const round = await storage.getRound(roundId)
+        const participant = await storage.getParticipant(participantId)
+        if (!round || !participant || participant.eventId !== round.eventId) {
+          return res.status(404).json({ message: "Participant not found" })
+        }
+
+        const updatedParticipant = await storage.updateParticipantExtraTime(participantId, extraTimeMinutes)
+
+        await logSuperAdminAction(
+          req.user!.id,
+          req.user!.username,
+          "set_participant_extra_time",
+          "participant",
+          participantId,
+          null,
+          { userId: participant.userId, eventId: participant.eventId, extraTimeMinutes: { before: participant.extraTimeMinutes, after: extraTimeMinutes } },
+          reason.trim(),
+          getClientIp(req),
+        )
+
+        res.json(updatedParticipant)
+      } catch (error) {
+        console.error("Set participant extra time error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  // Live proctoring console: every attempt of the round with its violations, clock and connection, plus
+  // the proctor's warn, pause, resume, force-submit and disqualify actions. Changes stream to the event
+  // room as `proctoringEvent`s and are written to the audit log.
+  app.get(
+    "/api/rounds/:roundId/proctoring",
+    requireAuth,
+    requireEventAdmin,
+    requireRoundAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const round = await storage.getRound(req.params.roundId)
+        if (!round) {
+          return res.status(404).json({ message: "Round not found" })
+        }
+
+        const rules = await getRoundProctoringRules(round)
+        const participants = await storage.getParticipantsByEvent(round.eventId)
+        const attempts = await storage.getTestAttemptsByRound(round.id)
+        const now = new Date()
+
+        const rows = await Promise.all(
+          attempts.map(async (attempt) => {
+            const user = await storage.getUser(attempt.userId)
+            const participant = participants.find((p) => p.userId === attempt.userId)
+            const violationLogs = (attempt.violationLogs as ViolationLog[]) || []
+            return {
+              attemptId: attempt.id,
+              userId: attempt.userId,
+              participantId: participant?.id || null,
+              participantStatus: participant?.status || null,
+              fullName: user?.fullName || null,
+              email: user?.email || null,
+              status: attempt.status,
+              startedAt: attempt.startedAt,
+              submittedAt: attempt.submittedAt,
+              pausedAt: attempt.pausedAt,
+              lastSeenAt: attempt.lastSeenAt,
+              clockDriftMs: attempt.clockDriftMs,
+              connected: WebSocketService.isUserConnected(attempt.userId),
+              violationCount: ProctoringService.countViolations(violationLogs, rules),
+              violationLogs,
+              remainingMs: attempt.status === "in_progress" ? AttemptService.getRemainingMs(attempt, round, now) : 0,
+            }
+          }),
+        )
+
+        res.json({ round, rules, attempts: rows, serverTime: now })
+      } catch (error) {
+        console.error("Get proctoring console error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  // Clusters of suspiciously similar answers for the judging panel; thresholds can be tuned per request
+  app.get(
+    "/api/rounds/:roundId/similarity",
+    requireAuth,
+    requireEventAdmin,
+    requireRoundAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const round = await storage.getRound(req.params.roundId)
+        if (!round) {
+          return res.status(404).json({ message: "Round not found" })
+        }
+
+        res.json(await buildSimilarityReport(round, SimilarityService.parseOptions(req.query)))
+      } catch (error) {
+        console.error("Get similarity report error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  app.get(
+    "/api/rounds/:roundId/similarity/excel",
+    requireAuth,
+    requireEventAdmin,
+    requireRoundAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const round = await storage.getRound(req.params.roundId)
+        if (!round) {
+          return res.status(404).json({ message: "Round not found" })
+        }
+
+        const report = await buildSimilarityReport(round, SimilarityService.parseOptions(req.query))
+        const names = new Map(report.clusters.flatMap((cluster) => cluster.members.map((m) => [m.answerId, m.fullName] as const)))
+        const answerTexts = new Map(report.clusters.flatMap((cluster) => cluster.members.map((m) => [m.answerId, m.answer] as const)))
+        // Excel cells hold at most 32767 characters
+        const cellText = (text: string | undefined) => (text || "").slice(0, 32000)
+
+        const workbook = new ExcelJS.Workbook()
+
+        const clusterSheet = workbook.addWorksheet("Clusters")
+        clusterSheet.columns = [
+          { header: "Cluster", key: "cluster", width: 12 },
+          { header: "Risk", key: "risk", width: 10 },
+          { header: "Question", key: "question", width: 10 },
+          { header: "Type", key: "type", width: 14 },
+          { header: "Max Similarity", key: "maxSimilarity", width: 15 },
+          { header: "Avg Similarity", key: "averageSimilarity", width: 15 },
+          { header: "Participant", key: "name", width: 30 },
+          { header: "Answered At", key: "answeredAt", width: 22 },
+          { header: "Submitted At", key: "submittedAt", width: 22 },
+          { header: "Violations", key: "violations", width: 12 },
+          { header: "Answer", key: "answer", width: 60 },
+        ]
+        report.clusters.forEach((cluster, index) => {
+          cluster.members.forEach((member) => {
+            clusterSheet.addRow({
+              cluster: index + 1,
+              risk: cluster.risk,
+              question: `Q${cluster.questionNumber}`,
+              type: cluster.questionType,
+              maxSimilarity: `${Math.round(cluster.maxSimilarity * 100)}%`,
+              averageSimilarity: `${Math.round(cluster.averageSimilarity * 100)}%`,
+              name: member.fullName,
+              answeredAt: new Date(member.answeredAt).toLocaleString(),
+              submittedAt: member.submittedAt ? new Date(member.submittedAt).toLocaleString() : "N/A",
+              violations: member.violationCount,
+              answer: cellText(member.answer),
+            })
+          })
+        })
+
+        const pairSheet = workbook.addWorksheet("Pairs")
+        pairSheet.columns = [
+          { header: "Cluster", key: "cluster", width: 12 },
+          { header: "Question", key: "question", width: 10 },
+          { header: "Participant A", key: "nameA", width: 30 },
+          { header: "Participant B", key: "nameB", width: 30 },
+          { header: "Similarity", key: "similarity", width: 12 },
+          { header: "Answered Apart (s)", key: "apart", width: 18 },
+          { header: "Answer A", key: "answerA", width: 50 },
+          { header: "Answer B", key: "answerB", width: 50 },
+        ]
+        report.clusters.forEach((cluster, index) => {
+          cluster.pairs.forEach((pair) => {
+            pairSheet.addRow({
+              cluster: index + 1,
+              question: `Q${cluster.questionNumber}`,
+              nameA: names.get(pair.answerIds[0]),
+              nameB: names.get(pair.answerIds[1]),
+              similarity: `${Math.round(pair.similarity * 100)}%`,
+              apart: pair.answeredApartSeconds,
+              answerA: cellText(answerTexts.get(pair.answerIds[0])),
+              answerB: cellText(answerTexts.get(pair.answerIds[1])),
+            })
+          })
+        })
+
+        const participantSheet = workbook.addWorksheet("Participants")
+        participantSheet.columns = [
+          { header: "Participant", key: "name", width: 30 },
+          { header: "Clusters", key: "clusters", width: 10 },
+          { header: "Violations", key: "violations", width: 12 },
+          { header: "Similar To", key: "partners", width: 60 },
+        ]
+        report.participants.forEach((participant) => {
+          participantSheet.addRow({
+            name: participant.fullName,
+            clusters: participant.clusterCount,
+            violations: participant.violationCount,
+            partners: participant.partnerNames.join(", "),
+          })
+        })
+
+        const settingsSheet = workbook.addWorksheet("Settings")
+        settingsSheet.columns = [
+          { header: "Setting", key: "setting", width: 30 },
+          { header: "Value", key: "value", width: 30 },
+        ]
+        settingsSheet.addRows([
+          { setting: "Round", value: round.name },
+          { setting: "Generated At", value: report.generatedAt.toLocaleString() },
+          { setting: "Code Threshold", value: `${Math.round(report.options.codeThreshold * 100)}%` },
+          { setting: "Text Threshold", value: `${Math.round(report.options.textThreshold * 100)}%` },
+          { setting: "Answers Compared", value: report.answersCompared },
+          { setting: "Answers Too Short To Compare", value: report.answersSkipped },
+        ])
+
+        for (const sheet of [clusterSheet, pairSheet, participantSheet, settingsSheet]) {
+          sheet.getRow(1).font = { bold: true }
+          sheet.getRow(1).fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFE0E0E0" } }
+        }
+
+        const fileName = `Similarity_Report_${round.name.replace(/\s+/g, "_")}_${new Date().toISOString().split("T")[0]}.xlsx`
+
+        res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet")
+        res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`)
+
+        await workbook.xlsx.write(res)
+        res.end()
+      } catch (error) {
+        console.error("Export similarity Excel error:", error)
+        res.status(500).json({ message: "Failed to generate Excel report" })
+      }
+    },
+  )
+
+  // Connectivity timeline of one attempt, for settling "my internet dropped" disputes
+  app.get(
+    "/api/rounds/:roundId/attempts/:attemptId/connectivity",
+    requireAuth,
+    requireEventAdmin,
+    requireRoundAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { roundId, attemptId } = req.params
+
+        const attempt = await storage.getTestAttempt(attemptId)
+        if (!attempt || attempt.roundId !== roundId) {
+          return res.status(404).json({ message: "Test attempt not found" })
+        }
+
+        const user = await storage.getUser(attempt.userId)
+
+        res.json({
+          attemptId: attempt.id,
+          fullName: user?.fullName || null,
+          status: attempt.status,
+          startedAt: attempt.startedAt,
+          submittedAt: attempt.submittedAt,
+          lastSeenAt: attempt.lastSeenAt,
+          clockDriftMs: attempt.clockDriftMs,
+          lastClientIp: attempt.lastClientIp,
+          lastUserAgent: attempt.lastUserAgent,
+          connected: WebSocketService.isUserConnected(attempt.userId),
+          gapThresholdSeconds: HeartbeatService.getGapThresholdMs() / 1000,
+          events: attempt.connectivityLog || [],
+        })
+      } catch (error) {
+        console.error("Get attempt connectivity error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  app.post(
+    "/api/rounds/:roundId/attempts/:attemptId/warn",
+    requireAuth,
+    requireEventAdmin,
+    requireRoundAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { roundId, attemptId } = req.params
+        const { message } = req.body
+
+        if (!message || typeof message !== "string" || !message.trim()) {
+          return res.status(400).json({ message: "Warning message is required" })
+        }
+
+        const round = await storage.getRound(roundId)
+        const attempt = await storage.getTestAttempt(attemptId)
+        if (!round || !attempt || attempt.roundId !== roundId) {
+          return res.status(404).json({ message: "Test attempt not found" })
+        }
+
+        if (attempt.status !== "in_progress") {
+          return res.status(400).json({ message: "Test is not in progress" })
+        }
+
+        await logSuperAdminAction(
+          req.user!.id,
+          req.user!.username,
+          "warn_attempt",
+          "test_attempt",
+          attemptId,
+          round.name,
+          { userId: attempt.userId, message: message.trim() },
+          null,
+          getClientIp(req),
+        )
+
+        WebSocketService.notifyProctorWarning(attempt.userId, attemptId, message.trim())
+        WebSocketService.notifyProctoringEvent(round.eventId, roundId, attempt, "warned", {
+          by: req.user!.username,
+          message: message.trim(),
+        })
+
+        res.json({ message: "Warning sent" })
+      } catch (error) {
+        console.error("Warn attempt error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  app.post(
+    "/api/rounds/:roundId/attempts/:attemptId/pause",
+    requireAuth,
+    requireEventAdmin,
+    requireRoundAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { roundId, attemptId } = req.params
+        const { reason } = req.body
+
+        if (!reason || typeof reason !== "string" || !reason.trim()) {
+          return res.status(400).json({ message: "Reason is required" })
+        }
+
+        const round = await storage.getRound(roundId)
+        const attempt = await storage.getTestAttempt(attemptId)
+        if (!round || !attempt || attempt.roundId !== roundId) {
+          return res.status(404).json({ message: "Test attempt not found" })
+        }
+
+        if (attempt.status !== "in_progress") {
+          return res.status(400).json({ message: "Test is not in progress" })
+        }
+        if (attempt.pausedAt) {
+          return res.status(400).json({ message: "Test attempt is already paused" })
+        }
+        if (AttemptService.isExpired(attempt, round)) {
+          return res.status(400).json({ message: "Time is already up for this test" })
+        }
+
+        const updatedAttempt = await storage.updateTestAttempt(attemptId, { pausedAt: new Date() })
+
+        await logSuperAdminAction(
+          req.user!.id,
+          req.user!.username,
+          "pause_attempt",
+          "test_attempt",
+          attemptId,
+          round.name,
+          { userId: attempt.userId, remainingMs: AttemptService.getRemainingMs(attempt, round) },
+          reason.trim(),
+          getClientIp(req),
+        )
+
+        WebSocketService.notifyAttemptUpdate(attempt.userId, attemptId, "paused", updatedAttempt)
+        WebSocketService.notifyProctoringEvent(round.eventId, roundId, attempt, "paused", { by: req.user!.username, reason: reason.trim() })
+
+        res.json(updatedAttempt)
+      } catch (error) {
+        console.error("Pause attempt error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  app.post(
+    "/api/rounds/:roundId/attempts/:attemptId/resume",
+    requireAuth,
+    requireEventAdmin,
+    requireRoundAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { roundId, attemptId } = req.params
+        const { reason } = req.body
+
+        if (!reason || typeof reason !== "string" || !reason.trim()) {
+          return res.status(400).json({ message: "Reason is required" })
+        }
+
+        const round = await storage.getRound(roundId)
+        const attempt = await storage.getTestAttempt(attemptId)
+        if (!round || !attempt || attempt.roundId !== roundId) {
+          return res.status(404).json({ message: "Test attempt not found" })
+        }
+
+        if (attempt.status !== "in_progress" || !attempt.pausedAt) {
+          return res.status(400).json({ message: "Test attempt is not paused" })
+        }
+
+        // The participant gets the paused time back
+        const now = new Date()
+        const updatedAttempt = await storage.updateTestAttempt(attemptId, AttemptService.getResumeUpdates(attempt, round, now))
+
+        await logSuperAdminAction(
+          req.user!.id,
+          req.user!.username,
+          "resume_attempt",
+          "test_attempt",
+          attemptId,
+          round.name,
+          { userId: attempt.userId, pausedAt: attempt.pausedAt, pausedSeconds: Math.round((now.getTime() - new Date(attempt.pausedAt).getTime()) / 1000) },
+          reason.trim(),
+          getClientIp(req),
+        )
+
+        WebSocketService.notifyAttemptUpdate(attempt.userId, attemptId, "resumed", updatedAttempt)
+        WebSocketService.notifyProctoringEvent(round.eventId, roundId, attempt, "resumed", { by: req.user!.username, reason: reason.trim() })
+
+        res.json({ ...updatedAttempt, deadline: updatedAttempt ? AttemptService.getDeadline(updatedAttempt, round) : null })
+      } catch (error) {
+        console.error("Resume attempt error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  app.post(
+    "/api/rounds/:roundId/attempts/:attemptId/force-submit",
+    requireAuth,
+    requireEventAdmin,
+    requireRoundAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { roundId, attemptId } = req.params
+        const { reason } = req.body
+
+        if (!reason || typeof reason !== "string" || !reason.trim()) {
+          return res.status(400).json({ message: "Reason is required" })
+        }
+
+        const round = await storage.getRound(roundId)
+        const attempt = await storage.getTestAttempt(attemptId)
+        if (!round || !attempt || attempt.roundId !== roundId) {
+          return res.status(404).json({ message: "Test attempt not found" })
+        }
+
+        if (attempt.status !== "in_progress") {
+          return res.status(400).json({ message: "Test is already submitted" })
+        }
+
+        if (attempt.pausedAt) {
+          await storage.updateTestAttempt(attemptId, { pausedAt: null })
+        }
+        const closed = await AttemptService.finalizeAttempt(attempt, "auto_submitted")
+        if (!closed) {
+          return res.status(400).json({ message: "Test is already submitted" })
+        }
+        const updatedAttempt = withoutPendingScore(closed)
+
+        await logSuperAdminAction(
+          req.user!.id,
+          req.user!.username,
+          "force_submit_attempt",
+          "test_attempt",
+          attemptId,
+          round.name,
+          { userId: attempt.userId, violationLogs: attempt.violationLogs },
+          reason.trim(),
+          getClientIp(req),
+        )
+
+        WebSocketService.notifyAttemptUpdate(attempt.userId, attemptId, "force_submitted", updatedAttempt)
+        WebSocketService.notifyProctoringEvent(round.eventId, roundId, attempt, "force_submitted", { by: req.user!.username, reason: reason.trim() })
+
+        res.json(updatedAttempt)
+      } catch (error) {
+        console.error("Force submit attempt error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  app.post(
+    "/api/rounds/:roundId/attempts/:attemptId/disqualify",
+    requireAuth,
+    requireEventAdmin,
+    requireRoundAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { roundId, attemptId } = req.params
+        const { reason } = req.body
+
+        if (!reason || typeof reason !== "string" || !reason.trim()) {
+          return res.status(400).json({ message: "Reason is required" })
+        }
+
+        const round = await storage.getRound(roundId)
+        const attempt = await storage.getTestAttempt(attemptId)
+        if (!round || !attempt || attempt.roundId !== roundId) {
+          return res.status(404).json({ message: "Test attempt not found" })
+        }
+
+        if (isPracticeRound(round)) {
+          return res.status(400).json({ message: "Practice attempts do not affect a participant's status" })
+        }
+
+        const participant = await storage.getParticipantByUserAndEvent(attempt.userId, round.eventId)
+        if (!participant) {
+          return res.status(404).json({ message: "Participant not found" })
+        }
+        if (participant.status === "disqualified") {
+          return res.status(400).json({ message: "Participant is already disqualified" })
+        }
+
+        // A test still open is closed and graded so the record is complete
+        let updatedAttempt: Partial<TestAttempt> = attempt
+        if (attempt.status === "in_progress") {
+          if (attempt.pausedAt) {
+            await storage.updateTestAttempt(attemptId, { pausedAt: null })
+          }
+          const closed = await AttemptService.finalizeAttempt(attempt, "auto_submitted")
+          if (closed) updatedAttempt = withoutPendingScore(closed)
+        }
+
+        const updatedParticipant = await storage.updateParticipantStatus(participant.id, "disqualified")
+
+        await logSuperAdminAction(
+          req.user!.id,
+          req.user!.username,
+          "disqualify_participant",
+          "participant",
+          participant.id,
+          round.name,
+          {
+            userId: attempt.userId,
+            eventId: round.eventId,
+            attemptId,
+            status: { before: participant.status, after: "disqualified" },
+            violationLogs: attempt.violationLogs,
+          },
+          reason.trim(),
+          getClientIp(req),
+        )
+
+        WebSocketService.notifyAttemptUpdate(attempt.userId, attemptId, "disqualified", updatedAttempt)
+        WebSocketService.notifyProctoringEvent(round.eventId, roundId, attempt, "disqualified", { by: req.user!.username, reason: reason.trim() })
+
+        res.json({ participant: updatedParticipant, attempt: updatedAttempt })
+      } catch (error) {
+        console.error("Disqualify from console error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  // Every attempt in the round that logged a violation, with each violation's review
+  app.get(
+    "/api/rounds/:roundId/violations",
+    requireAuth,
+    requireEventAdmin,
+    requireRoundAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const round = await storage.getRound(req.params.roundId)
+        if (!round) {
+          return res.status(404).json({ message: "Round not found" })
+        }
+
+        const rules = await getRoundProctoringRules(round)
+        const participants = await storage.getParticipantsByEvent(round.eventId)
+        const attempts = (await storage.getTestAttemptsByRound(round.id)).filter(
+          (attempt) => ((attempt.violationLogs as ViolationLog[]) || []).length > 0,
+        )
+
+        const rows = await Promise.all(
+          attempts.map(async (attempt) => {
+            const user = await storage.getUser(attempt.userId)
+            const participant = participants.find((p) => p.userId === attempt.userId)
+            const violationLogs = (attempt.violationLogs as ViolationLog[]) || []
+            return {
+              attemptId: attempt.id,
+              userId: attempt.userId,
+              participantId: participant?.id || null,
+              participantStatus: participant?.status || null,
+              fullName: user?.fullName || null,
+              email: user?.email || null,
+              status: attempt.status,
+              totalScore: attempt.totalScore,
+              maxScore: attempt.maxScore,
+              penaltyPoints: attempt.penaltyPoints,
+              violationCount: ProctoringService.countViolations(violationLogs, rules),
+              pendingCount: violationLogs.filter((log) => !log.review && ProctoringService.isCounted(log.type, rules)).length,
+              violations: violationLogs.map((log, index) => ({
+                index,
+                ...log,
+                counted: log.review?.status !== "dismissed" && ProctoringService.isCounted(log.type, rules),
+              })),
+            }
+          }),
+        )
+
+        rows.sort((a, b) => b.pendingCount - a.pendingCount || b.violationCount - a.violationCount)
+        res.json({ round, rules, attempts: rows })
+      } catch (error) {
+        console.error("Get violation reviews error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  app.patch(
+    "/api/rounds/:roundId/attempts/:attemptId/violations/:index",
+    requireAuth,
+    requireEventAdmin,
+    requireRoundAccess,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { roundId, attemptId } = req.params
+        const index = parseInt(req.params.index, 10)
+        const { status, note } = req.body
+        const penaltyPoints = req.body.penaltyPoints === undefined || req.body.penaltyPoints === "" ? 0 : Number(req.body.penaltyPoints)
+
+        if (status !== "confirmed" && status !== "dismissed") {
+          return res.status(400).json({ message: "Status must be confirmed or dismissed" })
+        }
+        if (!note || typeof note !== "string" || !note.trim()) {
+          return res.status(400).json({ message: "A note is required" })
+        }
+        if (!Number.isInteger(penaltyPoints) || penaltyPoints < 0) {
+          return res.status(400).json({ message: "Penalty must be a whole number of points, zero or more" })
+        }
+        if (status === "dismissed" && penaltyPoints > 0) {
+          return res.status(400).json({ message: "A dismissed violation cannot carry a penalty" })
+        }
+
+        const round = await storage.getRound(roundId)
+        const attempt = await storage.getTestAttempt(attemptId)
+        if (!round || !attempt || attempt.roundId !== roundId) {
+          return res.status(404).json({ message: "Test attempt not found" })
+        }
+
+        const violationLogs = (attempt.violationLogs as ViolationLog[]) || []
+        const review: ViolationReview = {
+          status,
+          note: note.trim(),
+          penaltyPoints,
+          reviewedBy: req.user!.username,
+          reviewedAt: new Date().toISOString(),
+        }
+        const updatedLogs = ProctoringService.applyReview(violationLogs, index, review)
+        if (!updatedLogs) {
+          return res.status(404).json({ message: "Violation not found" })
+        }
+
+        // Scores of submitted attempts move with the penalty; open attempts pick it up when they are graded
+        const penaltyChange = ProctoringService.getPenaltyPoints(updatedLogs) - ProctoringService.getPenaltyPoints(violationLogs)
+        const updatedAttempt = await storage.reviewViolation(attemptId, index, violationLogs[index].review, review, penaltyChange)
+        if (!updatedAttempt) {
+          return res.status(409).json({ message: "This violation was reviewed by someone else meanwhile. Reload and try again." })
+        }
+
+        await logSuperAdminAction(
+          req.user!.id,
+          req.user!.username,
+          "review_violation",
+          "test_attempt",
+          attemptId,
+          round.name,
+          {
+            userId: attempt.userId,
+            violation: { index, type: violationLogs[index].type, timestamp: violationLogs[index].timestamp },
+            review: { before: violationLogs[index].review || null, after: review },
+            penaltyPoints: { before: updatedAttempt.penaltyPoints - penaltyChange, after: updatedAttempt.penaltyPoints },
+            totalScore: { before: attempt.totalScore, after: updatedAttempt.totalScore },
+          },
+          review.note,
+          getClientIp(req),
+        )
+
+        if (updatedAttempt.status !== "in_progress" && penaltyChange !== 0) {
+          WebSocketService.notifyLeaderboardUpdate(round.eventId, roundId, "violation_review")
+        }
+
+        res.json(updatedAttempt)
+      } catch (error) {
+        console.error("Review violation error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  app.get("/api/reports", requireAuth, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+    try {
+      const reports = await storage.getReports()
+      res.json(reports)
+    } catch (error) {
+      console.error("Get reports error:", error)
+      res.status(500).json({ message: "Internal server error" })
+    }
+  })
+
+  app.post("/api/reports/generate/event", requireAuth, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+    try {
+      const { eventId } = req.body
+
+      if (!eventId) {
+        return res.status(400).json({ message: "Event ID is required" })
+      }
+
+      const report = await storage.generateEventReport(eventId, req.user!.id)
+      res.status(201).json(report)
+    } catch (error) {
+      console.error("Generate event report error:", error)
+      res.status(500).json({ message: error instanceof Error ? error.message : "Internal server error" })
+    }
+  })
+
+  app.post(
+    "/api/reports/generate/symposium",
+    requireAuth,
+    requireSuperAdmin,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const report = await storage.generateSymposiumReport(req.user!.id)
+        res.status(201).json(report)
+      } catch (error) {
+        console.error("Generate symposium report error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  app.get("/api/reports/:id/download", requireAuth, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+    try {
+      const { id } = req.params
+      const report = await storage.getReport(id)
+
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" })
+      }
+
+      res.setHeader("Content-Type", "application/json")
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="${report.title.replace(/[^a-z0-9]/gi, "_")}_${id}.json"`,
+      )
+      res.json(report.reportData)
+    } catch (error) {
+      console.error("Download report error:", error)
+      res.status(500).json({ message: "Internal server error" })
+    }
+  })
+
+  // Combo prices are public so the registration form can show what a participant will pay
+  app.get("/api/fee-combos", async (req: Request, res: Response) => {
+    try {
+      const combos = await storage.getFeeCombos()
+      res.json(combos)
+    } catch (error) {
+      console.error("Get fee combos error:", error)
+      res.status(500).json({ message: "Internal server error" })
+    }
+  })
+
+  app.post("/api/fee-combos", requireAuth, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+    try {
+      const parsed = await parseFeeCombo(req.body)
+      if (parsed.error || !parsed.combo) {
+        return res.status(400).json({ message: parsed.error })
+      }
+
+      const combo = await storage.createFeeCombo(parsed.combo)
+      res.status(201).json(combo)
+    } catch (error) {
+      console.error("Create fee combo error:", error)
+      res.status(500).json({ message: "Internal server error" })
+    }
+  })
+
+  app.patch("/api/fee-combos/:id", requireAuth, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+    try {
+      const current = await storage.getFeeCombo(req.params.id)
+      if (!current) {
+        return res.status(404).json({ message: "Combo not found" })
+      }
+
+      const parsed = await parseFeeCombo(req.body, current)
+      if (parsed.error || !parsed.combo) {
+        return res.status(400).json({ message: parsed.error })
+      }
+
+      const combo = await storage.updateFeeCombo(req.params.id, parsed.combo)
+      res.json(combo)
+    } catch (error) {
+      console.error("Update fee combo error:", error)
+      res.status(500).json({ message: "Internal server error" })
+    }
+  })
+
+  app.delete("/api/fee-combos/:id", requireAuth, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
+    try {
+      await storage.deleteFeeCombo(req.params.id)
+      res.json({ message: "Combo deleted successfully" })
+    } catch (error) {
+      console.error("Delete fee combo error:", error)
+      res.status(500).json({ message: "Internal server error" })
+    }
+  })
+
   app.post("/api/registration-forms", requireAuth, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
     try {
       const { title, description, formFields } = req.body
@@ -1867,8 +4407,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Title and formFields are required" })
       }
 
+      const parsed = RegistrationFormService.parseFields(formFields)
+      if (parsed.error) {
+        return res.status(400).json({ message: parsed.error })
+      }
+
+      const upiId = PaymentService.parseUpiId(req.body.upiId)
+      if (upiId.error) {
+        return res.status(400).json({ message: upiId.error })
+      }
+
       const slug = generateFormSlug(title)
-      const form = await storage.createRegistrationForm(title, description || "", formFields, slug)
+      const form = await storage.createRegistrationForm(title, description || "", parsed.fields, slug, upiId.value)
 
       res.status(201).json(form)
     } catch (error) {
@@ -1892,7 +4442,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch("/api/registration-forms/:id", requireAuth, requireSuperAdmin, async (req: AuthRequest, res: Response) => {
     try {
-      const updates = req.body
+      const updates = { ...req.body }
+      if (updates.formFields !== undefined) {
+        const parsed = RegistrationFormService.parseFields(updates.formFields)
+        if (parsed.error) {
+          return res.status(400).json({ message: parsed.error })
+        }
+        updates.formFields = parsed.fields
+      }
+      if (updates.upiId !== undefined) {
+        const upiId = PaymentService.parseUpiId(updates.upiId)
+        if (upiId.error) {
+          return res.status(400).json({ message: upiId.error })
+        }
+        updates.upiId = upiId.value
+      }
+
       const form = await storage.updateRegistrationForm(req.params.id, updates)
       if (!form) {
         return res.status(404).json({ message: "Form not found" })
@@ -1940,10 +4505,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const { submittedData, selectedEvents } = req.body
 
-      if (!submittedData || !selectedEvents || !Array.isArray(selectedEvents)) {
+      if (!submittedData || typeof submittedData !== "object" || !selectedEvents || !Array.isArray(selectedEvents)) {
         return res.status(400).json({ message: "submittedData and selectedEvents are required" })
       }
 
+      // Field errors come back keyed by field id so the form can mark each one
+      const checked = RegistrationFormService.validateSubmission(form.formFields, submittedData)
+      const fieldErrors = Object.values(checked.errors)
+      if (fieldErrors.length > 0) {
+        return res.status(400).json({ message: fieldErrors.join(", "), errors: checked.errors })
+      }
+
+      // Approval would fail later on an email that already has an account
+      const details = RegistrationFormService.getParticipantDetails(form.formFields, checked.data)
+      if (details.email && (await storage.getUserByEmail(details.email))) {
+        const message = "This email is already registered. Please use a different email or contact the organizers."
+        const emailField = form.formFields.find((field) => field.role === "email")
+        return res.status(400).json({ message, errors: emailField ? { [emailField.id]: message } : {} })
+      }
+
       const events = await storage.getEventsByIds(selectedEvents)
       const invalidEvents = events.filter((event) => !form.allowedCategories.includes(event.category))
 
@@ -1958,7 +4538,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: validation.error })
       }
 
-      const registration = await storage.createRegistration(form.id, submittedData, selectedEvents)
+      const teams = TeamService.parseEntries(events, req.body.teams, details.email)
+      const teamError = teams.error || (await checkTeamEntries(teams.teams))
+      if (teamError) {
+        return res.status(400).json({ message: teamError })
+      }
+
+      // The fee is priced now and kept with the registration, so later changes to fees or combos leave it alone
+      const quote = PaymentService.calculateFee(events, await storage.getFeeCombos())
+      const payment: RegistrationPayment = {
+        feeAmount: quote.amount,
+        feeBreakdown: quote.breakdown,
+        feeComboId: quote.combo?.id ?? null,
+      }
+      if (quote.amount > 0) {
+        const reference = PaymentService.parseReference(req.body.paymentReference)
+        const receipt = PaymentService.parseReceipt(req.body.receiptImage)
+        const paymentError = reference.error || receipt.error
+        if (paymentError) {
+          return res.status(400).json({ message: paymentError })
+        }
+        if (await storage.getRegistrationByPaymentReference(reference.value)) {
+          return res.status(409).json({ message: DUPLICATE_PAYMENT_REFERENCE })
+        }
+        payment.paymentReference = reference.value
+        payment.receiptImage = receipt.value
+      }
+
+      // A full event puts the whole registration on the waitlist until seats free up
+      let created: Awaited<ReturnType<typeof storage.createRegistration>>
+      try {
+        created = await storage.createRegistration(
+          form.id,
+          checked.data,
+          events,
+          Object.keys(teams.teams).length > 0 ? teams.teams : null,
+          payment,
+        )
+      } catch (error) {
+        // A concurrent submission with the same reference got in between the check and the insert
+        if (isUniqueViolation(error, "registrations_active_payment_reference_unique")) {
+          return res.status(409).json({ message: DUPLICATE_PAYMENT_REFERENCE })
+        }
+        throw error
+      }
+      const registration = PaymentService.withoutReceipt(created.registration)
+      const fullEvents = created.fullEvents
 
       // Notify via WebSocket for each event
       for (const eventId of selectedEvents) {
@@ -1969,7 +4594,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         })
       }
 
-      res.status(201).json(registration)
+      res.status(201).json({
+        ...registration,
+        feeCombo: quote.combo?.name || null,
+        waitlistedFor: fullEvents.map((event) => event.name),
+      })
     } catch (error) {
       console.error("Submit registration error:", error)
       res.status(500).json({ message: "Internal server error" })
@@ -2003,39 +4632,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Registration not found" })
       }
 
+      if (registration.paymentStatus === "waitlisted") {
+        return res.status(400).json({ message: "This registration is on the waitlist and can be approved once a seat opens up" })
+      }
       if (registration.paymentStatus !== "pending") {
         return res.status(400).json({ message: "Registration has already been processed" })
       }
 
-      const password = generateSecurePassword()
-      const userData = registration.submittedData
-
-      const extractEmail = (data: Record<string, string>): string => {
-        for (const value of Object.values(data)) {
-          if (value && typeof value === "string" && value.includes("@") && value.includes(".")) {
-            return value
-          }
-        }
-        throw new Error("Email not found in registration data")
-      }
-
-      const extractFullName = (data: Record<string, string>): string => {
-        for (const value of Object.values(data)) {
-          if (value && typeof value === "string" && value.includes(" ") && !value.includes("@")) {
-            return value
-          }
-        }
-        return "Participant"
+      const details = RegistrationFormService.getParticipantDetails(
+        registration.form?.formFields || [],
+        registration.submittedData,
+      )
+      if (!details.email) {
+        return res.status(400).json({ message: "This registration has no email address, so no account can be created for it" })
       }
 
-      const email = extractEmail(userData)
-      const fullName = extractFullName(userData)
+      const password = generateSecurePassword()
+      const email = details.email
+      const fullName = details.fullName || "Participant"
 
       const existingUser = await storage.getUserByEmail(email)
       if (existingUser) {
         return res.status(400).json({ message: "A user with this email already exists. Please use a different email or contact support." })
       }
 
+      // Team names and teammates may have been taken since the form was submitted
+      const teamEntries = registration.teams || {}
+      const teamError = await checkTeamEntries(teamEntries)
+      if (teamError) {
+        return res.status(400).json({ message: teamError })
+      }
+
       const hashedPassword = await bcrypt.hash(password, 10)
       const username = `${email.split('@')[0]}_${nanoid(6)}`.toLowerCase()
       const newUser = await storage.createUser({
@@ -2043,15 +4670,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         password: hashedPassword,
         email: email,
         fullName: fullName,
+        phone: details.phone,
+        college: details.college,
+        rollNumber: details.rollNumber,
         role: "participant",
-      } as any)
+      })
 
       const eventCredentialsList = []
+      const teamMembers = []
 
       for (const eventId of registration.selectedEvents) {
-        await storage.createParticipant(newUser.id, eventId)
-
         const event = await storage.getEventById(eventId)
+        const teamEntry = event ? teamEntries[eventId] : undefined
+        const team = teamEntry ? await storage.createTeam({ eventId, name: teamEntry.name, leaderUserId: newUser.id }) : null
+        await storage.createParticipant(newUser.id, eventId, team?.id)
+
         if (!event) continue
 
         const count = await storage.getEventCredentialCountForEvent(eventId)
@@ -2067,11 +4700,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         eventCredentialsList.push({
           eventId,
           eventName: event.name,
+          teamName: team?.name || null,
           eventUsername,
           eventPassword,
         })
+
+        if (team && teamEntry) {
+          teamMembers.push(...(await enrollTeamMembers(event, team, teamEntry.members, null)))
+        }
       }
 
+      // Money is only recorded as received from a bank statement, through reconciliation
       const updated = await storage.updateRegistrationStatus(req.params.id, "paid", newUser.id, user.id)
 
       // Send emails in background (non-blocking)
@@ -2082,19 +4721,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
           eventCred.eventName,
           eventCred.eventUsername,
           eventCred.eventPassword,
+          eventCred.teamName,
         ).catch(err => {
           console.error(`Failed to send approval email for event ${eventCred.eventName}:`, err)
         })
       }
+      for (const member of teamMembers) {
+        emailService.sendCredentials(
+          member.email,
+          member.fullName,
+          member.eventName,
+          member.eventUsername,
+          member.eventPassword,
+          member.teamName,
+        ).catch(err => {
+          console.error(`Failed to send team credentials email for event ${member.eventName}:`, err)
+        })
+      }
 
       res.json({
-        registration: updated,
+        registration: PaymentService.withoutReceipt(updated),
         mainCredentials: {
           username: newUser.username,
           password: password,
           email: newUser.email,
         },
         eventCredentials: eventCredentialsList,
+        teamMembers,
       })
     } catch (error) {
       console.error("Approve registration error:", error)
@@ -2102,6 +4755,287 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   })
 
+  app.patch("/api/registrations/:id/decline", requireAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      const user = req.user!
+      if (user.role !== "super_admin" && user.role !== "registration_committee") {
+        return res.status(403).json({ message: "Forbidden" })
+      }
+
+      const registration = await storage.getRegistration(req.params.id)
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" })
+      }
+
+      if (registration.paymentStatus !== "pending" && registration.paymentStatus !== "waitlisted") {
+        return res.status(400).json({ message: "Registration has already been processed" })
+      }
+
+      const updated = await storage.updateRegistrationStatus(req.params.id, "declined", null, user.id)
+
+      // Pending registrations hold seats, so declining one can let the waitlist move up
+      if (registration.paymentStatus === "pending") {
+        promoteFromWaitlist().catch(err => console.error("Waitlist promotion error:", err))
+      }
+
+      res.json(PaymentService.withoutReceipt(updated))
+    } catch (error) {
+      console.error("Decline registration error:", error)
+      res.status(500).json({ message: "Internal server error" })
+    }
+  })
+
+  app.patch("/api/registrations/:id/withdraw", requireAuth, async (req: AuthRequest, res: Response) => {
+    try {
+      const user = req.user!
+      if (user.role !== "super_admin" && user.role !== "registration_committee") {
+        return res.status(403).json({ message: "Forbidden" })
+      }
+
+      const registration = await storage.getRegistration(req.params.id)
+      if (!registration) {
+        return res.status(404).json({ message: "Registration not found" })
+      }
+
+      if (registration.paymentStatus === "declined" || registration.paymentStatus === "withdrawn") {
+        return res.status(400).json({ message: "Registration has already been declined or withdrawn" })
+      }
+
+      // An approved registrant leaves every event on the registration, along with the teams they lead.
+      // Nobody is removed once an attempt has been made; disqualify them instead.
+      const removals = []
+      if (registration.paymentStatus === "paid" && registration.participantUserId) {
+        for (const eventId of registration.selectedEvents as string[]) {
+          const participant = await storage.getParticipantByUserAndEvent(registration.participantUserId, eventId)
+          if (!participant) continue
+
+          const team = participant.teamId ? await storage.getTeam(participant.teamId) : undefined
+          const ledTeam = team?.leaderUserId === participant.userId ? team : undefined
+          const userIds = ledTeam
+            ? (await storage.getTeamMembers(ledTeam.id)).map((member) => member.userId)
+            : [participant.userId]
+
+          if (await storage.hasEventAttempts(userIds, eventId)) {
+            const event = await storage.getEventById(eventId)
+            return res.status(400).json({
+              message: `${event?.name || "An event"} has already been attempted, so this registration cannot be withdrawn. Disqualify the participant instead.`,
+            })
+          }
+          removals.push({ eventId, userIds, teamId: ledTeam?.id })
+        }
+      }
+
+      for (const removal of removals) {
+        await storage.removeParticipants(removal.userIds, removal.eventId)
+        if (removal.teamId) {
+          await storage.deleteTeam(removal.teamId)
+        }
+      }
+
+      const updated = await storage.updateRegistrationStatus(req.params.id, "withdrawn", registration.participantUserId, user.id)
+
+      if (registration.paymentStatus !== "waitlisted") {
+        promoteFromWaitlist().catch(err => console.error("Waitlist promotion error:", err))
+      }
+
+      res.json(PaymentService.withoutReceipt(updated))
+    } catch (error) {
+      console.error("Withdraw registration error:", error)
+      res.status(500).json({ message: "Internal server error" })
+    }
+  })
+
+  app.get(
+    "/api/registrations/:id/receipt",
+    requireAuth,
+    requireRegistrationCommittee,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const receipt = PaymentService.decodeReceipt(await storage.getRegistrationReceipt(req.params.id))
+        if (!receipt) {
+          return res.status(404).json({ message: "No receipt was uploaded for this registration" })
+        }
+
+        res.setHeader("Content-Type", receipt.contentType)
+        res.setHeader("X-Content-Type-Options", "nosniff")
+        res.setHeader("Content-Disposition", `inline; filename="receipt-${req.params.id}.${receipt.extension}"`)
+        res.setHeader("Cache-Control", "private, no-store")
+        res.send(receipt.data)
+      } catch (error) {
+        console.error("Get registration receipt error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  // Reads a bank statement and pairs each credit with the registration whose UPI transaction ID it carries.
+  // Nothing is recorded until the committee confirms the matches.
+  app.post(
+    "/api/payments/reconcile/preview",
+    requireAuth,
+    requireRegistrationCommittee,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { csv } = req.body
+        if (typeof csv !== "string" || !csv.trim()) {
+          return res.status(400).json({ message: "Upload a bank statement CSV" })
+        }
+
+        const statement = PaymentService.parseStatement(csv)
+        if (statement.error) {
+          return res.status(400).json({ message: statement.error })
+        }
+
+        const registrations = await storage.getRegistrations()
+        const { matches, unpaid } = PaymentService.matchStatement(statement.rows, registrations)
+        const registrant = (registration: any) => ({
+          id: registration.id,
+          participantName: registration.participantName,
+          participantEmail: registration.participantEmail,
+          paymentStatus: registration.paymentStatus,
+          paymentReference: registration.paymentReference,
+          feeAmount: registration.feeAmount,
+          amountReceived: registration.amountReceived,
+          hasReceipt: registration.hasReceipt,
+          submittedAt: registration.submittedAt,
+        })
+
+        res.json({
+          matches: matches.map((match) => ({
+            ...match,
+            registration: match.registrationId
+              ? registrant(registrations.find((registration) => registration.id === match.registrationId))
+              : null,
+          })),
+          unpaid: unpaid.map(registrant),
+        })
+      } catch (error) {
+        console.error("Preview reconciliation error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  app.post(
+    "/api/payments/reconcile/confirm",
+    requireAuth,
+    requireRegistrationCommittee,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { matches } = req.body
+        if (!Array.isArray(matches) || matches.length === 0) {
+          return res.status(400).json({ message: "Select at least one payment to confirm" })
+        }
+        for (const match of matches) {
+          const amount = Number(match?.amount)
+          if (typeof match?.registrationId !== "string" || !Number.isFinite(amount) || amount <= 0 || amount > MAX_FEE) {
+            return res.status(400).json({ message: "Each payment needs a registration and the amount received" })
+          }
+        }
+
+        // A registration verified since the preview, or listed twice, is skipped rather than recorded again
+        let verified = 0
+        for (const match of matches) {
+          const registration = await storage.verifyRegistrationPayment(
+            match.registrationId,
+            Math.round(Number(match.amount)),
+            req.user!.id,
+          )
+          if (registration) verified++
+        }
+
+        res.json({ verified, skipped: matches.length - verified })
+      } catch (error) {
+        console.error("Confirm reconciliation error:", error)
+        res.status(500).json({ message: "Internal server error" })
+      }
+    },
+  )
+
+  app.get("/api/payments/summary", requireAuth, requireRegistrationCommittee, async (req: AuthRequest, res: Response) => {
+    try {
+      const { summary } = await getCollectionsSummary()
+      res.json(summary)
+    } catch (error) {
+      console.error("Get collections summary error:", error)
+      res.status(500).json({ message: "Internal server error" })
+    }
+  })
+
+  app.get(
+    "/api/payments/summary/export",
+    requireAuth,
+    requireRegistrationCommittee,
+    async (req: AuthRequest, res: Response) => {
+      try {
+        const { registrations, summary } = await getCollectionsSummary()
+        const workbook = new ExcelJS.Workbook()
+
+        const overview = workbook.addWorksheet("Collections")
+        overview.columns = [
+          { header: "Metric", key: "metric", width: 30 },
+          { header: "Amount (₹)", key: "value", width: 20 },
+        ]
+        overview.addRows([
+          { metric: "Expected", value: summary.expected },
+          { metric: "Received", value: summary.received },
+          { metric: "Outstanding", value: summary.outstanding },
+        ])
+
+        const lineColumns = (label: string) => [
+          { header: label, key: "label", width: 30 },
+          { header: "Registrations", key: "count", width: 15 },
+          { header: "Expected (₹)", key: "expected", width: 15 },
+          { header: "Received (₹)", key: "received", width: 15 },
+        ]
+        const byStatus = workbook.addWorksheet("By Status")
+        byStatus.columns = lineColumns("Status")
+        byStatus.addRows(summary.byStatus)
+        const byEvent = workbook.addWorksheet("By Event")
+        byEvent.columns = lineColumns("Event")
+        byEvent.addRows(summary.byEvent)
+
+        const payments = workbook.addWorksheet("Payments")
+        payments.columns = [
+          { header: "Name", key: "name", width: 25 },
+          { header: "Email", key: "email", width: 30 },
+          { header: "Status", key: "status", width: 12 },
+          { header: "Fee (₹)", key: "fee", width: 10 },
+          { header: "UPI Transaction ID", key: "reference", width: 25 },
+          { header: "Received (₹)", key: "received", width: 12 },
+          { header: "Verified At", key: "verifiedAt", width: 22 },
+        ]
+        for (const registration of registrations) {
+          payments.addRow({
+            name: registration.participantName,
+            email: registration.participantEmail,
+            status: registration.paymentStatus,
+            fee: registration.feeAmount,
+            reference: registration.paymentReference || "",
+            received: registration.amountReceived ?? "",
+            verifiedAt: registration.paymentVerifiedAt ? new Date(registration.paymentVerifiedAt).toLocaleString() : "",
+          })
+        }
+
+        for (const sheet of [overview, byStatus, byEvent, payments]) {
+          sheet.getRow(1).font = { bold: true }
+          sheet.getRow(1).fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFE0E0E0" } }
+        }
+
+        const fileName = `Collections_${new Date().toISOString().split("T")[0]}.xlsx`
+
+        res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet")
+        res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`)
+
+        await workbook.xlsx.write(res)
+        res.end()
+      } catch (error) {
+        console.error("Export collections Excel error:", error)
+        res.status(500).json({ message: "Failed to generate collections report" })
+      }
+    },
+  )
+
   app.post(
     "/api/registration-committee/participants",
     requireAuth,
@@ -2125,6 +5059,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(400).json({ message: "Email already exists" })
         }
 
+        const selected = await storage.getEventsByIds(selectedEvents)
+        const teams = TeamService.parseEntries(selected, req.body.teams, email)
+        const teamError = teams.error || (await checkTeamEntries(teams.teams))
+        if (teamError) {
+          return res.status(400).json({ message: teamError })
+        }
+
         const password = generateSecurePassword()
         const hashedPassword = await bcrypt.hash(password, 10)
         const username = `${email.split('@')[0]}_${nanoid(6)}`.toLowerCase()
@@ -2137,17 +5078,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
           phone: phone || null,
           role: "participant",
           createdBy: user.id,
-        } as any)
+        })
 
-        const eventCredentialsList = []
+        const memberAccounts: Record<string, User[]> = {}
+        for (const event of selected) {
+          const teamEntry = teams.teams[event.id]
+          memberAccounts[event.id] = teamEntry ? await createMemberAccounts(teamEntry.members, user.id) : []
+        }
+        const createdAccounts = [newUser, ...Object.values(memberAccounts).flat()]
+
+        // Seats are checked and taken together; on-spot entries have no waitlist to go to
+        const entered = await storage.enterEvents(
+          selected,
+          selected.map((event) => ({
+            eventId: event.id,
+            userIds: [newUser.id, ...memberAccounts[event.id].map((account) => account.id)],
+            teamName: teams.teams[event.id]?.name || null,
+          })),
+        )
+        if (entered.fullEvents.length > 0) {
+          for (const account of createdAccounts) {
+            await storage.deleteUser(account.id)
+          }
+          return res.status(400).json({ message: `No seats left in: ${entered.fullEvents.map((event) => event.name).join(", ")}` })
+        }
 
-        for (const eventId of selectedEvents) {
-          await storage.createParticipant(newUser.id, eventId)
+        const eventCredentialsList = []
+        const teamMembers = []
 
-          const event = await storage.getEventById(eventId)
-          if (!event) continue
+        for (const event of selected) {
+          const team = entered.teams[event.id] || null
 
-          const count = await storage.getEventCredentialCountForEvent(eventId)
+          const count = await storage.getEventCredentialCountForEvent(event.id)
           const counter = count + 1
           const { username: eventUsername, password: eventPassword } = generateHumanReadableCredentials(
             fullName,
@@ -2155,24 +5117,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
             counter,
           )
 
-          await storage.createEventCredential(newUser.id, eventId, eventUsername, eventPassword)
+          await storage.createEventCredential(newUser.id, event.id, eventUsername, eventPassword)
 
           eventCredentialsList.push({
-            eventId,
+            eventId: event.id,
             eventName: event.name,
+            teamName: team?.name || null,
             eventUsername,
             eventPassword,
           })
+
+          if (team) {
+            teamMembers.push(...(await issueMemberCredentials(event, team, memberAccounts[event.id])))
+          }
         }
 
         // Send emails in background (non-blocking)
-        for (const eventCred of eventCredentialsList) {
+        for (const eventCred of [...eventCredentialsList.map((c) => ({ ...c, email, fullName })), ...teamMembers]) {
           emailService.sendCredentials(
-            email,
-            fullName,
+            eventCred.email,
+            eventCred.fullName,
             eventCred.eventName,
             eventCred.eventUsername,
             eventCred.eventPassword,
+            eventCred.teamName,
           ).catch(err => {
             console.error(`Failed to send credentials email for event ${eventCred.eventName}:`, err)
           })
@@ -2201,6 +5169,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             email: newUser.email,
           },
           eventCredentials: eventCredentialsList,
+          teamMembers,
         })
       } catch (error) {
         console.error("Create on-spot participant error:", error)
@@ -2282,7 +5251,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(403).json({ message: "You can only delete participants you created" })
         }
 
+        const entries = await storage.getParticipantsByUser(req.params.id)
         await storage.deleteUser(req.params.id)
+        if (entries.length > 0) {
+          promoteFromWaitlist().catch(err => console.error("Waitlist promotion error:", err))
+        }
         res.json({ message: "Participant deleted successfully" })
       } catch (error) {
         console.error("Delete on-spot participant error:", error)
@@ -2736,9 +5709,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ message: "Event not found" })
         }
 
-        const rounds = await storage.getRoundsByEvent(eventId)
+        const rounds = await storage.getScoredRoundsByEvent(eventId)
         const participants = await storage.getParticipantsByEvent(eventId)
         const leaderboard = await storage.getEventLeaderboard(eventId)
+        const isTeamEvent = TeamService.isTeamEvent(event)
+        const teams = isTeamEvent ? await storage.getTeamsByEvent(eventId) : []
 
         const workbook = new ExcelJS.Workbook()
 
@@ -2760,6 +5735,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
           { metric: "Total Rounds", value: rounds.length },
           { metric: "Average Completion Rate", value: `${avgCompletionRate}%` },
         ])
+        if (isTeamEvent) {
+          sheet1.addRows([
+            { metric: "Team Size", value: `${event.minTeamSize} to ${event.maxTeamSize}` },
+            { metric: "Team Scoring", value: event.teamScoring },
+            { metric: "Total Teams", value: teams.length },
+          ])
+        }
 
         sheet1.getRow(1).font = { bold: true }
         sheet1.getRow(1).fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFE0E0E0" } }
@@ -2773,10 +5755,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           { header: "Participants Attempted", key: "attempted", width: 25 },
           { header: "Avg Score", key: "avgScore", width: 15 },
           { header: "Completion Rate", key: "completionRate", width: 20 },
+          { header: "Questions", key: "questions", width: 20 },
+          { header: "Scoring", key: "scoring", width: 50 },
+          { header: "Sections", key: "sections", width: 40 },
         ]
 
         for (const round of rounds) {
           const roundLeaderboard = await storage.getRoundLeaderboard(round.id)
+          const roundRules = await storage.getRoundRules(round.id)
+          const roundQuestions = await storage.getQuestionsByRound(round.id)
           const avgScore =
             roundLeaderboard.length > 0
               ? (roundLeaderboard.reduce((sum, r) => sum + (r.totalScore || 0), 0) / roundLeaderboard.length).toFixed(2)
@@ -2792,6 +5779,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
             attempted: roundLeaderboard.length,
             avgScore: avgScore,
             completionRate: `${completionRate}%`,
+            questions:
+              roundRules?.questionPoolSize && roundRules.questionPoolSize < roundQuestions.length
+                ? `${roundRules.questionPoolSize} of ${roundQuestions.length} (random)`
+                : roundQuestions.length,
+            scoring: ScoringService.describeRules(roundRules),
+            sections: SectionService.getSections(round).map((section) => `${section.name} (${section.durationMinutes} min)`).join(", ") || "None",
           })
         }
 
@@ -2803,12 +5796,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
           { header: "Rank", key: "rank", width: 10 },
           { header: "Participant Name", key: "name", width: 30 },
           { header: "Email", key: "email", width: 30 },
+          { header: "College", key: "college", width: 30 },
+          { header: "Roll Number", key: "rollNumber", width: 16 },
         ]
+        if (isTeamEvent) {
+          columns.push({ header: "Team", key: "team", width: 25 })
+        }
 
         rounds.forEach((round, idx) => {
           columns.push({ header: `Round ${idx + 1} Score`, key: `round${idx + 1}`, width: 18 })
         })
 
+        columns.push({ header: "Negative Marks", key: "negativeMarks", width: 16 })
+        columns.push({ header: "Violation Penalties", key: "violationPenalties", width: 20 })
         columns.push({ header: "Total Score", key: "totalScore", width: 15 })
         columns.push({ header: "Status", key: "status", width: 15 })
 
@@ -2822,14 +5822,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
             rank: entry.rank,
             name: entry.userName,
             email: user?.email || "N/A",
+            college: user?.college || "",
+            rollNumber: user?.rollNumber || "",
+            team: teams.find((t) => t.id === participant?.teamId)?.name || "",
             totalScore: entry.totalScore || 0,
             status: participant?.status || "N/A",
           }
 
+          let negativeMarks = 0
+          let violationPenalties = 0
           for (let i = 0; i < rounds.length; i++) {
             const roundAttempt = await storage.getTestAttemptByUserAndRound(entry.userId, rounds[i].id)
             rowData[`round${i + 1}`] = roundAttempt?.totalScore || 0
+            if (roundAttempt) {
+              const attemptAnswers = await storage.getAnswersByAttempt(roundAttempt.id)
+              negativeMarks += attemptAnswers.reduce((sum, a) => sum + Math.min(0, a.pointsAwarded || 0), 0)
+              violationPenalties += roundAttempt.penaltyPoints || 0
+            }
           }
+          rowData.negativeMarks = negativeMarks
+          rowData.violationPenalties = violationPenalties
 
           sheet3.addRow(rowData)
         }
@@ -2837,6 +5849,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
         sheet3.getRow(1).font = { bold: true }
         sheet3.getRow(1).fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFE0E0E0" } }
 
+        const sectionedRounds = rounds.filter((round) => SectionService.isSectioned(round))
+        if (sectionedRounds.length > 0) {
+          const sectionSheet = workbook.addWorksheet("Section Scores")
+          sectionSheet.columns = [
+            { header: "Round", key: "round", width: 20 },
+            { header: "Rank", key: "rank", width: 10 },
+            { header: "Participant Name", key: "name", width: 30 },
+            { header: "Email", key: "email", width: 30 },
+            { header: "Section", key: "section", width: 20 },
+            { header: "Score", key: "score", width: 12 },
+            { header: "Max Score", key: "maxScore", width: 12 },
+            { header: "Answered", key: "answered", width: 12 },
+          ]
+
+          for (const round of sectionedRounds) {
+            const sections = SectionService.getSections(round)
+            const roundLeaderboard = await storage.getRoundLeaderboard(round.id)
+            for (const entry of roundLeaderboard) {
+              const user = await storage.getUser(entry.userId)
+              const attempt = await storage.getTestAttempt(entry.attemptId)
+              if (!attempt) continue
+
+              const sectionScores = SectionService.scoreBySection(
+                sections,
+                await AttemptService.getAttemptQuestions(attempt),
+                await storage.getAnswersByAttempt(attempt.id),
+              )
+              for (const sectionScore of sectionScores) {
+                sectionSheet.addRow({
+                  round: round.name,
+                  rank: entry.rank,
+                  name: entry.userName,
+                  email: user?.email || "N/A",
+                  section: sectionScore.name,
+                  score: sectionScore.score,
+                  maxScore: sectionScore.maxScore,
+                  answered: `${sectionScore.answered} / ${sectionScore.questionCount}`,
+                })
+              }
+            }
+          }
+
+          sectionSheet.getRow(1).font = { bold: true }
+          sectionSheet.getRow(1).fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFE0E0E0" } }
+        }
+
         const sheet4 = workbook.addWorksheet("Leaderboard")
         sheet4.columns = [
           { header: "Rank", key: "rank", width: 10 },
@@ -2857,6 +5915,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
         sheet4.getRow(1).font = { bold: true }
         sheet4.getRow(1).fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFE0E0E0" } }
 
+        if (isTeamEvent) {
+          const teamSheet = workbook.addWorksheet("Team Standings")
+          teamSheet.columns = [
+            { header: "Rank", key: "rank", width: 10 },
+            { header: "Team", key: "team", width: 30 },
+            { header: "Members", key: "members", width: 60 },
+            { header: event.teamScoring === "average" ? "Average Score" : "Team Score", key: "totalScore", width: 15 },
+            { header: "Completion Time", key: "completionTime", width: 25 },
+          ]
+
+          for (const standing of await storage.getTeamLeaderboard(eventId)) {
+            teamSheet.addRow({
+              rank: standing.rank,
+              team: standing.teamName,
+              members: standing.members.map((m) => `${m.userName} (${m.totalScore})`).join(", "),
+              totalScore: standing.totalScore,
+              completionTime: standing.submittedAt ? new Date(standing.submittedAt).toLocaleString() : "N/A",
+            })
+          }
+
+          teamSheet.getRow(1).font = { bold: true }
+          teamSheet.getRow(1).fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFE0E0E0" } }
+        }
+
+        const violationSheet = workbook.addWorksheet("Violations")
+        violationSheet.columns = [
+          { header: "Round", key: "round", width: 20 },
+          { header: "Participant Name", key: "name", width: 30 },
+          { header: "Email", key: "email", width: 30 },
+          { header: "Type", key: "type", width: 22 },
+          { header: "Time", key: "time", width: 25 },
+          { header: "Counted", key: "counted", width: 10 },
+          { header: "Review", key: "review", width: 14 },
+          { header: "Note", key: "note", width: 40 },
+          { header: "Reviewed By", key: "reviewedBy", width: 20 },
+          { header: "Penalty", key: "penalty", width: 10 },
+        ]
+
+        for (const round of rounds) {
+          const rules = await getRoundProctoringRules(round)
+          for (const attempt of await storage.getTestAttemptsByRound(round.id)) {
+            const violationLogs = (attempt.violationLogs as ViolationLog[]) || []
+            if (violationLogs.length === 0) continue
+            const user = await storage.getUser(attempt.userId)
+            for (const log of violationLogs) {
+              violationSheet.addRow({
+                round: round.name,
+                name: user?.fullName || "N/A",
+                email: user?.email || "N/A",
+                type: log.type,
+                time: new Date(log.timestamp).toLocaleString(),
+                counted: log.review?.status !== "dismissed" && ProctoringService.isCounted(log.type, rules) ? "Yes" : "No",
+                review: log.review?.status || "pending",
+                note: log.review?.note || "",
+                reviewedBy: log.review?.reviewedBy || "",
+                penalty: log.review?.penaltyPoints || 0,
+              })
+            }
+          }
+        }
+
+        violationSheet.getRow(1).font = { bold: true }
+        violationSheet.getRow(1).fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFE0E0E0" } }
+
         const fileName = `Event_Report_${event.name.replace(/\s+/g, "_")}_${new Date().toISOString().split("T")[0]}.xlsx`
 
         res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet")
@@ -2884,7 +6006,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ message: "Event not found" })
         }
 
-        const rounds = await storage.getRoundsByEvent(eventId)
+        const rounds = await storage.getScoredRoundsByEvent(eventId)
         const participants = await storage.getParticipantsByEvent(eventId)
         const leaderboard = await storage.getEventLeaderboard(eventId)
 
@@ -2941,8 +6063,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         doc.moveDown(0.5)
 
         y = doc.y
-        const headers = ["Round", "Duration", "Participants", "Avg Score", "Completion"]
-        const colWidths = [120, 80, 100, 80, 100]
+        const headers = ["Round", "Duration", "Participants", "Avg Score", "Completion", "Scoring"]
+        const colWidths = [120, 80, 100, 80, 100, 250]
         let x = 50
 
         doc.fontSize(9).font("Helvetica-Bold")
@@ -2963,6 +6085,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const completionRate =
             participants.length > 0 ? ((roundLeaderboard.length / participants.length) * 100).toFixed(2) : "0"
 
+          const roundRules = await storage.getRoundRules(round.id)
+
           x = 50
           const rowData = [
             round.name,
@@ -2970,6 +6094,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             roundLeaderboard.length.toString(),
             avgScore,
             `${completionRate}%`,
+            ScoringService.describeRules(roundRules),
           ]
 
           rowData.forEach((data, i) => {
@@ -2999,7 +6124,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
           for (const round of rounds) {
             const attempt = await storage.getTestAttemptByUserAndRound(participant.userId, round.id)
-            const score = attempt && attempt.status === "completed" ? attempt.totalScore || 0 : 0
+            const score = attempt && attempt.status !== "in_progress" ? attempt.totalScore || 0 : 0
             roundScores.push(score)
             totalScore += score
           }
@@ -3106,6 +6231,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         })
 
+        if (TeamService.isTeamEvent(event)) {
+          const teamLeaderboard = await storage.getTeamLeaderboard(eventId)
+
+          doc.addPage()
+          doc.fontSize(14).font("Helvetica-Bold").text("Team Standings", { underline: true })
+          doc.moveDown(0.5)
+
+          y = doc.y
+          const tlHeaders = ["Rank", "Team", "Members", event.teamScoring === "average" ? "Average Score" : "Team Score"]
+          const tlColWidths = [60, 160, 400, 100]
+          x = 50
+
+          doc.fontSize(9).font("Helvetica-Bold")
+          tlHeaders.forEach((header, i) => {
+            doc.rect(x, y, tlColWidths[i], 20).stroke()
+            doc.text(header, x + 5, y + 5, { width: tlColWidths[i] - 10 })
+            x += tlColWidths[i]
+          })
+          y += 20
+
+          doc.font("Helvetica")
+          teamLeaderboard.slice(0, 20).forEach((standing) => {
+            x = 50
+            const rowData = [
+              standing.rank.toString(),
+              standing.teamName,
+              standing.members.map((m) => m.userName).join(", "),
+              standing.totalScore.toString(),
+            ]
+
+            rowData.forEach((data, i) => {
+              doc.rect(x, y, tlColWidths[i], 20).stroke()
+              doc.text(data, x + 5, y + 5, { width: tlColWidths[i] - 10, height: 12, ellipsis: true })
+              x += tlColWidths[i]
+            })
+            y += 20
+
+            if (y > 500) {
+              doc.addPage()
+              y = 50
+            }
+          })
+        }
+
         doc.end()
       } catch (error) {
         console.error("Export event PDF error:", error)
@@ -3137,7 +6306,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         let totalParticipants = 0
 
         for (const event of events) {
-          const rounds = await storage.getRoundsByEvent(event.id)
+          const rounds = await storage.getScoredRoundsByEvent(event.id)
           const eventParticipants = await storage.getParticipantsByEvent(event.id)
           const leaderboard = await storage.getEventLeaderboard(event.id)
 
@@ -3170,7 +6339,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ]
 
         for (const event of events) {
-          const rounds = await storage.getRoundsByEvent(event.id)
+          const rounds = await storage.getScoredRoundsByEvent(event.id)
           const eventParticipants = await storage.getParticipantsByEvent(event.id)
           const leaderboard = await storage.getEventLeaderboard(event.id)
 
@@ -3281,7 +6450,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         let totalParticipants = 0
 
         for (const event of events) {
-          const rounds = await storage.getRoundsByEvent(event.id)
+          const rounds = await storage.getScoredRoundsByEvent(event.id)
           const eventParticipants = await storage.getParticipantsByEvent(event.id)
           const leaderboard = await storage.getEventLeaderboard(event.id)
 
@@ -3340,7 +6509,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         doc.font("Helvetica")
         for (const event of events) {
-          const rounds = await storage.getRoundsByEvent(event.id)
+          const rounds = await storage.getScoredRoundsByEvent(event.id)
           const eventParticipants = await storage.getParticipantsByEvent(event.id)
           const leaderboard = await storage.getEventLeaderboard(event.id)
 
@@ -3599,6 +6768,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           questionText: existingQuestion.questionText,
           points: existingQuestion.points,
           correctAnswer: existingQuestion.correctAnswer,
+          correctAnswers: existingQuestion.correctAnswers,
           options: existingQuestion.options,
           expectedOutput: existingQuestion.expectedOutput,
           testCases: existingQuestion.testCases,
@@ -3614,6 +6784,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           questionText: updatedQuestion.questionText,
           points: updatedQuestion.points,
           correctAnswer: updatedQuestion.correctAnswer,
+          correctAnswers: updatedQuestion.correctAnswers,
           options: updatedQuestion.options,
           expectedOutput: updatedQuestion.expectedOutput,
           testCases: updatedQuestion.testCases,
@@ -0,0 +1,24 @@
+import type { Answer } from '@shared/schema';
+
+// create: first write for the question. apply: newer than what is saved. duplicate: the saved write
+// replayed. stale: an older write arriving after a newer one. Writes without a sequence number
+// (older clients) always apply.
+export type AnswerWriteDecision = 'create' | 'apply' | 'duplicate' | 'stale';
+
+export class AnswerSyncService {
+  // undefined when the client sent none; NaN marks a value that is not a positive integer
+  static parseClientSeq(value: unknown): number | undefined {
+    if (value === undefined || value === null) return undefined;
+    const seq = typeof value === 'number' ? value : Number(value);
+    return Number.isSafeInteger(seq) && seq > 0 ? seq : NaN;
+  }
+
+  // Last write wins by the client's sequence number, not by arrival order, so answers replayed
+  // from the offline queue cannot overwrite anything typed after them
+  static decideWrite(existing: Pick<Answer, 'clientSeq'> | undefined, clientSeq: number | undefined): AnswerWriteDecision {
+    if (!existing) return 'create';
+    if (clientSeq === undefined || existing.clientSeq === null) return 'apply';
+    if (clientSeq > existing.clientSeq) return 'apply';
+    return clientSeq === existing.clientSeq ? 'duplicate' : 'stale';
+  }
+}
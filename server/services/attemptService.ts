@@ -0,0 +1,474 @@
+import { storage } from '../storage';
+import type { Question, Round, TestAttempt } from '@shared/schema';
+import { ScoringService, type GradeResult } from './scoringService';
+import { WebSocketService } from './websocketService';
+import { emailService } from './emailService';
+import { SectionService, type SectionState } from './sectionService';
+import { HeartbeatService, CONNECTION_LOST_VIOLATION, type Heartbeat } from './heartbeatService';
+
+// Answers saved within this window after the deadline are still accepted to absorb network latency
+export const DEFAULT_GRACE_PERIOD_MS = 30 * 1000;
+export const DEFAULT_SWEEP_INTERVAL_MS = 30 * 1000;
+
+export type FinalStatus = 'completed' | 'auto_submitted';
+
+// The browser (localStorage id) and machine (fingerprint) a request came from
+export interface ClientIdentity {
+  clientId: string | null;
+  deviceFingerprint: string | null;
+}
+
+type TimedAttempt = Pick<TestAttempt, 'startedAt' | 'extraMinutes' | 'currentSection' | 'sectionStartedAt'> & { pausedAt?: Date | null };
+type TimedRound = Pick<Round, 'duration' | 'sections'>;
+
+export interface AnswerRegrade {
+  questionId: string;
+  before: { isCorrect: boolean | null; pointsAwarded: number | null };
+  after: { isCorrect: boolean | null; pointsAwarded: number | null };
+}
+
+export interface AttemptRegrade {
+  attemptId: string;
+  userId: string;
+  userName: string | null;
+  scoreBefore: number;
+  scoreAfter: number;
+  rankBefore: number | null;
+  rankAfter: number | null;
+  answers: AnswerRegrade[];
+}
+
+export interface RegradeOptions {
+  resendEmails?: boolean;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface RoundRegradeSummary {
+  roundId: string;
+  attemptsRegraded: number;
+  attemptsChanged: number;
+  emailsSent: number;
+  changes: AttemptRegrade[];
+}
+
+export class AttemptService {
+  private static sweepTimer: NodeJS.Timeout | null = null;
+  private static sweeping = false;
+  private static regrading = new Set<string>();
+
+  static getGracePeriodMs(): number {
+    const seconds = parseInt(process.env.ATTEMPT_GRACE_SECONDS || '', 10);
+    return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : DEFAULT_GRACE_PERIOD_MS;
+  }
+
+  // Round duration plus any extra time granted to this attempt. In a sectioned round this is
+  // the end of the last section if every remaining section runs its full time.
+  static getDeadline(attempt: TimedAttempt, round: TimedRound, now: Date = new Date()): Date {
+    const sectionState = SectionService.getSectionState(attempt, round, now);
+    if (sectionState) return sectionState.finalDeadline;
+
+    const minutes = round.duration + (attempt.extraMinutes || 0);
+    return new Date(new Date(attempt.startedAt).getTime() + minutes * 60 * 1000);
+  }
+
+  // Time left on the attempt's clock, which stands still while a proctor has it paused
+  static getRemainingMs(attempt: TimedAttempt, round: TimedRound, now: Date = new Date()): number {
+    const clock = attempt.pausedAt ? new Date(attempt.pausedAt) : now;
+    return Math.max(0, this.getDeadline(attempt, round, clock).getTime() - clock.getTime());
+  }
+
+  // True once the attempt's time (plus grace) has run out or the round has been ended. A paused
+  // attempt never runs out.
+  static isExpired(attempt: TimedAttempt, round: TimedRound & Pick<Round, 'status'>, now: Date = new Date()): boolean {
+    if (round.status === 'completed') return true;
+    if (attempt.pausedAt) return false;
+    const graceMs = this.getGracePeriodMs();
+    const sectionState = SectionService.getSectionState(attempt, round, now, graceMs);
+    const deadline = sectionState ? sectionState.finalDeadline : this.getDeadline(attempt, round, now);
+    return now.getTime() > deadline.getTime() + graceMs;
+  }
+
+  // The section answers may currently be saved to, allowing the grace window after a section closes
+  static getWritableSection(attempt: TimedAttempt, round: TimedRound, now: Date = new Date()): SectionState | null {
+    return SectionService.getSectionState(attempt, round, now, this.getGracePeriodMs());
+  }
+
+  // Closes the participant's current section early and opens the next one. `fromSection` makes
+  // retries harmless: a request for a section that has already closed changes nothing.
+  static async advanceSection(attempt: TestAttempt, round: Round, fromSection: number): Promise<TestAttempt> {
+    const now = new Date();
+    const state = SectionService.getSectionState(attempt, round, now);
+    if (!state || state.isLast || state.index !== fromSection) return attempt;
+
+    return (await storage.updateTestAttempt(attempt.id, {
+      currentSection: state.index + 1,
+      sectionStartedAt: now,
+    })) || attempt;
+  }
+
+  // What to save when a paused attempt is resumed so the participant gets the paused time back.
+  // A sectioned attempt carries on in the section it was paused in; otherwise the pause is added as
+  // extra minutes, rounded up.
+  static getResumeUpdates(attempt: TimedAttempt, round: TimedRound, now: Date = new Date()): Partial<TestAttempt> {
+    if (!attempt.pausedAt) return {};
+
+    const pausedAt = new Date(attempt.pausedAt);
+    const pausedMs = Math.max(0, now.getTime() - pausedAt.getTime());
+    const sectionState = SectionService.getSectionState(attempt, round, pausedAt);
+
+    if (sectionState) {
+      return {
+        pausedAt: null,
+        currentSection: sectionState.index,
+        sectionStartedAt: new Date(sectionState.startedAt.getTime() + pausedMs),
+      };
+    }
+
+    return {
+      pausedAt: null,
+      extraMinutes: (attempt.extraMinutes || 0) + Math.ceil(pausedMs / (60 * 1000)),
+    };
+  }
+
+  // Records a sighting of the participant's browser: a heartbeat, or a socket connecting or
+  // disconnecting. A gap in heartbeats is logged as a `connection_lost` violation for review.
+  static async recordHeartbeat(attempt: TestAttempt, beat: Heartbeat): Promise<TestAttempt> {
+    const { updates, gap } = HeartbeatService.applyHeartbeat(attempt, beat);
+
+    // The gap is appended by the database so it cannot overwrite a violation logged meanwhile
+    const updatedAttempt = (gap
+      ? await storage.appendViolationLogs(attempt.id, [
+        { type: CONNECTION_LOST_VIOLATION, timestamp: gap.until.toISOString(), from: gap.from.toISOString(), seconds: gap.seconds },
+      ], updates)
+      : await storage.updateTestAttempt(attempt.id, updates)) || attempt;
+
+    if (gap || beat.presence) {
+      const round = await storage.getRound(attempt.roundId);
+      if (round) {
+        if (gap) {
+          WebSocketService.notifyProctoringEvent(round.eventId, round.id, attempt, 'violation', {
+            violationType: CONNECTION_LOST_VIOLATION,
+            action: 'none',
+            seconds: gap.seconds,
+          });
+        }
+        if (beat.presence) {
+          WebSocketService.notifyProctoringEvent(round.eventId, round.id, attempt, beat.presence);
+        }
+      }
+    }
+
+    return updatedAttempt;
+  }
+
+  // Records a participant's browser connecting or disconnecting against their in-progress attempts
+  static async recordPresence(userId: string, beat: Heartbeat) {
+    const attempts = (await storage.getTestAttemptsByUser(userId)).filter((attempt) => attempt.status === 'in_progress');
+    for (const attempt of attempts) {
+      await this.recordHeartbeat(attempt, beat);
+    }
+  }
+
+  // Binds an in-progress attempt to the first browser that opens it. Another browser is refused unless
+  // an admin has allowed a resume, in which case it takes the attempt over. The device fingerprint is
+  // only recorded for proctors: identical lab machines share one, so it cannot tell them apart.
+  static async claimForClient(attempt: TestAttempt, client: ClientIdentity): Promise<TestAttempt | null> {
+    if (attempt.status !== 'in_progress') return attempt;
+
+    if (!attempt.clientId || attempt.clientId === client.clientId) {
+      const binding: Partial<TestAttempt> = {};
+      if (!attempt.clientId && client.clientId) binding.clientId = client.clientId;
+      if (client.deviceFingerprint && attempt.deviceFingerprint !== client.deviceFingerprint) binding.deviceFingerprint = client.deviceFingerprint;
+      if (Object.keys(binding).length === 0) return attempt;
+      return (await storage.updateTestAttempt(attempt.id, binding)) || attempt;
+    }
+
+    if (attempt.resumeAllowedAt && client.clientId) {
+      return (await storage.updateTestAttempt(attempt.id, {
+        clientId: client.clientId,
+        deviceFingerprint: client.deviceFingerprint,
+        resumeAllowedAt: null,
+      })) || attempt;
+    }
+
+    return null;
+  }
+
+  // The questions this attempt was given: its frozen pool draw, or the whole round for older attempts
+  static async getAttemptQuestions(attempt: Pick<TestAttempt, 'roundId' | 'questionIds'>): Promise<Question[]> {
+    const questions = await storage.getQuestionsByRound(attempt.roundId);
+    if (!Array.isArray(attempt.questionIds)) return questions;
+    const drawn = new Set(attempt.questionIds);
+    return questions.filter((q) => drawn.has(q.id));
+  }
+
+  // Grades every saved answer and returns the attempt total. Answers a grader has
+  // already marked keep their manual points.
+  static async gradeAttempt(attemptId: string, roundId: string): Promise<number> {
+    const questions = await storage.getQuestionsByRound(roundId);
+    const answers = await storage.getAnswersByAttempt(attemptId);
+    const rules = await storage.getRoundRules(roundId);
+
+    let totalScore = 0;
+
+    for (const answer of answers) {
+      const question = questions.find((q) => q.id === answer.questionId);
+      if (!question) continue;
+
+      if (answer.gradedAt) {
+        totalScore += answer.pointsAwarded || 0;
+        continue;
+      }
+
+      let grade: GradeResult;
+      try {
+        grade = await ScoringService.gradeAnswer(question, answer, rules);
+      } catch (error) {
+        console.error('Auto-grade answer error:', error);
+        grade = { isCorrect: false, pointsAwarded: 0, testResults: null, autoGraded: false };
+      }
+
+      totalScore += grade.pointsAwarded;
+
+      await storage.updateAnswer(answer.id, {
+        isCorrect: grade.isCorrect,
+        pointsAwarded: grade.pointsAwarded,
+        testResults: grade.testResults,
+      });
+    }
+
+    return totalScore;
+  }
+
+  // Closes an attempt and grades it in the background, so coding answers never run on a
+  // request. The attempt is claimed before grading so only the caller that closed it runs the
+  // participant's code; returns undefined when the attempt was already finalized by someone else.
+  static async finalizeAttempt(attempt: TestAttempt, status: FinalStatus): Promise<TestAttempt | undefined> {
+    const closed = await storage.closeTestAttempt(attempt.id, status);
+    if (!closed) return undefined;
+
+    this.gradeClosedAttempt(closed, status).catch((err) => {
+      console.error(`Grade attempt ${closed.id} error:`, err);
+    });
+
+    return closed;
+  }
+
+  // Scores a closed attempt, then tells the participant and the round's proctors
+  private static async gradeClosedAttempt(attempt: TestAttempt, status: FinalStatus): Promise<TestAttempt> {
+    const graded = await this.gradeAttempt(attempt.id, attempt.roundId);
+    const updatedAttempt = (await storage.setGradedScore(attempt.id, graded)) || attempt;
+    const totalScore = updatedAttempt.totalScore || 0;
+
+    const round = await storage.getRound(attempt.roundId);
+    if (!round) return updatedAttempt;
+
+    WebSocketService.notifyProctoringEvent(round.eventId, round.id, updatedAttempt, status === 'auto_submitted' ? 'auto_submitted' : 'submitted');
+
+    // Practice attempts stay out of results and leaderboards, so there is nothing to publish or rank; an open
+    // results page is only told to pick up the score
+    if (round.roundType === 'practice') {
+      WebSocketService.notifyAttemptUpdate(attempt.userId, attempt.id, 'graded', updatedAttempt);
+      return updatedAttempt;
+    }
+
+    WebSocketService.notifyResultPublished(attempt.userId, round.eventId, updatedAttempt);
+    WebSocketService.notifyLeaderboardUpdate(round.eventId, round.id, status === 'auto_submitted' ? 'auto_submit' : 'submission');
+
+    const [user, event] = await Promise.all([
+      storage.getUser(attempt.userId),
+      storage.getEventById(round.eventId),
+    ]);
+
+    if (user?.email && user.fullName && event) {
+      const leaderboard = await storage.getRoundLeaderboard(attempt.roundId);
+      const participantRank = leaderboard.findIndex((entry) => entry.userId === attempt.userId) + 1;
+
+      emailService.sendResultPublished(
+        user.email,
+        user.fullName,
+        event.name,
+        totalScore,
+        participantRank || 0,
+      ).catch((err) => {
+        console.error('Error sending result published email:', err);
+      });
+    }
+
+    return updatedAttempt;
+  }
+
+  static isRegrading(roundId: string): boolean {
+    return this.regrading.has(roundId);
+  }
+
+  // Re-grades every submitted attempt of a round against the current answer key (manual grades are kept)
+  // and returns what changed. Used after an admin corrects a wrong key. Coding answers are run again, so
+  // this is started in the background and reports each graded attempt through onProgress; one round is
+  // re-graded at a time.
+  static async regradeRound(
+    roundId: string,
+    options: RegradeOptions = {},
+  ): Promise<RoundRegradeSummary> {
+    if (this.regrading.has(roundId)) throw new Error('This round is already being re-graded');
+    this.regrading.add(roundId);
+    try {
+      return await this.regradeAttempts(roundId, options);
+    } finally {
+      this.regrading.delete(roundId);
+    }
+  }
+
+  private static async regradeAttempts(
+    roundId: string,
+    options: RegradeOptions,
+  ): Promise<RoundRegradeSummary> {
+    const round = await storage.getRound(roundId);
+    if (!round) throw new Error('Round not found');
+
+    const rankOf = (board: Array<{ userId: string; rank: number }>, userId: string) =>
+      board.find((entry) => entry.userId === userId)?.rank ?? null;
+
+    const leaderboardBefore = await storage.getRoundLeaderboard(roundId);
+    const attempts = await storage.getSubmittedTestAttemptsByRound(roundId);
+    const changes: AttemptRegrade[] = [];
+    let done = 0;
+
+    for (const attempt of attempts) {
+      const answersBefore = await storage.getAnswersByAttempt(attempt.id);
+      const graded = await this.gradeAttempt(attempt.id, roundId);
+      const answersAfter = await storage.getAnswersByAttempt(attempt.id);
+
+      const answerChanges: AnswerRegrade[] = [];
+      for (const after of answersAfter) {
+        const before = answersBefore.find((a) => a.id === after.id);
+        if (!before || (before.isCorrect === after.isCorrect && before.pointsAwarded === after.pointsAwarded)) continue;
+        answerChanges.push({
+          questionId: after.questionId,
+          before: { isCorrect: before.isCorrect, pointsAwarded: before.pointsAwarded },
+          after: { isCorrect: after.isCorrect, pointsAwarded: after.pointsAwarded },
+        });
+      }
+
+      // Corrected point values change the attempt's maximum as well
+      const maxScore = (await this.getAttemptQuestions(attempt)).reduce((sum, q) => sum + q.points, 0);
+      const regraded = await storage.setGradedScore(attempt.id, graded, { maxScore });
+      const totalScore = regraded?.totalScore || 0;
+
+      if (answerChanges.length > 0 || totalScore !== (attempt.totalScore || 0)) {
+        changes.push({
+          attemptId: attempt.id,
+          userId: attempt.userId,
+          userName: leaderboardBefore.find((entry) => entry.userId === attempt.userId)?.userName ?? null,
+          scoreBefore: attempt.totalScore || 0,
+          scoreAfter: totalScore,
+          rankBefore: rankOf(leaderboardBefore, attempt.userId),
+          rankAfter: null,
+          answers: answerChanges,
+        });
+      }
+
+      options.onProgress?.(++done, attempts.length);
+    }
+
+    const leaderboardAfter = await storage.getRoundLeaderboard(roundId);
+    for (const change of changes) {
+      change.rankAfter = rankOf(leaderboardAfter, change.userId);
+    }
+
+    if (changes.length > 0) {
+      WebSocketService.notifyLeaderboardUpdate(round.eventId, roundId, 'regrade', leaderboardAfter);
+    }
+
+    let emailsSent = 0;
+    const scoreChanges = changes.filter((change) => change.scoreBefore !== change.scoreAfter);
+    for (const change of scoreChanges) {
+      const attempt = await storage.getTestAttempt(change.attemptId);
+      if (attempt) {
+        WebSocketService.notifyResultPublished(change.userId, round.eventId, attempt);
+      }
+    }
+
+    if (options.resendEmails && scoreChanges.length > 0) {
+      const event = await storage.getEventById(round.eventId);
+      for (const change of scoreChanges) {
+        const user = await storage.getUser(change.userId);
+        if (!event || !user?.email || !user.fullName) continue;
+        emailService.sendResultPublished(
+          user.email,
+          user.fullName,
+          event.name,
+          change.scoreAfter,
+          change.rankAfter || 0,
+        ).catch((err) => {
+          console.error('Error re-sending result email:', err);
+        });
+        emailsSent++;
+      }
+    }
+
+    return {
+      roundId,
+      attemptsRegraded: attempts.length,
+      attemptsChanged: changes.length,
+      emailsSent,
+      changes,
+    };
+  }
+
+  // Auto-submits every in-progress attempt whose time is up. With a roundId, only that round is swept.
+  static async autoSubmitExpired(roundId?: string): Promise<number> {
+    const attempts = await storage.getInProgressTestAttempts(roundId);
+    const rounds = new Map<string, Round | undefined>();
+    let submitted = 0;
+
+    for (const attempt of attempts) {
+      if (!rounds.has(attempt.roundId)) {
+        rounds.set(attempt.roundId, await storage.getRound(attempt.roundId));
+      }
+      const round = rounds.get(attempt.roundId);
+      if (!round || !this.isExpired(attempt, round)) continue;
+
+      try {
+        if (await this.finalizeAttempt(attempt, 'auto_submitted')) {
+          submitted++;
+        }
+      } catch (error) {
+        console.error(`Auto-submit attempt ${attempt.id} error:`, error);
+      }
+    }
+
+    return submitted;
+  }
+
+  static startSweeper(intervalMs?: number) {
+    if (this.sweepTimer) return;
+
+    const configured = parseInt(process.env.ATTEMPT_SWEEP_INTERVAL_MS || '', 10);
+    const interval = intervalMs || (Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_SWEEP_INTERVAL_MS);
+
+    this.sweepTimer = setInterval(async () => {
+      // Skip a tick rather than overlap when a sweep of many attempts takes longer than the interval
+      if (this.sweeping) return;
+      this.sweeping = true;
+      try {
+        const submitted = await this.autoSubmitExpired();
+        if (submitted > 0) {
+          console.log(`Auto-submitted ${submitted} expired test attempt(s)`);
+        }
+      } catch (error) {
+        console.error('Attempt sweeper error:', error);
+      } finally {
+        this.sweeping = false;
+      }
+    }, interval);
+    this.sweepTimer.unref();
+  }
+
+  static stopSweeper() {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+}
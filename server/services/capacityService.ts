@@ -0,0 +1,120 @@
+import type { Event, Registration } from '@shared/schema';
+
+export const MAX_CAPACITY = 10000;
+
+// Registrations that hold or wait for seats
+export type SeatRequest = Pick<Registration, 'id' | 'selectedEvents' | 'teams' | 'paymentStatus'>;
+export type SeatedEvent = Pick<Event, 'id' | 'capacity'>;
+
+export interface SeatCount {
+  taken: number; // Participants plus seats held by pending registrations
+  waitlisted: number; // Waitlisted registrations this event has no room for
+}
+
+// People entered into an event directly, without a registration: the first user leads the team, if there is one
+export interface EventEntry {
+  eventId: string;
+  userIds: string[];
+  teamName: string | null;
+}
+
+export interface CapacitySummary {
+  capacity: number | null;
+  seatsLeft: number | null; // null = unlimited
+  waitlistCount: number;
+}
+
+export class CapacityService {
+  // A team registration needs a seat for the registrant and each teammate
+  static seatsNeeded(registration: Pick<Registration, 'teams'>, eventId: string): number {
+    return 1 + (registration.teams?.[eventId]?.members.length || 0);
+  }
+
+  static hasRoom(event: SeatedEvent, count: SeatCount | undefined, needed: number): boolean {
+    return event.capacity === null || (count?.taken || 0) + needed <= event.capacity;
+  }
+
+  // Seats per event: the participants already entered plus what pending registrations hold. Approved
+  // registrations are counted through their participants, so they are not counted twice.
+  static countSeats(
+    events: SeatedEvent[],
+    participantCounts: Record<string, number>,
+    registrations: SeatRequest[],
+  ): Record<string, SeatCount> {
+    const counts: Record<string, SeatCount> = {};
+    for (const event of events) {
+      counts[event.id] = { taken: participantCounts[event.id] || 0, waitlisted: 0 };
+    }
+
+    for (const registration of registrations) {
+      if (registration.paymentStatus !== 'pending') continue;
+      for (const eventId of registration.selectedEvents) {
+        if (counts[eventId]) counts[eventId].taken += this.seatsNeeded(registration, eventId);
+      }
+    }
+
+    for (const registration of registrations) {
+      if (registration.paymentStatus !== 'waitlisted') continue;
+      for (const event of events) {
+        if (!registration.selectedEvents.includes(event.id)) continue;
+        if (!this.hasRoom(event, counts[event.id], this.seatsNeeded(registration, event.id))) {
+          counts[event.id].waitlisted++;
+        }
+      }
+    }
+
+    return counts;
+  }
+
+  // The selected events that cannot seat this registration
+  static fullEvents<T extends SeatedEvent>(
+    events: T[],
+    counts: Record<string, SeatCount>,
+    registration: Pick<Registration, 'teams'>,
+  ): T[] {
+    return events.filter((event) => !this.hasRoom(event, counts[event.id], this.seatsNeeded(registration, event.id)));
+  }
+
+  static summarize(event: SeatedEvent, count: SeatCount | undefined): CapacitySummary {
+    return {
+      capacity: event.capacity,
+      seatsLeft: event.capacity === null ? null : Math.max(0, event.capacity - (count?.taken || 0)),
+      waitlistCount: count?.waitlisted || 0,
+    };
+  }
+
+  // Waitlisted registrations to move back to pending, oldest first. One that still does not fit is
+  // passed over, so a smaller registration behind it can take the seats that are free.
+  static pickPromotions<T extends SeatRequest>(
+    events: SeatedEvent[],
+    counts: Record<string, SeatCount>,
+    waitlist: T[],
+  ): T[] {
+    const taken: Record<string, SeatCount> = {};
+    for (const event of events) {
+      taken[event.id] = { ...(counts[event.id] || { taken: 0, waitlisted: 0 }) };
+    }
+
+    const promoted: T[] = [];
+    for (const registration of waitlist) {
+      const selected = events.filter((event) => registration.selectedEvents.includes(event.id));
+      if (this.fullEvents(selected, taken, registration).length > 0) continue;
+
+      for (const event of selected) {
+        taken[event.id].taken += this.seatsNeeded(registration, event.id);
+      }
+      promoted.push(registration);
+    }
+    return promoted;
+  }
+
+  // Capacity from the event form; blank clears the limit
+  static parseCapacity(input: unknown): { value: number | null; error?: string } {
+    if (input === null || input === '') return { value: null };
+    const capacity = Number(input);
+    if (!Number.isInteger(capacity) || capacity < 1 || capacity > MAX_CAPACITY) {
+      return { value: null, error: `Capacity must be a whole number from 1 to ${MAX_CAPACITY}, or blank for no limit` };
+    }
+    return { value: capacity };
+  }
+}
@@ -0,0 +1,336 @@
+import { spawn } from 'child_process';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+
+export const SUPPORTED_LANGUAGES = ['python', 'c', 'cpp', 'javascript', 'java'] as const;
+export type CodeLanguage = typeof SUPPORTED_LANGUAGES[number];
+
+export const DEFAULT_TIME_LIMIT_MS = 2000;
+export const DEFAULT_MEMORY_LIMIT_MB = 256;
+const COMPILE_TIME_LIMIT_MS = 15000;
+const OUTPUT_LIMIT_BYTES = 64 * 1024;
+const PROCESS_LIMIT = 128; // Threads count too, and the JVM starts a few dozen
+
+// Test case as stored on questions.testCases. Older rows use `output` instead of `expectedOutput`.
+export interface CodeTestCase {
+  input?: unknown;
+  expectedOutput?: unknown;
+  output?: unknown;
+  hidden?: boolean;
+}
+
+export type TestCaseStatus =
+  | 'passed'
+  | 'wrong_answer'
+  | 'runtime_error'
+  | 'time_limit_exceeded'
+  | 'output_limit_exceeded'
+  | 'compile_error';
+
+export interface TestCaseResult {
+  index: number;
+  passed: boolean;
+  status: TestCaseStatus;
+  timeMs: number;
+  hidden: boolean;
+  stdout?: string;
+  stderr?: string;
+}
+
+export interface ExecutionLimits {
+  timeLimitMs: number;
+  memoryLimitMb: number;
+}
+
+interface LanguageConfig {
+  fileName: string;
+  compile?: (limits: ExecutionLimits) => string[];
+  run: (limits: ExecutionLimits) => string[];
+  // Runtimes that reserve large virtual address ranges (V8, JVM) cannot run under
+  // `ulimit -v`, so their heap is capped through runtime flags instead.
+  managedHeap?: boolean;
+}
+
+const LANGUAGES: Record<CodeLanguage, LanguageConfig> = {
+  python: {
+    fileName: 'main.py',
+    run: () => ['python3', '-I', 'main.py'],
+  },
+  c: {
+    fileName: 'main.c',
+    compile: () => ['gcc', '-O2', '-std=c11', '-o', 'main', 'main.c', '-lm'],
+    run: () => ['./main'],
+  },
+  cpp: {
+    fileName: 'main.cpp',
+    compile: () => ['g++', '-O2', '-std=c++17', '-o', 'main', 'main.cpp'],
+    run: () => ['./main'],
+  },
+  javascript: {
+    fileName: 'main.js',
+    run: (limits) => ['node', `--max-old-space-size=${limits.memoryLimitMb}`, 'main.js'],
+    managedHeap: true,
+  },
+  java: {
+    fileName: 'Main.java',
+    compile: () => ['javac', '-J-Xmx512m', 'Main.java'],
+    run: (limits) => ['java', `-Xmx${limits.memoryLimitMb}m`, '-Xss64m', '-cp', '.', 'Main'],
+    managedHeap: true,
+  },
+};
+
+interface ProcessResult {
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  outputExceeded: boolean;
+  timeMs: number;
+}
+
+export class CodeExecutionService {
+  private static running = 0;
+  private static waiting: Array<() => void> = [];
+
+  // Participant code only ever runs inside an external sandbox (a container, nsjail, or firejail with
+  // --net=none and a private filesystem) named by CODE_SANDBOX_WRAPPER
+  static getSandboxWrapper(): string[] {
+    return (process.env.CODE_SANDBOX_WRAPPER || '').split(' ').filter(Boolean);
+  }
+
+  static isSandboxConfigured(): boolean {
+    return this.getSandboxWrapper().length > 0;
+  }
+
+  static isSupportedLanguage(language: unknown): language is CodeLanguage {
+    return typeof language === 'string' && (SUPPORTED_LANGUAGES as readonly string[]).includes(language);
+  }
+
+  // Test case inputs are fed to the program on stdin: arrays become one value per line,
+  // strings are passed through and anything else is JSON-encoded.
+  static formatInput(input: unknown): string {
+    if (input === undefined || input === null) return '';
+    if (Array.isArray(input)) {
+      return input.map((value) => (typeof value === 'string' ? value : JSON.stringify(value))).join('\n') + '\n';
+    }
+    if (typeof input === 'string') return input.endsWith('\n') ? input : input + '\n';
+    return JSON.stringify(input) + '\n';
+  }
+
+  // Normalise line endings and trailing whitespace so formatting noise doesn't fail a test
+  static normalizeOutput(output: unknown): string {
+    if (output === undefined || output === null) return '';
+    const text = typeof output === 'string' ? output : JSON.stringify(output);
+    return text
+      .replace(/\r\n?/g, '\n')
+      .split('\n')
+      .map((line) => line.trimEnd())
+      .join('\n')
+      .trim();
+  }
+
+  static outputsMatch(actual: string, expected: unknown): boolean {
+    return this.normalizeOutput(actual) === this.normalizeOutput(expected);
+  }
+
+  // Partial credit: each test case carries an equal share of the question's points
+  static scoreTestResults(results: TestCaseResult[], points: number): number {
+    if (results.length === 0) return 0;
+    const passed = results.filter((r) => r.passed).length;
+    return Math.floor((points * passed) / results.length);
+  }
+
+  static async runTestCases(
+    language: CodeLanguage,
+    source: string,
+    testCases: CodeTestCase[],
+    limits: Partial<ExecutionLimits> = {},
+  ): Promise<TestCaseResult[]> {
+    const effectiveLimits: ExecutionLimits = {
+      timeLimitMs: limits.timeLimitMs || DEFAULT_TIME_LIMIT_MS,
+      memoryLimitMb: limits.memoryLimitMb || DEFAULT_MEMORY_LIMIT_MB,
+    };
+    const config = LANGUAGES[language];
+
+    // Refuse rather than run untrusted code on the API host; the answer is left for manual grading
+    if (!this.isSandboxConfigured()) {
+      throw new Error('Code execution is disabled until CODE_SANDBOX_WRAPPER names a sandbox');
+    }
+
+    await this.acquireSlot();
+    const workDir = await mkdtemp(path.join(tmpdir(), 'sympo-run-'));
+
+    try {
+      await writeFile(path.join(workDir, config.fileName), source, 'utf8');
+
+      if (config.compile) {
+        const compiled = await this.execute(config.compile(effectiveLimits), workDir, '', {
+          timeLimitMs: COMPILE_TIME_LIMIT_MS,
+          memoryLimitMb: 1024,
+        }, true);
+
+        if (compiled.timedOut || compiled.exitCode !== 0) {
+          const stderr = compiled.timedOut ? 'Compilation timed out' : compiled.stderr;
+          return testCases.map((testCase, index) => ({
+            index,
+            passed: false,
+            status: 'compile_error' as const,
+            timeMs: 0,
+            hidden: !!testCase.hidden,
+            stderr: testCase.hidden ? undefined : stderr,
+          }));
+        }
+      }
+
+      const results: TestCaseResult[] = [];
+      for (let index = 0; index < testCases.length; index++) {
+        const testCase = testCases[index];
+        const expected = testCase.expectedOutput !== undefined ? testCase.expectedOutput : testCase.output;
+        const run = await this.execute(
+          config.run(effectiveLimits),
+          workDir,
+          this.formatInput(testCase.input),
+          effectiveLimits,
+          !!config.managedHeap,
+        );
+
+        let status: TestCaseStatus;
+        if (run.timedOut || run.signal === 'SIGXCPU') {
+          status = 'time_limit_exceeded';
+        } else if (run.outputExceeded || run.signal === 'SIGXFSZ') {
+          status = 'output_limit_exceeded';
+        } else if (run.exitCode !== 0) {
+          status = 'runtime_error';
+        } else {
+          status = this.outputsMatch(run.stdout, expected) ? 'passed' : 'wrong_answer';
+        }
+
+        results.push({
+          index,
+          passed: status === 'passed',
+          status,
+          timeMs: run.timeMs,
+          hidden: !!testCase.hidden,
+          // Never echo output for hidden tests back to the participant
+          stdout: testCase.hidden ? undefined : run.stdout.slice(0, 2000),
+          stderr: testCase.hidden ? undefined : run.stderr.slice(0, 2000),
+        });
+      }
+
+      return results;
+    } finally {
+      await rm(workDir, { recursive: true, force: true }).catch(() => {});
+      this.releaseSlot();
+    }
+  }
+
+  // Limit how many submissions compile/run at once so grading a whole round
+  // doesn't starve the API server of CPU.
+  private static async acquireSlot(): Promise<void> {
+    const maxConcurrent = parseInt(process.env.CODE_EXECUTION_CONCURRENCY || '2', 10) || 2;
+    if (this.running < maxConcurrent) {
+      this.running++;
+      return;
+    }
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+    this.running++;
+  }
+
+  private static releaseSlot() {
+    this.running--;
+    const next = this.waiting.shift();
+    if (next) next();
+  }
+
+  private static execute(
+    command: string[],
+    cwd: string,
+    stdin: string,
+    limits: ExecutionLimits,
+    managedHeap: boolean,
+  ): Promise<ProcessResult> {
+    const cpuSeconds = Math.max(1, Math.ceil(limits.timeLimitMs / 1000));
+    const ulimits = [
+      `ulimit -t ${cpuSeconds}`,
+      `ulimit -f ${Math.ceil(OUTPUT_LIMIT_BYTES / 1024) * 4}`,
+      `ulimit -u ${PROCESS_LIMIT}`,
+    ];
+    if (!managedHeap) {
+      ulimits.push(`ulimit -v ${limits.memoryLimitMb * 1024}`);
+    }
+
+    // External sandbox (e.g. "firejail --quiet --net=none --private=.") wrapping the run
+    const wrapper = this.getSandboxWrapper();
+
+    return new Promise((resolve) => {
+      const startedAt = Date.now();
+      const child = spawn('/bin/sh', ['-c', `${ulimits.join('; ')}; exec "$@"`, 'sandbox', ...wrapper, ...command], {
+        cwd,
+        detached: true,
+        env: { PATH: process.env.PATH || '/usr/local/bin:/usr/bin:/bin', HOME: cwd, LANG: 'C.UTF-8' },
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+      let outputExceeded = false;
+
+      const killGroup = () => {
+        try {
+          if (child.pid) process.kill(-child.pid, 'SIGKILL');
+        } catch {
+          // Process group already exited
+        }
+      };
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        killGroup();
+      }, limits.timeLimitMs + 500);
+
+      child.stdout.on('data', (chunk: Buffer) => {
+        stdout += chunk.toString();
+        if (stdout.length > OUTPUT_LIMIT_BYTES) {
+          outputExceeded = true;
+          killGroup();
+        }
+      });
+      child.stderr.on('data', (chunk: Buffer) => {
+        if (stderr.length < OUTPUT_LIMIT_BYTES) stderr += chunk.toString();
+      });
+
+      // Programs that exit without reading stdin close the pipe early
+      child.stdin.on('error', () => {});
+      child.stdin.end(stdin);
+
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        resolve({
+          exitCode: null,
+          signal: null,
+          stdout,
+          stderr: stderr + error.message,
+          timedOut,
+          outputExceeded,
+          timeMs: Date.now() - startedAt,
+        });
+      });
+
+      child.on('close', (exitCode, signal) => {
+        clearTimeout(timer);
+        resolve({
+          exitCode,
+          signal,
+          stdout,
+          stderr,
+          timedOut,
+          outputExceeded,
+          timeMs: Date.now() - startedAt,
+        });
+      });
+    });
+  }
+}
@@ -6,6 +6,7 @@ import {
   generateCredentialsEmail,
   generateTestStartReminderEmail,
   generateResultPublishedEmail,
+  generateWaitlistPromotedEmail,
   generateAdminNotificationEmail
 } from '../templates/emailTemplates';
 
@@ -223,9 +224,10 @@ class EmailService {
     name: string,
     eventName: string,
     username: string,
-    password: string
+    password: string,
+    teamName?: string | null
   ): Promise<{ success: boolean; messageId?: string; error?: string }> {
-    const html = generateRegistrationApprovedEmail(name, eventName, username, password);
+    const html = generateRegistrationApprovedEmail(name, eventName, username, password, teamName);
     return this.sendEmail(
       {
         to,
@@ -243,9 +245,10 @@ class EmailService {
     name: string,
     eventName: string,
     username: string,
-    password: string
+    password: string,
+    teamName?: string | null
   ): Promise<{ success: boolean; messageId?: string; error?: string }> {
-    const html = generateCredentialsEmail(name, eventName, username, password);
+    const html = generateCredentialsEmail(name, eventName, username, password, teamName);
     return this.sendEmail(
       {
         to,
@@ -298,6 +301,25 @@ class EmailService {
     );
   }
 
+  async sendWaitlistPromoted(
+    to: string,
+    name: string,
+    eventNames: string[]
+  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
+    const html = generateWaitlistPromotedEmail(name, eventNames);
+    const eventName = eventNames.join(', ');
+    return this.sendEmail(
+      {
+        to,
+        subject: `Off the Waitlist - ${eventName}`,
+        html,
+        metadata: { eventName }
+      },
+      'waitlist_promoted',
+      name
+    );
+  }
+
   private async notifySuperAdmin(
     emailType: string,
     recipientEmail: string,
@@ -0,0 +1,88 @@
+import type { ConnectivityEvent, TestAttempt } from '@shared/schema';
+
+export const DEFAULT_HEARTBEAT_GAP_MS = 60 * 1000;
+// Keeps a flapping connection from growing an attempt's timeline without bound
+export const MAX_CONNECTIVITY_EVENTS = 500;
+// Recorded against the attempt for review, but never counted towards the violation limit
+export const CONNECTION_LOST_VIOLATION = 'connection_lost';
+
+type HeartbeatAttempt = Pick<TestAttempt, 'lastSeenAt' | 'lastClientIp' | 'lastUserAgent' | 'connectivityLog'>;
+
+export interface Heartbeat {
+  at: Date;
+  clientTime?: string | number | null;
+  ip: string | null;
+  userAgent: string | null;
+  transport: 'socket' | 'http';
+  // Set when the sighting is a socket connecting or disconnecting rather than a heartbeat
+  presence?: 'connected' | 'disconnected';
+}
+
+export interface HeartbeatGap {
+  from: Date;
+  until: Date;
+  seconds: number;
+}
+
+export interface HeartbeatResult {
+  updates: Partial<Pick<TestAttempt, 'lastSeenAt' | 'clockDriftMs' | 'lastClientIp' | 'lastUserAgent' | 'connectivityLog'>>;
+  gap: HeartbeatGap | null;
+}
+
+export class HeartbeatService {
+  static getGapThresholdMs(): number {
+    const seconds = parseInt(process.env.ATTEMPT_HEARTBEAT_GAP_SECONDS || '', 10);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : DEFAULT_HEARTBEAT_GAP_MS;
+  }
+
+  // Server time minus the browser's clock; null when the browser sent no usable time
+  static getClockDriftMs(clientTime: Heartbeat['clientTime'], at: Date): number | null {
+    if (clientTime === undefined || clientTime === null || clientTime === '') return null;
+    const time = new Date(clientTime).getTime();
+    return Number.isFinite(time) ? at.getTime() - time : null;
+  }
+
+  // Works out what a sighting of the participant's browser changes on the attempt. Silence longer
+  // than `gapMs` since the last sighting becomes a gap on the timeline, and a new network or
+  // browser is noted as well.
+  static applyHeartbeat(attempt: HeartbeatAttempt, beat: Heartbeat, gapMs: number = this.getGapThresholdMs()): HeartbeatResult {
+    const at = beat.at.toISOString();
+    const events: ConnectivityEvent[] = [];
+    let gap: HeartbeatGap | null = null;
+
+    if (attempt.lastSeenAt) {
+      const from = new Date(attempt.lastSeenAt);
+      const silentMs = beat.at.getTime() - from.getTime();
+      if (silentMs > gapMs) {
+        gap = { from, until: beat.at, seconds: Math.round(silentMs / 1000) };
+        events.push({ type: 'gap', at: from.toISOString(), until: at, seconds: gap.seconds });
+      }
+    }
+
+    const clientChanged =
+      (!!attempt.lastClientIp && !!beat.ip && attempt.lastClientIp !== beat.ip) ||
+      (!!attempt.lastUserAgent && !!beat.userAgent && attempt.lastUserAgent !== beat.userAgent);
+    if (clientChanged) {
+      events.push({ type: 'client_changed', at, ip: beat.ip, userAgent: beat.userAgent, transport: beat.transport });
+    }
+
+    if (beat.presence) {
+      events.push({ type: beat.presence, at, ip: beat.ip, userAgent: beat.userAgent, transport: beat.transport });
+    }
+
+    const updates: HeartbeatResult['updates'] = {
+      lastSeenAt: beat.at,
+      lastClientIp: beat.ip || attempt.lastClientIp,
+      lastUserAgent: beat.userAgent || attempt.lastUserAgent,
+    };
+
+    const driftMs = this.getClockDriftMs(beat.clientTime, beat.at);
+    if (driftMs !== null) updates.clockDriftMs = driftMs;
+
+    if (events.length > 0) {
+      updates.connectivityLog = [...(attempt.connectivityLog || []), ...events].slice(-MAX_CONNECTIVITY_EVENTS);
+    }
+
+    return { updates, gap };
+  }
+}
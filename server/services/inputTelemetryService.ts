@@ -0,0 +1,71 @@
+import { answerInputStatsSchema, type AnswerInputStats } from '@shared/schema';
+
+// mostly_pasted: at least half of the answer arrived through paste or drop. instant: the rest of the
+// answer appeared faster than anyone can type it, or with no input recorded at all.
+export type InputFlag = 'mostly_pasted' | 'instant';
+
+export interface InputAssessment {
+  flags: InputFlag[];
+  answerChars: number;
+  pastedShare: number;
+  composeSeconds: number | null;
+}
+
+// Short answers say too little about how they were written
+export const MIN_FLAGGED_ANSWER_CHARS = 20;
+export const MOSTLY_PASTED_SHARE = 0.5;
+// Well above fast touch typing (about 8 characters a second)
+export const MAX_TYPING_CHARS_PER_SECOND = 15;
+
+export class InputTelemetryService {
+  // null for anything that is not a stats object; telemetry never blocks saving the answer itself
+  static parse(value: unknown): AnswerInputStats | null {
+    const parsed = answerInputStatsSchema.safeParse(value);
+    return parsed.success ? parsed.data : null;
+  }
+
+  // The test page sends running totals for the question. Taking the larger of each counter keeps a
+  // page that lost its totals (e.g. reopened elsewhere before loading them) from erasing what was recorded.
+  static merge(existing: AnswerInputStats | null | undefined, incoming: AnswerInputStats): AnswerInputStats {
+    if (!existing) return incoming;
+    const earliest = (a: string | null, b: string | null) => (!a ? b : !b ? a : a < b ? a : b);
+    const latest = (a: string | null, b: string | null) => (!a ? b : !b ? a : a > b ? a : b);
+    return {
+      pasteCount: Math.max(existing.pasteCount, incoming.pasteCount),
+      pastedChars: Math.max(existing.pastedChars, incoming.pastedChars),
+      largestPaste: Math.max(existing.largestPaste, incoming.largestPaste),
+      typedChars: Math.max(existing.typedChars, incoming.typedChars),
+      deletedChars: Math.max(existing.deletedChars, incoming.deletedChars),
+      burstCount: Math.max(existing.burstCount, incoming.burstCount),
+      longestBurstChars: Math.max(existing.longestBurstChars, incoming.longestBurstChars),
+      firstInputAt: earliest(existing.firstInputAt, incoming.firstInputAt),
+      lastInputAt: latest(existing.lastInputAt, incoming.lastInputAt),
+    };
+  }
+
+  // Answers saved before telemetry existed have no stats and are never flagged
+  static assess(stats: AnswerInputStats | null | undefined, answer: string): InputAssessment | null {
+    if (!stats) return null;
+
+    const answerChars = answer.trim().length;
+    const pastedShare = answerChars > 0 ? Math.min(1, stats.pastedChars / answerChars) : 0;
+    const first = stats.firstInputAt ? new Date(stats.firstInputAt).getTime() : NaN;
+    const last = stats.lastInputAt ? new Date(stats.lastInputAt).getTime() : NaN;
+    const composeSeconds = Number.isNaN(first) || Number.isNaN(last) ? null : Math.max(0, (last - first) / 1000);
+
+    const flags: InputFlag[] = [];
+    if (answerChars >= MIN_FLAGGED_ANSWER_CHARS) {
+      if (pastedShare >= MOSTLY_PASTED_SHARE) flags.push('mostly_pasted');
+
+      const unpastedChars = answerChars - Math.min(answerChars, stats.pastedChars);
+      const noInput = stats.typedChars + stats.pastedChars === 0;
+      const tooFast =
+        unpastedChars >= MIN_FLAGGED_ANSWER_CHARS &&
+        composeSeconds !== null &&
+        unpastedChars > composeSeconds * MAX_TYPING_CHARS_PER_SECOND;
+      if (noInput || tooFast) flags.push('instant');
+    }
+
+    return { flags, answerChars, pastedShare, composeSeconds };
+  }
+}
@@ -0,0 +1,340 @@
+import type { Event, FeeCombo, Registration, RegistrationStatus } from '@shared/schema';
+
+export const MAX_FEE = 100000;
+export const MAX_RECEIPT_BYTES = 1024 * 1024;
+
+// UPI transaction ids and bank UTRs, once spaces and dashes are dropped
+const REFERENCE_PATTERN = /^[A-Z0-9]{6,35}$/;
+const RECEIPT_PATTERN = /^data:image\/(png|jpeg|webp);base64,([A-Za-z0-9+/]+={0,2})$/;
+const UPI_ID_PATTERN = /^[\w.-]{2,256}@[a-zA-Z]{2,64}$/;
+
+// The leading bytes of each receipt format, so a file merely labelled as an image is refused
+const RECEIPT_SIGNATURES: Record<string, (head: Buffer) => boolean> = {
+  png: (head) => head.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47])),
+  jpeg: (head) => head.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  webp: (head) => head.toString('latin1', 0, 4) === 'RIFF' && head.toString('latin1', 8, 12) === 'WEBP',
+};
+
+// Bank statement headers differ from bank to bank; these cover the usual CSV downloads
+const DATE_HEADER = /date/i;
+const DESCRIPTION_HEADER = /narration|description|particulars|remarks|details/i;
+const REFERENCE_HEADER = /ref|utr|cheque|chq|transaction id|txn id/i;
+const CREDIT_HEADER = /deposit|credit/i;
+const AMOUNT_HEADER = /amount/i;
+const DIRECTION_HEADER = /^(cr\/dr|dr\/cr|type)$/i;
+
+export type PricedEvent = Pick<Event, 'id' | 'name' | 'fee'>;
+export type PricedCombo = Pick<FeeCombo, 'id' | 'name' | 'eventIds' | 'amount'>;
+
+export interface FeeQuote {
+  amount: number;
+  breakdown: Record<string, number>; // Event id → rupees, adding up to amount
+  combo: Pick<FeeCombo, 'id' | 'name'> | null;
+}
+
+export interface StatementRow {
+  line: number; // Line in the CSV, counting from 1
+  date: string;
+  description: string;
+  reference: string;
+  amount: number; // Money received; debits are left out
+}
+
+export type MatchStatus = 'matched' | 'amount_mismatch' | 'already_verified' | 'duplicate' | 'unmatched';
+
+export interface StatementMatch {
+  row: StatementRow;
+  registrationId: string | null;
+  status: MatchStatus;
+}
+
+export type PaymentRecord = Pick<
+  Registration,
+  'id' | 'paymentStatus' | 'paymentReference' | 'feeAmount' | 'feeBreakdown' | 'amountReceived' | 'paymentVerifiedAt'
+>;
+
+// What a public registration records about its fee when it is submitted
+export type RegistrationPayment = Partial<
+  Pick<Registration, 'feeAmount' | 'feeBreakdown' | 'feeComboId' | 'paymentReference' | 'receiptImage'>
+>;
+
+export interface CollectionLine {
+  label: string;
+  count: number;
+  expected: number;
+  received: number;
+}
+
+export interface CollectionsSummary {
+  expected: number; // Fees on pending, waitlisted and approved registrations
+  received: number; // Verified payments, including any on registrations declined or withdrawn since
+  outstanding: number; // Expected but not yet verified
+  byStatus: CollectionLine[];
+  byEvent: CollectionLine[];
+}
+
+const STATUS_LABELS: Record<RegistrationStatus, string> = {
+  pending: 'Pending',
+  waitlisted: 'Waitlisted',
+  paid: 'Approved',
+  declined: 'Declined',
+  withdrawn: 'Withdrawn',
+};
+
+const ACTIVE_STATUSES: RegistrationStatus[] = ['pending', 'waitlisted', 'paid'];
+
+export class PaymentService {
+  // The cheapest price for the selected events: each event's own fee, or one combo whose events are all
+  // selected plus the fees of the rest. A combo's price is shared across its events in proportion to
+  // their own fees, so per-event collections still add up.
+  static calculateFee(selected: PricedEvent[], combos: PricedCombo[]): FeeQuote {
+    const total = (events: PricedEvent[]) => events.reduce((sum, event) => sum + event.fee, 0);
+    const selectedIds = selected.map((event) => event.id);
+
+    let best: PricedCombo | null = null;
+    let amount = total(selected);
+    for (const combo of combos) {
+      if (!combo.eventIds.every((id) => selectedIds.includes(id))) continue;
+      const price = combo.amount + total(selected.filter((event) => !combo.eventIds.includes(event.id)));
+      if (price < amount) {
+        best = combo;
+        amount = price;
+      }
+    }
+
+    const breakdown: Record<string, number> = {};
+    const inCombo = best ? selected.filter((event) => best!.eventIds.includes(event.id)) : [];
+    for (const event of selected) {
+      if (!inCombo.includes(event)) breakdown[event.id] = event.fee;
+    }
+    if (best) {
+      const listed = total(inCombo);
+      let left = best.amount;
+      inCombo.forEach((event, index) => {
+        const share = index === inCombo.length - 1
+          ? left
+          : Math.floor(listed > 0 ? (best!.amount * event.fee) / listed : best!.amount / inCombo.length);
+        breakdown[event.id] = share;
+        left -= share;
+      });
+    }
+
+    return { amount, breakdown, combo: best ? { id: best.id, name: best.name } : null };
+  }
+
+  // Receipt images are large, so lists and notifications carry only whether one was uploaded
+  static withoutReceipt<T extends Pick<Registration, 'receiptImage'>>({ receiptImage, ...registration }: T) {
+    return { ...registration, hasReceipt: !!receiptImage };
+  }
+
+  static parseFee(input: unknown): { value: number; error?: string } {
+    const fee = input === '' || input === null ? 0 : Number(input);
+    if (!Number.isInteger(fee) || fee < 0 || fee > MAX_FEE) {
+      return { value: 0, error: `Fees must be whole rupees from 0 to ${MAX_FEE}` };
+    }
+    return { value: fee };
+  }
+
+  static normalizeReference(raw: string): string {
+    return raw.replace(/[\s-]/g, '').toUpperCase();
+  }
+
+  static parseReference(raw: unknown): { value: string; error?: string } {
+    const value = typeof raw === 'string' ? this.normalizeReference(raw) : '';
+    if (!value) return { value, error: 'Enter the UPI transaction ID for your payment' };
+    if (!REFERENCE_PATTERN.test(value)) {
+      return { value, error: 'The UPI transaction ID should be 6 to 35 letters and digits' };
+    }
+    return { value };
+  }
+
+  static parseReceipt(raw: unknown): { value: string; error?: string } {
+    const match = typeof raw === 'string' ? RECEIPT_PATTERN.exec(raw) : null;
+    if (!match) return { value: '', error: 'Upload a PNG, JPEG or WebP image of your payment receipt' };
+
+    const base64 = match[2];
+    const bytes = (base64.length * 3) / 4 - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+    if (bytes > MAX_RECEIPT_BYTES) {
+      return { value: '', error: `The receipt image must be under ${MAX_RECEIPT_BYTES / 1024 / 1024} MB` };
+    }
+    if (!RECEIPT_SIGNATURES[match[1]](Buffer.from(base64.slice(0, 16), 'base64'))) {
+      return { value: '', error: 'The receipt is not a valid PNG, JPEG or WebP image' };
+    }
+    return { value: raw as string };
+  }
+
+  static decodeReceipt(dataUrl: string | null | undefined): { contentType: string; extension: string; data: Buffer } | null {
+    const match = dataUrl ? RECEIPT_PATTERN.exec(dataUrl) : null;
+    if (!match) return null;
+    return { contentType: `image/${match[1]}`, extension: match[1], data: Buffer.from(match[2], 'base64') };
+  }
+
+  // Blank clears the UPI id
+  static parseUpiId(raw: unknown): { value: string | null; error?: string } {
+    const value = typeof raw === 'string' ? raw.trim() : '';
+    if (!value) return { value: null };
+    if (!UPI_ID_PATTERN.test(value)) return { value: null, error: 'Enter a UPI ID like name@bank' };
+    return { value };
+  }
+
+  // RFC 4180 CSV: quoted fields may hold commas, newlines and doubled quotes
+  static parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  // Credits from a bank statement CSV. Statements often open with account details, so the header is
+  // the first row naming both a date and an amount column.
+  static parseStatement(text: string): { rows: StatementRow[]; error?: string } {
+    const lines = this.parseCsv(text.replace(/^\uFEFF/, ''));
+    const headerIndex = lines.findIndex(
+      (cells) => cells.some((c) => DATE_HEADER.test(c)) && cells.some((c) => CREDIT_HEADER.test(c) || AMOUNT_HEADER.test(c)),
+    );
+    if (headerIndex === -1) {
+      return { rows: [], error: 'Could not find the date and amount columns in this statement' };
+    }
+
+    const headers = lines[headerIndex].map((h) => h.trim());
+    const find = (pattern: RegExp, skip: number[] = []) =>
+      headers.findIndex((h, index) => pattern.test(h) && !skip.includes(index));
+    const dateCol = find(DATE_HEADER);
+    const descriptionCol = find(DESCRIPTION_HEADER);
+    const referenceCol = find(REFERENCE_HEADER, [dateCol, descriptionCol]);
+    const creditCol = find(CREDIT_HEADER);
+    const amountCol = creditCol !== -1 ? creditCol : find(AMOUNT_HEADER);
+    const directionCol = creditCol !== -1 ? -1 : find(DIRECTION_HEADER);
+
+    const rows: StatementRow[] = [];
+    for (let i = headerIndex + 1; i < lines.length; i++) {
+      const cells = lines[i];
+      const cell = (index: number) => (index === -1 ? '' : (cells[index] || '').trim());
+
+      if (directionCol !== -1 && !/^c/i.test(cell(directionCol))) continue;
+      const amount = Number(cell(amountCol).replace(/[₹,\s]|INR/gi, ''));
+      if (!Number.isFinite(amount) || amount <= 0) continue;
+
+      rows.push({
+        line: i + 1,
+        date: cell(dateCol),
+        description: cell(descriptionCol),
+        reference: cell(referenceCol),
+        amount: Math.round(amount * 100) / 100,
+      });
+    }
+    return { rows };
+  }
+
+  // Finds each credit's registration by the transaction id the registrant gave, either in the
+  // statement's reference column or anywhere in its narration (UPI narrations carry the id).
+  // Registrations still owing a fee that no credit matched are returned as unpaid.
+  static matchStatement<T extends PaymentRecord>(
+    rows: StatementRow[],
+    records: T[],
+  ): { matches: StatementMatch[]; unpaid: T[] } {
+    const byReference = new Map<string, T>();
+    for (const record of records) {
+      if (record.paymentReference && ACTIVE_STATUSES.includes(record.paymentStatus)) {
+        byReference.set(this.normalizeReference(record.paymentReference), record);
+      }
+    }
+
+    const seen = new Set<string>();
+    const matches = rows.map((row): StatementMatch => {
+      const tokens = [row.reference, ...row.description.split(/[^A-Za-z0-9]+/)].map((t) => this.normalizeReference(t));
+      const token = tokens.find((t) => t && byReference.has(t));
+      const record = token ? byReference.get(token) : undefined;
+      if (!record) return { row, registrationId: null, status: 'unmatched' };
+
+      const status: MatchStatus = seen.has(record.id)
+        ? 'duplicate'
+        : record.paymentVerifiedAt
+          ? 'already_verified'
+          : Math.round(row.amount * 100) !== record.feeAmount * 100
+            ? 'amount_mismatch'
+            : 'matched';
+      seen.add(record.id);
+      return { row, registrationId: record.id, status };
+    });
+
+    const unpaid = records.filter(
+      (record) =>
+        ACTIVE_STATUSES.includes(record.paymentStatus) &&
+        record.feeAmount > 0 &&
+        !record.paymentVerifiedAt &&
+        !seen.has(record.id),
+    );
+    return { matches, unpaid };
+  }
+
+  static summarize(records: Array<PaymentRecord & { selectedEvents: string[] }>, events: Array<Pick<Event, 'id' | 'name'>>): CollectionsSummary {
+    const round = (amount: number) => Math.round(amount * 100) / 100;
+    const active = records.filter((record) => ACTIVE_STATUSES.includes(record.paymentStatus));
+    const sum = (list: typeof records, value: (record: (typeof records)[number]) => number) =>
+      list.reduce((total, record) => total + value(record), 0);
+
+    const byStatus = (Object.keys(STATUS_LABELS) as RegistrationStatus[]).map((status) => {
+      const list = records.filter((record) => record.paymentStatus === status);
+      return {
+        label: STATUS_LABELS[status],
+        count: list.length,
+        expected: sum(list, (r) => r.feeAmount),
+        received: sum(list, (r) => r.amountReceived || 0),
+      };
+    });
+
+    // A payment counts towards each event in the same shares as the fee it paid
+    const byEvent = events.map((event) => {
+      const list = active.filter((record) => record.selectedEvents.includes(event.id));
+      const share = (record: (typeof records)[number]) => record.feeBreakdown?.[event.id] || 0;
+      return {
+        label: event.name,
+        count: list.length,
+        expected: sum(list, share),
+        received: round(sum(list, (r) => (r.amountReceived && r.feeAmount > 0 ? (r.amountReceived * share(r)) / r.feeAmount : 0))),
+      };
+    });
+
+    const expected = sum(active, (r) => r.feeAmount);
+    return {
+      expected,
+      received: sum(records, (r) => r.amountReceived || 0),
+      outstanding: sum(active.filter((r) => !r.paymentVerifiedAt), (r) => r.feeAmount),
+      byStatus,
+      byEvent,
+    };
+  }
+}
@@ -0,0 +1,175 @@
+import { CONNECTION_LOST_VIOLATION } from './heartbeatService';
+
+export interface ProctoringRules {
+  noRefresh: boolean;
+  noTabSwitch: boolean;
+  forceFullscreen: boolean;
+  disableShortcuts: boolean;
+  autoSubmitOnViolation: boolean;
+  maxTabSwitchWarnings: number;
+}
+
+// One layer of rules: a round's or event's rules row, or a proctoring profile. Null or missing
+// settings are left to the next layer.
+export type ProctoringRuleLayer = { [K in keyof ProctoringRules]?: ProctoringRules[K] | null } & {
+  additionalRules?: string | null;
+};
+
+export interface ProctoringLayers {
+  round?: ProctoringRuleLayer | null;
+  roundProfile?: ProctoringRuleLayer | null;
+  event?: ProctoringRuleLayer | null;
+  eventProfile?: ProctoringRuleLayer | null;
+}
+
+export type ProctoringRuleSource = keyof ProctoringLayers | 'default';
+
+export interface ResolvedProctoringRules {
+  rules: ProctoringRules;
+  additionalRules: string | null;
+  sources: Record<keyof ProctoringRules, ProctoringRuleSource> & { additionalRules: ProctoringRuleSource | null };
+}
+
+export const PROCTORING_RULE_KEYS: Array<keyof ProctoringRules> = [
+  'noRefresh',
+  'noTabSwitch',
+  'forceFullscreen',
+  'disableShortcuts',
+  'autoSubmitOnViolation',
+  'maxTabSwitchWarnings',
+];
+
+// Most specific first: a round's own overrides beat the round's profile, which beats the event
+const LAYER_ORDER: Array<keyof ProctoringLayers> = ['round', 'roundProfile', 'event', 'eventProfile'];
+
+export type EnforcementAction = 'none' | 'warning' | 'final_warning' | 'auto_submit' | 'limit_exceeded';
+
+export interface EnforcementDecision {
+  action: EnforcementAction;
+  counted: boolean;
+  violationCount: number;
+  maxWarnings: number;
+  warningsRemaining: number;
+}
+
+// An event admin's decision on one violation. Dismissed violations stop counting towards the limit;
+// confirmed ones can carry a score penalty.
+export interface ViolationReview {
+  status: 'confirmed' | 'dismissed';
+  note: string;
+  penaltyPoints: number;
+  reviewedBy: string;
+  reviewedAt: string;
+}
+
+export interface ViolationLog {
+  type: string;
+  timestamp: string;
+  review?: ViolationReview;
+  [key: string]: unknown;
+}
+
+export const DEFAULT_PROCTORING_RULES: ProctoringRules = {
+  noRefresh: true,
+  noTabSwitch: true,
+  forceFullscreen: true,
+  disableShortcuts: true,
+  autoSubmitOnViolation: true,
+  maxTabSwitchWarnings: 2,
+};
+
+// The rule a violation type breaks. A violation only counts towards the limit while its rule is on;
+// types not listed here always count.
+const VIOLATION_RULES: Record<string, keyof ProctoringRules> = {
+  tab_switch: 'noTabSwitch',
+  alt_tab: 'noTabSwitch',
+  refresh: 'noRefresh',
+  refresh_attempt: 'noRefresh',
+  back_button: 'noRefresh',
+  fullscreen_exit: 'forceFullscreen',
+  f11_fullscreen: 'forceFullscreen',
+  ctrl_t: 'disableShortcuts',
+  restricted_shortcut: 'disableShortcuts',
+};
+
+export class ProctoringService {
+  // Each setting comes from the most specific layer that sets it, falling back to the defaults
+  static resolveRules(layers: ProctoringLayers): ResolvedProctoringRules {
+    const rules = { ...DEFAULT_PROCTORING_RULES };
+    const sources = {} as ResolvedProctoringRules['sources'];
+
+    for (const key of PROCTORING_RULE_KEYS) {
+      const layer = LAYER_ORDER.find((name) => layers[name]?.[key] !== undefined && layers[name]?.[key] !== null);
+      if (layer) (rules as Record<string, unknown>)[key] = layers[layer]![key];
+      sources[key] = layer || 'default';
+    }
+
+    const textLayer = LAYER_ORDER.find((name) => !!layers[name]?.additionalRules);
+    sources.additionalRules = textLayer || null;
+
+    return { rules, additionalRules: textLayer ? layers[textLayer]!.additionalRules! : null, sources };
+  }
+
+  // Round rules override the event's rules, which override the defaults; profiles slot in behind
+  // the rules that reference them
+  static getEffectiveRules(
+    roundRules?: ProctoringRuleLayer | null,
+    eventRules?: ProctoringRuleLayer | null,
+    profiles: { round?: ProctoringRuleLayer | null; event?: ProctoringRuleLayer | null } = {},
+  ): ProctoringRules {
+    return this.resolveRules({
+      round: roundRules,
+      roundProfile: profiles.round,
+      event: eventRules,
+      eventProfile: profiles.event,
+    }).rules;
+  }
+
+  static isCounted(type: string, rules: ProctoringRules): boolean {
+    // A dropped connection is usually the network, not the participant
+    if (type === CONNECTION_LOST_VIOLATION) return false;
+    const rule = VIOLATION_RULES[type];
+    return rule ? rules[rule] === true : true;
+  }
+
+  static countViolations(violationLogs: ViolationLog[] | null | undefined, rules: ProctoringRules): number {
+    return (violationLogs || []).filter((log) => log.review?.status !== 'dismissed' && this.isCounted(log.type, rules)).length;
+  }
+
+  // Total score deduction from confirmed violations
+  static getPenaltyPoints(violationLogs: ViolationLog[] | null | undefined): number {
+    return (violationLogs || []).reduce(
+      (sum, log) => sum + (log.review?.status === 'confirmed' ? log.review.penaltyPoints || 0 : 0),
+      0,
+    );
+  }
+
+  // Records a review on the violation at `index`; null when there is no such violation
+  static applyReview(violationLogs: ViolationLog[] | null | undefined, index: number, review: ViolationReview): ViolationLog[] | null {
+    const logs = violationLogs || [];
+    if (!Number.isInteger(index) || index < 0 || index >= logs.length) return null;
+    return logs.map((log, i) => (i === index ? { ...log, review } : log));
+  }
+
+  // Participants get `maxTabSwitchWarnings` warnings; the violation after the last warning
+  // auto-submits the attempt when the rules ask for it.
+  static evaluate(violationLogs: ViolationLog[], latestType: string, rules: ProctoringRules): EnforcementDecision {
+    const maxWarnings = Math.max(0, rules.maxTabSwitchWarnings);
+    const violationCount = this.countViolations(violationLogs, rules);
+    const counted = this.isCounted(latestType, rules);
+    const warningsRemaining = Math.max(0, maxWarnings - violationCount);
+
+    let action: EnforcementAction = 'none';
+    if (counted) {
+      if (violationCount > maxWarnings) {
+        action = rules.autoSubmitOnViolation ? 'auto_submit' : 'limit_exceeded';
+      } else if (violationCount === maxWarnings) {
+        action = 'final_warning';
+      } else {
+        action = 'warning';
+      }
+    }
+
+    return { action, counted, violationCount, maxWarnings, warningsRemaining };
+  }
+}
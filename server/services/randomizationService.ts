@@ -0,0 +1,113 @@
+import type { Question, RoundRules } from '@shared/schema';
+
+export type RandomizationRules = Pick<RoundRules, 'shuffleQuestions' | 'shuffleOptions'>;
+export type PoolRules = Pick<RoundRules, 'questionPoolSize' | 'poolStratifyBy'>;
+
+export const POOL_STRATIFY_OPTIONS = ['none', 'tag', 'difficulty'] as const;
+
+// True/false keeps its natural order; only lettered option lists are shuffled
+const SHUFFLED_OPTION_TYPES = ['multiple_choice', 'mcq', 'multiple_select'];
+
+export class RandomizationService {
+  // FNV-1a hash so any string (an attempt id) can seed the generator
+  static hashSeed(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+      hash ^= value.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  // mulberry32: small, fast and good enough for ordering questions
+  static createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  static shuffle<T>(items: T[], seed: string): T[] {
+    const random = this.createRandom(this.hashSeed(seed));
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  // Draws the questions one attempt will see. With stratification each tag/difficulty group
+  // keeps its share of the pool (largest remainder rounding). The draw keeps the pool's order.
+  static drawQuestions<Q extends Pick<Question, 'id' | 'tag' | 'difficulty'>>(
+    questions: Q[],
+    seed: string,
+    rules?: PoolRules | null,
+  ): Q[] {
+    const size = rules?.questionPoolSize;
+    if (!size || size <= 0 || size >= questions.length) {
+      return [...questions];
+    }
+
+    const stratifyBy = rules?.poolStratifyBy;
+    if (stratifyBy !== 'tag' && stratifyBy !== 'difficulty') {
+      const drawn = new Set(this.shuffle(questions, seed).slice(0, size).map((q) => q.id));
+      return questions.filter((q) => drawn.has(q.id));
+    }
+
+    const groups = new Map<string, Q[]>();
+    for (const question of questions) {
+      const key = (question[stratifyBy] || '').trim().toLowerCase() || 'unspecified';
+      groups.set(key, [...(groups.get(key) || []), question]);
+    }
+
+    const quotas = Array.from(groups.entries()).map(([key, members]) => {
+      const exact = (size * members.length) / questions.length;
+      return { key, members, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+    });
+    let remaining = size - quotas.reduce((sum, q) => sum + q.count, 0);
+    for (const quota of [...quotas].sort((a, b) => b.remainder - a.remainder || a.key.localeCompare(b.key))) {
+      if (remaining <= 0) break;
+      quota.count++;
+      remaining--;
+    }
+
+    const drawn = new Set<string>();
+    for (const quota of quotas) {
+      this.shuffle(quota.members, `${seed}:${quota.key}`)
+        .slice(0, quota.count)
+        .forEach((q) => drawn.add(q.id));
+    }
+    return questions.filter((q) => drawn.has(q.id));
+  }
+
+  // Orders a round's questions (and their options) for one attempt. The same attempt always
+  // gets the same order, so a reload does not reshuffle. Options are shuffled by value and
+  // answers store the option text, so grading still compares against the canonical key.
+  static orderForAttempt<Q extends Pick<Question, 'id' | 'questionType' | 'options'>>(
+    questions: Q[],
+    attemptId: string,
+    rules?: RandomizationRules | null,
+  ): Q[] {
+    let ordered = [...questions];
+
+    if (rules?.shuffleQuestions) {
+      ordered = this.shuffle(ordered, `${attemptId}:questions`);
+    }
+
+    if (rules?.shuffleOptions) {
+      ordered = ordered.map((question) => {
+        if (!SHUFFLED_OPTION_TYPES.includes(question.questionType) || !Array.isArray(question.options)) {
+          return question;
+        }
+        return { ...question, options: this.shuffle(question.options, `${attemptId}:${question.id}`) };
+      });
+    }
+
+    return ordered;
+  }
+}
@@ -0,0 +1,293 @@
+import {
+  registrationFormFieldSchema,
+  REGISTRATION_CHOICE_FIELD_TYPES,
+  type RegistrationFormField,
+  type RegistrationFieldValue,
+  type RegistrationFieldRole,
+  type RegistrationFieldType,
+} from '@shared/schema';
+
+// Kept in step with client/src/lib/registrationFields.ts, which checks the same rules as the participant types
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Indian mobile numbers, ignoring spaces, dashes and brackets
+const PHONE_PATTERN = /^[6-9]\d{9}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+// Letters in any script, with spaces, dots, apostrophes and hyphens between them
+const NAME_PATTERN = new RegExp('^\\p{L}[\\p{L}\\s.\'-]*$', 'u');
+export const CONSENT_VALUE = 'yes';
+
+// Field types each role can be put on
+export const ROLE_FIELD_TYPES: Record<RegistrationFieldRole, RegistrationFieldType[]> = {
+  full_name: ['text'],
+  email: ['email'],
+  phone: ['tel'],
+  college: ['text', 'select', 'radio'],
+  roll_number: ['text'],
+};
+
+// Approval cannot create an account without these, so every form must ask for them
+export const REQUIRED_FIELD_ROLES: RegistrationFieldRole[] = ['full_name', 'email'];
+
+const ROLE_LABELS: Record<RegistrationFieldRole, string> = {
+  full_name: 'full name',
+  email: 'email',
+  phone: 'phone',
+  college: 'college',
+  roll_number: 'roll number',
+};
+
+export interface ParticipantDetails {
+  fullName: string | null;
+  email: string | null;
+  phone: string | null;
+  college: string | null;
+  rollNumber: string | null;
+}
+
+export interface SubmissionCheck {
+  // Answers to the fields the participant could see, trimmed; hidden and empty fields are left out
+  data: Record<string, RegistrationFieldValue>;
+  // Field id → message
+  errors: Record<string, string>;
+}
+
+export class RegistrationFormService {
+  static isChoiceField(field: Pick<RegistrationFormField, 'type'>): boolean {
+    return (REGISTRATION_CHOICE_FIELD_TYPES as readonly string[]).includes(field.type);
+  }
+
+  // Field definitions from the form builder. Options only stay on choice fields, and a show-if rule
+  // may only look at an earlier field so a form can be filled top to bottom.
+  static parseFields(value: unknown): { fields: RegistrationFormField[]; error?: string } {
+    if (!Array.isArray(value) || value.length === 0) {
+      return { fields: [], error: 'Add at least one field' };
+    }
+
+    const fields: RegistrationFormField[] = [];
+    for (let index = 0; index < value.length; index++) {
+      const raw = value[index];
+      const parsed = registrationFormFieldSchema.safeParse(raw);
+      if (!parsed.success) {
+        const label = typeof raw?.label === 'string' && raw.label.trim() ? `"${raw.label.trim()}"` : `#${index + 1}`;
+        return { fields: [], error: `Field ${label} is invalid: ${parsed.error.issues[0].path.join('.')} ${parsed.error.issues[0].message}` };
+      }
+
+      const field = { ...parsed.data };
+      const name = `"${field.label}"`;
+      if (fields.some((f) => f.id === field.id)) {
+        return { fields: [], error: `Field ids must be unique (${field.id})` };
+      }
+
+      if (this.isChoiceField(field)) {
+        const options = field.options || [];
+        if (options.length === 0) return { fields: [], error: `Field ${name} needs at least one option` };
+        if (new Set(options).size !== options.length) return { fields: [], error: `Field ${name} has duplicate options` };
+      } else {
+        delete field.options;
+      }
+
+      const rules = field.validation;
+      if (rules?.pattern) {
+        try {
+          new RegExp(rules.pattern);
+        } catch {
+          return { fields: [], error: `Field ${name} has an invalid pattern` };
+        }
+      }
+      if (rules?.min !== undefined && rules?.max !== undefined && rules.min > rules.max) {
+        return { fields: [], error: `Field ${name} has a minimum above its maximum` };
+      }
+      if (rules?.minDate && rules?.maxDate && rules.minDate > rules.maxDate) {
+        return { fields: [], error: `Field ${name} has an earliest date after its latest date` };
+      }
+
+      if (field.role) {
+        const allowed = ROLE_FIELD_TYPES[field.role];
+        if (!allowed.includes(field.type)) {
+          return { fields: [], error: `Field ${name} cannot hold the ${ROLE_LABELS[field.role]}; use a ${allowed.join(' or ')} field` };
+        }
+        const taken = fields.find((f) => f.role === field.role);
+        if (taken) return { fields: [], error: `Only one field can hold the ${ROLE_LABELS[field.role]} ("${taken.label}" already does)` };
+      }
+
+      if (field.showIf) {
+        const source = fields.find((f) => f.id === field.showIf!.fieldId);
+        if (!source) return { fields: [], error: `Field ${name} can only depend on a field above it` };
+        if (field.showIf.operator !== 'is_filled') {
+          if (!field.showIf.value) return { fields: [], error: `Field ${name} needs a value for its condition` };
+          if (source.options && !source.options.includes(field.showIf.value)) {
+            return { fields: [], error: `Field ${name} depends on an option "${source.label}" does not have` };
+          }
+        }
+      }
+
+      fields.push(field);
+    }
+
+    for (const role of REQUIRED_FIELD_ROLES) {
+      const field = fields.find((f) => f.role === role);
+      if (!field) return { fields: [], error: `Mark one field as the participant's ${ROLE_LABELS[role]}` };
+      if (!field.required || field.showIf) {
+        return { fields: [], error: `The ${ROLE_LABELS[role]} field "${field.label}" must be required and always shown` };
+      }
+    }
+
+    return { fields };
+  }
+
+  static isFilled(value: RegistrationFieldValue | undefined): boolean {
+    return Array.isArray(value) ? value.length > 0 : !!value;
+  }
+
+  // `data` holds the answers so far; a field whose source is hidden has no answer there, so hiding chains down
+  static isVisible(field: RegistrationFormField, data: Record<string, RegistrationFieldValue>): boolean {
+    if (!field.showIf) return true;
+    const answer = data[field.showIf.fieldId];
+    const picked = Array.isArray(answer) ? answer : answer ? [answer] : [];
+    switch (field.showIf.operator) {
+      case 'is_filled':
+        return picked.length > 0;
+      case 'equals':
+        return picked.includes(field.showIf.value || '');
+      case 'not_equals':
+        return !picked.includes(field.showIf.value || '');
+      default:
+        return true;
+    }
+  }
+
+  // What is wrong with one answer, or null. Empty answers only fail required fields.
+  static checkValue(field: RegistrationFormField, value: RegistrationFieldValue | undefined): string | null {
+    if (!this.isFilled(value)) {
+      if (!field.required) return null;
+      return field.type === 'consent' ? `Please accept ${field.label}` : `${field.label} is required`;
+    }
+
+    const rules: NonNullable<RegistrationFormField['validation']> = field.validation || {};
+    const { min, max } = rules;
+
+    if (field.type === 'checkbox_group') {
+      if (!Array.isArray(value)) return `${field.label} is invalid`;
+      if (value.some((v) => !field.options?.includes(v))) return `${field.label} has an unknown option`;
+      if (min !== undefined && value.length < min) return `Pick at least ${min} for ${field.label}`;
+      if (max !== undefined && value.length > max) return `Pick at most ${max} for ${field.label}`;
+      return null;
+    }
+    if (typeof value !== 'string') return `${field.label} is invalid`;
+
+    switch (field.type) {
+      case 'select':
+      case 'radio':
+        return field.options?.includes(value) ? null : `${field.label} has an unknown option`;
+      case 'consent':
+        return value === CONSENT_VALUE ? null : `${field.label} is invalid`;
+      case 'number': {
+        const number = Number(value);
+        if (!Number.isFinite(number)) return `${field.label} must be a number`;
+        if (min !== undefined && number < min) return `${field.label} must be at least ${min}`;
+        if (max !== undefined && number > max) return `${field.label} must be at most ${max}`;
+        break;
+      }
+      case 'date': {
+        if (!DATE_PATTERN.test(value) || Number.isNaN(new Date(value).getTime())) return `${field.label} must be a date`;
+        if (rules.minDate && value < rules.minDate) return `${field.label} must be on or after ${rules.minDate}`;
+        if (rules.maxDate && value > rules.maxDate) return `${field.label} must be on or before ${rules.maxDate}`;
+        break;
+      }
+      default: {
+        if (field.type === 'email' && !EMAIL_PATTERN.test(value)) return `Please enter a valid email address for ${field.label}`;
+        if (field.type === 'tel' && !PHONE_PATTERN.test(value.replace(/[\s\-()]/g, ''))) {
+          return `Please enter a valid 10-digit mobile number for ${field.label}`;
+        }
+        if (min !== undefined && value.length < min) return `${field.label} must be at least ${min} characters`;
+        if (max !== undefined && value.length > max) return `${field.label} must be at most ${max} characters`;
+      }
+    }
+
+    if (rules.pattern && !new RegExp(rules.pattern).test(value)) {
+      return rules.patternMessage || `${field.label} is not in the expected format`;
+    }
+    return null;
+  }
+
+  // Checks that only apply to fields holding a role, on top of the field's own rules
+  static checkRole(field: RegistrationFormField, value: string): string | null {
+    switch (field.role) {
+      case 'full_name':
+        return NAME_PATTERN.test(value) ? null : `${field.label} can only contain letters, spaces, dots, apostrophes and hyphens`;
+      case 'roll_number':
+        return /^[A-Za-z0-9/-]+$/.test(value) ? null : `${field.label} can only contain letters, numbers, / and -`;
+      default:
+        return null;
+    }
+  }
+
+  // Emails are compared case-insensitively when approving, so they are stored lowercased
+  static normalizeValue(field: RegistrationFormField, value: RegistrationFieldValue): RegistrationFieldValue {
+    if (typeof value !== 'string') return value;
+    if (field.role === 'email') return value.toLowerCase();
+    if (field.role === 'full_name') return value.replace(/\s+/g, ' ');
+    return value;
+  }
+
+  // The participant's details from a registration. Forms saved before roles existed fall back to the
+  // first email and phone fields and a field labelled as a name.
+  static getParticipantDetails(fields: RegistrationFormField[], data: Record<string, RegistrationFieldValue>): ParticipantDetails {
+    const text = (field: RegistrationFormField | undefined) => {
+      const value = field ? data[field.id] : undefined;
+      return typeof value === 'string' && value.trim() ? value.trim() : null;
+    };
+    const byRole = (role: RegistrationFieldRole) => text(fields.find((f) => f.role === role));
+
+    if (fields.some((f) => f.role)) {
+      return {
+        fullName: byRole('full_name'),
+        email: byRole('email'),
+        phone: byRole('phone'),
+        college: byRole('college'),
+        rollNumber: byRole('roll_number'),
+      };
+    }
+
+    const nameField =
+      fields.find((f) => /full\s*name/i.test(f.label)) ||
+      fields.find((f) => f.type === 'text' && /name/i.test(f.label) && !/college|school|institution/i.test(f.label));
+    return {
+      fullName: text(nameField),
+      email: text(fields.find((f) => f.type === 'email'))?.toLowerCase() || null,
+      phone: text(fields.find((f) => f.type === 'tel')),
+      college: null,
+      rollNumber: null,
+    };
+  }
+
+  // Checks a public form submission field by field in form order. Answers to fields hidden by their
+  // show-if rule are dropped, whatever the browser sent.
+  static validateSubmission(fields: RegistrationFormField[], submitted: Record<string, unknown>): SubmissionCheck {
+    const data: Record<string, RegistrationFieldValue> = {};
+    const errors: Record<string, string> = {};
+
+    for (const field of fields) {
+      if (!this.isVisible(field, data)) continue;
+
+      const raw = submitted[field.id];
+      let value: RegistrationFieldValue | undefined;
+      if (Array.isArray(raw)) {
+        value = Array.from(new Set(raw.filter((v) => typeof v === 'string').map((v) => v.trim()).filter(Boolean)));
+      } else if (typeof raw === 'string' || typeof raw === 'number') {
+        value = String(raw).trim();
+      }
+      if (field.type === 'checkbox_group' && typeof value === 'string') value = value ? [value] : [];
+
+      if (value !== undefined) value = this.normalizeValue(field, value);
+      const error = this.checkValue(field, value) || (typeof value === 'string' && value ? this.checkRole(field, value) : null);
+      if (error) {
+        errors[field.id] = error;
+      } else if (value !== undefined && this.isFilled(value)) {
+        data[field.id] = value;
+      }
+    }
+
+    return { data, errors };
+  }
+}
@@ -0,0 +1,145 @@
+import type { Question, RoundRules } from '@shared/schema';
+import { CodeExecutionService, type CodeTestCase, type TestCaseResult } from './codeExecutionService';
+
+export type ScoringRules = Pick<RoundRules, 'negativeMarking' | 'negativeMarks' | 'multiSelectScoring'>;
+
+export interface GradeResult {
+  isCorrect: boolean;
+  pointsAwarded: number;
+  testResults: TestCaseResult[] | null;
+  // False when the answer needs a human grader (short answer, coding without test cases)
+  autoGraded: boolean;
+}
+
+// The question builder saves single-choice questions as `mcq`, older data and bulk uploads use `multiple_choice`
+const SINGLE_CHOICE_TYPES = ['multiple_choice', 'mcq', 'true_false'];
+
+export class ScoringService {
+  static isSingleChoice(questionType: string): boolean {
+    return SINGLE_CHOICE_TYPES.includes(questionType);
+  }
+
+  static isMultiSelect(questionType: string): boolean {
+    return questionType === 'multiple_select';
+  }
+
+  // Multi-select answers are stored as JSON arrays of option text
+  static parseSelections(value: string | null | undefined): string[] {
+    if (!value) return [];
+    try {
+      const parsed = JSON.parse(value);
+      if (Array.isArray(parsed)) {
+        return parsed.map((v) => String(v).trim()).filter(Boolean);
+      }
+    } catch {
+      // Plain text keys fall through to a single selection
+    }
+    return value.trim() ? [value.trim()] : [];
+  }
+
+  static correctSelections(question: Pick<Question, 'correctAnswers' | 'correctAnswer'>): string[] {
+    if (Array.isArray(question.correctAnswers) && question.correctAnswers.length > 0) {
+      return question.correctAnswers.map((v) => String(v).trim()).filter(Boolean);
+    }
+    return this.parseSelections(question.correctAnswer);
+  }
+
+  // A question's own negativeMarks wins over the round setting; 0 switches it off for that question
+  static resolveNegativeMarks(question: Pick<Question, 'negativeMarks'>, rules?: ScoringRules | null): number {
+    if (question.negativeMarks !== null && question.negativeMarks !== undefined) {
+      return Math.max(0, question.negativeMarks);
+    }
+    return rules?.negativeMarking ? Math.max(0, rules.negativeMarks) : 0;
+  }
+
+  static resolvePartialCredit(question: Pick<Question, 'partialCredit'>, rules?: ScoringRules | null): boolean {
+    if (question.partialCredit !== null && question.partialCredit !== undefined) {
+      return question.partialCredit;
+    }
+    return rules?.multiSelectScoring === 'proportional';
+  }
+
+  // Points for a wrong answer: zero or a negative deduction
+  private static penalty(question: Pick<Question, 'negativeMarks'>, rules?: ScoringRules | null): number {
+    const marks = this.resolveNegativeMarks(question, rules);
+    return marks > 0 ? -marks : 0;
+  }
+
+  static isSkipped(question: Pick<Question, 'questionType'>, answer: string | null | undefined): boolean {
+    if (this.isMultiSelect(question.questionType)) {
+      return this.parseSelections(answer).length === 0;
+    }
+    return !answer || !answer.trim();
+  }
+
+  static async gradeAnswer(
+    question: Question,
+    answer: { answer: string; language?: string | null },
+    rules?: ScoringRules | null,
+  ): Promise<GradeResult> {
+    const objective = this.isSingleChoice(question.questionType) || this.isMultiSelect(question.questionType);
+
+    // Skipped questions score zero, never negative
+    if (this.isSkipped(question, answer.answer)) {
+      return { isCorrect: false, pointsAwarded: 0, testResults: null, autoGraded: objective || question.questionType === 'coding' };
+    }
+
+    if (this.isSingleChoice(question.questionType)) {
+      const isCorrect = answer.answer.trim().toLowerCase() === (question.correctAnswer || '').trim().toLowerCase();
+      return {
+        isCorrect,
+        pointsAwarded: isCorrect ? question.points : this.penalty(question, rules),
+        testResults: null,
+        autoGraded: true,
+      };
+    }
+
+    if (this.isMultiSelect(question.questionType)) {
+      const correct = new Set(this.correctSelections(question).map((s) => s.toLowerCase()));
+      const selected = new Set(this.parseSelections(answer.answer).map((s) => s.toLowerCase()));
+      const rightPicks = Array.from(selected).filter((s) => correct.has(s)).length;
+      const wrongPicks = selected.size - rightPicks;
+      const isCorrect = correct.size > 0 && rightPicks === correct.size && wrongPicks === 0;
+
+      let pointsAwarded = 0;
+      if (isCorrect) {
+        pointsAwarded = question.points;
+      } else if (this.resolvePartialCredit(question, rules) && correct.size > 0) {
+        // Each wrong pick cancels a right one so selecting every option earns nothing
+        pointsAwarded = Math.floor((question.points * Math.max(0, rightPicks - wrongPicks)) / correct.size);
+      }
+      if (pointsAwarded === 0) {
+        pointsAwarded = this.penalty(question, rules);
+      }
+
+      return { isCorrect, pointsAwarded, testResults: null, autoGraded: true };
+    }
+
+    if (question.questionType === 'coding' && Array.isArray(question.testCases) && question.testCases.length > 0) {
+      const testResults = await CodeExecutionService.runTestCases(
+        CodeExecutionService.isSupportedLanguage(answer.language) ? answer.language : 'python',
+        answer.answer,
+        question.testCases as CodeTestCase[],
+        { timeLimitMs: question.timeLimitMs || undefined, memoryLimitMb: question.memoryLimitMb || undefined },
+      );
+      return {
+        isCorrect: testResults.every((result) => result.passed),
+        pointsAwarded: CodeExecutionService.scoreTestResults(testResults, question.points),
+        testResults,
+        autoGraded: true,
+      };
+    }
+
+    return { isCorrect: false, pointsAwarded: 0, testResults: null, autoGraded: false };
+  }
+
+  // One-line description of a round's scoring for reports and exports
+  static describeRules(rules?: ScoringRules | null): string {
+    if (!rules) return 'Standard';
+    const parts = [
+      rules.negativeMarking ? `-${rules.negativeMarks} per wrong objective answer` : 'No negative marking',
+      rules.multiSelectScoring === 'proportional' ? 'Multi-select: partial credit' : 'Multi-select: all or nothing',
+    ];
+    return parts.join('; ');
+  }
+}
@@ -0,0 +1,110 @@
+import type { Answer, Question, Round, RoundSection, TestAttempt } from '@shared/schema';
+
+type SectionAttempt = Pick<TestAttempt, 'startedAt' | 'extraMinutes' | 'currentSection' | 'sectionStartedAt'>;
+type SectionRound = Pick<Round, 'duration' | 'sections'>;
+
+export interface SectionState {
+  index: number;
+  sectionId: string;
+  startedAt: Date;
+  deadline: Date;
+  // Latest the attempt can end if every remaining section runs its full time
+  finalDeadline: Date;
+  isLast: boolean;
+}
+
+export interface SectionScore {
+  sectionId: string;
+  name: string;
+  score: number;
+  maxScore: number;
+  answered: number;
+  questionCount: number;
+}
+
+export class SectionService {
+  static getSections(round: Pick<Round, 'sections'>): RoundSection[] {
+    return Array.isArray(round.sections) ? round.sections : [];
+  }
+
+  static isSectioned(round: Pick<Round, 'sections'>): boolean {
+    return this.getSections(round).length > 0;
+  }
+
+  // A sectioned round lasts as long as its sections put together
+  static getTotalMinutes(sections: RoundSection[]): number {
+    return sections.reduce((sum, section) => sum + section.durationMinutes, 0);
+  }
+
+  // Extra time is shared across sections in proportion to their length
+  static getSectionLimitMs(section: RoundSection, round: SectionRound, extraMinutes: number): number {
+    const total = this.getTotalMinutes(this.getSections(round)) || round.duration;
+    const scale = total > 0 ? 1 + (extraMinutes || 0) / total : 1;
+    return Math.round(section.durationMinutes * scale * 60 * 1000);
+  }
+
+  // Questions without a known section belong to the first one
+  static getQuestionSectionIndex(question: Pick<Question, 'sectionId'>, sections: RoundSection[]): number {
+    const index = sections.findIndex((section) => section.id === question.sectionId);
+    return index === -1 ? 0 : index;
+  }
+
+  // Works out which section is open at `now`. A section whose time (plus grace) has run out closes
+  // on its own and the next one starts at its deadline, so a participant who went offline does not
+  // get the missed time back. Returns null for rounds without sections.
+  static getSectionState(attempt: SectionAttempt, round: SectionRound, now: Date = new Date(), graceMs = 0): SectionState | null {
+    const sections = this.getSections(round);
+    if (sections.length === 0) return null;
+
+    let index = Math.min(Math.max(attempt.currentSection || 0, 0), sections.length - 1);
+    let startedAt = new Date(attempt.sectionStartedAt || attempt.startedAt);
+    let deadline = new Date(startedAt.getTime() + this.getSectionLimitMs(sections[index], round, attempt.extraMinutes));
+
+    while (index < sections.length - 1 && now.getTime() > deadline.getTime() + graceMs) {
+      index++;
+      startedAt = deadline;
+      deadline = new Date(startedAt.getTime() + this.getSectionLimitMs(sections[index], round, attempt.extraMinutes));
+    }
+
+    const remainingMs = sections
+      .slice(index + 1)
+      .reduce((sum, section) => sum + this.getSectionLimitMs(section, round, attempt.extraMinutes), 0);
+
+    return {
+      index,
+      sectionId: sections[index].id,
+      startedAt,
+      deadline,
+      finalDeadline: new Date(deadline.getTime() + remainingMs),
+      isLast: index === sections.length - 1,
+    };
+  }
+
+  // Groups questions by section in section order, keeping their order within each section
+  static orderBySection<Q extends Pick<Question, 'sectionId'>>(questions: Q[], sections: RoundSection[]): Q[] {
+    if (sections.length === 0) return questions;
+    return sections.flatMap((_, index) =>
+      questions.filter((question) => this.getQuestionSectionIndex(question, sections) === index)
+    );
+  }
+
+  static scoreBySection(
+    sections: RoundSection[],
+    questions: Pick<Question, 'id' | 'points' | 'sectionId'>[],
+    answers: Pick<Answer, 'questionId' | 'answer' | 'pointsAwarded'>[],
+  ): SectionScore[] {
+    return sections.map((section, index) => {
+      const sectionQuestions = questions.filter((q) => this.getQuestionSectionIndex(q, sections) === index);
+      const ids = new Set(sectionQuestions.map((q) => q.id));
+      const sectionAnswers = answers.filter((a) => ids.has(a.questionId));
+      return {
+        sectionId: section.id,
+        name: section.name,
+        score: sectionAnswers.reduce((sum, a) => sum + (a.pointsAwarded || 0), 0),
+        maxScore: sectionQuestions.reduce((sum, q) => sum + q.points, 0),
+        answered: sectionAnswers.filter((a) => a.answer && a.answer.trim() !== '' && a.answer !== '[]').length,
+        questionCount: sectionQuestions.length,
+      };
+    });
+  }
+}
@@ -0,0 +1,33 @@
+import type { EventCredential } from '@shared/schema';
+
+type SessionCredential = Pick<EventCredential, 'activeSessionId' | 'activeClientId' | 'approvedClientId'>;
+
+// new_session: nobody is signed in. same_device: the signed-in machine logs in again.
+// approved_switch: an admin allowed this machine to take over. replace: another machine is signed in
+// and is signed out. block: another machine is signed in with a test in progress.
+// Machines are told apart by the client id each browser install stores, not by the device
+// fingerprint: a lab of identical PCs all share one fingerprint.
+export type LoginDecision = 'new_session' | 'same_device' | 'approved_switch' | 'replace' | 'block';
+
+export const SESSION_REPLACED_MESSAGE = 'You were signed out because this account signed in on another machine.';
+export const LOGIN_BLOCKED_MESSAGE =
+  'This account is taking a test on another machine. Ask an event admin to approve switching to this machine.';
+
+export class SessionService {
+  static decideLogin(credential: SessionCredential, clientId: string | null, testInProgress: boolean): LoginDecision {
+    if (!credential.activeSessionId) return 'new_session';
+    if (clientId && credential.activeClientId === clientId) return 'same_device';
+    if (clientId && credential.approvedClientId === clientId) return 'approved_switch';
+    return testInProgress ? 'block' : 'replace';
+  }
+
+  static isConflict(decision: LoginDecision): decision is 'replace' | 'block' {
+    return decision === 'replace' || decision === 'block';
+  }
+
+  // Tokens from before session binding carry no session id; they stop working once the credential signs in again
+  static isCurrentSession(credential: Pick<EventCredential, 'activeSessionId'> | undefined, sessionId?: string): boolean {
+    if (!credential?.activeSessionId) return true;
+    return credential.activeSessionId === sessionId;
+  }
+}
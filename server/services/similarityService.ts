@@ -0,0 +1,304 @@
+// Compares free-form answers to the same question for signs of collusion. Code is compared as
+// normalised token 5-grams, so renamed variables, reformatting and comments do not hide a copy;
+// prose is compared as word 3-grams. Similar pairs are grouped into clusters and weighed with
+// how close together the answers were written and how many violations the writers have.
+
+export interface SimilaritySubmission {
+  answerId: string;
+  attemptId: string;
+  userId: string;
+  fullName: string;
+  questionId: string;
+  questionType: string;
+  answer: string;
+  answeredAt: Date | string;
+  submittedAt: Date | string | null;
+  violationCount: number;
+}
+
+export interface SimilarityOptions {
+  codeThreshold: number;
+  textThreshold: number;
+  // Answers shorter than this many tokens (code) or words (text) are too generic to compare
+  minCodeTokens: number;
+  minTextWords: number;
+  // Answers last changed within this many seconds of each other count as written together
+  timingWindowSeconds: number;
+}
+
+export type SimilarityMethod = 'code_tokens' | 'text_ngrams';
+export type SimilarityRisk = 'high' | 'medium' | 'low';
+
+export interface SimilarPair {
+  answerIds: [string, string];
+  userIds: [string, string];
+  similarity: number;
+  answeredApartSeconds: number;
+}
+
+export interface SimilarityCluster {
+  id: string;
+  questionId: string;
+  method: SimilarityMethod;
+  members: Array<Omit<SimilaritySubmission, 'questionId' | 'questionType'>>;
+  pairs: SimilarPair[];
+  maxSimilarity: number;
+  averageSimilarity: number;
+  answeredSpreadSeconds: number;
+  submittedSpreadSeconds: number | null;
+  closeTiming: boolean;
+  totalViolations: number;
+  risk: SimilarityRisk;
+}
+
+export interface SimilarityParticipant {
+  userId: string;
+  fullName: string;
+  clusterCount: number;
+  partnerNames: string[];
+  violationCount: number;
+}
+
+export interface SimilarityAnalysis {
+  options: SimilarityOptions;
+  answersCompared: number;
+  answersSkipped: number;
+  pairsCompared: number;
+  clusters: SimilarityCluster[];
+  participants: SimilarityParticipant[];
+}
+
+export const DEFAULT_SIMILARITY_OPTIONS: SimilarityOptions = {
+  codeThreshold: 0.8,
+  textThreshold: 0.6,
+  minCodeTokens: 15,
+  minTextWords: 8,
+  timingWindowSeconds: 5 * 60,
+};
+
+const CODE_KGRAM = 5;
+const TEXT_NGRAM = 3;
+// Near-identical answers are suspicious however far apart they were written
+const IDENTICAL_SIMILARITY = 0.95;
+
+// Kept verbatim when normalising code; any other identifier becomes a placeholder
+const CODE_KEYWORDS = new Set([
+  'if', 'else', 'elif', 'for', 'while', 'do', 'switch', 'case', 'default', 'break', 'continue', 'return',
+  'def', 'lambda', 'class', 'struct', 'public', 'private', 'protected', 'static', 'void', 'int', 'long',
+  'float', 'double', 'char', 'bool', 'boolean', 'string', 'String', 'const', 'let', 'var', 'function',
+  'new', 'import', 'from', 'include', 'using', 'namespace', 'try', 'catch', 'except', 'finally', 'throw',
+  'raise', 'in', 'not', 'and', 'or', 'is', 'None', 'null', 'true', 'false', 'True', 'False', 'pass',
+  'print', 'input', 'range', 'len', 'printf', 'scanf', 'cout', 'cin', 'endl', 'std', 'System', 'out',
+  'println', 'Scanner', 'console', 'log', 'main', 'vector', 'map', 'set', 'list', 'dict', 'append',
+]);
+
+const CODE_TOKEN = /"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`|[A-Za-z_]\w*|\d+(?:\.\d+)?|==|!=|<=|>=|&&|\|\||\+\+|--|->|<<|>>|\+=|-=|\*=|\/=|[^\s\w]/g;
+
+export class SimilarityService {
+  // Reads thresholds from a query string, keeping the defaults for anything missing or out of range
+  static parseOptions(query: Record<string, unknown>): SimilarityOptions {
+    const ratio = (value: unknown, fallback: number) => {
+      const parsed = parseFloat(String(value ?? ''));
+      return Number.isFinite(parsed) && parsed > 0 && parsed <= 1 ? parsed : fallback;
+    };
+    return {
+      ...DEFAULT_SIMILARITY_OPTIONS,
+      codeThreshold: ratio(query.codeThreshold, DEFAULT_SIMILARITY_OPTIONS.codeThreshold),
+      textThreshold: ratio(query.textThreshold, DEFAULT_SIMILARITY_OPTIONS.textThreshold),
+    };
+  }
+
+  static getMethod(questionType: string): SimilarityMethod {
+    return questionType === 'coding' ? 'code_tokens' : 'text_ngrams';
+  }
+
+  // Comments dropped, literals and identifiers replaced by placeholders, keywords and operators kept
+  static tokenizeCode(source: string): string[] {
+    const stripped = source
+      .replace(/\/\*[\s\S]*?\*\//g, ' ')
+      .replace(/\/\/[^\n]*/g, ' ')
+      .replace(/#[^\n]*/g, ' ')
+      .replace(/("""|''')[\s\S]*?\1/g, ' ');
+
+    return (stripped.match(CODE_TOKEN) || []).map((token) => {
+      if (/^["'`]/.test(token)) return 'S';
+      if (/^\d/.test(token)) return 'N';
+      if (/^[A-Za-z_]/.test(token)) return CODE_KEYWORDS.has(token) ? token : 'V';
+      return token;
+    });
+  }
+
+  static tokenizeText(text: string): string[] {
+    return text.toLowerCase().replace(/[^a-z0-9\u00c0-\uffff\s]/g, ' ').split(/\s+/).filter(Boolean);
+  }
+
+  static shingles(tokens: string[], size: number): Set<string> {
+    if (tokens.length <= size) return new Set([tokens.join(' ')]);
+    const result = new Set<string>();
+    for (let i = 0; i + size <= tokens.length; i++) {
+      result.add(tokens.slice(i, i + size).join(' '));
+    }
+    return result;
+  }
+
+  // Jaccard index: shared shingles over all distinct shingles
+  static jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 || b.size === 0) return 0;
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+    let shared = 0;
+    small.forEach((shingle) => {
+      if (large.has(shingle)) shared++;
+    });
+    return shared / (a.size + b.size - shared);
+  }
+
+  static analyze(submissions: SimilaritySubmission[], options: SimilarityOptions = DEFAULT_SIMILARITY_OPTIONS): SimilarityAnalysis {
+    const byQuestion = new Map<string, SimilaritySubmission[]>();
+    submissions.forEach((submission) => {
+      byQuestion.set(submission.questionId, [...(byQuestion.get(submission.questionId) || []), submission]);
+    });
+
+    const clusters: SimilarityCluster[] = [];
+    let answersCompared = 0;
+    let answersSkipped = 0;
+    let pairsCompared = 0;
+
+    byQuestion.forEach((questionSubmissions, questionId) => {
+      const method = this.getMethod(questionSubmissions[0].questionType);
+      const threshold = method === 'code_tokens' ? options.codeThreshold : options.textThreshold;
+
+      const comparable = questionSubmissions
+        .map((submission) => {
+          const tokens = method === 'code_tokens' ? this.tokenizeCode(submission.answer) : this.tokenizeText(submission.answer);
+          const minimum = method === 'code_tokens' ? options.minCodeTokens : options.minTextWords;
+          return tokens.length >= minimum
+            ? { submission, shingles: this.shingles(tokens, method === 'code_tokens' ? CODE_KGRAM : TEXT_NGRAM) }
+            : null;
+        })
+        .filter((entry): entry is { submission: SimilaritySubmission; shingles: Set<string> } => entry !== null);
+
+      answersCompared += comparable.length;
+      answersSkipped += questionSubmissions.length - comparable.length;
+
+      const pairs: SimilarPair[] = [];
+      for (let i = 0; i < comparable.length; i++) {
+        for (let j = i + 1; j < comparable.length; j++) {
+          const a = comparable[i].submission;
+          const b = comparable[j].submission;
+          if (a.userId === b.userId) continue;
+          pairsCompared++;
+          const similarity = this.jaccard(comparable[i].shingles, comparable[j].shingles);
+          if (similarity >= threshold) {
+            pairs.push({
+              answerIds: [a.answerId, b.answerId],
+              userIds: [a.userId, b.userId],
+              similarity: Math.round(similarity * 1000) / 1000,
+              answeredApartSeconds: Math.round(Math.abs(toTime(a.answeredAt) - toTime(b.answeredAt)) / 1000),
+            });
+          }
+        }
+      }
+
+      this.cluster(pairs).forEach((answerIds, index) => {
+        const members = comparable.map((entry) => entry.submission).filter((s) => answerIds.has(s.answerId));
+        const clusterPairs = pairs.filter((pair) => answerIds.has(pair.answerIds[0]));
+        clusters.push(this.describeCluster(`${questionId}:${index + 1}`, questionId, method, members, clusterPairs, options));
+      });
+    });
+
+    const riskOrder: Record<SimilarityRisk, number> = { high: 0, medium: 1, low: 2 };
+    clusters.sort((a, b) => riskOrder[a.risk] - riskOrder[b.risk] || b.maxSimilarity - a.maxSimilarity);
+
+    return { options, answersCompared, answersSkipped, pairsCompared, clusters, participants: this.summarizeParticipants(clusters) };
+  }
+
+  // Connected groups of answers linked by similar pairs (union-find)
+  static cluster(pairs: SimilarPair[]): Set<string>[] {
+    const parent = new Map<string, string>();
+    const find = (id: string): string => {
+      const p = parent.get(id) ?? id;
+      if (p === id) return id;
+      const root = find(p);
+      parent.set(id, root);
+      return root;
+    };
+    pairs.forEach(({ answerIds: [a, b] }) => {
+      parent.set(find(a), find(b));
+    });
+
+    const groups = new Map<string, Set<string>>();
+    pairs.forEach(({ answerIds }) => {
+      answerIds.forEach((id) => {
+        const root = find(id);
+        groups.set(root, (groups.get(root) || new Set()).add(id));
+      });
+    });
+    return Array.from(groups.values());
+  }
+
+  private static describeCluster(
+    id: string,
+    questionId: string,
+    method: SimilarityMethod,
+    members: SimilaritySubmission[],
+    pairs: SimilarPair[],
+    options: SimilarityOptions,
+  ): SimilarityCluster {
+    const spread = (times: number[]) => Math.round((Math.max(...times) - Math.min(...times)) / 1000);
+    const answeredSpreadSeconds = spread(members.map((m) => toTime(m.answeredAt)));
+    const submittedTimes = members.filter((m) => m.submittedAt).map((m) => toTime(m.submittedAt!));
+    const maxSimilarity = Math.max(...pairs.map((p) => p.similarity));
+    const averageSimilarity = Math.round((pairs.reduce((sum, p) => sum + p.similarity, 0) / pairs.length) * 1000) / 1000;
+    const closeTiming = pairs.some((p) => p.answeredApartSeconds <= options.timingWindowSeconds);
+    const totalViolations = members.reduce((sum, m) => sum + m.violationCount, 0);
+
+    let risk: SimilarityRisk = 'low';
+    if (maxSimilarity >= IDENTICAL_SIMILARITY || (closeTiming && totalViolations > 0)) risk = 'high';
+    else if (closeTiming || totalViolations > 0) risk = 'medium';
+
+    return {
+      id,
+      questionId,
+      method,
+      members: members.map(({ questionId: _questionId, questionType: _questionType, ...member }) => member),
+      pairs: pairs.sort((a, b) => b.similarity - a.similarity),
+      maxSimilarity,
+      averageSimilarity,
+      answeredSpreadSeconds,
+      submittedSpreadSeconds: submittedTimes.length === members.length ? spread(submittedTimes) : null,
+      closeTiming,
+      totalViolations,
+      risk,
+    };
+  }
+
+  // Participants who turn up in clusters, most clusters first; repeat appearances across questions stand out
+  private static summarizeParticipants(clusters: SimilarityCluster[]): SimilarityParticipant[] {
+    const participants = new Map<string, SimilarityParticipant & { partners: Set<string> }>();
+    clusters.forEach((cluster) => {
+      cluster.members.forEach((member) => {
+        const entry = participants.get(member.userId) || {
+          userId: member.userId,
+          fullName: member.fullName,
+          clusterCount: 0,
+          partnerNames: [],
+          violationCount: member.violationCount,
+          partners: new Set<string>(),
+        };
+        entry.clusterCount++;
+        cluster.members.forEach((other) => {
+          if (other.userId !== member.userId) entry.partners.add(other.fullName);
+        });
+        participants.set(member.userId, entry);
+      });
+    });
+
+    return Array.from(participants.values())
+      .map(({ partners, ...entry }) => ({ ...entry, partnerNames: Array.from(partners).sort() }))
+      .sort((a, b) => b.clusterCount - a.clusterCount || b.violationCount - a.violationCount);
+  }
+}
+
+function toTime(value: Date | string): number {
+  return new Date(value).getTime();
+}
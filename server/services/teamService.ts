@@ -0,0 +1,148 @@
+import { teamEntrySchema, type Event, type Team, type TeamEntry, type TeamScoring } from '@shared/schema';
+
+export const MAX_TEAM_SIZE = 10;
+export const TEAM_SCORING_MODES: TeamScoring[] = ['shared', 'sum', 'average'];
+
+// Indian mobile numbers, ignoring spaces, dashes and brackets (as registration form phone fields)
+const PHONE_PATTERN = /^[6-9]\d{9}$/;
+
+export type TeamSettings = Pick<Event, 'minTeamSize' | 'maxTeamSize' | 'teamScoring'>;
+
+export interface TeamStanding {
+  teamId: string;
+  teamName: string;
+  members: Array<{ userId: string; userName: string; totalScore: number }>;
+  totalScore: number;
+  submittedAt: Date | null; // Latest submission by any member
+  rank: number;
+}
+
+export class TeamService {
+  static isTeamEvent(event: Pick<Event, 'maxTeamSize'>): boolean {
+    return event.maxTeamSize > 1;
+  }
+
+  // Team settings from the event form, on top of the event's current ones when editing
+  static parseSettings(input: Record<string, unknown>, current: TeamSettings): { value: TeamSettings; error?: string } {
+    const value = { ...current };
+
+    for (const key of ['minTeamSize', 'maxTeamSize'] as const) {
+      if (input[key] === undefined) continue;
+      const size = Number(input[key]);
+      if (!Number.isInteger(size) || size < 1 || size > MAX_TEAM_SIZE) {
+        return { value, error: `Team sizes must be whole numbers from 1 to ${MAX_TEAM_SIZE}` };
+      }
+      value[key] = size;
+    }
+    if (input.teamScoring !== undefined) {
+      if (!TEAM_SCORING_MODES.includes(input.teamScoring as TeamScoring)) {
+        return { value, error: `Invalid team scoring. Must be one of: ${TEAM_SCORING_MODES.join(', ')}` };
+      }
+      value.teamScoring = input.teamScoring as TeamScoring;
+    }
+
+    if (value.minTeamSize > value.maxTeamSize) {
+      return { value, error: 'The minimum team size cannot be above the maximum' };
+    }
+    return { value };
+  }
+
+  // The team for each selected team event, keyed by event id. Entries for individual events are
+  // dropped. Sizes count the registrant, who leads every team they register.
+  static parseEntries(
+    selectedEvents: Array<Pick<Event, 'id' | 'name' | 'minTeamSize' | 'maxTeamSize'>>,
+    raw: unknown,
+    leaderEmail: string | null,
+  ): { teams: Record<string, TeamEntry>; error?: string } {
+    const submitted = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+    const teams: Record<string, TeamEntry> = {};
+
+    for (const event of selectedEvents) {
+      if (!this.isTeamEvent(event)) continue;
+
+      const parsed = teamEntrySchema.safeParse(submitted[event.id]);
+      if (!parsed.success) {
+        const issue = parsed.error.issues[0];
+        const error = issue.path[0] === 'name' || submitted[event.id] === undefined
+          ? 'enter a team name'
+          : `teammate details are invalid (${issue.path.join('.')} ${issue.message})`;
+        return { teams: {}, error: `${event.name}: ${error}` };
+      }
+
+      const entry = parsed.data;
+      const size = entry.members.length + 1;
+      if (size < event.minTeamSize || size > event.maxTeamSize) {
+        const range = event.minTeamSize === event.maxTeamSize
+          ? `exactly ${event.maxTeamSize}`
+          : `${event.minTeamSize} to ${event.maxTeamSize}`;
+        return { teams: {}, error: `${event.name}: teams need ${range} members including you` };
+      }
+
+      const emails = new Set(leaderEmail ? [leaderEmail.toLowerCase()] : []);
+      const members = [];
+      for (const member of entry.members) {
+        const email = member.email.toLowerCase();
+        if (emails.has(email)) {
+          return { teams: {}, error: `${event.name}: ${email} appears more than once in the team` };
+        }
+        emails.add(email);
+
+        const phone = member.phone ? member.phone.replace(/[\s\-()]/g, '') : '';
+        if (phone && !PHONE_PATTERN.test(phone)) {
+          return { teams: {}, error: `${event.name}: ${member.fullName}'s phone is not a valid 10-digit mobile number` };
+        }
+        members.push({ fullName: member.fullName.replace(/\s+/g, ' '), email, ...(phone ? { phone } : {}) });
+      }
+
+      teams[event.id] = { name: entry.name.replace(/\s+/g, ' '), members };
+    }
+
+    return { teams };
+  }
+
+  // Team standings from the members' event totals. With shared scoring only one member attempts each
+  // round, so the sum of member totals is the team's score; average divides by the full team, so a
+  // member who never attempts pulls it down. Teams without a submission are left out, as individuals are.
+  static rankTeams(
+    teams: Array<Pick<Team, 'id' | 'name'>>,
+    members: Array<{ teamId: string | null; userId: string; userName: string }>,
+    scores: Array<{ userId: string; totalScore: number | null; submittedAt: Date | null }>,
+    scoring: TeamScoring,
+  ): TeamStanding[] {
+    const standings: Array<Omit<TeamStanding, 'rank'>> = [];
+
+    for (const team of teams) {
+      const teamMembers = members.filter((m) => m.teamId === team.id);
+      const memberScores: TeamStanding['members'] = [];
+      let total = 0;
+      let submittedAt: Date | null = null;
+      let submitted = false;
+
+      for (const member of teamMembers) {
+        const score = scores.find((s) => s.userId === member.userId);
+        const memberTotal = Number(score?.totalScore) || 0;
+        if (score) {
+          submitted = true;
+          total += memberTotal;
+          if (score.submittedAt && (!submittedAt || new Date(score.submittedAt) > submittedAt)) {
+            submittedAt = new Date(score.submittedAt);
+          }
+        }
+        memberScores.push({ userId: member.userId, userName: member.userName, totalScore: memberTotal });
+      }
+      if (!submitted) continue;
+
+      const totalScore = scoring === 'average' && teamMembers.length > 0
+        ? Math.round((total / teamMembers.length) * 100) / 100
+        : total;
+      standings.push({ teamId: team.id, teamName: team.name, members: memberScores, totalScore, submittedAt });
+    }
+
+    standings.sort((a, b) =>
+      b.totalScore - a.totalScore ||
+      (a.submittedAt?.getTime() ?? Infinity) - (b.submittedAt?.getTime() ?? Infinity) ||
+      a.teamName.localeCompare(b.teamName),
+    );
+    return standings.map((standing, index) => ({ ...standing, rank: index + 1 }));
+  }
+}
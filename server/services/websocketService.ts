@@ -85,6 +85,79 @@ export class WebSocketService {
     });
   }
 
+  // An admin changed a participant's attempt (extra time, reopen, reset, resume) - their test page refetches it
+  static notifyAttemptUpdate(userId: string, attemptId: string, action: string, attempt?: any) {
+    if (!io) return;
+
+    io.to(`participant:${userId}`).emit('attemptUpdate', {
+      attemptId,
+      action,
+      attempt,
+      timestamp: new Date()
+    });
+  }
+
+  // Live proctoring feed for a round: attempt starts, violations, submissions, connection changes and proctor actions
+  static notifyProctoringEvent(eventId: string, roundId: string, attempt: { id: string; userId: string }, type: string, detail?: any) {
+    if (!io) return;
+
+    const payload = { eventId, roundId, attemptId: attempt.id, userId: attempt.userId, type, detail, timestamp: new Date() };
+    io.to('super_admin').emit('proctoringEvent', payload);
+    io.to(`event:${eventId}`).emit('proctoringEvent', payload);
+  }
+
+  // A proctor's message to a participant in the middle of a test
+  static notifyProctorWarning(userId: string, attemptId: string, message: string) {
+    if (!io) return;
+
+    io.to(`participant:${userId}`).emit('proctorWarning', {
+      attemptId,
+      message,
+      timestamp: new Date()
+    });
+  }
+
+  // A participant's event credential was used to sign in from a second machine
+  static notifySessionConflict(eventId: string, conflict: any) {
+    if (!io) return;
+
+    const payload = { eventId, conflict, timestamp: new Date() };
+    io.to('super_admin').emit('sessionConflict', payload);
+    io.to(`event:${eventId}`).emit('sessionConflict', payload);
+  }
+
+  // The participant signed in on another machine - browsers holding the old session sign out
+  static notifySessionReplaced(userId: string) {
+    if (!io) return;
+
+    io.to(`participant:${userId}`).emit('sessionReplaced', { timestamp: new Date() });
+    io.in(`participant:${userId}`).disconnectSockets(true);
+  }
+
+  // Whether the participant has the app open in at least one browser
+  static isUserConnected(userId: string): boolean {
+    if (!io) return false;
+    return (io.sockets.adapter.rooms.get(`participant:${userId}`)?.size || 0) > 0;
+  }
+
+  // A background re-grade moved on; the last message carries the summary, or the error that stopped it
+  static notifyRegradeProgress(eventId: string, roundId: string, progress: { done: number; total: number; summary?: any; error?: string }) {
+    if (!io) return;
+
+    const payload = { eventId, roundId, ...progress, timestamp: new Date() };
+    io.to('super_admin').emit('regradeProgress', payload);
+    io.to(`event:${eventId}`).emit('regradeProgress', payload);
+  }
+
+  // Scores changed after grading - admins and leaderboard viewers refetch rankings
+  static notifyLeaderboardUpdate(eventId: string, roundId: string, reason: string, leaderboard?: any[]) {
+    if (!io) return;
+
+    const payload = { eventId, roundId, reason, leaderboard, timestamp: new Date() };
+    io.to('super_admin').emit('leaderboardUpdate', payload);
+    io.to(`event:${eventId}`).emit('leaderboardUpdate', payload);
+  }
+
   // Broadcast to specific event participants
   static broadcastToEvent(eventId: string, event: string, data: any) {
     if (!io) return;
@@ -1,7 +1,63 @@
-import { eq, and, desc, asc, sql, gte, lte } from 'drizzle-orm';
+import { eq, and, or, desc, asc, sql, gte, lt, lte, ne, inArray, isNull, getTableColumns } from 'drizzle-orm';
 import { db } from './db';
-import { users, events, eventAdmins, eventRules, rounds, roundRules, questions, participants, testAttempts, answers, reports, registrationForms, registrations, eventCredentials, auditLogs, emailLogs } from '@shared/schema';
-import type { User, InsertUser, Event, InsertEvent, EventRules, InsertEventRules, Round, InsertRound, RoundRules, InsertRoundRules, Question, InsertQuestion, Participant, InsertParticipant, TestAttempt, InsertTestAttempt, Answer, InsertAnswer, Report, InsertReport, RegistrationForm, InsertRegistrationForm, Registration, InsertRegistration, EventCredential, InsertEventCredential, AuditLog, InsertAuditLog, EmailLog, InsertEmailLog } from '@shared/schema';
+import { RegistrationFormService } from './services/registrationFormService';
+import { TeamService, type TeamStanding } from './services/teamService';
+import { CapacityService, type EventEntry, type SeatCount } from './services/capacityService';
+import type { RegistrationPayment } from './services/paymentService';
+import type { ViolationReview } from './services/proctoringService';
+import { users, events, eventAdmins, proctoringProfiles, eventRules, rounds, roundRules, questions, teams, participants, testAttempts, answers, reports, registrationForms, feeCombos, registrations, eventCredentials, sessionConflicts, auditLogs, emailLogs } from '@shared/schema';
+import type { User, InsertUser, Event, InsertEvent, ProctoringProfile, InsertProctoringProfile, EventRules, InsertEventRules, Round, InsertRound, RoundRules, InsertRoundRules, Question, InsertQuestion, Team, InsertTeam, Participant, InsertParticipant, TestAttempt, InsertTestAttempt, Answer, InsertAnswer, Report, InsertReport, RegistrationForm, InsertRegistrationForm, RegistrationFormField, FeeCombo, InsertFeeCombo, RegistrationFieldValue, TeamEntry, Registration, RegistrationStatus, InsertRegistration, EventCredential, InsertEventCredential, SessionConflict, InsertSessionConflict, AuditLog, InsertAuditLog, EmailLog, InsertEmailLog } from '@shared/schema';
+
+// Attempts that count towards scores and leaderboards, whether submitted by the participant or by the deadline sweeper
+const SUBMITTED_ATTEMPT_STATUSES = ['completed', 'auto_submitted'];
+
+// Registration columns for lists and lookups: the receipt image is left in the database, since it can run to
+// a megabyte, and only getRegistrationReceipt reads it
+const { receiptImage: _receiptImage, ...registrationColumns } = getTableColumns(registrations);
+const registrationSummary = {
+  ...registrationColumns,
+  hasReceipt: sql<boolean>`${registrations.receiptImage} is not null`,
+};
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Holds the events' rows until the transaction ends, so seat checks for the same event wait their turn.
+// Rows are taken in id order so requests for overlapping events cannot deadlock.
+async function lockEvents(tx: Transaction, eventIds: string[]): Promise<void> {
+  if (eventIds.length === 0) return;
+  await tx.select({ id: events.id })
+    .from(events)
+    .where(inArray(events.id, eventIds))
+    .orderBy(asc(events.id))
+    .for('update');
+}
+
+async function countEventSeats(executor: typeof db | Transaction, eventList: Event[]): Promise<Record<string, SeatCount>> {
+  if (eventList.length === 0) return {};
+
+  const entered = await executor
+    .select({ eventId: participants.eventId, count: sql<number>`count(*)` })
+    .from(participants)
+    .where(inArray(participants.eventId, eventList.map(e => e.id)))
+    .groupBy(participants.eventId);
+  const participantCounts: Record<string, number> = {};
+  for (const row of entered) {
+    participantCounts[row.eventId] = Number(row.count);
+  }
+
+  const held = await executor
+    .select({
+      id: registrations.id,
+      selectedEvents: registrations.selectedEvents,
+      teams: registrations.teams,
+      paymentStatus: registrations.paymentStatus,
+    })
+    .from(registrations)
+    .where(inArray(registrations.paymentStatus, ['pending', 'waitlisted']))
+    .orderBy(asc(registrations.submittedAt));
+
+  return CapacityService.countSeats(eventList, participantCounts, held);
+}
 
 export interface IStorage {
   getUsers(): Promise<User[]>;
@@ -27,11 +83,25 @@ export interface IStorage {
   assignEventAdmin(eventId: string, adminId: string): Promise<void>;
   removeEventAdmin(eventId: string, adminId: string): Promise<void>;
   
+  getProctoringProfiles(): Promise<ProctoringProfile[]>;
+  getProctoringProfile(id: string): Promise<ProctoringProfile | undefined>;
+  getProctoringProfileByName(name: string): Promise<ProctoringProfile | undefined>;
+  createProctoringProfile(profile: InsertProctoringProfile): Promise<ProctoringProfile>;
+  updateProctoringProfile(id: string, profile: Partial<InsertProctoringProfile>): Promise<ProctoringProfile | undefined>;
+  deleteProctoringProfile(id: string): Promise<void>;
+  getProctoringLayers(eventId: string, roundId?: string): Promise<{
+    round: RoundRules | null;
+    roundProfile: ProctoringProfile | null;
+    event: EventRules | null;
+    eventProfile: ProctoringProfile | null;
+  }>;
+
   getEventRules(eventId: string): Promise<EventRules | undefined>;
   createEventRules(rules: InsertEventRules): Promise<EventRules>;
   updateEventRules(eventId: string, rules: Partial<InsertEventRules>): Promise<EventRules | undefined>;
   
   getRoundsByEvent(eventId: string): Promise<Round[]>;
+  getScoredRoundsByEvent(eventId: string): Promise<Round[]>;
   getRound(id: string): Promise<Round | undefined>;
   createRound(round: InsertRound): Promise<Round>;
   updateRound(id: string, round: Partial<InsertRound>): Promise<Round | undefined>;
@@ -55,17 +125,43 @@ export interface IStorage {
   registerParticipant(participant: InsertParticipant): Promise<Participant>;
   getParticipantByUserAndEvent(userId: string, eventId: string): Promise<Participant | undefined>;
   updateParticipantStatus(participantId: string, status: 'registered' | 'completed' | 'disqualified'): Promise<Participant | undefined>;
+  getParticipant(id: string): Promise<Participant | undefined>;
+  updateParticipantExtraTime(participantId: string, extraTimeMinutes: number): Promise<Participant | undefined>;
+  
+  createTeam(team: InsertTeam): Promise<Team>;
+  getTeam(id: string): Promise<Team | undefined>;
+  getTeamsByEvent(eventId: string): Promise<Team[]>;
+  getTeamByEventAndName(eventId: string, name: string): Promise<Team | undefined>;
+  getTeamMembers(teamId: string): Promise<Array<Participant & { user: User }>>;
+  getTeamAttemptByRound(teamId: string, roundId: string): Promise<TestAttempt | undefined>;
+  getTeamLeaderboard(eventId: string): Promise<TeamStanding[]>;
   
   getTestAttempt(id: string): Promise<TestAttempt | undefined>;
   getTestAttemptByUserAndRound(userId: string, roundId: string): Promise<TestAttempt | undefined>;
   getTestAttemptsByUser(userId: string): Promise<TestAttempt[]>;
+  getTestAttemptsByRound(roundId: string): Promise<TestAttempt[]>;
+  getLatestTestAttemptsByRound(roundId: string): Promise<TestAttempt[]>;
   createTestAttempt(attempt: InsertTestAttempt): Promise<TestAttempt>;
+  createSharedTeamAttempt(attempt: InsertTestAttempt & { sharedTeamId: string }): Promise<TestAttempt | undefined>;
   updateTestAttempt(id: string, attempt: Partial<InsertTestAttempt>): Promise<TestAttempt | undefined>;
+  extendTestAttempt(id: string, minutes: number): Promise<TestAttempt | undefined>;
+  appendViolationLogs(id: string, entries: unknown[], updates?: Partial<TestAttempt>, counter?: 'tabSwitchCount' | 'refreshAttemptCount'): Promise<TestAttempt | undefined>;
+  reviewViolation(id: string, index: number, previous: ViolationReview | undefined, review: ViolationReview, penaltyChange: number): Promise<TestAttempt | undefined>;
   deleteTestAttemptsByRound(roundId: string): Promise<void>;
+  deleteTestAttempt(id: string): Promise<void>;
+  getInProgressTestAttempts(roundId?: string): Promise<TestAttempt[]>;
+  getSubmittedTestAttemptsByRound(roundId: string): Promise<TestAttempt[]>;
+  closeTestAttempt(id: string, status: 'completed' | 'auto_submitted'): Promise<TestAttempt | undefined>;
   
   getAnswersByAttempt(attemptId: string): Promise<Answer[]>;
+  getAnswer(id: string): Promise<Answer | undefined>;
   createAnswer(answer: InsertAnswer): Promise<Answer>;
+  insertAnswerWrite(answer: InsertAnswer): Promise<Answer | undefined>;
   updateAnswer(id: string, answer: Partial<InsertAnswer>): Promise<Answer | undefined>;
+  applyAnswerWrite(id: string, answer: Partial<InsertAnswer>, clientSeq: number | undefined): Promise<Answer | undefined>;
+  getGradingQueue(roundId: string, questionId?: string): Promise<Array<{ answer: Answer; question: Question; attempt: TestAttempt; user: User }>>;
+  recalculateAttemptScore(attemptId: string): Promise<TestAttempt | undefined>;
+  setGradedScore(attemptId: string, pointsAwarded: number, updates?: Partial<InsertTestAttempt>): Promise<TestAttempt | undefined>;
   
   getReports(): Promise<Report[]>;
   getReportsByEvent(eventId: string): Promise<Report[]>;
@@ -77,19 +173,35 @@ export interface IStorage {
   generateEventReport(eventId: string, generatedBy: string): Promise<Report>;
   generateSymposiumReport(generatedBy: string): Promise<Report>;
   
-  createRegistrationForm(title: string, description: string, formFields: any[], slug: string): Promise<RegistrationForm>;
+  createRegistrationForm(title: string, description: string, formFields: RegistrationFormField[], slug: string, upiId?: string | null): Promise<RegistrationForm>;
   getRegistrationFormBySlug(slug: string): Promise<RegistrationForm | undefined>;
   getAllRegistrationForms(): Promise<RegistrationForm[]>;
   getActiveRegistrationForm(): Promise<RegistrationForm | undefined>;
   updateRegistrationForm(id: string, updates: Partial<RegistrationForm>): Promise<RegistrationForm | undefined>;
   
-  createRegistration(formId: string, data: Record<string, string>, selectedEvents: string[]): Promise<Registration>;
+  getFeeCombos(): Promise<FeeCombo[]>;
+  getFeeCombo(id: string): Promise<FeeCombo | undefined>;
+  createFeeCombo(combo: InsertFeeCombo): Promise<FeeCombo>;
+  updateFeeCombo(id: string, combo: Partial<InsertFeeCombo>): Promise<FeeCombo | undefined>;
+  deleteFeeCombo(id: string): Promise<void>;
+  
+  createRegistration(formId: string, data: Record<string, RegistrationFieldValue>, selectedEvents: Event[], teams?: Record<string, TeamEntry> | null, payment?: RegistrationPayment): Promise<{ registration: Registration; fullEvents: Event[] }>;
   getRegistrations(): Promise<Registration[]>;
   getRegistration(id: string): Promise<Registration | undefined>;
-  updateRegistrationStatus(id: string, status: 'pending' | 'paid' | 'declined', participantUserId: string | null, processedBy: string): Promise<Registration>;
+  getRegistrationByPaymentReference(reference: string): Promise<Registration | undefined>;
+  getRegistrationReceipt(id: string): Promise<string | null | undefined>;
+  verifyRegistrationPayment(id: string, amountReceived: number, verifiedBy: string): Promise<Registration | undefined>;
+  updateRegistrationStatus(id: string, status: RegistrationStatus, participantUserId: string | null, processedBy: string): Promise<Registration>;
+  getWaitlistedRegistrations(): Promise<Registration[]>;
+  promoteRegistration(id: string): Promise<Registration | undefined>;
+  getEventSeatCounts(events: Event[]): Promise<Record<string, SeatCount>>;
+  enterEvents(events: Event[], entries: EventEntry[]): Promise<{ fullEvents: Event[]; teams: Record<string, Team>; participants: Participant[] }>;
   
   getEventsByIds(eventIds: string[]): Promise<Event[]>;
-  createParticipant(userId: string, eventId: string): Promise<Participant>;
+  createParticipant(userId: string, eventId: string, teamId?: string | null): Promise<Participant>;
+  hasEventAttempts(userIds: string[], eventId: string): Promise<boolean>;
+  removeParticipants(userIds: string[], eventId: string): Promise<void>;
+  deleteTeam(id: string): Promise<void>;
   
   createEventCredential(participantUserId: string, eventId: string, eventUsername: string, eventPassword: string): Promise<EventCredential>;
   getEventCredentialsByParticipant(participantUserId: string): Promise<EventCredential[]>;
@@ -105,6 +217,13 @@ export interface IStorage {
   getOnSpotParticipantsByCreator(creatorId: string): Promise<Array<User & { eventCredentials: Array<EventCredential & { event: Event }> }>>;
   updateUserDetails(userId: string, updates: { fullName?: string; email?: string; phone?: string }): Promise<User | undefined>;
   getEventCredentialCountForEvent(eventId: string): Promise<number>;
+  updateEventCredentialSession(credentialId: string, session: Partial<Pick<EventCredential, 'activeSessionId' | 'activeClientId' | 'activeDeviceFingerprint' | 'sessionStartedAt' | 'approvedClientId'>>): Promise<EventCredential | undefined>;
+  
+  createSessionConflict(conflict: InsertSessionConflict): Promise<SessionConflict>;
+  getSessionConflict(id: string): Promise<SessionConflict | undefined>;
+  getOpenSessionConflict(credentialId: string, newClientId: string | null): Promise<SessionConflict | undefined>;
+  getSessionConflictsByEvent(eventId: string): Promise<Array<SessionConflict & { participant: User }>>;
+  updateSessionConflict(id: string, updates: Partial<SessionConflict>): Promise<SessionConflict | undefined>;
   
   createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
   getAuditLogs(filters?: { adminId?: string; targetType?: string; startDate?: Date; endDate?: Date }): Promise<AuditLog[]>;
@@ -237,7 +356,9 @@ export class DatabaseStorage implements IStorage {
     return event;
   }
 
+  // Combos hold their events in a list rather than by foreign key, so any that include the event go with it
   async deleteEvent(id: string): Promise<void> {
+    await db.delete(feeCombos).where(sql`${feeCombos.eventIds} @> ${JSON.stringify([id])}::jsonb`);
     await db.delete(events).where(eq(events.id, id));
   }
 
@@ -258,6 +379,43 @@ export class DatabaseStorage implements IStorage {
     await db.delete(eventAdmins).where(and(eq(eventAdmins.eventId, eventId), eq(eventAdmins.adminId, adminId)));
   }
 
+  async getProctoringProfiles(): Promise<ProctoringProfile[]> {
+    return await db.select().from(proctoringProfiles).orderBy(asc(proctoringProfiles.name));
+  }
+
+  async getProctoringProfile(id: string): Promise<ProctoringProfile | undefined> {
+    const [profile] = await db.select().from(proctoringProfiles).where(eq(proctoringProfiles.id, id));
+    return profile;
+  }
+
+  async getProctoringProfileByName(name: string): Promise<ProctoringProfile | undefined> {
+    const [profile] = await db.select().from(proctoringProfiles).where(sql`lower(${proctoringProfiles.name}) = lower(${name})`);
+    return profile;
+  }
+
+  async createProctoringProfile(insertProfile: InsertProctoringProfile): Promise<ProctoringProfile> {
+    const [profile] = await db.insert(proctoringProfiles).values(insertProfile).returning();
+    return profile;
+  }
+
+  async updateProctoringProfile(id: string, updateData: Partial<InsertProctoringProfile>): Promise<ProctoringProfile | undefined> {
+    const [profile] = await db.update(proctoringProfiles).set({ ...updateData, updatedAt: new Date() }).where(eq(proctoringProfiles.id, id)).returning();
+    return profile;
+  }
+
+  async deleteProctoringProfile(id: string): Promise<void> {
+    await db.delete(proctoringProfiles).where(eq(proctoringProfiles.id, id));
+  }
+
+  // Everything that decides a round's (or, without a round, the event's) proctoring rules
+  async getProctoringLayers(eventId: string, roundId?: string) {
+    const event = (await this.getEventRules(eventId)) || null;
+    const round = roundId ? (await this.getRoundRules(roundId)) || null : null;
+    const eventProfile = event?.proctoringProfileId ? (await this.getProctoringProfile(event.proctoringProfileId)) || null : null;
+    const roundProfile = round?.proctoringProfileId ? (await this.getProctoringProfile(round.proctoringProfileId)) || null : null;
+    return { round, roundProfile, event, eventProfile };
+  }
+
   async getEventRules(eventId: string): Promise<EventRules | undefined> {
     const [rules] = await db.select().from(eventRules).where(eq(eventRules.eventId, eventId));
     return rules;
@@ -277,6 +435,12 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(rounds).where(eq(rounds.eventId, eventId));
   }
 
+  // Practice rounds are left out of leaderboards and reports
+  async getScoredRoundsByEvent(eventId: string): Promise<Round[]> {
+    return await db.select().from(rounds)
+      .where(and(eq(rounds.eventId, eventId), ne(rounds.roundType, 'practice')));
+  }
+
   async getRound(id: string): Promise<Round | undefined> {
     const [round] = await db.select().from(rounds).where(eq(rounds.id, id));
     return round;
@@ -408,6 +572,80 @@ export class DatabaseStorage implements IStorage {
     return participant;
   }
 
+  async getParticipant(id: string): Promise<Participant | undefined> {
+    const [participant] = await db.select().from(participants).where(eq(participants.id, id));
+    return participant;
+  }
+
+  async updateParticipantExtraTime(participantId: string, extraTimeMinutes: number): Promise<Participant | undefined> {
+    const [participant] = await db.update(participants)
+      .set({ extraTimeMinutes })
+      .where(eq(participants.id, participantId))
+      .returning();
+    return participant;
+  }
+
+  async createTeam(insertTeam: InsertTeam): Promise<Team> {
+    const [team] = await db.insert(teams).values(insertTeam).returning();
+    return team;
+  }
+
+  async getTeam(id: string): Promise<Team | undefined> {
+    const [team] = await db.select().from(teams).where(eq(teams.id, id));
+    return team;
+  }
+
+  async getTeamsByEvent(eventId: string): Promise<Team[]> {
+    return await db.select().from(teams).where(eq(teams.eventId, eventId)).orderBy(asc(teams.name));
+  }
+
+  // Team names are compared case-insensitively so "Null Pointers" and "null pointers" cannot both enter
+  async getTeamByEventAndName(eventId: string, name: string): Promise<Team | undefined> {
+    const [team] = await db.select().from(teams)
+      .where(and(eq(teams.eventId, eventId), sql`lower(${teams.name}) = lower(${name})`));
+    return team;
+  }
+
+  async getTeamMembers(teamId: string): Promise<Array<Participant & { user: User }>> {
+    const result = await db
+      .select({ participant: participants, user: users })
+      .from(participants)
+      .innerJoin(users, eq(participants.userId, users.id))
+      .where(eq(participants.teamId, teamId))
+      .orderBy(asc(participants.registeredAt));
+    return result.map(r => ({ ...r.participant, user: r.user }));
+  }
+
+  // The latest attempt any member of the team made at the round
+  async getTeamAttemptByRound(teamId: string, roundId: string): Promise<TestAttempt | undefined> {
+    const [attempt] = await db.select().from(testAttempts)
+      .where(and(eq(testAttempts.teamId, teamId), eq(testAttempts.roundId, roundId)))
+      .orderBy(desc(testAttempts.startedAt))
+      .limit(1);
+    return attempt;
+  }
+
+  async getTeamLeaderboard(eventId: string): Promise<TeamStanding[]> {
+    const event = await this.getEvent(eventId);
+    if (!event || !TeamService.isTeamEvent(event)) {
+      return [];
+    }
+
+    const members = await db
+      .select({ teamId: participants.teamId, userId: participants.userId, userName: users.fullName })
+      .from(participants)
+      .innerJoin(users, eq(participants.userId, users.id))
+      .where(eq(participants.eventId, eventId))
+      .orderBy(asc(participants.registeredAt));
+
+    return TeamService.rankTeams(
+      await this.getTeamsByEvent(eventId),
+      members,
+      await this.getEventLeaderboard(eventId),
+      event.teamScoring,
+    );
+  }
+
   async getParticipantsByAdmin(adminId: string) {
     const result = await db
       .select({
@@ -434,9 +672,12 @@ export class DatabaseStorage implements IStorage {
     return attempt;
   }
 
+  // Practice rounds can hold several attempts per participant; the latest one is returned
   async getTestAttemptByUserAndRound(userId: string, roundId: string): Promise<TestAttempt | undefined> {
     const [attempt] = await db.select().from(testAttempts)
-      .where(and(eq(testAttempts.userId, userId), eq(testAttempts.roundId, roundId)));
+      .where(and(eq(testAttempts.userId, userId), eq(testAttempts.roundId, roundId)))
+      .orderBy(desc(testAttempts.startedAt))
+      .limit(1);
     return attempt;
   }
 
@@ -444,34 +685,224 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(testAttempts).where(eq(testAttempts.userId, userId));
   }
 
+  async getTestAttemptsByRound(roundId: string): Promise<TestAttempt[]> {
+    return await db.select().from(testAttempts).where(eq(testAttempts.roundId, roundId));
+  }
+
+  // Each participant's most recent attempt; practice rounds can hold several per participant
+  async getLatestTestAttemptsByRound(roundId: string): Promise<TestAttempt[]> {
+    return await db.selectDistinctOn([testAttempts.userId]).from(testAttempts)
+      .where(eq(testAttempts.roundId, roundId))
+      .orderBy(testAttempts.userId, desc(testAttempts.startedAt));
+  }
+
   async createTestAttempt(insertAttempt: InsertTestAttempt): Promise<TestAttempt> {
     const [attempt] = await db.insert(testAttempts).values(insertAttempt).returning();
     return attempt;
   }
 
+  // The team's one attempt at a round under shared scoring; undefined when a teammate started it first
+  async createSharedTeamAttempt(insertAttempt: InsertTestAttempt & { sharedTeamId: string }): Promise<TestAttempt | undefined> {
+    const [attempt] = await db.insert(testAttempts)
+      .values(insertAttempt)
+      .onConflictDoNothing({ target: [testAttempts.sharedTeamId, testAttempts.roundId] })
+      .returning();
+    return attempt;
+  }
+
   async updateTestAttempt(id: string, updateData: Partial<TestAttempt>): Promise<TestAttempt | undefined> {
     const [attempt] = await db.update(testAttempts).set(updateData).where(eq(testAttempts.id, id)).returning();
     return attempt;
   }
 
+  // Adds to the extra time in the UPDATE itself, so two proctors extending at once both count
+  async extendTestAttempt(id: string, minutes: number): Promise<TestAttempt | undefined> {
+    const [attempt] = await db.update(testAttempts)
+      .set({ extraMinutes: sql`${testAttempts.extraMinutes} + ${minutes}` })
+      .where(and(eq(testAttempts.id, id), eq(testAttempts.status, 'in_progress')))
+      .returning();
+    return attempt;
+  }
+
+  // Appends in the UPDATE itself (and bumps the matching counter there) so violations and
+  // heartbeat gaps logged at the same moment cannot overwrite each other's entries
+  async appendViolationLogs(
+    id: string,
+    entries: unknown[],
+    updates: Partial<TestAttempt> = {},
+    counter?: 'tabSwitchCount' | 'refreshAttemptCount',
+  ): Promise<TestAttempt | undefined> {
+    const [attempt] = await db.update(testAttempts)
+      .set({
+        ...updates,
+        violationLogs: sql`coalesce(${testAttempts.violationLogs}, '[]'::jsonb) || ${JSON.stringify(entries)}::jsonb`,
+        ...(counter ? { [counter]: sql`${testAttempts[counter]} + 1` } : {}),
+      })
+      .where(eq(testAttempts.id, id))
+      .returning();
+    return attempt;
+  }
+
+  // Writes one violation's review in place. The update only lands while that violation still
+  // carries the review the caller read, so two admins deciding it at once cannot both apply a
+  // penalty; the penalty (and a closed attempt's score) moves by the change rather than being
+  // recomputed from a stale copy of the log.
+  async reviewViolation(
+    id: string,
+    index: number,
+    previous: ViolationReview | undefined,
+    review: ViolationReview,
+    penaltyChange: number,
+  ): Promise<TestAttempt | undefined> {
+    const [attempt] = await db.update(testAttempts)
+      .set({
+        violationLogs: sql`jsonb_set(${testAttempts.violationLogs}, ${`{${index},review}`}::text[], ${JSON.stringify(review)}::jsonb)`,
+        penaltyPoints: sql`${testAttempts.penaltyPoints} + ${penaltyChange}`,
+        totalScore: sql`CASE WHEN ${testAttempts.status} = 'in_progress' THEN ${testAttempts.totalScore} ELSE coalesce(${testAttempts.totalScore}, 0) - ${penaltyChange} END`,
+      })
+      .where(and(
+        eq(testAttempts.id, id),
+        sql`jsonb_array_length(coalesce(${testAttempts.violationLogs}, '[]'::jsonb)) > ${index}`,
+        sql`(${testAttempts.violationLogs} -> ${index}::int -> 'review') IS NOT DISTINCT FROM ${previous ? JSON.stringify(previous) : null}::jsonb`,
+      ))
+      .returning();
+    return attempt;
+  }
+
   async deleteTestAttemptsByRound(roundId: string): Promise<void> {
     await db.delete(testAttempts).where(eq(testAttempts.roundId, roundId));
   }
 
+  async deleteTestAttempt(id: string): Promise<void> {
+    await db.delete(testAttempts).where(eq(testAttempts.id, id));
+  }
+
+  async getInProgressTestAttempts(roundId?: string): Promise<TestAttempt[]> {
+    const conditions = [eq(testAttempts.status, 'in_progress')];
+    if (roundId) {
+      conditions.push(eq(testAttempts.roundId, roundId));
+    }
+    return await db.select().from(testAttempts).where(and(...conditions));
+  }
+
+  async getSubmittedTestAttemptsByRound(roundId: string): Promise<TestAttempt[]> {
+    return await db.select().from(testAttempts)
+      .where(and(
+        eq(testAttempts.roundId, roundId),
+        inArray(testAttempts.status, SUBMITTED_ATTEMPT_STATUSES)
+      ));
+  }
+
+  // Only moves an attempt out of in_progress once, so a manual submit and the
+  // deadline sweeper racing on the same attempt cannot both close (and grade) it
+  async closeTestAttempt(id: string, status: 'completed' | 'auto_submitted'): Promise<TestAttempt | undefined> {
+    const now = new Date();
+    const [attempt] = await db.update(testAttempts)
+      .set({ status, submittedAt: now, completedAt: now })
+      .where(and(eq(testAttempts.id, id), eq(testAttempts.status, 'in_progress')))
+      .returning();
+    return attempt;
+  }
+
   async getAnswersByAttempt(attemptId: string): Promise<Answer[]> {
     return await db.select().from(answers).where(eq(answers.attemptId, attemptId));
   }
 
+  async getAnswer(id: string): Promise<Answer | undefined> {
+    const [answer] = await db.select().from(answers).where(eq(answers.id, id));
+    return answer;
+  }
+
   async createAnswer(insertAnswer: InsertAnswer): Promise<Answer> {
     const [answer] = await db.insert(answers).values(insertAnswer).returning();
     return answer;
   }
 
+  // First write for a question from the test page. Two first writes racing each other meet on the
+  // (attempt, question) unique index; the later sequence number wins, as in applyAnswerWrite, and
+  // undefined means this write lost.
+  async insertAnswerWrite(insertAnswer: InsertAnswer): Promise<Answer | undefined> {
+    const [answer] = await db
+      .insert(answers)
+      .values(insertAnswer)
+      .onConflictDoUpdate({
+        target: [answers.attemptId, answers.questionId],
+        set: {
+          answer: sql`excluded.answer`,
+          language: sql`coalesce(excluded.language, ${answers.language})`,
+          clientSeq: sql`coalesce(excluded.client_seq, ${answers.clientSeq})`,
+          inputStats: sql`coalesce(excluded.input_stats, ${answers.inputStats})`,
+          version: sql`${answers.version} + 1`,
+          answeredAt: new Date(),
+        },
+        setWhere: sql`${answers.clientSeq} IS NULL OR excluded.client_seq IS NULL OR ${answers.clientSeq} < excluded.client_seq`,
+      })
+      .returning();
+    return answer;
+  }
+
   async updateAnswer(id: string, updateData: Partial<Answer>): Promise<Answer | undefined> {
     const [answer] = await db.update(answers).set(updateData).where(eq(answers.id, id)).returning();
     return answer;
   }
 
+  // Versioned write from the test page. The sequence check runs in the UPDATE itself so two
+  // replays racing each other cannot let the older one land last; undefined means it lost.
+  async applyAnswerWrite(id: string, updateData: Partial<Answer>, clientSeq: number | undefined): Promise<Answer | undefined> {
+    const conditions = [eq(answers.id, id)];
+    if (clientSeq !== undefined) {
+      conditions.push(or(isNull(answers.clientSeq), lt(answers.clientSeq, clientSeq))!);
+    }
+
+    const [answer] = await db
+      .update(answers)
+      .set({ ...updateData, ...(clientSeq !== undefined ? { clientSeq } : {}), version: sql`${answers.version} + 1`, answeredAt: new Date() })
+      .where(and(...conditions))
+      .returning();
+    return answer;
+  }
+
+  // Answers to short answer and coding questions from submitted attempts of a round
+  async getGradingQueue(roundId: string, questionId?: string) {
+    const conditions = [
+      eq(testAttempts.roundId, roundId),
+      ne(testAttempts.status, 'in_progress'),
+      inArray(questions.questionType, ['short_answer', 'coding'])
+    ];
+    if (questionId) {
+      conditions.push(eq(answers.questionId, questionId));
+    }
+
+    return await db
+      .select({
+        answer: answers,
+        question: questions,
+        attempt: testAttempts,
+        user: users
+      })
+      .from(answers)
+      .innerJoin(testAttempts, eq(answers.attemptId, testAttempts.id))
+      .innerJoin(questions, eq(answers.questionId, questions.id))
+      .innerJoin(users, eq(testAttempts.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(asc(questions.questionNumber), asc(testAttempts.submittedAt));
+  }
+
+  async recalculateAttemptScore(attemptId: string): Promise<TestAttempt | undefined> {
+    const attemptAnswers = await this.getAnswersByAttempt(attemptId);
+    return await this.setGradedScore(attemptId, attemptAnswers.reduce((sum, a) => sum + (a.pointsAwarded || 0), 0));
+  }
+
+  // The penalty is taken off in the same statement, so a violation review landing while answers are graded
+  // is not undone by a penalty read before grading started
+  async setGradedScore(attemptId: string, pointsAwarded: number, updates: Partial<InsertTestAttempt> = {}): Promise<TestAttempt | undefined> {
+    const [attempt] = await db.update(testAttempts)
+      .set({ ...updates, totalScore: sql`${pointsAwarded} - coalesce(${testAttempts.penaltyPoints}, 0)` })
+      .where(eq(testAttempts.id, attemptId))
+      .returning();
+    return attempt;
+  }
+
   async getReports(): Promise<Report[]> {
     return await db.select().from(reports);
   }
@@ -505,13 +936,14 @@ export class DatabaseStorage implements IStorage {
       throw new Error('Event not found');
     }
 
-    const eventRoundsData = await db.select().from(rounds).where(eq(rounds.eventId, eventId));
+    const eventRoundsData = await this.getScoredRoundsByEvent(eventId);
     const eventParticipants = await this.getParticipantsByEvent(eventId);
     const eventRulesData = await this.getEventRules(eventId);
 
     const roundsDetails = await Promise.all(
       eventRoundsData.map(async (round) => {
         const questionsData = await this.getQuestionsByRound(round.id);
+        const roundRulesData = await this.getRoundRules(round.id);
         const attemptsData = await db
           .select({
             attempt: testAttempts,
@@ -538,12 +970,19 @@ export class DatabaseStorage implements IStorage {
             const totalAnswers = answersData.length;
             const correctAnswers = answersData.filter(a => a.answer.isCorrect).length;
             const accuracy = totalAnswers > 0 ? (correctAnswers / totalAnswers) * 100 : 0;
+            // With question pools not every attempt sees every question
+            const timesServed = attemptsData.filter(a =>
+              !Array.isArray(a.attempt.questionIds) || a.attempt.questionIds.includes(question.id)
+            ).length;
 
             return {
               questionId: question.id,
               questionText: question.questionText,
               questionType: question.questionType,
+              tag: question.tag,
+              difficulty: question.difficulty,
               points: question.points,
+              timesServed,
               totalAnswers,
               correctAnswers,
               accuracy: Math.round(accuracy * 100) / 100
@@ -551,7 +990,7 @@ export class DatabaseStorage implements IStorage {
           })
         );
 
-        const completedAttempts = attemptsData.filter(a => a.attempt.status === 'completed');
+        const completedAttempts = attemptsData.filter(a => SUBMITTED_ATTEMPT_STATUSES.includes(a.attempt.status));
         const totalScore = completedAttempts.reduce((sum, a) => sum + (a.attempt.totalScore || 0), 0);
         const avgScore = completedAttempts.length > 0 ? totalScore / completedAttempts.length : 0;
 
@@ -572,6 +1011,9 @@ export class DatabaseStorage implements IStorage {
           duration: round.duration,
           status: round.status,
           totalQuestions: questionsData.length,
+          questionsPerAttempt: roundRulesData?.questionPoolSize
+            ? Math.min(roundRulesData.questionPoolSize, questionsData.length)
+            : questionsData.length,
           totalAttempts: attemptsData.length,
           completedAttempts: completedAttempts.length,
           averageScore: Math.round(avgScore * 100) / 100,
@@ -591,11 +1033,12 @@ export class DatabaseStorage implements IStorage {
           .innerJoin(rounds, eq(testAttempts.roundId, rounds.id))
           .where(and(
             eq(rounds.eventId, eventId),
+            ne(rounds.roundType, 'practice'),
             eq(testAttempts.userId, participant.userId)
           ));
 
         const totalScore = attempts
-          .filter(a => a.test_attempts.status === 'completed')
+          .filter(a => SUBMITTED_ATTEMPT_STATUSES.includes(a.test_attempts.status))
           .reduce((sum, a) => sum + (a.test_attempts.totalScore || 0), 0);
 
         return {
@@ -605,7 +1048,7 @@ export class DatabaseStorage implements IStorage {
           registeredAt: participant.registeredAt,
           status: participant.status,
           attemptsCount: attempts.length,
-          completedAttempts: attempts.filter(a => a.test_attempts.status === 'completed').length,
+          completedAttempts: attempts.filter(a => SUBMITTED_ATTEMPT_STATUSES.includes(a.test_attempts.status)).length,
           totalScore
         };
       })
@@ -647,7 +1090,7 @@ export class DatabaseStorage implements IStorage {
 
     const eventSummaries = await Promise.all(
       allEvents.map(async (event) => {
-        const eventRoundsData = await db.select().from(rounds).where(eq(rounds.eventId, event.id));
+        const eventRoundsData = await this.getScoredRoundsByEvent(event.id);
         const eventParticipants = await this.getParticipantsByEvent(event.id);
         
         const roundIds = eventRoundsData.map(r => r.id);
@@ -662,9 +1105,9 @@ export class DatabaseStorage implements IStorage {
             .where(sql`${testAttempts.roundId} IN (${sql.join(roundIds.map(id => sql`${id}`), sql`, `)})`);
 
           totalAttempts = attemptsData.length;
-          completedAttempts = attemptsData.filter(a => a.status === 'completed').length;
+          completedAttempts = attemptsData.filter(a => SUBMITTED_ATTEMPT_STATUSES.includes(a.status)).length;
           totalScore = attemptsData
-            .filter(a => a.status === 'completed')
+            .filter(a => SUBMITTED_ATTEMPT_STATUSES.includes(a.status))
             .reduce((sum, a) => sum + (a.totalScore || 0), 0);
         }
 
@@ -692,7 +1135,7 @@ export class DatabaseStorage implements IStorage {
       })
       .from(testAttempts)
       .innerJoin(users, eq(testAttempts.userId, users.id))
-      .where(eq(testAttempts.status, 'completed'))
+      .where(inArray(testAttempts.status, SUBMITTED_ATTEMPT_STATUSES))
       .groupBy(testAttempts.userId, users.fullName)
       .orderBy(desc(sql`SUM(${testAttempts.totalScore})`))
       .limit(50);
@@ -705,7 +1148,7 @@ export class DatabaseStorage implements IStorage {
     const totalCompletedAttempts = await db
       .select({ count: sql<number>`COUNT(*)`.as('count') })
       .from(testAttempts)
-      .where(eq(testAttempts.status, 'completed'));
+      .where(inArray(testAttempts.status, SUBMITTED_ATTEMPT_STATUSES));
 
     const totalViolations = await db
       .select({
@@ -765,7 +1208,7 @@ export class DatabaseStorage implements IStorage {
       .innerJoin(users, eq(testAttempts.userId, users.id))
       .where(and(
         eq(testAttempts.roundId, roundId),
-        eq(testAttempts.status, 'completed')
+        inArray(testAttempts.status, SUBMITTED_ATTEMPT_STATUSES)
       ))
       .orderBy(desc(testAttempts.totalScore), asc(testAttempts.submittedAt));
 
@@ -776,7 +1219,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getEventLeaderboard(eventId: string) {
-    const roundsData = await db.select().from(rounds).where(eq(rounds.eventId, eventId));
+    const roundsData = await this.getScoredRoundsByEvent(eventId);
     const roundIds = roundsData.map(r => r.id);
 
     if (roundIds.length === 0) {
@@ -794,7 +1237,7 @@ export class DatabaseStorage implements IStorage {
       .innerJoin(users, eq(testAttempts.userId, users.id))
       .where(and(
         sql`${testAttempts.roundId} IN (${sql.join(roundIds.map(id => sql`${id}`), sql`, `)})`,
-        eq(testAttempts.status, 'completed')
+        inArray(testAttempts.status, SUBMITTED_ATTEMPT_STATUSES)
       ))
       .groupBy(testAttempts.userId, users.fullName)
       .orderBy(desc(sql`SUM(${testAttempts.totalScore})`), asc(sql`MAX(${testAttempts.submittedAt})`));
@@ -805,12 +1248,13 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  async createRegistrationForm(title: string, description: string, formFields: any[], slug: string): Promise<RegistrationForm> {
+  async createRegistrationForm(title: string, description: string, formFields: RegistrationFormField[], slug: string, upiId: string | null = null): Promise<RegistrationForm> {
     const [form] = await db.insert(registrationForms).values({ 
       title, 
       description, 
       formSlug: slug, 
       formFields,
+      upiId,
       isActive: true 
     }).returning();
     return form;
@@ -841,21 +1285,54 @@ export class DatabaseStorage implements IStorage {
     return form;
   }
 
-  async createRegistration(formId: string, data: Record<string, string>, selectedEvents: string[]): Promise<Registration> {
-    const [registration] = await db.insert(registrations).values({
-      formId,
-      submittedData: data,
-      selectedEvents,
-      paymentStatus: 'pending',
-      participantUserId: null,
-      processedBy: null
-    }).returning();
-    return registration;
+  async getFeeCombos(): Promise<FeeCombo[]> {
+    return await db.select().from(feeCombos).orderBy(asc(feeCombos.createdAt));
+  }
+
+  async getFeeCombo(id: string): Promise<FeeCombo | undefined> {
+    const [combo] = await db.select().from(feeCombos).where(eq(feeCombos.id, id));
+    return combo;
+  }
+
+  async createFeeCombo(combo: InsertFeeCombo): Promise<FeeCombo> {
+    const [created] = await db.insert(feeCombos).values(combo).returning();
+    return created;
+  }
+
+  async updateFeeCombo(id: string, combo: Partial<InsertFeeCombo>): Promise<FeeCombo | undefined> {
+    const [updated] = await db.update(feeCombos).set(combo).where(eq(feeCombos.id, id)).returning();
+    return updated;
+  }
+
+  async deleteFeeCombo(id: string): Promise<void> {
+    await db.delete(feeCombos).where(eq(feeCombos.id, id));
+  }
+
+  // Counts seats and inserts under a lock on the selected events, so a burst of submissions cannot all see the
+  // last seat free. A full event puts the whole registration on the waitlist.
+  async createRegistration(formId: string, data: Record<string, RegistrationFieldValue>, selectedEvents: Event[], teams: Record<string, TeamEntry> | null = null, payment: RegistrationPayment = {}): Promise<{ registration: Registration; fullEvents: Event[] }> {
+    return await db.transaction(async (tx) => {
+      await lockEvents(tx, selectedEvents.map(e => e.id));
+      const counts = await countEventSeats(tx, selectedEvents);
+      const fullEvents = CapacityService.fullEvents(selectedEvents, counts, { teams });
+
+      const [registration] = await tx.insert(registrations).values({
+        formId,
+        submittedData: data,
+        selectedEvents: selectedEvents.map(e => e.id),
+        teams,
+        ...payment,
+        paymentStatus: fullEvents.length > 0 ? 'waitlisted' : 'pending',
+        participantUserId: null,
+        processedBy: null
+      }).returning();
+      return { registration, fullEvents };
+    });
   }
 
   async getRegistrations(): Promise<any[]> {
     const result = await db.select({
-      registration: registrations,
+      registration: registrationSummary,
       form: registrationForms
     })
     .from(registrations)
@@ -866,9 +1343,7 @@ export class DatabaseStorage implements IStorage {
       const participantDetails = this.extractParticipantDetails(r.registration.submittedData, r.form?.formFields || []);
       return {
         ...r.registration,
-        participantName: participantDetails.name,
-        participantEmail: participantDetails.email,
-        participantPhone: participantDetails.phone,
+        ...participantDetails,
         form: r.form
       };
     });
@@ -876,7 +1351,7 @@ export class DatabaseStorage implements IStorage {
 
   async getRegistration(id: string): Promise<any | undefined> {
     const result = await db.select({
-      registration: registrations,
+      registration: registrationSummary,
       form: registrationForms
     })
     .from(registrations)
@@ -889,16 +1364,14 @@ export class DatabaseStorage implements IStorage {
     const participantDetails = this.extractParticipantDetails(r.registration.submittedData, r.form?.formFields || []);
     return {
       ...r.registration,
-      participantName: participantDetails.name,
-      participantEmail: participantDetails.email,
-      participantPhone: participantDetails.phone,
+      ...participantDetails,
       form: r.form
     };
   }
 
   async getRegistrationByUserId(userId: string): Promise<any | undefined> {
     const result = await db.select({
-      registration: registrations,
+      registration: registrationSummary,
       form: registrationForms
     })
     .from(registrations)
@@ -911,39 +1384,50 @@ export class DatabaseStorage implements IStorage {
     const participantDetails = this.extractParticipantDetails(r.registration.submittedData, r.form?.formFields || []);
     return {
       ...r.registration,
-      participantName: participantDetails.name,
-      participantEmail: participantDetails.email,
-      participantPhone: participantDetails.phone,
+      ...participantDetails,
       form: r.form
     };
   }
   
-  private extractParticipantDetails(submittedData: Record<string, string>, formFields: Array<{id: string, label: string, type: string, required: boolean, placeholder?: string}>): { name: string; email: string; phone: string } {
-    let name = 'N/A';
-    let email = 'N/A';
-    let phone = 'N/A';
-    
-    for (const field of formFields) {
-      const value = submittedData[field.id];
-      if (!value) continue;
-      
-      const lowerLabel = field.label.toLowerCase();
-      
-      if (field.type === 'email' || lowerLabel.includes('email')) {
-        email = value;
-      } else if (field.type === 'tel' || lowerLabel.includes('phone') || lowerLabel.includes('mobile') || lowerLabel.includes('contact')) {
-        phone = value;
-      } else if (lowerLabel.includes('name') && !lowerLabel.includes('college') && !lowerLabel.includes('school') && !lowerLabel.includes('institution')) {
-        if (name === 'N/A' || lowerLabel.includes('full')) {
-          name = value;
-        }
-      }
-    }
-    
-    return { name, email, phone };
+  // Name, email, phone, college and roll number from the fields holding those roles, for the registration lists
+  private extractParticipantDetails(submittedData: Record<string, RegistrationFieldValue>, formFields: RegistrationFormField[]) {
+    const details = RegistrationFormService.getParticipantDetails(formFields, submittedData);
+    return {
+      participantName: details.fullName || 'N/A',
+      participantEmail: details.email || 'N/A',
+      participantPhone: details.phone || 'N/A',
+      participantCollege: details.college,
+      participantRollNumber: details.rollNumber,
+    };
   }
 
-  async updateRegistrationStatus(id: string, status: 'pending' | 'paid' | 'declined', participantUserId: string | null, processedBy: string): Promise<Registration> {
+  async getRegistrationByPaymentReference(reference: string): Promise<Registration | undefined> {
+    const [registration] = await db.select().from(registrations)
+      .where(and(
+        eq(registrations.paymentReference, reference),
+        inArray(registrations.paymentStatus, ['pending', 'waitlisted', 'paid'])
+      ))
+      .limit(1);
+    return registration;
+  }
+
+  async getRegistrationReceipt(id: string): Promise<string | null | undefined> {
+    const [row] = await db.select({ receiptImage: registrations.receiptImage })
+      .from(registrations)
+      .where(eq(registrations.id, id));
+    return row?.receiptImage;
+  }
+
+  // Records the money received once; a registration already verified is left as it is
+  async verifyRegistrationPayment(id: string, amountReceived: number, verifiedBy: string): Promise<Registration | undefined> {
+    const [registration] = await db.update(registrations)
+      .set({ amountReceived, paymentVerifiedAt: new Date(), paymentVerifiedBy: verifiedBy })
+      .where(and(eq(registrations.id, id), isNull(registrations.paymentVerifiedAt)))
+      .returning();
+    return registration;
+  }
+
+  async updateRegistrationStatus(id: string, status: RegistrationStatus, participantUserId: string | null, processedBy: string): Promise<Registration> {
     const [registration] = await db.update(registrations).set({
       paymentStatus: status,
       participantUserId,
@@ -953,6 +1437,70 @@ export class DatabaseStorage implements IStorage {
     return registration;
   }
 
+  // Oldest first, the order seats are offered in
+  async getWaitlistedRegistrations(): Promise<any[]> {
+    const result = await db.select({
+      registration: registrationSummary,
+      form: registrationForms
+    })
+    .from(registrations)
+    .leftJoin(registrationForms, eq(registrations.formId, registrationForms.id))
+    .where(eq(registrations.paymentStatus, 'waitlisted'))
+    .orderBy(asc(registrations.submittedAt));
+
+    return result.map(r => ({
+      ...r.registration,
+      ...this.extractParticipantDetails(r.registration.submittedData, r.form?.formFields || []),
+      form: r.form
+    }));
+  }
+
+  // Only moves a registration that is still waitlisted, so two promotions running together cannot both email it
+  async promoteRegistration(id: string): Promise<Registration | undefined> {
+    const [registration] = await db.update(registrations)
+      .set({ paymentStatus: 'pending' })
+      .where(and(eq(registrations.id, id), eq(registrations.paymentStatus, 'waitlisted')))
+      .returning();
+    return registration;
+  }
+
+  async getEventSeatCounts(eventList: Event[]): Promise<Record<string, SeatCount>> {
+    return await countEventSeats(db, eventList);
+  }
+
+  // Enters people straight into events, forming their teams, under the same lock registrations take. Nothing
+  // is written when an event lacks the seats; the full events are returned instead.
+  async enterEvents(eventList: Event[], entries: EventEntry[]): Promise<{ fullEvents: Event[]; teams: Record<string, Team>; participants: Participant[] }> {
+    return await db.transaction(async (tx) => {
+      await lockEvents(tx, eventList.map(e => e.id));
+      const counts = await countEventSeats(tx, eventList);
+      const fullEvents = eventList.filter(event => {
+        const needed = entries
+          .filter(entry => entry.eventId === event.id)
+          .reduce((sum, entry) => sum + entry.userIds.length, 0);
+        return !CapacityService.hasRoom(event, counts[event.id], needed);
+      });
+      if (fullEvents.length > 0) return { fullEvents, teams: {}, participants: [] };
+
+      const entered: Record<string, Team> = {};
+      const created: Participant[] = [];
+      for (const entry of entries) {
+        let teamId: string | null = null;
+        if (entry.teamName) {
+          const [team] = await tx.insert(teams)
+            .values({ eventId: entry.eventId, name: entry.teamName, leaderUserId: entry.userIds[0] })
+            .returning();
+          entered[entry.eventId] = team;
+          teamId = team.id;
+        }
+        created.push(...await tx.insert(participants)
+          .values(entry.userIds.map(userId => ({ userId, eventId: entry.eventId, teamId, status: 'registered' })))
+          .returning());
+      }
+      return { fullEvents, teams: entered, participants: created };
+    });
+  }
+
   async getEventsByIds(eventIds: string[]): Promise<Event[]> {
     if (eventIds.length === 0) return [];
     return await db.select().from(events).where(
@@ -960,10 +1508,35 @@ export class DatabaseStorage implements IStorage {
     );
   }
 
-  async createParticipant(userId: string, eventId: string): Promise<Participant> {
+  async hasEventAttempts(userIds: string[], eventId: string): Promise<boolean> {
+    if (userIds.length === 0) return false;
+    const [attempt] = await db
+      .select({ id: testAttempts.id })
+      .from(testAttempts)
+      .innerJoin(rounds, eq(testAttempts.roundId, rounds.id))
+      .where(and(inArray(testAttempts.userId, userIds), eq(rounds.eventId, eventId)))
+      .limit(1);
+    return !!attempt;
+  }
+
+  // Takes people out of an event along with their event credentials; their accounts are kept
+  async removeParticipants(userIds: string[], eventId: string): Promise<void> {
+    if (userIds.length === 0) return;
+    await db.delete(eventCredentials)
+      .where(and(inArray(eventCredentials.participantUserId, userIds), eq(eventCredentials.eventId, eventId)));
+    await db.delete(participants)
+      .where(and(inArray(participants.userId, userIds), eq(participants.eventId, eventId)));
+  }
+
+  async deleteTeam(id: string): Promise<void> {
+    await db.delete(teams).where(eq(teams.id, id));
+  }
+
+  async createParticipant(userId: string, eventId: string, teamId: string | null = null): Promise<Participant> {
     const [participant] = await db.insert(participants).values({
       userId,
       eventId,
+      teamId,
       status: 'registered'
     }).returning();
     return participant;
@@ -1175,6 +1748,51 @@ export class DatabaseStorage implements IStorage {
     return result[0]?.count || 0;
   }
 
+  async updateEventCredentialSession(credentialId: string, session: Partial<Pick<EventCredential, 'activeSessionId' | 'activeClientId' | 'activeDeviceFingerprint' | 'sessionStartedAt' | 'approvedClientId'>>): Promise<EventCredential | undefined> {
+    const [credential] = await db.update(eventCredentials)
+      .set(session)
+      .where(eq(eventCredentials.id, credentialId))
+      .returning();
+    return credential;
+  }
+
+  async createSessionConflict(insertConflict: InsertSessionConflict): Promise<SessionConflict> {
+    const [conflict] = await db.insert(sessionConflicts).values(insertConflict).returning();
+    return conflict;
+  }
+
+  async getSessionConflict(id: string): Promise<SessionConflict | undefined> {
+    const [conflict] = await db.select().from(sessionConflicts).where(eq(sessionConflicts.id, id));
+    return conflict;
+  }
+
+  async getOpenSessionConflict(credentialId: string, newClientId: string | null): Promise<SessionConflict | undefined> {
+    const [conflict] = await db.select().from(sessionConflicts)
+      .where(and(
+        eq(sessionConflicts.credentialId, credentialId),
+        eq(sessionConflicts.status, 'open'),
+        newClientId ? eq(sessionConflicts.newClientId, newClientId) : isNull(sessionConflicts.newClientId)
+      ));
+    return conflict;
+  }
+
+  async getSessionConflictsByEvent(eventId: string): Promise<Array<SessionConflict & { participant: User }>> {
+    const rows = await db.select({ conflict: sessionConflicts, participant: users })
+      .from(sessionConflicts)
+      .innerJoin(users, eq(sessionConflicts.participantUserId, users.id))
+      .where(eq(sessionConflicts.eventId, eventId))
+      .orderBy(desc(sessionConflicts.updatedAt));
+    return rows.map(row => ({ ...row.conflict, participant: row.participant }));
+  }
+
+  async updateSessionConflict(id: string, updates: Partial<SessionConflict>): Promise<SessionConflict | undefined> {
+    const [conflict] = await db.update(sessionConflicts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(sessionConflicts.id, id))
+      .returning();
+    return conflict;
+  }
+
   async createAuditLog(insertLog: InsertAuditLog): Promise<AuditLog> {
     const [log] = await db.insert(auditLogs).values(insertLog).returning();
     return log;
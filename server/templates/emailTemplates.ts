@@ -2,7 +2,8 @@ export function generateRegistrationApprovedEmail(
   name: string,
   eventName: string,
   username: string,
-  password: string
+  password: string,
+  teamName?: string | null
 ): string {
   return `
     <!DOCTYPE html>
@@ -35,7 +36,7 @@ export function generateRegistrationApprovedEmail(
                     <h2 style="margin: 0 0 16px; color: #111827; font-size: 24px;">Hello ${name}!</h2>
                     
                     <p style="margin: 0 0 16px; color: #4b5563; font-size: 16px; line-height: 1.6;">
-                      Congratulations! Your registration for <strong>${eventName}</strong> has been approved.
+                      Congratulations! Your registration for <strong>${eventName}</strong> has been approved.${teamName ? ` You are on team <strong>${teamName}</strong>.` : ''}
                     </p>
                     
                     <p style="margin: 0 0 24px; color: #4b5563; font-size: 16px; line-height: 1.6;">
@@ -100,7 +101,8 @@ export function generateCredentialsEmail(
   name: string,
   eventName: string,
   username: string,
-  password: string
+  password: string,
+  teamName?: string | null
 ): string {
   return `
     <!DOCTYPE html>
@@ -131,7 +133,7 @@ export function generateCredentialsEmail(
                     <h2 style="margin: 0 0 16px; color: #111827; font-size: 24px;">Welcome ${name}!</h2>
                     
                     <p style="margin: 0 0 16px; color: #4b5563; font-size: 16px; line-height: 1.6;">
-                      Your registration for <strong>${eventName}</strong> has been successfully completed.
+                      Your registration for <strong>${eventName}</strong> has been successfully completed.${teamName ? ` You are on team <strong>${teamName}</strong>.` : ''}
                     </p>
                     
                     <p style="margin: 0 0 24px; color: #4b5563; font-size: 16px; line-height: 1.6;">
@@ -394,6 +396,68 @@ export function generateResultPublishedEmail(
   `;
 }
 
+export function generateWaitlistPromotedEmail(
+  name: string,
+  eventNames: string[]
+): string {
+  const events = eventNames.join(', ');
+  return `
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <meta charset="UTF-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Off the Waitlist - ${events}</title>
+      </head>
+      <body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f3f4f6;">
+        <table role="presentation" style="width: 100%; border-collapse: collapse;">
+          <tr>
+            <td align="center" style="padding: 40px 0;">
+              <table role="presentation" style="width: 600px; max-width: 100%; background: white; border-radius: 12px; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+                <tr>
+                  <td style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 40px 30px; text-align: center; border-radius: 12px 12px 0 0;">
+                    <h1 style="margin: 0; color: white; font-size: 28px; font-weight: 700;">BootFeet 2K26</h1>
+                    <p style="margin: 10px 0 0; color: rgba(255,255,255,0.9); font-size: 14px;">Symposium Management Platform</p>
+                  </td>
+                </tr>
+                
+                <tr>
+                  <td style="padding: 40px 30px;">
+                    <div style="background: #f0fdf4; border-left: 4px solid #22c55e; padding: 16px; margin-bottom: 30px; border-radius: 4px;">
+                      <p style="margin: 0; color: #166534; font-weight: 600; font-size: 16px;">🎟️ A Seat Opened Up</p>
+                    </div>
+                    
+                    <h2 style="margin: 0 0 16px; color: #111827; font-size: 24px;">Hello ${name}!</h2>
+                    
+                    <p style="margin: 0 0 16px; color: #4b5563; font-size: 16px; line-height: 1.6;">
+                      Good news! Your registration for <strong>${events}</strong> is off the waitlist.
+                    </p>
+                    
+                    <p style="margin: 0 0 24px; color: #4b5563; font-size: 16px; line-height: 1.6;">
+                      It is now with the registration committee for approval. You will receive your login credentials by email once it is approved.
+                    </p>
+                  </td>
+                </tr>
+                
+                <tr>
+                  <td style="padding: 30px; background: #f9fafb; border-radius: 0 0 12px 12px; border-top: 1px solid #e5e7eb;">
+                    <p style="margin: 0 0 8px; color: #6b7280; font-size: 14px; text-align: center;">
+                      Need help? Contact our support team
+                    </p>
+                    <p style="margin: 0; color: #9ca3af; font-size: 12px; text-align: center;">
+                      © 2026 BootFeet. All rights reserved.
+                    </p>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+        </table>
+      </body>
+    </html>
+  `;
+}
+
 export function generateAdminNotificationEmail(
   emailType: string,
   recipientEmail: string,
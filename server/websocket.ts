@@ -1,10 +1,24 @@
-import { Server } from 'socket.io';
+import { Server, type Socket } from 'socket.io';
 import { Server as HTTPServer } from 'http';
 import jwt from 'jsonwebtoken';
 import { storage } from './storage';
+import { WebSocketService } from './services/websocketService';
+import { AttemptService } from './services/attemptService';
+import type { Heartbeat } from './services/heartbeatService';
+import { SessionService } from './services/sessionService';
 
 const JWT_SECRET = process.env.JWT_SECRET || "symposium-secret-key-change-in-production";
 
+// The network and browser a socket came from, for the attempt's connectivity timeline
+function describeSocket(socket: Socket): Pick<Heartbeat, 'ip' | 'userAgent' | 'transport'> {
+  const headers = socket.handshake.headers;
+  return {
+    ip: headers['x-forwarded-for']?.toString().split(',')[0] || headers['x-real-ip']?.toString() || socket.handshake.address || null,
+    userAgent: headers['user-agent'] || null,
+    transport: 'socket',
+  };
+}
+
 export function setupWebSocket(httpServer: HTTPServer) {
   const io = new Server(httpServer, {
     cors: {
@@ -38,6 +52,12 @@ export function setupWebSocket(httpServer: HTTPServer) {
         if (!user) {
           return next(new Error('User not found'));
         }
+        if (decoded.eventId && user.role === 'participant') {
+          const credential = await storage.getEventCredentialByUserAndEvent(user.id, decoded.eventId);
+          if (!SessionService.isCurrentSession(credential, decoded.sid)) {
+            return next(new Error('Session replaced'));
+          }
+        }
         socket.data.user = user;
         next();
       }
@@ -66,6 +86,11 @@ export function setupWebSocket(httpServer: HTTPServer) {
       }
     } else if (user.role === 'participant') {
       socket.join(`participant:${user.id}`);
+      if (!isTestUser) {
+        AttemptService.recordPresence(user.id, { ...describeSocket(socket), at: new Date(), presence: 'connected' }).catch((error) => {
+          console.error('WebSocket: presence update error:', error);
+        });
+      }
     } else if (user.role === 'registration_committee') {
       socket.join('registration_committee');
     }
@@ -152,8 +177,39 @@ export function setupWebSocket(httpServer: HTTPServer) {
       }
     });
 
+    // Test page heartbeat; the page falls back to POST /api/attempts/:attemptId/heartbeat without an ack
+    socket.on('heartbeat', async (data, ack) => {
+      const reply = typeof ack === 'function' ? ack : () => {};
+      if (user.role !== 'participant' || isTestUser || !data?.attemptId) {
+        return reply({ ok: false });
+      }
+
+      try {
+        const attempt = await storage.getTestAttempt(data.attemptId);
+        if (!attempt || attempt.userId !== user.id || attempt.status !== 'in_progress') {
+          return reply({ ok: false });
+        }
+        if (!(await AttemptService.claimForClient(attempt, { clientId: data.clientId || null, deviceFingerprint: data.deviceFingerprint || null }))) {
+          return reply({ ok: false, inUse: true });
+        }
+
+        await AttemptService.recordHeartbeat(attempt, { ...describeSocket(socket), at: new Date(), clientTime: data.clientTime });
+        reply({ ok: true, serverTime: new Date() });
+      } catch (error) {
+        console.error('WebSocket: heartbeat error:', error);
+        reply({ ok: false });
+      }
+    });
+
     socket.on('disconnect', () => {
       console.log(`WebSocket: User disconnected: ${user.username}`);
+
+      // Only the participant's last open browser going away counts as a disconnect
+      if (user.role === 'participant' && !isTestUser && !WebSocketService.isUserConnected(user.id)) {
+        AttemptService.recordPresence(user.id, { ...describeSocket(socket), at: new Date(), presence: 'disconnected' }).catch((error) => {
+          console.error('WebSocket: presence update error:', error);
+        });
+      }
     });
   });
 
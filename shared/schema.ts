@@ -1,18 +1,20 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
 // Users table - supports super_admin, event_admin, participant, and registration_committee roles
-export const users: any = pgTable("users", {
+export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   email: text("email").notNull().unique(),
   fullName: text("full_name").notNull(),
   phone: text("phone"),
+  college: text("college"), // Participants: from the registration form's college field
+  rollNumber: text("roll_number"),
   role: varchar("role", { enum: ['super_admin', 'event_admin', 'participant', 'registration_committee'] }).notNull(),
-  createdBy: varchar("created_by").references(() => users.id, { onDelete: 'set null' }),
+  createdBy: varchar("created_by").references((): AnyPgColumn => users.id, { onDelete: 'set null' }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -27,7 +29,17 @@ export const events = pgTable("events", {
   startDate: timestamp("start_date"),
   endDate: timestamp("end_date"),
   status: text("status").notNull().default('draft'), // draft, active, completed
-  createdBy: varchar("created_by").references(() => users.id, { onDelete: 'set null' }),
+  
+  // Team events - participants register and are ranked in teams of minTeamSize to maxTeamSize members
+  minTeamSize: integer("min_team_size").notNull().default(1),
+  maxTeamSize: integer("max_team_size").notNull().default(1), // 1 = individual event
+  teamScoring: varchar("team_scoring", { enum: ['shared', 'sum', 'average'] }).notNull().default('shared'), // shared: one attempt per team per round; sum/average: of every member's own attempts
+  
+  // Seats - participants plus pending registrations may not go past this; later registrations are waitlisted
+  capacity: integer("capacity"), // null = unlimited
+  fee: integer("fee").notNull().default(0), // Registration fee in whole rupees; 0 = free
+  
+  createdBy: varchar("created_by").references((): AnyPgColumn => users.id, { onDelete: 'set null' }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -40,10 +52,12 @@ export const eventAdmins = pgTable("event_admins", {
   assignedAt: timestamp("assigned_at").defaultNow().notNull(),
 });
 
-// Event Rules - proctoring and test rules per event
-export const eventRules = pgTable("event_rules", {
+// Proctoring Profiles - named rule sets (e.g. "Strict lab", "Open book") defined by super admins
+// and referenced by events and rounds
+export const proctoringProfiles = pgTable("proctoring_profiles", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  eventId: varchar("event_id").references(() => events.id, { onDelete: 'cascade' }).notNull().unique(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
   noRefresh: boolean("no_refresh").notNull().default(true),
   noTabSwitch: boolean("no_tab_switch").notNull().default(true),
   forceFullscreen: boolean("force_fullscreen").notNull().default(true),
@@ -51,6 +65,24 @@ export const eventRules = pgTable("event_rules", {
   autoSubmitOnViolation: boolean("auto_submit_on_violation").notNull().default(true),
   maxTabSwitchWarnings: integer("max_tab_switch_warnings").notNull().default(2),
   additionalRules: text("additional_rules"),
+  createdBy: varchar("created_by").references((): AnyPgColumn => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Event Rules - proctoring and test rules per event
+// Proctoring columns left null are inherited from the event's profile, then the defaults
+export const eventRules = pgTable("event_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").references(() => events.id, { onDelete: 'cascade' }).notNull().unique(),
+  proctoringProfileId: varchar("proctoring_profile_id").references(() => proctoringProfiles.id, { onDelete: 'set null' }),
+  noRefresh: boolean("no_refresh"),
+  noTabSwitch: boolean("no_tab_switch"),
+  forceFullscreen: boolean("force_fullscreen"),
+  disableShortcuts: boolean("disable_shortcuts"),
+  autoSubmitOnViolation: boolean("auto_submit_on_violation"),
+  maxTabSwitchWarnings: integer("max_tab_switch_warnings"),
+  additionalRules: text("additional_rules"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -69,6 +101,8 @@ export const rounds = pgTable("rounds", {
   startedAt: timestamp("started_at"), // When admin starts the round
   endedAt: timestamp("ended_at"), // When admin ends the round
   resultsPublished: boolean("results_published").notNull().default(false), // Admin can publish results
+  roundType: text("round_type").notNull().default('standard'), // standard, practice - practice rounds allow any number of attempts and never count towards results
+  sections: jsonb("sections").$type<RoundSection[]>(), // Ordered timed sections; null = one untimed block using duration
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -77,13 +111,26 @@ export const rounds = pgTable("rounds", {
 export const roundRules = pgTable("round_rules", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   roundId: varchar("round_id").references(() => rounds.id, { onDelete: 'cascade' }).notNull().unique(),
-  noRefresh: boolean("no_refresh").notNull().default(true),
-  noTabSwitch: boolean("no_tab_switch").notNull().default(true),
-  forceFullscreen: boolean("force_fullscreen").notNull().default(true),
-  disableShortcuts: boolean("disable_shortcuts").notNull().default(true),
-  autoSubmitOnViolation: boolean("auto_submit_on_violation").notNull().default(true),
-  maxTabSwitchWarnings: integer("max_tab_switch_warnings").notNull().default(2),
+  // Proctoring columns set here are explicit round overrides; null ones come from the round's
+  // profile, then the event's rules and profile, then the defaults
+  proctoringProfileId: varchar("proctoring_profile_id").references(() => proctoringProfiles.id, { onDelete: 'set null' }),
+  noRefresh: boolean("no_refresh"),
+  noTabSwitch: boolean("no_tab_switch"),
+  forceFullscreen: boolean("force_fullscreen"),
+  disableShortcuts: boolean("disable_shortcuts"),
+  autoSubmitOnViolation: boolean("auto_submit_on_violation"),
+  maxTabSwitchWarnings: integer("max_tab_switch_warnings"),
   additionalRules: text("additional_rules"),
+  // Scoring
+  negativeMarking: boolean("negative_marking").notNull().default(false),
+  negativeMarks: integer("negative_marks").notNull().default(1), // Deducted per wrong objective answer when negativeMarking is on
+  multiSelectScoring: text("multi_select_scoring").notNull().default('all_or_nothing'), // all_or_nothing, proportional
+  // Randomization - seeded per attempt so a reload shows the same order
+  shuffleQuestions: boolean("shuffle_questions").notNull().default(false),
+  shuffleOptions: boolean("shuffle_options").notNull().default(false),
+  // Question pool - draw this many questions per attempt (null = everyone gets every question)
+  questionPoolSize: integer("question_pool_size"),
+  poolStratifyBy: text("pool_stratify_by").notNull().default('none'), // none, tag, difficulty
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -92,7 +139,7 @@ export const roundRules = pgTable("round_rules", {
 export const questions = pgTable("questions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   roundId: varchar("round_id").references(() => rounds.id, { onDelete: 'cascade' }).notNull(),
-  questionType: text("question_type").notNull(), // multiple_choice, coding, descriptive
+  questionType: text("question_type").notNull(), // multiple_choice, multiple_select, true_false, short_answer, coding
   questionText: text("question_text").notNull(),
   questionNumber: integer("question_number").notNull(),
   points: integer("points").notNull().default(1),
@@ -100,22 +147,49 @@ export const questions = pgTable("questions", {
   // For multiple choice questions
   options: jsonb("options"), // Array of options
   correctAnswer: text("correct_answer"), // For multiple choice
+  correctAnswers: jsonb("correct_answers").$type<string[]>(), // For multiple select - every option that must be ticked
   
   // For coding/descriptive questions
   expectedOutput: text("expected_output"),
   testCases: jsonb("test_cases"), // For coding questions
+  timeLimitMs: integer("time_limit_ms"), // Per test case run limit for coding questions
+  memoryLimitMb: integer("memory_limit_mb"), // Memory cap for coding questions
+  
+  // Per-question scoring overrides (null = use the round's scoring rules)
+  negativeMarks: integer("negative_marks"),
+  partialCredit: boolean("partial_credit"),
+  
+  // Pool metadata used to stratify random draws
+  tag: text("tag"),
+  difficulty: text("difficulty"), // easy, medium, hard
+  
+  sectionId: text("section_id"), // Id of one of the round's sections (null or unknown = first section)
+  explanation: text("explanation"), // Shown with the correct answer once the participant can see results
   
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Teams - participants entering a team event together; names are unique within an event
+export const teams = pgTable("teams", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventId: varchar("event_id").references(() => events.id, { onDelete: 'cascade' }).notNull(),
+  name: text("name").notNull(),
+  leaderUserId: varchar("leader_user_id").references(() => users.id, { onDelete: 'set null' }), // The member who registered the team
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("teams_event_name_unique").on(table.eventId, sql`lower(${table.name})`),
+]);
+
 // Participants - users registered for events
 export const participants = pgTable("participants", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   eventId: varchar("event_id").references(() => events.id, { onDelete: 'cascade' }).notNull(),
   userId: varchar("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  teamId: varchar("team_id").references(() => teams.id, { onDelete: 'set null' }), // Team events only
   registeredAt: timestamp("registered_at").defaultNow().notNull(),
   status: text("status").notNull().default('registered'), // registered, completed, disqualified
+  extraTimeMinutes: integer("extra_time_minutes").notNull().default(0), // Accommodation added to every attempt this participant starts
 });
 
 // Test Attempts - tracking participant test sessions
@@ -123,21 +197,45 @@ export const testAttempts = pgTable("test_attempts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   roundId: varchar("round_id").references(() => rounds.id, { onDelete: 'cascade' }).notNull(),
   userId: varchar("user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  teamId: varchar("team_id").references(() => teams.id, { onDelete: 'set null' }), // Team the attempt counts for; with shared team scoring it is the team's only attempt at the round
+  sharedTeamId: varchar("shared_team_id").references(() => teams.id, { onDelete: 'set null' }), // Set only on a shared-scoring team's attempt, which the unique index below keeps to one per round
   startedAt: timestamp("started_at").defaultNow().notNull(),
   submittedAt: timestamp("submitted_at"),
   status: text("status").notNull().default('in_progress'), // in_progress, completed, auto_submitted
+  questionIds: jsonb("question_ids").$type<string[]>(), // Questions drawn from the pool for this attempt (null = all round questions)
+  
+  // Accommodations
+  extraMinutes: integer("extra_minutes").notNull().default(0), // Added to the round duration for this attempt
+  clientId: text("client_id"), // Browser the attempt is bound to; other machines are refused until an admin allows a resume
+  deviceFingerprint: text("device_fingerprint"), // Machine the attempt was last opened on; evidence only, clientId decides
+  resumeAllowedAt: timestamp("resume_allowed_at"), // Set by an admin so the next machine to open the attempt takes it over
+  
+  // Sectioned rounds - closed sections cannot be reopened by the participant
+  currentSection: integer("current_section").notNull().default(0), // Index into round.sections
+  sectionStartedAt: timestamp("section_started_at"), // When the current section opened (null = startedAt)
+  
+  // Live proctoring
+  lastSeenAt: timestamp("last_seen_at"), // Last time the participant's browser was heard from
+  clockDriftMs: integer("clock_drift_ms"), // Server time minus the browser's clock at the last heartbeat
+  lastClientIp: text("last_client_ip"),
+  lastUserAgent: text("last_user_agent"),
+  connectivityLog: jsonb("connectivity_log").$type<ConnectivityEvent[]>(), // Connects, disconnects, heartbeat gaps and network changes
+  pausedAt: timestamp("paused_at"), // Set while a proctor has paused the attempt; the clock stops until it is resumed
   
   // Proctoring violations
   tabSwitchCount: integer("tab_switch_count").notNull().default(0),
   refreshAttemptCount: integer("refresh_attempt_count").notNull().default(0),
-  violationLogs: jsonb("violation_logs"), // Array of violation timestamps and types
+  violationLogs: jsonb("violation_logs"), // Array of violation timestamps and types, each with the admin's review once decided
   
   // Scoring
-  totalScore: integer("total_score").default(0),
+  totalScore: integer("total_score").default(0), // Net of penaltyPoints
+  penaltyPoints: integer("penalty_points").notNull().default(0), // Deducted for confirmed violations
   maxScore: integer("max_score"),
   
   completedAt: timestamp("completed_at"),
-});
+}, (table) => [
+  uniqueIndex("test_attempts_shared_team_round_unique").on(table.sharedTeamId, table.roundId),
+]);
 
 // Answers - participant answers to questions
 export const answers = pgTable("answers", {
@@ -145,10 +243,21 @@ export const answers = pgTable("answers", {
   attemptId: varchar("attempt_id").references(() => testAttempts.id, { onDelete: 'cascade' }).notNull(),
   questionId: varchar("question_id").references(() => questions.id, { onDelete: 'cascade' }).notNull(),
   answer: text("answer").notNull(),
+  language: text("language"), // Coding answers: python, c, cpp, javascript, java
   isCorrect: boolean("is_correct"),
   pointsAwarded: integer("points_awarded").default(0),
+  testResults: jsonb("test_results").$type<TestCaseResult[]>(), // Per test case outcome from auto-grading coding answers
+  feedback: text("feedback"), // Grader's comments from manual grading
+  gradedBy: varchar("graded_by").references(() => users.id, { onDelete: 'set null' }), // Set when an admin grades the answer manually
+  gradedAt: timestamp("graded_at"),
+  clientSeq: integer("client_seq"), // Sequence number of the last write from the test page; older or repeated writes are ignored
+  inputStats: jsonb("input_stats").$type<AnswerInputStats>(), // Paste and typing telemetry from the test page (short answer and coding)
+  version: integer("version").notNull().default(1), // Bumped every time a write changes the answer
   answeredAt: timestamp("answered_at").defaultNow().notNull(),
-});
+}, (table) => [
+  // One answer per question per attempt; the first write for a question upserts against it
+  uniqueIndex("answers_attempt_question_unique").on(table.attemptId, table.questionId),
+]);
 
 // Reports - event-wise and symposium-wide reports
 // Note: generatedBy uses onDelete: 'set null' to preserve report history even if generator is deleted
@@ -169,24 +278,49 @@ export const registrationForms = pgTable("registration_forms", {
   title: varchar("title").notNull(),
   description: text("description"),
   formSlug: varchar("form_slug").unique().notNull(),
-  formFields: jsonb("form_fields").notNull().$type<Array<{id: string, label: string, type: 'text' | 'email' | 'tel' | 'number', required: boolean, placeholder?: string}>>(),
+  formFields: jsonb("form_fields").notNull().$type<Array<RegistrationFormField>>(),
   allowedCategories: jsonb("allowed_categories").notNull().default(sql`'["technical", "non_technical"]'::jsonb`).$type<Array<'technical' | 'non_technical'>>(),
+  upiId: varchar("upi_id"), // Where registrants pay their fees
   isActive: boolean("is_active").default(true).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Fee Combos - a set price for registering for all of the listed events together
+export const feeCombos = pgTable("fee_combos", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  eventIds: jsonb("event_ids").notNull().$type<Array<string>>(),
+  amount: integer("amount").notNull(), // Whole rupees
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 // Registrations - submissions from public registration forms
 export const registrations = pgTable("registrations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   formId: varchar("form_id").references(() => registrationForms.id, { onDelete: 'cascade' }).notNull(),
-  submittedData: jsonb("submitted_data").notNull().$type<Record<string, string>>(),
+  submittedData: jsonb("submitted_data").notNull().$type<Record<string, RegistrationFieldValue>>(), // Keyed by form field id
   selectedEvents: jsonb("selected_events").notNull().$type<Array<string>>(),
-  paymentStatus: varchar("payment_status", { enum: ['pending', 'paid', 'declined'] }).default('pending').notNull(),
+  teams: jsonb("teams").$type<Record<string, TeamEntry>>(), // Team events: event id → team name and the registrant's teammates
+  paymentStatus: varchar("payment_status", { enum: ['pending', 'paid', 'declined', 'waitlisted', 'withdrawn'] }).default('pending').notNull(), // waitlisted: an event was full on submission; promoted to pending when seats free up
   participantUserId: varchar("participant_user_id").references(() => users.id, { onDelete: 'set null' }),
   submittedAt: timestamp("submitted_at").defaultNow().notNull(),
   processedAt: timestamp("processed_at"),
   processedBy: varchar("processed_by").references(() => users.id, { onDelete: 'set null' }),
-});
+  
+  // Fees - quoted on submission, so later fee changes do not affect it
+  feeAmount: integer("fee_amount").notNull().default(0),
+  feeBreakdown: jsonb("fee_breakdown").$type<Record<string, number>>(), // Event id → rupees; a combo's price is shared across its events
+  feeComboId: varchar("fee_combo_id").references(() => feeCombos.id, { onDelete: 'set null' }),
+  paymentReference: varchar("payment_reference"), // UPI transaction id / UTR given by the registrant
+  receiptImage: text("receipt_image"), // Data URL of the uploaded payment screenshot
+  amountReceived: integer("amount_received"), // Set once the payment is verified
+  paymentVerifiedAt: timestamp("payment_verified_at"),
+  paymentVerifiedBy: varchar("payment_verified_by").references(() => users.id, { onDelete: 'set null' }),
+}, (table) => [
+  // References are stored normalized, so one transaction id backs at most one active registration
+  uniqueIndex("registrations_active_payment_reference_unique").on(table.paymentReference)
+    .where(sql`${table.paymentStatus} in ('pending', 'waitlisted', 'paid')`),
+]);
 
 // Event Credentials - event-specific credentials for participants
 export const eventCredentials = pgTable("event_credentials", {
@@ -198,9 +332,39 @@ export const eventCredentials = pgTable("event_credentials", {
   testEnabled: boolean("test_enabled").notNull().default(false),
   enabledAt: timestamp("enabled_at"),
   enabledBy: varchar("enabled_by").references(() => users.id, { onDelete: 'set null' }),
+  
+  // Session binding - one signed-in machine per credential
+  activeSessionId: varchar("active_session_id"), // Tokens carrying another session id are refused
+  activeClientId: text("active_client_id"), // Browser install (its stored client id) that holds the session
+  activeDeviceFingerprint: text("active_device_fingerprint"), // Evidence for conflict review only; identical lab machines share it
+  sessionStartedAt: timestamp("session_started_at"),
+  approvedClientId: text("approved_client_id"), // Browser install an admin has allowed to take over mid-test
+  
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Session Conflicts - logins for a credential from a machine other than the signed-in one
+export const sessionConflicts = pgTable("session_conflicts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  credentialId: varchar("credential_id").references(() => eventCredentials.id, { onDelete: 'cascade' }).notNull(),
+  eventId: varchar("event_id").references(() => events.id, { onDelete: 'cascade' }).notNull(),
+  participantUserId: varchar("participant_user_id").references(() => users.id, { onDelete: 'cascade' }).notNull(),
+  previousClientId: text("previous_client_id"),
+  newClientId: text("new_client_id"),
+  previousFingerprint: text("previous_fingerprint"),
+  newFingerprint: text("new_fingerprint"),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  outcome: text("outcome").notNull(), // blocked (a test was in progress), replaced (the old session was signed out)
+  status: text("status").notNull().default('open'), // open, approved, dismissed
+  occurrences: integer("occurrences").notNull().default(1), // Repeated blocked logins from the same machine
+  resolvedBy: varchar("resolved_by").references(() => users.id, { onDelete: 'set null' }),
+  resolvedAt: timestamp("resolved_at"),
+  resolutionNote: text("resolution_note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Audit Logs - track super admin override actions
 export const auditLogs = pgTable("audit_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -229,6 +393,12 @@ export const emailLogs = pgTable("email_logs", {
   metadata: jsonb("metadata"),
 });
 
+// Data migrations already run by `npm run db:push` (server/migrate.ts)
+export const dataMigrations = pgTable("data_migrations", {
+  id: varchar("id").primaryKey(),
+  appliedAt: timestamp("applied_at").notNull().defaultNow(),
+});
+
 // Relations
 export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
   admin: one(users, {
@@ -249,13 +419,27 @@ export const insertEventSchema = createInsertSchema(events).omit({
   updatedAt: true,
 });
 
+export const insertProctoringProfileSchema = createInsertSchema(proctoringProfiles).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertEventRulesSchema = createInsertSchema(eventRules).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
-export const insertRoundSchema = createInsertSchema(rounds).omit({
+export const roundSectionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1),
+  durationMinutes: z.number().int().positive(),
+});
+
+export const insertRoundSchema = createInsertSchema(rounds, {
+  sections: z.array(roundSectionSchema).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
@@ -267,24 +451,70 @@ export const insertRoundRulesSchema = createInsertSchema(roundRules).omit({
   updatedAt: true,
 });
 
-export const insertQuestionSchema = createInsertSchema(questions).omit({
+export const insertQuestionSchema = createInsertSchema(questions, {
+  correctAnswers: z.array(z.string()).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertTeamSchema = createInsertSchema(teams).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertParticipantSchema = createInsertSchema(participants).omit({
   id: true,
   registeredAt: true,
 });
 
-export const insertTestAttemptSchema = createInsertSchema(testAttempts).omit({
+export const connectivityEventSchema = z.object({
+  type: z.enum(['gap', 'client_changed', 'connected', 'disconnected']),
+  at: z.string(),
+  until: z.string().optional(), // End of a gap
+  seconds: z.number().optional(), // Length of a gap
+  ip: z.string().nullable().optional(),
+  userAgent: z.string().nullable().optional(),
+  transport: z.enum(['socket', 'http']).optional(),
+});
+
+export const insertTestAttemptSchema = createInsertSchema(testAttempts, {
+  questionIds: z.array(z.string()).nullable().optional(),
+  connectivityLog: z.array(connectivityEventSchema).nullable().optional(),
+}).omit({
   id: true,
   startedAt: true,
   completedAt: true,
 });
 
-export const insertAnswerSchema = createInsertSchema(answers).omit({
+export const testCaseResultSchema = z.object({
+  index: z.number(),
+  passed: z.boolean(),
+  status: z.string(),
+  timeMs: z.number(),
+  hidden: z.boolean(),
+  stdout: z.string().optional(),
+  stderr: z.string().optional(),
+});
+
+// Counters only ever grow while the participant works on the question; times are ISO strings from the browser
+export const answerInputStatsSchema = z.object({
+  pasteCount: z.number().int().nonnegative(),
+  pastedChars: z.number().int().nonnegative(),
+  largestPaste: z.number().int().nonnegative(),
+  typedChars: z.number().int().nonnegative(), // Characters inserted by typing
+  deletedChars: z.number().int().nonnegative(),
+  burstCount: z.number().int().nonnegative(), // Runs of typing without a pause of two seconds or more
+  longestBurstChars: z.number().int().nonnegative(),
+  firstInputAt: z.string().nullable(),
+  lastInputAt: z.string().nullable(),
+});
+
+export const insertAnswerSchema = createInsertSchema(answers, {
+  testResults: z.array(testCaseResultSchema).nullable().optional(),
+  inputStats: answerInputStatsSchema.nullable().optional(),
+}).omit({
   id: true,
   answeredAt: true,
 });
@@ -294,12 +524,91 @@ export const insertReportSchema = createInsertSchema(reports).omit({
   createdAt: true,
 });
 
-export const insertRegistrationFormSchema = createInsertSchema(registrationForms).omit({
+export const REGISTRATION_FIELD_TYPES = [
+  'text',
+  'email',
+  'tel',
+  'number',
+  'textarea',
+  'select',
+  'radio',
+  'checkbox_group',
+  'date',
+  'consent',
+] as const;
+
+// Field types answered by picking from the field's options
+export const REGISTRATION_CHOICE_FIELD_TYPES = ['select', 'radio', 'checkbox_group'] as const;
+
+// What a field means to the system. Approval reads the participant's name, email and so on from the
+// fields with these roles; each role can be on one field of a form.
+export const REGISTRATION_FIELD_ROLES = ['full_name', 'email', 'phone', 'college', 'roll_number'] as const;
+
+// Show a field only when an earlier field has (equals), lacks (not_equals) or has any (is_filled) value.
+// For checkbox groups equals means the option is among those ticked.
+export const registrationFieldConditionSchema = z.object({
+  fieldId: z.string().min(1),
+  operator: z.enum(['equals', 'not_equals', 'is_filled']),
+  value: z.string().optional(),
+});
+
+// min and max bound the value of number fields, the length of text fields and how many options of a
+// checkbox group are ticked. minDate and maxDate are YYYY-MM-DD.
+export const registrationFieldValidationSchema = z.object({
+  pattern: z.string().optional(),
+  patternMessage: z.string().optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  minDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  maxDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+export const registrationFormFieldSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().trim().min(1),
+  type: z.enum(REGISTRATION_FIELD_TYPES),
+  required: z.boolean(),
+  placeholder: z.string().optional(),
+  helpText: z.string().optional(),
+  options: z.array(z.string().trim().min(1)).optional(), // select, radio and checkbox_group only
+  validation: registrationFieldValidationSchema.optional(),
+  showIf: registrationFieldConditionSchema.optional(),
+  role: z.enum(REGISTRATION_FIELD_ROLES).optional(),
+});
+
+export const insertRegistrationFormSchema = createInsertSchema(registrationForms, {
+  formFields: z.array(registrationFormFieldSchema),
+}).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertRegistrationSchema = createInsertSchema(registrations).omit({
+// A teammate named on a registration; their account is created, or found by email, on approval
+export const teamMemberEntrySchema = z.object({
+  fullName: z.string().trim().min(1).max(100),
+  email: z.string().trim().email(),
+  phone: z.string().trim().optional(),
+});
+
+export const teamEntrySchema = z.object({
+  name: z.string().trim().min(1).max(60),
+  members: z.array(teamMemberEntrySchema), // Everyone except the registrant, who leads the team
+});
+
+export const insertFeeComboSchema = createInsertSchema(feeCombos, {
+  name: z.string().trim().min(1).max(100),
+  eventIds: z.array(z.string()).min(2),
+  amount: z.number().int().min(0),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRegistrationSchema = createInsertSchema(registrations, {
+  submittedData: z.record(z.union([z.string(), z.array(z.string())])),
+  teams: z.record(teamEntrySchema).nullable().optional(),
+  feeBreakdown: z.record(z.number()).nullable().optional(),
+}).omit({
   id: true,
   submittedAt: true,
   processedAt: true,
@@ -310,6 +619,12 @@ export const insertEventCredentialSchema = createInsertSchema(eventCredentials).
   createdAt: true,
 });
 
+export const insertSessionConflictSchema = createInsertSchema(sessionConflicts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({
   id: true,
   timestamp: true,
@@ -329,11 +644,15 @@ export type InsertEvent = z.infer<typeof insertEventSchema>;
 
 export type EventAdmin = typeof eventAdmins.$inferSelect;
 
+export type ProctoringProfile = typeof proctoringProfiles.$inferSelect;
+export type InsertProctoringProfile = z.infer<typeof insertProctoringProfileSchema>;
+
 export type EventRules = typeof eventRules.$inferSelect;
 export type InsertEventRules = z.infer<typeof insertEventRulesSchema>;
 
 export type Round = typeof rounds.$inferSelect;
 export type InsertRound = z.infer<typeof insertRoundSchema>;
+export type RoundSection = z.infer<typeof roundSectionSchema>;
 
 export type RoundRules = typeof roundRules.$inferSelect;
 export type InsertRoundRules = z.infer<typeof insertRoundRulesSchema>;
@@ -341,27 +660,49 @@ export type InsertRoundRules = z.infer<typeof insertRoundRulesSchema>;
 export type Question = typeof questions.$inferSelect;
 export type InsertQuestion = z.infer<typeof insertQuestionSchema>;
 
+export type Team = typeof teams.$inferSelect;
+export type InsertTeam = z.infer<typeof insertTeamSchema>;
+export type TeamScoring = Event['teamScoring'];
+export type TeamEntry = z.infer<typeof teamEntrySchema>;
+export type TeamMemberEntry = z.infer<typeof teamMemberEntrySchema>;
+
 export type Participant = typeof participants.$inferSelect;
 export type InsertParticipant = z.infer<typeof insertParticipantSchema>;
 
 export type TestAttempt = typeof testAttempts.$inferSelect;
 export type InsertTestAttempt = z.infer<typeof insertTestAttemptSchema>;
+export type ConnectivityEvent = z.infer<typeof connectivityEventSchema>;
 
 export type Answer = typeof answers.$inferSelect;
 export type InsertAnswer = z.infer<typeof insertAnswerSchema>;
+export type TestCaseResult = z.infer<typeof testCaseResultSchema>;
+export type AnswerInputStats = z.infer<typeof answerInputStatsSchema>;
 
 export type Report = typeof reports.$inferSelect;
 export type InsertReport = z.infer<typeof insertReportSchema>;
 
 export type RegistrationForm = typeof registrationForms.$inferSelect;
 export type InsertRegistrationForm = z.infer<typeof insertRegistrationFormSchema>;
+export type RegistrationFieldType = (typeof REGISTRATION_FIELD_TYPES)[number];
+export type RegistrationFormField = z.infer<typeof registrationFormFieldSchema>;
+export type RegistrationFieldCondition = z.infer<typeof registrationFieldConditionSchema>;
+export type RegistrationFieldRole = (typeof REGISTRATION_FIELD_ROLES)[number];
+// Checkbox groups submit the ticked options; every other field submits a string ("yes" for consent)
+export type RegistrationFieldValue = string | string[];
+
+export type FeeCombo = typeof feeCombos.$inferSelect;
+export type InsertFeeCombo = z.infer<typeof insertFeeComboSchema>;
 
 export type Registration = typeof registrations.$inferSelect;
+export type RegistrationStatus = Registration['paymentStatus'];
 export type InsertRegistration = z.infer<typeof insertRegistrationSchema>;
 
 export type EventCredential = typeof eventCredentials.$inferSelect;
 export type InsertEventCredential = z.infer<typeof insertEventCredentialSchema>;
 
+export type SessionConflict = typeof sessionConflicts.$inferSelect;
+export type InsertSessionConflict = z.infer<typeof insertSessionConflictSchema>;
+
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;
 
@@ -0,0 +1,33 @@
+import { describe, test, expect } from '@jest/globals';
+import { AnswerSyncService } from '../../server/services/answerSyncService';
+
+describe('Answer Sync Service', () => {
+  test('should create the first answer to a question', () => {
+    expect(AnswerSyncService.decideWrite(undefined, 1)).toBe('create');
+    expect(AnswerSyncService.decideWrite(undefined, undefined)).toBe('create');
+  });
+
+  test('should apply a write with a higher sequence number', () => {
+    expect(AnswerSyncService.decideWrite({ clientSeq: 4 }, 7)).toBe('apply');
+  });
+
+  test('should ignore a replayed write and an older one arriving late', () => {
+    expect(AnswerSyncService.decideWrite({ clientSeq: 7 }, 7)).toBe('duplicate');
+    expect(AnswerSyncService.decideWrite({ clientSeq: 7 }, 5)).toBe('stale');
+  });
+
+  test('should always apply writes when either side has no sequence number', () => {
+    expect(AnswerSyncService.decideWrite({ clientSeq: 7 }, undefined)).toBe('apply');
+    expect(AnswerSyncService.decideWrite({ clientSeq: null }, 1)).toBe('apply');
+  });
+
+  test('should only accept positive integer sequence numbers', () => {
+    expect(AnswerSyncService.parseClientSeq(undefined)).toBeUndefined();
+    expect(AnswerSyncService.parseClientSeq(null)).toBeUndefined();
+    expect(AnswerSyncService.parseClientSeq(3)).toBe(3);
+    expect(AnswerSyncService.parseClientSeq('12')).toBe(12);
+    expect(AnswerSyncService.parseClientSeq(0)).toBeNaN();
+    expect(AnswerSyncService.parseClientSeq(1.5)).toBeNaN();
+    expect(AnswerSyncService.parseClientSeq('abc')).toBeNaN();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, test, expect, jest, beforeEach } from '@jest/globals';
+
+const storage = {
+  closeTestAttempt: jest.fn<(...args: any[]) => Promise<any>>(),
+  getQuestionsByRound: jest.fn<(...args: any[]) => Promise<any>>(),
+  getAnswersByAttempt: jest.fn<(...args: any[]) => Promise<any>>(),
+  getRoundRules: jest.fn<(...args: any[]) => Promise<any>>(),
+  updateAnswer: jest.fn<(...args: any[]) => Promise<any>>(),
+  setGradedScore: jest.fn<(...args: any[]) => Promise<any>>(),
+  getRound: jest.fn<(...args: any[]) => Promise<any>>(),
+  getUser: jest.fn<(...args: any[]) => Promise<any>>(),
+  getEventById: jest.fn<(...args: any[]) => Promise<any>>(),
+  getRoundLeaderboard: jest.fn<(...args: any[]) => Promise<any>>(),
+};
+const WebSocketService = {
+  notifyResultPublished: jest.fn(),
+  notifyProctoringEvent: jest.fn(),
+  notifyLeaderboardUpdate: jest.fn(),
+  notifyAttemptUpdate: jest.fn(),
+};
+const emailService = {
+  sendResultPublished: jest.fn<(...args: any[]) => Promise<any>>(),
+};
+
+jest.unstable_mockModule('../../server/storage', () => ({ storage }));
+jest.unstable_mockModule('../../server/services/websocketService', () => ({ WebSocketService }));
+jest.unstable_mockModule('../../server/services/emailService', () => ({ emailService }));
+
+const { AttemptService } = await import('../../server/services/attemptService');
+
+// Grading runs in the background once the attempt is closed
+const graded = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const attempt = { id: 'a1', roundId: 'r1', userId: 'u1', status: 'in_progress', penaltyPoints: 0, totalScore: 0 } as any;
+const question = { id: 'q1', questionType: 'multiple_choice', correctAnswer: 'B', points: 5 };
+const answer = { id: 'ans1', questionId: 'q1', answer: 'B', gradedAt: null };
+
+describe('Attempt Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    storage.closeTestAttempt.mockResolvedValue({ ...attempt, status: 'completed' });
+    storage.getQuestionsByRound.mockResolvedValue([question]);
+    storage.getAnswersByAttempt.mockResolvedValue([answer]);
+    storage.getRoundRules.mockResolvedValue(undefined);
+    storage.updateAnswer.mockResolvedValue(undefined);
+    storage.setGradedScore.mockImplementation(async (id, graded) => ({ ...attempt, status: 'completed', totalScore: graded - attempt.penaltyPoints }));
+    storage.getUser.mockResolvedValue({ id: 'u1', email: 'asha@example.com', fullName: 'Asha K' });
+    storage.getEventById.mockResolvedValue({ id: 'e1', name: 'Code Sprint' });
+    storage.getRoundLeaderboard.mockResolvedValue([{ userId: 'u1', rank: 1 }]);
+    emailService.sendResultPublished.mockResolvedValue(undefined);
+  });
+
+  test('should publish a graded result, update the leaderboard and email the participant', async () => {
+    storage.getRound.mockResolvedValue({ id: 'r1', eventId: 'e1', roundType: 'standard' });
+
+    await AttemptService.finalizeAttempt(attempt, 'completed');
+    await graded();
+
+    expect(storage.setGradedScore).toHaveBeenCalledWith('a1', 5);
+    expect(WebSocketService.notifyResultPublished).toHaveBeenCalled();
+    expect(WebSocketService.notifyLeaderboardUpdate).toHaveBeenCalledWith('e1', 'r1', 'submission');
+    expect(emailService.sendResultPublished).toHaveBeenCalledWith('asha@example.com', 'Asha K', 'Code Sprint', 5, 1);
+  });
+
+  test('should grade a practice attempt without publishing, ranking or emailing it', async () => {
+    storage.getRound.mockResolvedValue({ id: 'r1', eventId: 'e1', roundType: 'practice' });
+
+    await AttemptService.finalizeAttempt(attempt, 'completed');
+    await graded();
+
+    expect(storage.setGradedScore).toHaveBeenCalledWith('a1', 5);
+    expect(WebSocketService.notifyProctoringEvent).toHaveBeenCalled();
+    expect(WebSocketService.notifyAttemptUpdate).toHaveBeenCalledWith('u1', 'a1', 'graded', expect.objectContaining({ totalScore: 5 }));
+    expect(WebSocketService.notifyResultPublished).not.toHaveBeenCalled();
+    expect(WebSocketService.notifyLeaderboardUpdate).not.toHaveBeenCalled();
+    expect(emailService.sendResultPublished).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, test, expect } from '@jest/globals';
+import { CapacityService, type SeatRequest } from '../../server/services/capacityService';
+
+const lab = { id: 'lab', capacity: 4 };
+const quiz = { id: 'quiz', capacity: null };
+const request = (id: string, selectedEvents: string[], paymentStatus: SeatRequest['paymentStatus'], teammates = 0): SeatRequest => ({
+  id,
+  selectedEvents,
+  paymentStatus,
+  teams: teammates > 0
+    ? { lab: { name: id, members: Array.from({ length: teammates }, (_, i) => ({ fullName: `M${i}`, email: `${id}${i}@example.com` })) } }
+    : null,
+});
+
+describe('Capacity Service', () => {
+  describe('countSeats', () => {
+    test('should count participants and pending registrations, with teammates, but not approved ones', () => {
+      const counts = CapacityService.countSeats([lab, quiz], { lab: 1, quiz: 5 }, [
+        request('r1', ['lab', 'quiz'], 'pending', 1),
+        request('r2', ['lab'], 'paid'),
+        request('r3', ['quiz'], 'declined'),
+      ]);
+      expect(counts).toEqual({ lab: { taken: 3, waitlisted: 0 }, quiz: { taken: 6, waitlisted: 0 } });
+    });
+
+    test('should count a waitlisted registration only against the events that cannot seat it', () => {
+      const counts = CapacityService.countSeats([lab, quiz], { lab: 3 }, [
+        request('r1', ['lab', 'quiz'], 'waitlisted', 1),
+        request('r2', ['lab'], 'waitlisted'),
+      ]);
+      expect(counts.lab.waitlisted).toBe(1);
+      expect(counts.quiz.waitlisted).toBe(0);
+    });
+  });
+
+  test('should report seats left, never below zero, and unlimited events as null', () => {
+    expect(CapacityService.summarize(lab, { taken: 6, waitlisted: 2 })).toEqual({ capacity: 4, seatsLeft: 0, waitlistCount: 2 });
+    expect(CapacityService.summarize(quiz, undefined)).toEqual({ capacity: null, seatsLeft: null, waitlistCount: 0 });
+  });
+
+  test('should find the events a team registration does not fit', () => {
+    const counts = { lab: { taken: 2, waitlisted: 0 }, quiz: { taken: 50, waitlisted: 0 } };
+    expect(CapacityService.fullEvents([lab, quiz], counts, request('r', ['lab', 'quiz'], 'pending', 1))).toEqual([]);
+    expect(CapacityService.fullEvents([lab, quiz], counts, request('r', ['lab', 'quiz'], 'pending', 2))).toEqual([lab]);
+  });
+
+  test('should promote oldest first, passing over registrations that still do not fit', () => {
+    const waitlist = [
+      request('big', ['lab'], 'waitlisted', 2),
+      request('small', ['lab', 'quiz'], 'waitlisted'),
+      request('late', ['lab'], 'waitlisted'),
+    ];
+    const promoted = CapacityService.pickPromotions([lab, quiz], { lab: { taken: 2, waitlisted: 3 } }, waitlist);
+    expect(promoted.map((r) => r.id)).toEqual(['small', 'late']);
+  });
+
+  test('should parse capacity, treating blank as no limit', () => {
+    expect(CapacityService.parseCapacity('30')).toEqual({ value: 30 });
+    expect(CapacityService.parseCapacity('')).toEqual({ value: null });
+    expect(CapacityService.parseCapacity(null)).toEqual({ value: null });
+    expect(CapacityService.parseCapacity(0).error).toMatch(/whole number/);
+    expect(CapacityService.parseCapacity('2.5').error).toMatch(/whole number/);
+  });
+});
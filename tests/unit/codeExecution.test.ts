@@ -0,0 +1,119 @@
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { CodeExecutionService, type TestCaseResult } from '../../server/services/codeExecutionService';
+
+describe('Code Execution Service', () => {
+  describe('formatInput', () => {
+    test('should put each array element on its own line', () => {
+      expect(CodeExecutionService.formatInput([3, 4])).toBe('3\n4\n');
+    });
+
+    test('should pass strings through with a trailing newline', () => {
+      expect(CodeExecutionService.formatInput('5')).toBe('5\n');
+      expect(CodeExecutionService.formatInput('1 2\n')).toBe('1 2\n');
+    });
+
+    test('should send nothing for missing input', () => {
+      expect(CodeExecutionService.formatInput(undefined)).toBe('');
+      expect(CodeExecutionService.formatInput(null)).toBe('');
+    });
+  });
+
+  describe('outputsMatch', () => {
+    test('should compare numbers against printed output', () => {
+      expect(CodeExecutionService.outputsMatch('12\n', 12)).toBe(true);
+      expect(CodeExecutionService.outputsMatch('13\n', 12)).toBe(false);
+    });
+
+    test('should ignore CRLF and trailing whitespace', () => {
+      expect(CodeExecutionService.outputsMatch('a  \r\nb\r\n\r\n', 'a\nb')).toBe(true);
+    });
+
+    test('should not ignore leading whitespace inside lines', () => {
+      expect(CodeExecutionService.outputsMatch('a\n b', 'a\nb')).toBe(false);
+    });
+  });
+
+  describe('scoreTestResults', () => {
+    const result = (passed: boolean, index: number): TestCaseResult => ({
+      index,
+      passed,
+      status: passed ? 'passed' : 'wrong_answer',
+      timeMs: 1,
+      hidden: false,
+    });
+
+    test('should award an equal share of points per passing test', () => {
+      expect(CodeExecutionService.scoreTestResults([result(true, 0), result(false, 1)], 20)).toBe(10);
+      expect(CodeExecutionService.scoreTestResults([result(true, 0), result(true, 1), result(false, 2)], 10)).toBe(6);
+    });
+
+    test('should award nothing when there are no results', () => {
+      expect(CodeExecutionService.scoreTestResults([], 10)).toBe(0);
+    });
+  });
+
+  describe('isSupportedLanguage', () => {
+    test('should accept the supported languages only', () => {
+      expect(CodeExecutionService.isSupportedLanguage('python')).toBe(true);
+      expect(CodeExecutionService.isSupportedLanguage('cpp')).toBe(true);
+      expect(CodeExecutionService.isSupportedLanguage('ruby')).toBe(false);
+      expect(CodeExecutionService.isSupportedLanguage(undefined)).toBe(false);
+    });
+  });
+
+  describe('runTestCases', () => {
+    const configuredWrapper = process.env.CODE_SANDBOX_WRAPPER;
+
+    // The toolchains run directly on the test machine; `env` stands in for the sandbox wrapper
+    beforeEach(() => {
+      process.env.CODE_SANDBOX_WRAPPER = 'env';
+    });
+
+    afterEach(() => {
+      if (configuredWrapper === undefined) delete process.env.CODE_SANDBOX_WRAPPER;
+      else process.env.CODE_SANDBOX_WRAPPER = configuredWrapper;
+    });
+
+    test('should refuse to run code without a sandbox', async () => {
+      delete process.env.CODE_SANDBOX_WRAPPER;
+
+      await expect(
+        CodeExecutionService.runTestCases('python', 'print(1)\n', [{ input: '', expectedOutput: '1' }]),
+      ).rejects.toThrow('CODE_SANDBOX_WRAPPER');
+    });
+
+    test('should grade a Python submission per test case', async () => {
+      const source = 'a = int(input())\nb = int(input())\nprint(a * b)\n';
+      const results = await CodeExecutionService.runTestCases('python', source, [
+        { input: [3, 4], expectedOutput: 12 },
+        { input: [5, 6], expectedOutput: 31, hidden: true },
+      ]);
+
+      expect(results).toHaveLength(2);
+      expect(results[0].status).toBe('passed');
+      expect(results[1].status).toBe('wrong_answer');
+      expect(results[1].stdout).toBeUndefined();
+    });
+
+    test('should stop programs that exceed the time limit', async () => {
+      const results = await CodeExecutionService.runTestCases(
+        'python',
+        'while True:\n    pass\n',
+        [{ input: '', expectedOutput: '' }],
+        { timeLimitMs: 500 },
+      );
+
+      expect(results[0].status).toBe('time_limit_exceeded');
+      expect(results[0].passed).toBe(false);
+    });
+
+    test('should report compile errors for every test case', async () => {
+      const results = await CodeExecutionService.runTestCases('c', 'int main( {', [
+        { input: '1', expectedOutput: '1' },
+        { input: '2', expectedOutput: '2' },
+      ]);
+
+      expect(results.map((r) => r.status)).toEqual(['compile_error', 'compile_error']);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, test, expect } from '@jest/globals';
+import { HeartbeatService } from '../../server/services/heartbeatService';
+
+const start = new Date('2025-01-01T10:00:00Z');
+const at = (offsetSeconds: number) => new Date(start.getTime() + offsetSeconds * 1000);
+
+const attempt = { lastSeenAt: start, lastClientIp: '10.0.0.1', lastUserAgent: 'Chrome', connectivityLog: null };
+const beat = (offsetSeconds: number, changes: Record<string, unknown> = {}) => ({
+  at: at(offsetSeconds),
+  ip: '10.0.0.1',
+  userAgent: 'Chrome',
+  transport: 'socket' as const,
+  ...changes,
+});
+
+describe('Heartbeat Service', () => {
+  test('should record the last sighting without touching the timeline', () => {
+    const result = HeartbeatService.applyHeartbeat(attempt, beat(15), 60 * 1000);
+    expect(result.gap).toBeNull();
+    expect(result.updates).toEqual({ lastSeenAt: at(15), lastClientIp: '10.0.0.1', lastUserAgent: 'Chrome' });
+  });
+
+  test('should turn silence longer than the threshold into a gap', () => {
+    const result = HeartbeatService.applyHeartbeat(attempt, beat(95), 60 * 1000);
+    expect(result.gap).toEqual({ from: start, until: at(95), seconds: 95 });
+    expect(result.updates.connectivityLog).toEqual([
+      { type: 'gap', at: start.toISOString(), until: at(95).toISOString(), seconds: 95 },
+    ]);
+  });
+
+  test('should not report a gap on the first sighting', () => {
+    const result = HeartbeatService.applyHeartbeat({ ...attempt, lastSeenAt: null }, beat(600), 60 * 1000);
+    expect(result.gap).toBeNull();
+  });
+
+  test('should note a change of network', () => {
+    const result = HeartbeatService.applyHeartbeat(attempt, beat(15, { ip: '192.168.1.5', transport: 'http' }), 60 * 1000);
+    expect(result.updates.connectivityLog).toEqual([
+      { type: 'client_changed', at: at(15).toISOString(), ip: '192.168.1.5', userAgent: 'Chrome', transport: 'http' },
+    ]);
+    expect(result.updates.lastClientIp).toBe('192.168.1.5');
+  });
+
+  test('should log sockets connecting and disconnecting', () => {
+    const log = [{ type: 'connected' as const, at: start.toISOString() }];
+    const result = HeartbeatService.applyHeartbeat({ ...attempt, connectivityLog: log }, beat(10, { presence: 'disconnected' }), 60 * 1000);
+    expect(result.updates.connectivityLog).toEqual([
+      ...log,
+      { type: 'disconnected', at: at(10).toISOString(), ip: '10.0.0.1', userAgent: 'Chrome', transport: 'socket' },
+    ]);
+  });
+
+  test('should measure how far the browser clock is off', () => {
+    expect(HeartbeatService.getClockDriftMs(at(-3).toISOString(), start)).toBe(3000);
+    expect(HeartbeatService.getClockDriftMs('not a time', start)).toBeNull();
+    expect(HeartbeatService.applyHeartbeat(attempt, beat(15, { clientTime: at(20).toISOString() }), 60 * 1000).updates.clockDriftMs).toBe(-5000);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, test, expect } from '@jest/globals';
+import { InputTelemetryService } from '../../server/services/inputTelemetryService';
+
+const stats = (overrides: Record<string, unknown> = {}) => ({
+  pasteCount: 0,
+  pastedChars: 0,
+  largestPaste: 0,
+  typedChars: 0,
+  deletedChars: 0,
+  burstCount: 0,
+  longestBurstChars: 0,
+  firstInputAt: '2025-01-01T10:00:00.000Z',
+  lastInputAt: '2025-01-01T10:05:00.000Z',
+  ...overrides,
+});
+
+const code = 'def solve(n):\n    return sum(range(n + 1))\n';
+
+describe('Input Telemetry Service', () => {
+  test('should not flag an answer typed over time', () => {
+    const assessment = InputTelemetryService.assess(stats({ typedChars: 60, burstCount: 4, longestBurstChars: 25 }), code);
+    expect(assessment).toMatchObject({ flags: [], pastedShare: 0, composeSeconds: 300 });
+  });
+
+  test('should flag an answer that arrived mostly by paste', () => {
+    const assessment = InputTelemetryService.assess(stats({ pasteCount: 1, pastedChars: 40, largestPaste: 40, typedChars: 5 }), code);
+    expect(assessment!.flags).toEqual(['mostly_pasted']);
+    expect(assessment!.pastedShare).toBeCloseTo(40 / code.trim().length);
+  });
+
+  test('should flag an answer that appeared faster than it can be typed', () => {
+    const fast = stats({ typedChars: 44, lastInputAt: '2025-01-01T10:00:01.000Z' });
+    expect(InputTelemetryService.assess(fast, code)!.flags).toEqual(['instant']);
+    expect(InputTelemetryService.assess(stats(), code)!.flags).toEqual(['instant']);
+  });
+
+  test('should leave short answers and answers without telemetry alone', () => {
+    expect(InputTelemetryService.assess(stats({ pastedChars: 5 }), 'O(n log n)')!.flags).toEqual([]);
+    expect(InputTelemetryService.assess(null, code)).toBeNull();
+  });
+
+  test('should keep the larger counters and the widest time span when merging', () => {
+    const merged = InputTelemetryService.merge(
+      stats({ pasteCount: 2, typedChars: 10, firstInputAt: '2025-01-01T09:59:00.000Z' }),
+      stats({ pasteCount: 1, typedChars: 30, lastInputAt: '2025-01-01T10:06:00.000Z' }),
+    );
+    expect(merged).toMatchObject({
+      pasteCount: 2,
+      typedChars: 30,
+      firstInputAt: '2025-01-01T09:59:00.000Z',
+      lastInputAt: '2025-01-01T10:06:00.000Z',
+    });
+  });
+
+  test('should ignore malformed telemetry', () => {
+    expect(InputTelemetryService.parse(undefined)).toBeNull();
+    expect(InputTelemetryService.parse({ pasteCount: -1 })).toBeNull();
+    expect(InputTelemetryService.parse(stats())).toEqual(stats());
+  });
+});
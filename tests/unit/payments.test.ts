@@ -0,0 +1,140 @@
+import { describe, test, expect } from '@jest/globals';
+import { PaymentService, type PaymentRecord } from '../../server/services/paymentService';
+
+const hackathon = { id: 'hack', name: 'Hackathon', fee: 300 };
+const quiz = { id: 'quiz', name: 'Quiz', fee: 100 };
+const art = { id: 'art', name: 'Art', fee: 50 };
+const pair = { id: 'c1', name: 'Tech + Quiz', eventIds: ['hack', 'quiz'], amount: 300 };
+
+const record = (id: string, overrides: Partial<PaymentRecord & { selectedEvents: string[] }> = {}) => ({
+  id,
+  paymentStatus: 'pending' as const,
+  paymentReference: null,
+  feeAmount: 400,
+  feeBreakdown: { hack: 300, quiz: 100 },
+  amountReceived: null,
+  paymentVerifiedAt: null,
+  selectedEvents: ['hack', 'quiz'],
+  ...overrides,
+});
+
+describe('Payment Service', () => {
+  describe('calculateFee', () => {
+    test('should add up event fees when no combo applies', () => {
+      expect(PaymentService.calculateFee([hackathon, art], [pair])).toEqual({
+        amount: 350,
+        breakdown: { hack: 300, art: 50 },
+        combo: null,
+      });
+    });
+
+    test('should apply a combo once all its events are picked, sharing its price by event fee', () => {
+      const quote = PaymentService.calculateFee([hackathon, quiz, art], [pair]);
+      expect(quote.amount).toBe(350);
+      expect(quote.combo).toEqual({ id: 'c1', name: 'Tech + Quiz' });
+      expect(quote.breakdown).toEqual({ hack: 225, quiz: 75, art: 50 });
+    });
+
+    test('should ignore a combo that costs more than the events on their own', () => {
+      expect(PaymentService.calculateFee([hackathon, quiz], [{ ...pair, amount: 500 }]).combo).toBeNull();
+    });
+  });
+
+  test('should normalise and check payment references and receipts', () => {
+    expect(PaymentService.parseReference(' 4123-5678 9012 ')).toEqual({ value: '412356789012' });
+    expect(PaymentService.parseReference('').error).toMatch(/Enter the UPI transaction ID/);
+    expect(PaymentService.parseReference('12#45').error).toMatch(/6 to 35/);
+
+    expect(PaymentService.parseReceipt('data:image/png;base64,iVBORw0KGgo=').error).toBeUndefined();
+    expect(PaymentService.parseReceipt('data:application/pdf;base64,JVBERi0=').error).toMatch(/PNG, JPEG or WebP/);
+    expect(PaymentService.parseReceipt(`data:image/jpeg;base64,${'A'.repeat(1500000)}`).error).toMatch(/under 1 MB/);
+  });
+
+  test('should refuse a receipt whose bytes are not the image type it claims', () => {
+    const dataUrl = (type: string, bytes: Buffer) => `data:image/${type};base64,${bytes.toString('base64')}`;
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const jpeg = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+    const webp = Buffer.from('RIFF\x24\x00\x00\x00WEBPVP8 ', 'latin1');
+
+    expect(PaymentService.parseReceipt(dataUrl('png', png)).error).toBeUndefined();
+    expect(PaymentService.parseReceipt(dataUrl('jpeg', jpeg)).error).toBeUndefined();
+    expect(PaymentService.parseReceipt(dataUrl('webp', webp)).error).toBeUndefined();
+
+    expect(PaymentService.parseReceipt(dataUrl('jpeg', png)).error).toMatch(/not a valid/);
+    expect(PaymentService.parseReceipt(dataUrl('webp', Buffer.from('RIFF\x24\x00\x00\x00WAVEfmt ', 'latin1'))).error).toMatch(/not a valid/);
+    expect(PaymentService.parseReceipt(dataUrl('png', Buffer.from('<svg onload="alert(1)">'))).error).toMatch(/not a valid/);
+  });
+
+  describe('parseStatement', () => {
+    test('should find the header below account details and keep only credits', () => {
+      const csv = [
+        'Account Statement,,,,',
+        'Account No,1234567890,,,',
+        'Date,Narration,Chq./Ref.No.,Withdrawal Amt.,Deposit Amt.',
+        '01/02/26,"UPI/412356789012/ASHA K/Payment, symposium",0000412356789012,,"1,000.00"',
+        '02/02/26,ATM WITHDRAWAL,000001,500.00,',
+      ].join('\r\n');
+      expect(PaymentService.parseStatement(csv)).toEqual({
+        rows: [{
+          line: 4,
+          date: '01/02/26',
+          description: 'UPI/412356789012/ASHA K/Payment, symposium',
+          reference: '0000412356789012',
+          amount: 1000,
+        }],
+      });
+    });
+
+    test('should read a single amount column with a credit/debit marker', () => {
+      const csv = 'Txn Date,Description,Amount,Cr/Dr\n03/02/26,UPI-998877665544,₹ 400,CR\n03/02/26,Charges,10,DR\n';
+      const { rows } = PaymentService.parseStatement(csv);
+      expect(rows.map((r) => [r.description, r.amount])).toEqual([['UPI-998877665544', 400]]);
+      expect(PaymentService.parseStatement('name,email\nA,a@example.com').error).toMatch(/date and amount/);
+    });
+  });
+
+  test('should match credits by reference or narration and list who has not paid', () => {
+    const records = [
+      record('r1', { paymentReference: '412356789012' }),
+      record('r2', { paymentReference: '998877665544', feeAmount: 350 }),
+      record('r3', { paymentReference: '111122223333', paymentVerifiedAt: new Date() }),
+      record('r4', { paymentReference: '555566667777' }),
+      record('r5', { paymentReference: '121212121212', paymentStatus: 'declined' }),
+      record('r6', { paymentReference: '343434343434', paymentStatus: 'paid' }),
+    ];
+    const row = (line: number, description: string, reference: string, amount: number) => ({ line, date: '', description, reference, amount });
+
+    const { matches, unpaid } = PaymentService.matchStatement([
+      row(2, 'UPI/412356789012/ASHA', '', 400),
+      row(3, 'NEFT', '998877665544', 400),
+      row(4, 'UPI/111122223333', '', 400),
+      row(5, 'UPI/412356789012/ASHA', '', 400),
+      row(6, 'UPI/121212121212', '', 400),
+    ], records);
+
+    expect(matches.map((m) => [m.registrationId, m.status])).toEqual([
+      ['r1', 'matched'],
+      ['r2', 'amount_mismatch'],
+      ['r3', 'already_verified'],
+      ['r1', 'duplicate'],
+      [null, 'unmatched'],
+    ]);
+    expect(unpaid.map((r) => r.id)).toEqual(['r4', 'r6']);
+  });
+
+  test('should summarise collections by status and by event share', () => {
+    const summary = PaymentService.summarize([
+      record('r1', { paymentStatus: 'paid', amountReceived: 400, paymentVerifiedAt: new Date() }),
+      record('r2'),
+      record('r3', { paymentStatus: 'withdrawn', amountReceived: 400, paymentVerifiedAt: new Date() }),
+      record('r4', { paymentStatus: 'declined' }),
+    ], [hackathon, quiz]);
+
+    expect([summary.expected, summary.received, summary.outstanding]).toEqual([800, 800, 400]);
+    expect(summary.byStatus.find((line) => line.label === 'Withdrawn')).toEqual({ label: 'Withdrawn', count: 1, expected: 400, received: 400 });
+    expect(summary.byEvent).toEqual([
+      { label: 'Hackathon', count: 2, expected: 600, received: 300 },
+      { label: 'Quiz', count: 2, expected: 200, received: 100 },
+    ]);
+  });
+});
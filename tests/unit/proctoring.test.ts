@@ -0,0 +1,118 @@
+import { describe, test, expect } from '@jest/globals';
+import { ProctoringService, DEFAULT_PROCTORING_RULES } from '../../server/services/proctoringService';
+
+const logs = (...types: string[]) => types.map((type) => ({ type, timestamp: '2025-01-01T10:00:00Z' }));
+
+describe('Proctoring Service', () => {
+  test('should let round rules override event rules and defaults', () => {
+    const rules = ProctoringService.getEffectiveRules(
+      { maxTabSwitchWarnings: 1, forceFullscreen: null } as any,
+      { maxTabSwitchWarnings: 5, forceFullscreen: false, autoSubmitOnViolation: false },
+    );
+    expect(rules).toEqual({
+      ...DEFAULT_PROCTORING_RULES,
+      maxTabSwitchWarnings: 1,
+      forceFullscreen: false,
+      autoSubmitOnViolation: false,
+    });
+  });
+
+  test('should put profiles behind the rules that reference them', () => {
+    const resolved = ProctoringService.resolveRules({
+      round: { noRefresh: false },
+      roundProfile: { noRefresh: true, maxTabSwitchWarnings: 0, additionalRules: null },
+      event: { maxTabSwitchWarnings: 4, forceFullscreen: false },
+      eventProfile: { forceFullscreen: true, disableShortcuts: false, additionalRules: 'Calculators allowed' },
+    });
+    expect(resolved.rules).toEqual({
+      ...DEFAULT_PROCTORING_RULES,
+      noRefresh: false,
+      maxTabSwitchWarnings: 0,
+      forceFullscreen: false,
+      disableShortcuts: false,
+    });
+    expect(resolved.sources).toMatchObject({
+      noRefresh: 'round',
+      maxTabSwitchWarnings: 'roundProfile',
+      forceFullscreen: 'event',
+      disableShortcuts: 'eventProfile',
+      noTabSwitch: 'default',
+      additionalRules: 'eventProfile',
+    });
+    expect(resolved.additionalRules).toBe('Calculators allowed');
+  });
+
+  test('should fall back to defaults with nothing to inherit', () => {
+    expect(ProctoringService.resolveRules({ event: { additionalRules: '' } })).toMatchObject({
+      rules: DEFAULT_PROCTORING_RULES,
+      additionalRules: null,
+      sources: { additionalRules: null, forceFullscreen: 'default' },
+    });
+  });
+
+  test('should warn until the last warning is used up', () => {
+    expect(ProctoringService.evaluate(logs('tab_switch'), 'tab_switch', DEFAULT_PROCTORING_RULES)).toEqual({
+      action: 'warning',
+      counted: true,
+      violationCount: 1,
+      maxWarnings: 2,
+      warningsRemaining: 1,
+    });
+    expect(ProctoringService.evaluate(logs('tab_switch', 'refresh'), 'refresh', DEFAULT_PROCTORING_RULES).action).toBe('final_warning');
+  });
+
+  test('should auto-submit on the violation after the final warning', () => {
+    const decision = ProctoringService.evaluate(logs('tab_switch', 'refresh', 'ctrl_t'), 'ctrl_t', DEFAULT_PROCTORING_RULES);
+    expect(decision).toMatchObject({ action: 'auto_submit', violationCount: 3, warningsRemaining: 0 });
+  });
+
+  test('should only record violations past the limit when auto-submit is off', () => {
+    const rules = { ...DEFAULT_PROCTORING_RULES, autoSubmitOnViolation: false };
+    expect(ProctoringService.evaluate(logs('tab_switch', 'tab_switch', 'tab_switch'), 'tab_switch', rules).action).toBe('limit_exceeded');
+  });
+
+  test('should not count violations of rules that are turned off', () => {
+    const rules = { ...DEFAULT_PROCTORING_RULES, forceFullscreen: false, maxTabSwitchWarnings: 0 };
+    const decision = ProctoringService.evaluate(logs('fullscreen_exit', 'fullscreen_exit'), 'fullscreen_exit', rules);
+    expect(decision).toMatchObject({ action: 'none', counted: false, violationCount: 0 });
+  });
+
+  test('should count only the violations the rules turn on', () => {
+    const rules = { ...DEFAULT_PROCTORING_RULES, disableShortcuts: false };
+    expect(ProctoringService.countViolations(logs('tab_switch', 'ctrl_t', 'refresh'), rules)).toBe(2);
+    expect(ProctoringService.countViolations(null, rules)).toBe(0);
+  });
+
+  test('should record lost connections without counting them', () => {
+    const rules = { ...DEFAULT_PROCTORING_RULES, maxTabSwitchWarnings: 0 };
+    expect(ProctoringService.evaluate(logs('connection_lost'), 'connection_lost', rules)).toMatchObject({ action: 'none', counted: false });
+  });
+
+  test('should count violation types it does not know', () => {
+    const rules = { ...DEFAULT_PROCTORING_RULES, maxTabSwitchWarnings: 0 };
+    expect(ProctoringService.evaluate(logs('devtools_open'), 'devtools_open', rules).action).toBe('auto_submit');
+  });
+
+  test('should stop counting dismissed violations and total confirmed penalties', () => {
+    const review = (status: 'confirmed' | 'dismissed', penaltyPoints: number) => ({
+      status,
+      note: 'checked recording',
+      penaltyPoints,
+      reviewedBy: 'admin',
+      reviewedAt: '2025-01-01T11:00:00Z',
+    });
+    let reviewed = ProctoringService.applyReview(logs('tab_switch', 'refresh', 'ctrl_t'), 0, review('dismissed', 0))!;
+    reviewed = ProctoringService.applyReview(reviewed, 1, review('confirmed', 3))!;
+    reviewed = ProctoringService.applyReview(reviewed, 2, review('confirmed', 2))!;
+
+    expect(ProctoringService.countViolations(reviewed, DEFAULT_PROCTORING_RULES)).toBe(2);
+    expect(ProctoringService.getPenaltyPoints(reviewed)).toBe(5);
+  });
+
+  test('should reject reviews of violations that do not exist', () => {
+    const review = { status: 'dismissed' as const, note: 'n/a', penaltyPoints: 0, reviewedBy: 'admin', reviewedAt: '' };
+    expect(ProctoringService.applyReview(logs('tab_switch'), 1, review)).toBeNull();
+    expect(ProctoringService.applyReview(logs('tab_switch'), -1, review)).toBeNull();
+    expect(ProctoringService.applyReview(null, 0, review)).toBeNull();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, test, expect } from '@jest/globals';
+import { RandomizationService } from '../../server/services/randomizationService';
+
+const questions = Array.from({ length: 10 }, (_, i) => ({
+  id: `q${i + 1}`,
+  questionType: i === 9 ? 'true_false' : 'mcq',
+  options: i === 9 ? ['True', 'False'] : ['A', 'B', 'C', 'D', 'E'],
+}));
+
+const shuffleAll = { shuffleQuestions: true, shuffleOptions: true };
+
+describe('Randomization Service', () => {
+  test('should keep the stored order when shuffling is off', () => {
+    const ordered = RandomizationService.orderForAttempt(questions, 'attempt-1', { shuffleQuestions: false, shuffleOptions: false });
+    expect(ordered.map(q => q.id)).toEqual(questions.map(q => q.id));
+    expect(ordered[0].options).toEqual(['A', 'B', 'C', 'D', 'E']);
+  });
+
+  test('should give the same order for the same attempt', () => {
+    const first = RandomizationService.orderForAttempt(questions, 'attempt-1', shuffleAll);
+    const second = RandomizationService.orderForAttempt(questions, 'attempt-1', shuffleAll);
+    expect(second).toEqual(first);
+  });
+
+  test('should give different attempts different orders', () => {
+    const first = RandomizationService.orderForAttempt(questions, 'attempt-1', shuffleAll);
+    const second = RandomizationService.orderForAttempt(questions, 'attempt-2', shuffleAll);
+    expect(second.map(q => q.id)).not.toEqual(first.map(q => q.id));
+  });
+
+  test('should keep every question and option', () => {
+    const ordered = RandomizationService.orderForAttempt(questions, 'attempt-3', shuffleAll);
+    expect([...ordered.map(q => q.id)].sort()).toEqual([...questions.map(q => q.id)].sort());
+    ordered.filter(q => q.questionType === 'mcq').forEach(q => {
+      expect([...(q.options as string[])].sort()).toEqual(['A', 'B', 'C', 'D', 'E']);
+    });
+  });
+
+  test('should not shuffle true/false options', () => {
+    const ordered = RandomizationService.orderForAttempt(questions, 'attempt-4', shuffleAll);
+    expect(ordered.find(q => q.id === 'q10')?.options).toEqual(['True', 'False']);
+  });
+
+  test('should not modify the stored questions', () => {
+    RandomizationService.orderForAttempt(questions, 'attempt-5', shuffleAll);
+    expect(questions[0].options).toEqual(['A', 'B', 'C', 'D', 'E']);
+  });
+
+  describe('question pools', () => {
+    const pool = Array.from({ length: 12 }, (_, i) => ({
+      id: `p${i + 1}`,
+      tag: i < 6 ? 'arrays' : i < 9 ? 'graphs' : 'strings',
+      difficulty: i % 2 === 0 ? 'easy' : 'hard',
+    }));
+
+    test('should give every question when no pool size is set', () => {
+      const drawn = RandomizationService.drawQuestions(pool, 'seed', { questionPoolSize: null, poolStratifyBy: 'none' });
+      expect(drawn).toHaveLength(12);
+    });
+
+    test('should draw the configured number of questions in pool order', () => {
+      const drawn = RandomizationService.drawQuestions(pool, 'seed', { questionPoolSize: 5, poolStratifyBy: 'none' });
+      expect(drawn).toHaveLength(5);
+      const positions = drawn.map(q => pool.indexOf(q));
+      expect(positions).toEqual([...positions].sort((a, b) => a - b));
+    });
+
+    test('should keep each tag\'s share of the pool', () => {
+      const drawn = RandomizationService.drawQuestions(pool, 'seed', { questionPoolSize: 4, poolStratifyBy: 'tag' });
+      const counts = drawn.reduce<Record<string, number>>((acc, q) => ({ ...acc, [q.tag]: (acc[q.tag] || 0) + 1 }), {});
+      expect(counts).toEqual({ arrays: 2, graphs: 1, strings: 1 });
+    });
+
+    test('should balance draws by difficulty', () => {
+      const drawn = RandomizationService.drawQuestions(pool, 'other-seed', { questionPoolSize: 6, poolStratifyBy: 'difficulty' });
+      expect(drawn.filter(q => q.difficulty === 'easy')).toHaveLength(3);
+      expect(drawn.filter(q => q.difficulty === 'hard')).toHaveLength(3);
+    });
+
+    test('should draw different sets for different seeds', () => {
+      const draws = new Set(
+        ['a', 'b', 'c', 'd'].map(seed =>
+          RandomizationService.drawQuestions(pool, seed, { questionPoolSize: 4, poolStratifyBy: 'none' }).map(q => q.id).join(',')
+        )
+      );
+      expect(draws.size).toBeGreaterThan(1);
+    });
+  });
+});
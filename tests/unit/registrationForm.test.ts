@@ -0,0 +1,145 @@
+import { describe, test, expect } from '@jest/globals';
+import { RegistrationFormService } from '../../server/services/registrationFormService';
+
+const field = (overrides: Record<string, unknown> = {}): any => ({
+  id: 'name',
+  label: 'Full Name',
+  type: 'text',
+  required: true,
+  ...overrides,
+});
+
+// The fields every form needs for approval
+const accountFields = [field({ role: 'full_name' }), field({ id: 'email', label: 'Email', type: 'email', role: 'email' })];
+
+const fields = [
+  ...accountFields,
+  field({ id: 'year', label: 'Year of Study', type: 'select', options: ['1', '2', '3', '4'] }),
+  field({ id: 'hostel', label: 'Need Hostel', type: 'radio', options: ['Yes', 'No'] }),
+  field({ id: 'nights', label: 'Nights', type: 'number', validation: { min: 1, max: 3 }, showIf: { fieldId: 'hostel', operator: 'equals', value: 'Yes' } }),
+  field({ id: 'food', label: 'Food', type: 'checkbox_group', required: false, options: ['Veg', 'Non-veg', 'Jain'], validation: { max: 2 } }),
+  field({ id: 'consent', label: 'the code of conduct', type: 'consent' }),
+];
+
+describe('Registration Form Service', () => {
+  describe('parseFields', () => {
+    test('should accept the original field shape', () => {
+      const parsed = RegistrationFormService.parseFields([field({ placeholder: 'Enter your name', role: 'full_name' }), accountFields[1]]);
+      expect(parsed.error).toBeUndefined();
+      expect(parsed.fields).toHaveLength(2);
+    });
+
+    test('should require options on choice fields and drop them elsewhere', () => {
+      expect(RegistrationFormService.parseFields([field({ id: 'year', type: 'select' })]).error).toMatch(/needs at least one option/);
+      expect(RegistrationFormService.parseFields([...accountFields, field({ id: 'dept', options: ['a'] })]).fields[2].options).toBeUndefined();
+    });
+
+    test('should reject broken patterns and inverted bounds', () => {
+      expect(RegistrationFormService.parseFields([field({ validation: { pattern: '([' } })]).error).toMatch(/invalid pattern/);
+      expect(RegistrationFormService.parseFields([field({ validation: { min: 5, max: 2 } })]).error).toMatch(/minimum above/);
+    });
+
+    test('should only let a field depend on an earlier field and a real option', () => {
+      const later = [field({ id: 'room', showIf: { fieldId: 'hostel', operator: 'is_filled' } }), field({ id: 'hostel', type: 'radio', options: ['Yes'] })];
+      expect(RegistrationFormService.parseFields(later).error).toMatch(/field above it/);
+
+      const unknownOption = [fields[3], field({ id: 'room', showIf: { fieldId: 'hostel', operator: 'equals', value: 'Maybe' } })];
+      expect(RegistrationFormService.parseFields(unknownOption).error).toMatch(/does not have/);
+      expect(RegistrationFormService.parseFields(fields).error).toBeUndefined();
+    });
+
+    test('should require the account roles on required, always shown fields', () => {
+      expect(RegistrationFormService.parseFields([accountFields[0]]).error).toMatch(/participant's email/);
+      const optionalEmail = [accountFields[0], { ...accountFields[1], required: false }];
+      expect(RegistrationFormService.parseFields(optionalEmail).error).toMatch(/must be required and always shown/);
+    });
+
+    test('should keep each role on one field of a matching type', () => {
+      expect(RegistrationFormService.parseFields([...accountFields, field({ id: 'alt', label: 'Alt Email', type: 'email', role: 'email' })]).error).toMatch(
+        /Only one field can hold the email/,
+      );
+      expect(RegistrationFormService.parseFields([...accountFields, field({ id: 'mobile', role: 'phone' })]).error).toMatch(/use a tel field/);
+    });
+  });
+
+  describe('validateSubmission', () => {
+    const valid = { name: 'Asha Rao', email: 'asha@example.com', year: '2', hostel: 'Yes', nights: '2', food: ['Veg'], consent: 'yes' };
+
+    test('should accept a complete submission', () => {
+      expect(RegistrationFormService.validateSubmission(fields, valid)).toEqual({ data: valid, errors: {} });
+    });
+
+    test('should report each failing field by id', () => {
+      const { errors } = RegistrationFormService.validateSubmission(fields, {
+        year: '7',
+        hostel: 'Yes',
+        nights: '5',
+        food: ['Veg', 'Jain', 'Non-veg'],
+      });
+      expect(Object.keys(errors).sort()).toEqual(['consent', 'email', 'food', 'name', 'nights', 'year']);
+      expect(errors.nights).toBe('Nights must be at most 3');
+      expect(errors.consent).toBe('Please accept the code of conduct');
+    });
+
+    test('should skip and drop answers to hidden fields', () => {
+      const { data, errors } = RegistrationFormService.validateSubmission(fields, { ...valid, hostel: 'No', nights: '9' });
+      expect(errors).toEqual({});
+      expect(data.nights).toBeUndefined();
+    });
+
+    test('should hide fields that depend on a hidden field', () => {
+      const chained = [...fields.slice(0, 5), field({ id: 'room', label: 'Room Mate', showIf: { fieldId: 'nights', operator: 'is_filled' } })];
+      const { errors } = RegistrationFormService.validateSubmission(chained, { ...valid, hostel: 'No', nights: '2' });
+      expect(errors).toEqual({});
+    });
+
+    test('should apply patterns with their own message', () => {
+      const roll = [field({ id: 'roll', label: 'Roll Number', validation: { pattern: '^[0-9]{2}[A-Z]{2}[0-9]{3}$', patternMessage: 'Use the format 21CS001' } })];
+      expect(RegistrationFormService.validateSubmission(roll, { roll: '21cs1' }).errors.roll).toBe('Use the format 21CS001');
+      expect(RegistrationFormService.validateSubmission(roll, { roll: ' 21CS001 ' }).data.roll).toBe('21CS001');
+    });
+
+    test('should check dates against their bounds', () => {
+      const dob = [field({ id: 'dob', label: 'Date of Birth', type: 'date', validation: { maxDate: '2010-12-31' } })];
+      expect(RegistrationFormService.validateSubmission(dob, { dob: '2012-01-01' }).errors.dob).toMatch(/on or before 2010-12-31/);
+      expect(RegistrationFormService.validateSubmission(dob, { dob: 'yesterday' }).errors.dob).toMatch(/must be a date/);
+      expect(RegistrationFormService.validateSubmission(dob, { dob: '2005-06-15' }).errors).toEqual({});
+    });
+  });
+
+  describe('roles', () => {
+    test('should check names and roll numbers and lowercase emails', () => {
+      const form = [...accountFields, field({ id: 'roll', label: 'Roll Number', role: 'roll_number' })];
+      const { data, errors } = RegistrationFormService.validateSubmission(form, { name: 'Asha  Rao', email: 'Asha@Example.com', roll: '21 CS 001' });
+      expect(errors).toEqual({ roll: 'Roll Number can only contain letters, numbers, / and -' });
+      expect(data).toMatchObject({ name: 'Asha Rao', email: 'asha@example.com' });
+      expect(RegistrationFormService.validateSubmission(form, { name: 'PSG College of Tech 2', email: 'a@b.co' }).errors.name).toMatch(/only contain letters/);
+    });
+
+    test('should read participant details from the role fields, wherever they are', () => {
+      const form = [
+        field({ id: 'college', label: 'College Name', role: 'college' }),
+        ...accountFields,
+        field({ id: 'phone', label: 'Mobile', type: 'tel', role: 'phone' }),
+      ];
+      const data = { college: 'PSG College of Technology', name: 'Asha Rao', email: 'asha@example.com', phone: '9876543210' };
+      expect(RegistrationFormService.getParticipantDetails(form, data)).toEqual({
+        fullName: 'Asha Rao',
+        email: 'asha@example.com',
+        phone: '9876543210',
+        college: 'PSG College of Technology',
+        rollNumber: null,
+      });
+    });
+
+    test('should fall back to field types and name labels for forms without roles', () => {
+      const legacy = [
+        field({ id: 'college', label: 'College Name' }),
+        field({ id: 'name', label: 'Name' }),
+        field({ id: 'mail', label: 'Mail', type: 'email' }),
+      ];
+      const details = RegistrationFormService.getParticipantDetails(legacy, { college: 'PSG Tech', name: 'Asha Rao', mail: 'Asha@example.com' });
+      expect(details).toMatchObject({ fullName: 'Asha Rao', email: 'asha@example.com', phone: null });
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, test, expect } from '@jest/globals';
+import { ScoringService, type ScoringRules } from '../../server/services/scoringService';
+import type { Question } from '../../shared/schema';
+
+const baseQuestion: Question = {
+  id: 'q1',
+  roundId: 'r1',
+  questionType: 'multiple_choice',
+  questionText: 'What is 2 + 2?',
+  questionNumber: 1,
+  points: 4,
+  options: ['2', '3', '4', '5'],
+  correctAnswer: '4',
+  correctAnswers: null,
+  expectedOutput: null,
+  testCases: null,
+  timeLimitMs: null,
+  memoryLimitMb: null,
+  negativeMarks: null,
+  partialCredit: null,
+  tag: null,
+  difficulty: null,
+  sectionId: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const noNegative: ScoringRules = { negativeMarking: false, negativeMarks: 1, multiSelectScoring: 'all_or_nothing' };
+const withNegative: ScoringRules = { negativeMarking: true, negativeMarks: 1, multiSelectScoring: 'all_or_nothing' };
+
+describe('Scoring Service', () => {
+  describe('single choice', () => {
+    test('should award full points for a correct answer', async () => {
+      const grade = await ScoringService.gradeAnswer(baseQuestion, { answer: '4' }, withNegative);
+      expect(grade).toMatchObject({ isCorrect: true, pointsAwarded: 4 });
+    });
+
+    test('should deduct negative marks for a wrong answer', async () => {
+      const grade = await ScoringService.gradeAnswer(baseQuestion, { answer: '5' }, withNegative);
+      expect(grade).toMatchObject({ isCorrect: false, pointsAwarded: -1 });
+    });
+
+    test('should give zero for a wrong answer without negative marking', async () => {
+      const grade = await ScoringService.gradeAnswer(baseQuestion, { answer: '5' }, noNegative);
+      expect(grade.pointsAwarded).toBe(0);
+    });
+
+    test('should give zero for a skipped question even with negative marking', async () => {
+      const grade = await ScoringService.gradeAnswer(baseQuestion, { answer: '  ' }, withNegative);
+      expect(grade.pointsAwarded).toBe(0);
+    });
+
+    test('should grade questions saved as mcq', async () => {
+      const grade = await ScoringService.gradeAnswer({ ...baseQuestion, questionType: 'mcq' }, { answer: '4' }, noNegative);
+      expect(grade.isCorrect).toBe(true);
+    });
+
+    test('should let a question override the round negative marks', async () => {
+      const disabled = await ScoringService.gradeAnswer({ ...baseQuestion, negativeMarks: 0 }, { answer: '5' }, withNegative);
+      expect(disabled.pointsAwarded).toBe(0);
+
+      const heavier = await ScoringService.gradeAnswer({ ...baseQuestion, negativeMarks: 2 }, { answer: '5' }, noNegative);
+      expect(heavier.pointsAwarded).toBe(-2);
+    });
+  });
+
+  describe('multi-select', () => {
+    const multiSelect: Question = {
+      ...baseQuestion,
+      questionType: 'multiple_select',
+      options: ['A', 'B', 'C', 'D'],
+      correctAnswer: null,
+      correctAnswers: ['A', 'C'],
+    };
+    const proportional: ScoringRules = { ...noNegative, multiSelectScoring: 'proportional' };
+
+    test('should require every correct option when all or nothing', async () => {
+      const full = await ScoringService.gradeAnswer(multiSelect, { answer: JSON.stringify(['C', 'A']) }, noNegative);
+      expect(full).toMatchObject({ isCorrect: true, pointsAwarded: 4 });
+
+      const partial = await ScoringService.gradeAnswer(multiSelect, { answer: JSON.stringify(['A']) }, noNegative);
+      expect(partial).toMatchObject({ isCorrect: false, pointsAwarded: 0 });
+    });
+
+    test('should award partial credit proportionally', async () => {
+      const grade = await ScoringService.gradeAnswer(multiSelect, { answer: JSON.stringify(['A']) }, proportional);
+      expect(grade).toMatchObject({ isCorrect: false, pointsAwarded: 2 });
+    });
+
+    test('should cancel right picks with wrong picks', async () => {
+      const grade = await ScoringService.gradeAnswer(multiSelect, { answer: JSON.stringify(['A', 'B', 'C', 'D']) }, proportional);
+      expect(grade.pointsAwarded).toBe(0);
+    });
+
+    test('should apply the per-question partial credit override', async () => {
+      const grade = await ScoringService.gradeAnswer({ ...multiSelect, partialCredit: true }, { answer: JSON.stringify(['C']) }, noNegative);
+      expect(grade.pointsAwarded).toBe(2);
+    });
+
+    test('should treat an empty selection as skipped', async () => {
+      const grade = await ScoringService.gradeAnswer(multiSelect, { answer: '[]' }, withNegative);
+      expect(grade.pointsAwarded).toBe(0);
+    });
+  });
+
+  describe('manual questions', () => {
+    test('should leave short answers for a human grader', async () => {
+      const grade = await ScoringService.gradeAnswer({ ...baseQuestion, questionType: 'short_answer' }, { answer: 'Tokyo' }, withNegative);
+      expect(grade).toMatchObject({ autoGraded: false, pointsAwarded: 0 });
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, test, expect } from '@jest/globals';
+import { SectionService } from '../../server/services/sectionService';
+
+const minutes = (n: number) => n * 60 * 1000;
+const start = new Date('2025-01-01T10:00:00Z');
+const at = (offsetMinutes: number) => new Date(start.getTime() + minutes(offsetMinutes));
+
+const round = {
+  duration: 60,
+  sections: [
+    { id: 'quant', name: 'Quant', durationMinutes: 20 },
+    { id: 'verbal', name: 'Verbal', durationMinutes: 10 },
+    { id: 'logical', name: 'Logical', durationMinutes: 30 },
+  ],
+};
+
+const attempt = { startedAt: start, extraMinutes: 0, currentSection: 0, sectionStartedAt: null };
+
+describe('Section Service', () => {
+  test('should ignore rounds without sections', () => {
+    expect(SectionService.getSectionState(attempt, { duration: 60, sections: null }, at(5))).toBeNull();
+  });
+
+  test('should open the first section at the start of the attempt', () => {
+    const state = SectionService.getSectionState(attempt, round, at(5));
+    expect(state).toMatchObject({ index: 0, sectionId: 'quant', isLast: false });
+    expect(state?.deadline).toEqual(at(20));
+    expect(state?.finalDeadline).toEqual(at(60));
+  });
+
+  test('should close a section on its own when its time runs out', () => {
+    const state = SectionService.getSectionState(attempt, round, at(25));
+    expect(state).toMatchObject({ index: 1, sectionId: 'verbal' });
+    expect(state?.startedAt).toEqual(at(20));
+    expect(state?.deadline).toEqual(at(30));
+  });
+
+  test('should keep a section open during the grace window', () => {
+    const state = SectionService.getSectionState(attempt, round, new Date(at(20).getTime() + 10 * 1000), 30 * 1000);
+    expect(state?.index).toBe(0);
+  });
+
+  test('should start the next section when the participant moves on early', () => {
+    const advanced = { ...attempt, currentSection: 1, sectionStartedAt: at(12) };
+    const state = SectionService.getSectionState(advanced, round, at(15));
+    expect(state).toMatchObject({ index: 1, sectionId: 'verbal' });
+    expect(state?.deadline).toEqual(at(22));
+    expect(state?.finalDeadline).toEqual(at(52));
+  });
+
+  test('should stay on the last section once every section has run out', () => {
+    const state = SectionService.getSectionState(attempt, round, at(90));
+    expect(state).toMatchObject({ index: 2, isLast: true });
+    expect(state?.finalDeadline).toEqual(at(60));
+  });
+
+  test('should share extra time across sections in proportion to their length', () => {
+    const state = SectionService.getSectionState({ ...attempt, extraMinutes: 30 }, round, at(5));
+    expect(state?.deadline).toEqual(at(30));
+    expect(state?.finalDeadline).toEqual(at(90));
+  });
+
+  test('should put questions without a known section in the first section', () => {
+    const questions = [
+      { id: 'q1', sectionId: 'logical' },
+      { id: 'q2', sectionId: null },
+      { id: 'q3', sectionId: 'verbal' },
+      { id: 'q4', sectionId: 'deleted-section' },
+    ];
+    expect(SectionService.orderBySection(questions, round.sections).map(q => q.id)).toEqual(['q2', 'q4', 'q3', 'q1']);
+  });
+
+  test('should break scores down per section', () => {
+    const questions = [
+      { id: 'q1', points: 2, sectionId: 'quant' },
+      { id: 'q2', points: 3, sectionId: 'quant' },
+      { id: 'q3', points: 5, sectionId: 'verbal' },
+    ];
+    const answers = [
+      { questionId: 'q1', answer: '4', pointsAwarded: 2 },
+      { questionId: 'q2', answer: '7', pointsAwarded: -1 },
+    ];
+    expect(SectionService.scoreBySection(round.sections, questions, answers)).toEqual([
+      { sectionId: 'quant', name: 'Quant', score: 1, maxScore: 5, answered: 2, questionCount: 2 },
+      { sectionId: 'verbal', name: 'Verbal', score: 0, maxScore: 5, answered: 0, questionCount: 1 },
+      { sectionId: 'logical', name: 'Logical', score: 0, maxScore: 0, answered: 0, questionCount: 0 },
+    ]);
+  });
+});
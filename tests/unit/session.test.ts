@@ -0,0 +1,40 @@
+import { describe, test, expect } from '@jest/globals';
+import { SessionService } from '../../server/services/sessionService';
+
+const signedIn = { activeSessionId: 'session-1', activeClientId: 'browser-a', approvedClientId: null };
+
+describe('Session Service', () => {
+  test('should start a session when nobody is signed in', () => {
+    const credential = { activeSessionId: null, activeClientId: null, approvedClientId: null };
+    expect(SessionService.decideLogin(credential, 'browser-a', false)).toBe('new_session');
+  });
+
+  test('should let the signed-in machine sign in again, even mid-test', () => {
+    expect(SessionService.decideLogin(signedIn, 'browser-a', true)).toBe('same_device');
+  });
+
+  test('should replace the session from another machine when no test is running', () => {
+    expect(SessionService.decideLogin(signedIn, 'browser-b', false)).toBe('replace');
+    expect(SessionService.decideLogin(signedIn, null, false)).toBe('replace');
+  });
+
+  test('should block another machine while a test is in progress', () => {
+    expect(SessionService.decideLogin(signedIn, 'browser-b', true)).toBe('block');
+    expect(SessionService.isConflict('block')).toBe(true);
+    expect(SessionService.isConflict('same_device')).toBe(false);
+  });
+
+  test('should let a machine an admin approved take over', () => {
+    const approved = { ...signedIn, approvedClientId: 'browser-b' };
+    expect(SessionService.decideLogin(approved, 'browser-b', true)).toBe('approved_switch');
+    expect(SessionService.decideLogin(approved, 'browser-c', true)).toBe('block');
+  });
+
+  test('should only accept tokens from the latest session', () => {
+    expect(SessionService.isCurrentSession(signedIn, 'session-1')).toBe(true);
+    expect(SessionService.isCurrentSession(signedIn, 'session-0')).toBe(false);
+    expect(SessionService.isCurrentSession(signedIn, undefined)).toBe(false);
+    expect(SessionService.isCurrentSession({ activeSessionId: null }, undefined)).toBe(true);
+    expect(SessionService.isCurrentSession(undefined, undefined)).toBe(true);
+  });
+});
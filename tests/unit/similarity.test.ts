@@ -0,0 +1,102 @@
+import { describe, test, expect } from '@jest/globals';
+import { SimilarityService, DEFAULT_SIMILARITY_OPTIONS, type SimilaritySubmission } from '../../server/services/similarityService';
+
+const original = `
+def solve(numbers):
+    # add up the even numbers
+    total = 0
+    for n in numbers:
+        if n % 2 == 0:
+            total += n
+    return total
+
+print(solve([int(x) for x in input().split()]))
+`;
+
+// Same program with renamed variables, a different comment and different spacing
+const renamed = `
+def solve(values):
+    s = 0  # running sum
+    for v in values:
+        if v % 2 == 0:
+            s += v
+    return s
+print(solve([int(t) for t in input().split()]))
+`;
+
+const different = `
+import sys
+data = list(map(int, sys.stdin.read().split()))
+print(sum(filter(lambda x: x % 2 == 0, data)))
+`;
+
+const start = new Date('2025-01-01T10:00:00Z').getTime();
+
+function submission(userId: string, answer: string, changes: Partial<SimilaritySubmission> = {}): SimilaritySubmission {
+  return {
+    answerId: `answer-${userId}`,
+    attemptId: `attempt-${userId}`,
+    userId,
+    fullName: userId,
+    questionId: 'q1',
+    questionType: 'coding',
+    answer,
+    answeredAt: new Date(start),
+    submittedAt: new Date(start + 60 * 1000),
+    violationCount: 0,
+    ...changes,
+  };
+}
+
+describe('Similarity Service', () => {
+  test('should see through renamed variables and comments in code', () => {
+    expect(SimilarityService.tokenizeCode(original)).toEqual(SimilarityService.tokenizeCode(renamed));
+  });
+
+  test('should score copied code high and an independent solution low', () => {
+    const shingles = (code: string) => SimilarityService.shingles(SimilarityService.tokenizeCode(code), 5);
+    expect(SimilarityService.jaccard(shingles(original), shingles(renamed))).toBe(1);
+    expect(SimilarityService.jaccard(shingles(original), shingles(different))).toBeLessThan(0.2);
+  });
+
+  test('should compare prose by word n-grams regardless of case and punctuation', () => {
+    const shingles = (text: string) => SimilarityService.shingles(SimilarityService.tokenizeText(text), 3);
+    const a = shingles('A deadlock happens when two processes each hold a lock the other one needs.');
+    const b = shingles('a deadlock happens when two processes each hold a lock the other one needs');
+    expect(SimilarityService.jaccard(a, b)).toBe(1);
+  });
+
+  test('should cluster copies together and leave independent answers out', () => {
+    const result = SimilarityService.analyze([
+      submission('alice', original),
+      submission('bob', renamed, { answeredAt: new Date(start + 30 * 1000), violationCount: 2 }),
+      submission('carol', original, { answeredAt: new Date(start + 3600 * 1000) }),
+      submission('dave', different),
+    ]);
+
+    expect(result.clusters).toHaveLength(1);
+    const [cluster] = result.clusters;
+    expect(cluster.members.map((m) => m.userId).sort()).toEqual(['alice', 'bob', 'carol']);
+    expect(cluster.pairs).toHaveLength(3);
+    expect(cluster.closeTiming).toBe(true);
+    expect(cluster.totalViolations).toBe(2);
+    expect(cluster.risk).toBe('high');
+    expect(result.participants.map((p) => p.userId)).not.toContain('dave');
+  });
+
+  test('should skip answers too short to tell apart', () => {
+    const result = SimilarityService.analyze([
+      submission('alice', 'Paris', { questionType: 'short_answer' }),
+      submission('bob', 'Paris', { questionType: 'short_answer' }),
+    ]);
+    expect(result.answersSkipped).toBe(2);
+    expect(result.clusters).toHaveLength(0);
+  });
+
+  test('should fall back to default thresholds for invalid query values', () => {
+    expect(SimilarityService.parseOptions({ codeThreshold: '0.7', textThreshold: '5' })).toEqual({
+      ...DEFAULT_SIMILARITY_OPTIONS,
+      codeThreshold: 0.7,
+    });
+  });
+});
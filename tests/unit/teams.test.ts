@@ -0,0 +1,81 @@
+import { describe, test, expect } from '@jest/globals';
+import { TeamService } from '../../server/services/teamService';
+
+const hackathon = { id: 'hack', name: 'Hackathon', minTeamSize: 2, maxTeamSize: 4 };
+const quiz = { id: 'quiz', name: 'Quiz', minTeamSize: 1, maxTeamSize: 1 };
+const member = (name: string, email: string, phone?: string) => ({ fullName: name, email, ...(phone ? { phone } : {}) });
+
+describe('Team Service', () => {
+  describe('parseSettings', () => {
+    const individual = { minTeamSize: 1, maxTeamSize: 1, teamScoring: 'shared' as const };
+
+    test('should merge new settings over the current ones', () => {
+      expect(TeamService.parseSettings({ maxTeamSize: '3', teamScoring: 'average' }, individual)).toEqual({
+        value: { minTeamSize: 1, maxTeamSize: 3, teamScoring: 'average' },
+      });
+    });
+
+    test('should reject bad sizes, inverted bounds and unknown scoring', () => {
+      expect(TeamService.parseSettings({ maxTeamSize: 0 }, individual).error).toMatch(/whole numbers/);
+      expect(TeamService.parseSettings({ maxTeamSize: 2.5 }, individual).error).toMatch(/whole numbers/);
+      expect(TeamService.parseSettings({ minTeamSize: 3, maxTeamSize: 2 }, individual).error).toMatch(/cannot be above/);
+      expect(TeamService.parseSettings({ teamScoring: 'best' }, individual).error).toMatch(/Invalid team scoring/);
+    });
+  });
+
+  describe('parseEntries', () => {
+    test('should keep teams for team events only, normalised', () => {
+      const raw = {
+        hack: { name: '  Null  Pointers ', members: [member('Ravi  Kumar', 'Ravi@Example.com', '98765 43210')] },
+        quiz: { name: 'Ignored', members: [] },
+      };
+      expect(TeamService.parseEntries([hackathon, quiz], raw, 'asha@example.com')).toEqual({
+        teams: { hack: { name: 'Null Pointers', members: [member('Ravi Kumar', 'ravi@example.com', '9876543210')] } },
+      });
+    });
+
+    test('should count the registrant towards the team size', () => {
+      expect(TeamService.parseEntries([hackathon], { hack: { name: 'Solo', members: [] } }, 'asha@example.com').error).toBe(
+        'Hackathon: teams need 2 to 4 members including you',
+      );
+      const crowd = ['b', 'c', 'd', 'e'].map((n) => member(n.toUpperCase(), `${n}@example.com`));
+      expect(TeamService.parseEntries([hackathon], { hack: { name: 'Crowd', members: crowd } }, 'a@example.com').error).toMatch(/2 to 4/);
+    });
+
+    test('should require a team name and unique member emails', () => {
+      expect(TeamService.parseEntries([hackathon], {}, 'asha@example.com').error).toBe('Hackathon: enter a team name');
+      const twice = { hack: { name: 'Echo', members: [member('Asha', 'ASHA@example.com')] } };
+      expect(TeamService.parseEntries([hackathon], twice, 'asha@example.com').error).toMatch(/appears more than once/);
+      const badPhone = { hack: { name: 'Echo', members: [member('Ravi', 'ravi@example.com', '12345')] } };
+      expect(TeamService.parseEntries([hackathon], badPhone, 'asha@example.com').error).toMatch(/valid 10-digit/);
+    });
+  });
+
+  describe('rankTeams', () => {
+    const teams = [{ id: 't1', name: 'Alpha' }, { id: 't2', name: 'Beta' }, { id: 't3', name: 'Gamma' }];
+    const members = [
+      { teamId: 't1', userId: 'u1', userName: 'A1' },
+      { teamId: 't1', userId: 'u2', userName: 'A2' },
+      { teamId: 't2', userId: 'u3', userName: 'B1' },
+      { teamId: 't3', userId: 'u4', userName: 'G1' },
+    ];
+    const scores = [
+      { userId: 'u1', totalScore: 30, submittedAt: new Date('2026-02-01T10:00:00Z') },
+      { userId: 'u3', totalScore: 30, submittedAt: new Date('2026-02-01T09:00:00Z') },
+    ];
+
+    test('should rank on the summed score, earlier finish first, leaving out teams with no submission', () => {
+      const standings = TeamService.rankTeams(teams, members, scores, 'shared');
+      expect(standings.map((s) => [s.teamName, s.totalScore, s.rank])).toEqual([['Beta', 30, 1], ['Alpha', 30, 2]]);
+      expect(standings[1].members).toEqual([
+        { userId: 'u1', userName: 'A1', totalScore: 30 },
+        { userId: 'u2', userName: 'A2', totalScore: 0 },
+      ]);
+    });
+
+    test('should average over the whole team', () => {
+      const standings = TeamService.rankTeams(teams, members, [...scores, { userId: 'u2', totalScore: 5, submittedAt: null }], 'average');
+      expect(standings.map((s) => [s.teamName, s.totalScore])).toEqual([['Beta', 30], ['Alpha', 17.5]]);
+    });
+  });
+});